@@ -0,0 +1,173 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { CardioService } from '../services/CardioService';
+import { NutritionService } from '../services/NutritionService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('CardioService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let cardioService: CardioService;
+  let nutritionService: NutritionService;
+  let userId: string;
+  const today = new Date('2026-10-19T18:00:00');
+
+  const user: User = {
+    telegramId: 'cardio123',
+    profile: {
+      name: 'Tunde',
+      age: 28,
+      height: 178,
+      weight: 70,
+      bmi: 22.1,
+      fitnessGoal: 'lean',
+      trainingPhilosophy: 'custom',
+      experienceLevel: 'beginner',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '06:00', end: '07:00' }],
+      preferredWorkoutDuration: 45,
+      workoutDaysPerWeek: 3,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: true,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    cardioService = new CardioService();
+    nutritionService = new NutritionService();
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await schemas.getCardioLogsCollection().deleteMany({});
+    await schemas.getFoodLogsCollection().deleteMany({});
+    await schemas.getMealPlansCollection().deleteMany({});
+  });
+
+  describe('logCardio', () => {
+    it('should work out pace and estimate calories from body weight', async () => {
+      const result = await cardioService.logCardio(userId, {
+        activity: 'running',
+        durationMinutes: 28,
+        distanceKm: 5,
+        performedAt: today,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.paceMinPerKm).toBe(5.6);
+      expect(result.data?.caloriesBurned).toBe(359);
+      expect(await schemas.getCardioLogsCollection().countDocuments({ userId: new ObjectId(userId) })).toBe(1);
+    });
+
+    it('should keep calories read off a watch', async () => {
+      const result = await cardioService.logCardio(userId, {
+        activity: 'football',
+        durationMinutes: 90,
+        caloriesBurned: 700,
+      });
+
+      expect(result.data?.caloriesBurned).toBe(700);
+      expect(result.data?.paceMinPerKm).toBeUndefined();
+    });
+
+    it('should reject an invalid activity', async () => {
+      const result = await cardioService.logCardio(userId, { activity: 'sleeping' as any, durationMinutes: 30 });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should return USER_NOT_FOUND for an unknown user', async () => {
+      const result = await cardioService.logCardio(new ObjectId().toString(), { activity: 'walking', durationMinutes: 30 });
+
+      expect(result.error?.code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('getCardioLogs', () => {
+    it('should list logs in the range, newest first', async () => {
+      await cardioService.logCardio(userId, { activity: 'walking', durationMinutes: 30, performedAt: new Date('2026-10-10T07:00:00') });
+      await cardioService.logCardio(userId, { activity: 'cycling', durationMinutes: 45, performedAt: new Date('2026-10-15T07:00:00') });
+      await cardioService.logCardio(userId, { activity: 'running', durationMinutes: 20, performedAt: new Date('2026-10-18T07:00:00') });
+
+      const result = await cardioService.getCardioLogs(userId, { from: new Date('2026-10-12') });
+
+      expect(result.data?.map(log => log.activity)).toEqual(['running', 'cycling']);
+    });
+  });
+
+  describe('daily nutrition balance', () => {
+    it('should add calories burned back to the day\'s allowance', async () => {
+      await schemas.getMealPlansCollection().insertOne({
+        userId: new ObjectId(userId),
+        dailyCalories: 2000,
+        macroTargets: { protein: 140, carbs: 200, fats: 60 },
+        meals: [],
+        culturalPreferences: [],
+        budgetTier: 'low',
+        createdAt: new Date(),
+        isActive: true,
+      });
+      await schemas.getFoodLogsCollection().insertOne({
+        userId: new ObjectId(userId),
+        timestamp: new Date('2026-10-19T13:00:00'),
+        items: [],
+        totalCalories: 1200,
+        totalMacros: { protein: 60, carbs: 150, fats: 40 },
+      });
+      await cardioService.logCardio(userId, { activity: 'running', durationMinutes: 30, caloriesBurned: 300, performedAt: today });
+      // Yesterday's run doesn't count towards today
+      await cardioService.logCardio(userId, {
+        activity: 'running', durationMinutes: 30, caloriesBurned: 300, performedAt: new Date('2026-10-18T18:00:00'),
+      });
+
+      const result = await nutritionService.getDailyBalance(userId, today);
+
+      expect(result.data).toMatchObject({
+        calorieTarget: 2000,
+        caloriesConsumed: 1200,
+        caloriesBurned: 300,
+        netCalories: 900,
+        remainingCalories: 1100,
+      });
+    });
+
+    it('should leave out the target without an active meal plan', async () => {
+      const result = await nutritionService.getDailyBalance(userId, today);
+
+      expect(result.data?.calorieTarget).toBeUndefined();
+      expect(result.data?.remainingCalories).toBeUndefined();
+    });
+  });
+});
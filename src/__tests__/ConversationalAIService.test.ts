@@ -1,5 +1,6 @@
 import { MongoMemoryServer } from 'mongodb-memory-server';
-import { MongoClient, Db } from 'mongodb';
+import sharp from 'sharp';
+import { MongoClient, Db, ObjectId } from 'mongodb';
 import { ConversationalAIService } from '../services/ConversationalAIService';
 import { OpenRouterClient } from '../services/OpenRouterClient';
 import { UserService } from '../services/UserService';
@@ -256,6 +257,17 @@ describe('ConversationalAIService', () => {
       expect(conversations[0].context.sessionData?.sessionId).toBe('session123');
     });
 
+    it('should only finish the workout when the user is done with it, not an exercise', () => {
+      const isFinishingWorkout = (message: string) => (aiService as any).isFinishingWorkout(message);
+
+      expect(isFinishingWorkout('I\'m done with squats, moving to lunges')).toBe(false);
+      expect(isFinishingWorkout('I\'m done with squats 3x5 100kg')).toBe(false);
+      expect(isFinishingWorkout('bench all done')).toBe(false);
+      expect(isFinishingWorkout('I\'m done!')).toBe(true);
+      expect(isFinishingWorkout('that\'s all for today')).toBe(true);
+      expect(isFinishingWorkout('finished my workout')).toBe(true);
+    });
+
     it('should handle user not found in workout session', async () => {
       mockUserService.getUserById.mockResolvedValue({
         success: false,
@@ -269,38 +281,119 @@ describe('ConversationalAIService', () => {
   });
 
   describe('analyzeImage', () => {
-    beforeEach(() => {
-      mockOpenRouterClient.analyzeImage.mockResolvedValue({
-        id: 'test',
-        object: 'chat.completion',
-        created: 123,
-        model: 'test',
-        choices: [
-          {
-            index: 0,
-            message: {
-              role: 'assistant',
-              content: 'I can see rice and chicken, approximately 450 calories total.',
-            },
-            finish_reason: 'stop',
+    const userId = new ObjectId('507f1f77bcf86cd799439011');
+    let imageBuffer: Buffer;
+
+    const visionReply = (content: string) => ({
+      id: 'test',
+      object: 'chat.completion',
+      created: 123,
+      model: 'test',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant' as const,
+            content,
           },
-        ],
-        usage: { prompt_tokens: 10, completion_tokens: 15, total_tokens: 25 },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: { prompt_tokens: 10, completion_tokens: 15, total_tokens: 25 },
+    });
+
+    beforeAll(async () => {
+      imageBuffer = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#c66a1e' } }).png().toBuffer();
+      await schemas.getUsersCollection().insertOne({ _id: userId, telegramId: 'photo123' } as any);
+      await schemas.getFoodItemsCollection().insertOne({
+        name: 'Jollof Rice',
+        localNames: ['jollof'],
+        category: 'rice_dish',
+        caloriesPerGram: 1.75,
+        macros: { protein: 3, carbs: 30, fats: 5 },
+        availability: 'common',
+        averagePrice: 2500,
+      });
+    });
+
+    beforeEach(() => {
+      mockOpenRouterClient.analyzeImage.mockResolvedValue(visionReply(
+        '{"items": [{"name": "Jollof Rice", "portionGrams": 200, "confidence": 0.9}, {"name": "Mystery Stew", "portionGrams": 100, "confidence": 0.4}]}'
+      ));
+      mockUserService.getUserById.mockResolvedValue({
+        success: true,
+        data: { _id: userId } as any,
       });
     });
 
     it('should analyze food image successfully', async () => {
-      const imageBuffer = Buffer.from('fake-image-data');
-      
-      const result = await aiService.analyzeImage(
-        '507f1f77bcf86cd799439011',
-        imageBuffer,
-        'food_analysis'
+      const result = await aiService.analyzeImage('507f1f77bcf86cd799439011', imageBuffer);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.detectedItems).toHaveLength(2);
+      expect(result.data?.foodLog?.items).toEqual([
+        expect.objectContaining({ foodName: 'Jollof Rice', quantity: 200, calories: 350 }),
+      ]);
+      expect(result.data?.unmatchedItems).toEqual(['Mystery Stew']);
+      expect(result.data?.totalCalories).toBe(350);
+      expect(result.data?.confidence).toBe(0.9);
+      expect(result.data?.message).toContain('Jollof Rice: 200g');
+      expect(mockOpenRouterClient.analyzeImage).toHaveBeenCalledWith(
+        imageBuffer.toString('base64'),
+        expect.any(String),
+        { mimeType: 'image/png' }
       );
+    });
+
+    it('should wait for the user to save or correct the foods', async () => {
+      await aiService.analyzeImage('507f1f77bcf86cd799439011', imageBuffer);
+      expect(await schemas.getFoodLogsCollection().countDocuments({ userId })).toBe(0);
+
+      const corrected = await aiService.processMessage('507f1f77bcf86cd799439011', 'rice 300g');
+      expect(corrected.data?.message).toContain('Jollof Rice: 300g');
+
+      const saved = await aiService.processMessage('507f1f77bcf86cd799439011', 'save');
+      expect(saved.data?.metadata?.foodLogSaved).toBe(true);
+
+      const foodLog = await schemas.getFoodLogsCollection().findOne({ userId });
+      expect(foodLog?.totalCalories).toBe(525);
+      expect(foodLog?.analysisConfidence).toBe(1);
+    });
+
+    it('should leave a yes to a "Did you mean" question alone', async () => {
+      await schemas.getFoodLogsCollection().deleteMany({});
+      mockOpenRouterClient.generateResponse.mockResolvedValue('Got it!');
+      await aiService.analyzeImage('507f1f77bcf86cd799439011', imageBuffer);
+      await schemas.getConversationsCollection().updateOne({ userId }, {
+        $set: {
+          'context.currentActivity': 'workout',
+          'context.sessionData.pendingExerciseMatch': {
+            input: 'benchh',
+            exerciseName: 'Barbell Bench Press',
+            confidence: 0.7,
+            sets: [{ reps: 10, weight: 60 }],
+          },
+        },
+      });
+
+      const result = await aiService.processMessage('507f1f77bcf86cd799439011', 'yes');
+
+      expect(result.data?.metadata?.foodLogSaved).toBeUndefined();
+      expect(await schemas.getFoodLogsCollection().countDocuments({ userId })).toBe(0);
+      const conversation = await schemas.getConversationsCollection().findOne({ userId });
+      expect(conversation?.context.sessionData?.pendingFoodLog).toBeDefined();
+    });
+
+    it('should pass on a reply that is not JSON', async () => {
+      mockOpenRouterClient.analyzeImage.mockResolvedValue(visionReply(
+        'I can see rice and chicken, approximately 450 calories total.'
+      ));
+
+      const result = await aiService.analyzeImage('507f1f77bcf86cd799439011', imageBuffer);
 
       expect(result.success).toBe(true);
       expect(result.data?.message).toContain('rice and chicken');
-      expect(result.data?.confidence).toBeDefined();
+      expect(result.data?.foodLog).toBeUndefined();
     });
 
     it('should handle image analysis errors', async () => {
@@ -308,8 +401,6 @@ describe('ConversationalAIService', () => {
         new Error('Image analysis failed')
       );
 
-      const imageBuffer = Buffer.from('fake-image-data');
-      
       const result = await aiService.analyzeImage(
         '507f1f77bcf86cd799439011',
         imageBuffer
@@ -318,6 +409,13 @@ describe('ConversationalAIService', () => {
       expect(result.success).toBe(false);
       expect(result.error?.userMessage).toContain('trouble analyzing');
     });
+
+    it('should reject data that isn\'t an image', async () => {
+      const result = await aiService.analyzeImage('507f1f77bcf86cd799439011', Buffer.from('fake-image-data'));
+
+      expect(result.error?.code).toBe('INVALID_IMAGE');
+      expect(mockOpenRouterClient.analyzeImage).not.toHaveBeenCalled();
+    });
   });
 
   describe('getConversationHistory', () => {
@@ -0,0 +1,149 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db } from 'mongodb';
+import { ExerciseService } from '../services/ExerciseService';
+import { DatabaseSchemas } from '../database/schemas';
+import { EXERCISE_LIBRARY, seedExercises } from '../database/seeds/exercises';
+import { database } from '../database/connection';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('ExerciseService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let exerciseService: ExerciseService;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    exerciseService = new ExerciseService();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  describe('seedExercises', () => {
+    it('should load the whole library', async () => {
+      const count = await schemas.getExercisesCollection().countDocuments();
+      expect(count).toBe(EXERCISE_LIBRARY.length);
+      expect(count).toBeGreaterThanOrEqual(300);
+    });
+
+    it('should be safe to run again', async () => {
+      const inserted = await seedExercises(schemas.getExercisesCollection());
+
+      expect(inserted).toBe(0);
+      expect(await schemas.getExercisesCollection().countDocuments()).toBe(EXERCISE_LIBRARY.length);
+    });
+
+    it('should not reuse a local name across exercises', () => {
+      const names = EXERCISE_LIBRARY.flatMap(exercise => [exercise.name, ...exercise.localNames])
+        .map(name => name.toLowerCase());
+
+      expect(new Set(names).size).toBe(names.length);
+    });
+  });
+
+  describe('searchExercises', () => {
+    it('should filter by muscle group, equipment and difficulty', async () => {
+      const result = await exerciseService.searchExercises({
+        muscleGroup: 'chest',
+        equipment: 'dumbbell',
+        difficulty: 'beginner',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.length).toBeGreaterThan(0);
+      result.data!.forEach(exercise => {
+        expect(exercise.muscleGroups).toContain('chest');
+        expect(exercise.equipment).toContain('dumbbell');
+        expect(exercise.difficulty).toBe('beginner');
+      });
+    });
+
+    it('should match local names in the text query', async () => {
+      const result = await exerciseService.searchExercises({ query: 'pumping' });
+
+      expect(result.data?.map(exercise => exercise.name)).toContain('Push Up');
+    });
+
+    it('should page results', async () => {
+      const result = await exerciseService.searchExercises({ muscleGroup: 'back' }, 2, 5);
+
+      expect(result.data).toHaveLength(5);
+      expect(result.metadata?.page).toBe(2);
+      expect(result.metadata?.totalPages).toBe(Math.ceil(result.metadata?.total / 5));
+    });
+  });
+
+  describe('getExerciseById', () => {
+    it('should return EXERCISE_NOT_FOUND for an unknown ID', async () => {
+      const result = await exerciseService.getExerciseById('507f1f77bcf86cd799439011');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('EXERCISE_NOT_FOUND');
+    });
+  });
+
+  describe('resolveExercise', () => {
+    it('should resolve a library name case-insensitively', async () => {
+      const result = await exerciseService.resolveExercise('barbell back squat');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.name).toBe('Barbell Back Squat');
+    });
+
+    it('should resolve a local name', async () => {
+      const result = await exerciseService.resolveExercise('Bench Press');
+
+      expect(result.data?.name).toBe('Barbell Bench Press');
+    });
+
+    it('should not treat the name as a pattern', async () => {
+      const result = await exerciseService.resolveExercise('.*');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('EXERCISE_NOT_FOUND');
+    });
+  });
+
+  describe('matchExercise', () => {
+    it('should resolve typos with a confidence score', async () => {
+      const result = await exerciseService.matchExercise('squart');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.exercise.name).toBe('Barbell Back Squat');
+      expect(result.data?.exercise._id).toBeDefined();
+      expect(result.data?.confidence).toBeGreaterThan(0);
+      expect(result.data?.confidence).toBeLessThan(1);
+    });
+
+    it('should list alternatives for "did you mean" questions', async () => {
+      const result = await exerciseService.matchExercise('incline db press');
+
+      expect(result.metadata?.alternatives.length).toBeGreaterThan(0);
+    });
+
+    it('should return NO_EXERCISE_MATCH for unrelated text', async () => {
+      const result = await exerciseService.matchExercise('what time is it');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NO_EXERCISE_MATCH');
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { FatigueService } from '../services/FatigueService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { ExerciseLog, DeloadWeek } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('FatigueService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let fatigueService: FatigueService;
+  const userId = '507f1f77bcf86cd799439011';
+  const now = new Date('2026-10-21T18:00:00'); // a Wednesday
+  const day = 86400000;
+
+  const createPlan = async (deload?: DeloadWeek) => {
+    await schemas.getWorkoutPlansCollection().insertOne({
+      userId: new ObjectId(userId),
+      planType: 'full_body',
+      philosophy: 'arnold',
+      schedule: [{
+        dayOfWeek: 'Monday',
+        muscleGroups: ['chest', 'legs'],
+        exercises: [
+          { exerciseName: 'Barbell Bench Press', sets: 3, reps: '8-12', restTime: 120 },
+          { exerciseName: 'Barbell Back Squat', sets: 3, reps: '8-12', restTime: 120 },
+        ],
+        estimatedDuration: 45,
+      }],
+      createdAt: new Date(),
+      isActive: true,
+      ...(deload && { deload }),
+    });
+  };
+
+  const addSession = async (daysAgo: number, exercises: ExerciseLog[]) => {
+    await schemas.getWorkoutSessionsCollection().insertOne({
+      userId: new ObjectId(userId),
+      startTime: new Date(now.getTime() - daysAgo * day),
+      exercises,
+      isCompleted: true,
+    });
+  };
+
+  // Six weeks of twice-weekly training: steady until the last three
+  // sessions, which stall, drop volume, miss reps and feel hard
+  const addFatiguedHistory = async () => {
+    const daysAgo = [40, 37, 33, 30, 26, 23, 19, 16, 12, 9, 5, 2];
+    for (const [index, ago] of daysAgo.entries()) {
+      const fatigued = index >= daysAgo.length - 3;
+      const sets = fatigued
+        ? [{ reps: 6, weight: 80, rpe: 9.5 }, { reps: 5, weight: 80, rpe: 10 }]
+        : [{ reps: 10, weight: 80 }, { reps: 10, weight: 80 }, { reps: 10, weight: 80 }];
+      await addSession(ago, [
+        { exerciseName: 'Barbell Bench Press', sets },
+        { exerciseName: 'Barbell Back Squat', sets },
+      ]);
+    }
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    fatigueService = new FatigueService();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutPlansCollection().deleteMany({});
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+  });
+
+  describe('assessFatigue', () => {
+    it('should find no fatigue in steady training', async () => {
+      await createPlan();
+      for (const ago of [12, 9, 5, 2]) {
+        await addSession(ago, [{ exerciseName: 'Barbell Bench Press', sets: [{ reps: 10, weight: 60, rpe: 7 }] }]);
+      }
+
+      const result = await fatigueService.assessFatigue(userId, now);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.signals).toEqual([]);
+      expect(result.data?.needsDeload).toBe(false);
+    });
+
+    it('should flag high RPE, stalled lifts, missed reps and falling volume', async () => {
+      await createPlan();
+      await addFatiguedHistory();
+
+      const result = await fatigueService.assessFatigue(userId, now);
+      const types = result.data!.signals.map(signal => signal.type);
+
+      expect(types).toEqual(['high_rpe', 'stalled_lifts', 'missed_reps', 'volume_drop']);
+      expect(result.data?.needsDeload).toBe(true);
+      expect(result.data?.signals[1].reason).toContain('Barbell Bench Press, Barbell Back Squat');
+    });
+
+    it('should reject an invalid user ID', async () => {
+      const result = await fatigueService.assessFatigue('invalid', now);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Invalid user ID format');
+    });
+  });
+
+  describe('scheduleDeloadIfNeeded', () => {
+    it('should schedule a pending deload from next Monday', async () => {
+      await createPlan();
+      await addFatiguedHistory();
+
+      const result = await fatigueService.scheduleDeloadIfNeeded(userId, now);
+      const plan = await schemas.getWorkoutPlansCollection().findOne({ userId: new ObjectId(userId) });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.status).toBe('pending');
+      expect(result.data?.startDate).toEqual(new Date('2026-10-26T00:00:00'));
+      expect(result.data?.endDate).toEqual(new Date('2026-11-02T00:00:00'));
+      expect(result.data?.reasons.length).toBeGreaterThanOrEqual(2);
+      expect(plan?.deload?.status).toBe('pending');
+    });
+
+    it('should not schedule a deload without enough fatigue', async () => {
+      await createPlan();
+
+      const result = await fatigueService.scheduleDeloadIfNeeded(userId, now);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeNull();
+    });
+
+    it('should leave a recent deload alone', async () => {
+      await createPlan({
+        status: 'accepted',
+        startDate: new Date(now.getTime() - 20 * day),
+        endDate: new Date(now.getTime() - 13 * day),
+        reasons: [],
+        scheduledAt: new Date(now.getTime() - 22 * day),
+      });
+      await addFatiguedHistory();
+
+      const result = await fatigueService.scheduleDeloadIfNeeded(userId, now);
+
+      expect(result.data).toBeNull();
+    });
+  });
+
+  describe('respondToDeload', () => {
+    const pendingDeload: DeloadWeek = {
+      status: 'pending',
+      startDate: new Date('2026-10-26T00:00:00'),
+      endDate: new Date('2026-11-02T00:00:00'),
+      reasons: ['Your sets have averaged RPE 9.5 over the last two weeks'],
+      scheduledAt: now,
+    };
+
+    it('should accept the pending deload', async () => {
+      await createPlan(pendingDeload);
+
+      const result = await fatigueService.respondToDeload(userId, true, now);
+      const plan = await schemas.getWorkoutPlansCollection().findOne({ userId: new ObjectId(userId) });
+
+      expect(result.success).toBe(true);
+      expect(plan?.deload?.status).toBe('accepted');
+      expect(plan?.deload?.startDate).toEqual(pendingDeload.startDate);
+    });
+
+    it('should postpone the deload by a week', async () => {
+      await createPlan(pendingDeload);
+
+      const result = await fatigueService.respondToDeload(userId, false, now);
+
+      expect(result.data?.status).toBe('postponed');
+      expect(result.data?.startDate).toEqual(new Date('2026-11-02T00:00:00'));
+      expect(result.data?.endDate).toEqual(new Date('2026-11-09T00:00:00'));
+    });
+
+    it('should accept a postponed deload on its new dates', async () => {
+      await createPlan(pendingDeload);
+      await fatigueService.respondToDeload(userId, false, now);
+
+      const result = await fatigueService.respondToDeload(userId, true, now);
+
+      expect(result.data?.status).toBe('accepted');
+      expect(result.data?.startDate).toEqual(new Date('2026-11-02T00:00:00'));
+    });
+
+    it('should not accept or postpone a deload week that has passed', async () => {
+      await createPlan(pendingDeload);
+      const later = new Date('2026-11-04T09:00:00');
+
+      const accepted = await fatigueService.respondToDeload(userId, true, later);
+      const postponed = await fatigueService.respondToDeload(userId, false, later);
+      const plan = await schemas.getWorkoutPlansCollection().findOne({ userId: new ObjectId(userId) });
+
+      expect(accepted.error?.code).toBe('DELOAD_PASSED');
+      expect(postponed.error?.code).toBe('DELOAD_PASSED');
+      expect(plan?.deload).toEqual(pendingDeload);
+    });
+
+    it('should return NO_PENDING_DELOAD when nothing is waiting', async () => {
+      await createPlan();
+
+      const result = await fatigueService.respondToDeload(userId, true, now);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NO_PENDING_DELOAD');
+    });
+  });
+});
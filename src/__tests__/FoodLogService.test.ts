@@ -0,0 +1,134 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db } from 'mongodb';
+import { FoodLogService } from '../services/FoodLogService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('FoodLogService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let foodLogService: FoodLogService;
+  let userId: string;
+
+  const user: User = {
+    telegramId: 'foodlog123',
+    profile: {
+      name: 'Tunde',
+      age: 29,
+      height: 178,
+      weight: 80,
+      bmi: 25.2,
+      fitnessGoal: 'lean',
+      trainingPhilosophy: 'custom',
+      experienceLevel: 'beginner',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '06:00', end: '07:00' }],
+      preferredWorkoutDuration: 45,
+      workoutDaysPerWeek: 3,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: true,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    foodLogService = new FoodLogService();
+
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await schemas.getFoodLogsCollection().deleteMany({});
+  });
+
+  describe('buildFoodLog', () => {
+    it('should match foods by name or local name without saving', async () => {
+      const result = await foodLogService.buildFoodLog(userId, [
+        { name: 'jollof rice', portionGrams: 250, confidence: 0.9 },
+        { name: 'fried plantain', portionGrams: 80, confidence: 0.6 },
+        { name: 'Mystery Stew', portionGrams: 100, confidence: 0.3 },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.foodLog.items.map(food => food.foodName)).toEqual(['Jollof Rice', 'Dodo']);
+      expect(result.data?.unmatchedItems).toEqual(['Mystery Stew']);
+      expect(result.data?.foodLog.analysisConfidence).toBe(0.75);
+      expect(result.data?.foodLog.totalCalories).toBe(
+        result.data!.foodLog.items.reduce((total, food) => total + food.calories, 0)
+      );
+      expect(await schemas.getFoodLogsCollection().countDocuments()).toBe(0);
+    });
+
+    it('should return USER_NOT_FOUND for an unknown user', async () => {
+      const result = await foodLogService.buildFoodLog('507f1f77bcf86cd799439011', [
+        { name: 'Jollof Rice', portionGrams: 250, confidence: 0.9 },
+      ]);
+
+      expect(result.error?.code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('saveFoodLog', () => {
+    it('should save the food log with its nutrition and confidence', async () => {
+      const result = await foodLogService.saveFoodLog(userId, [
+        { name: 'Amala', portionGrams: 300, confidence: 0.8 },
+        { name: 'Ewedu Soup', portionGrams: 150, confidence: 1 },
+      ]);
+
+      expect(result.success).toBe(true);
+      const saved = await schemas.getFoodLogsCollection().findOne({ _id: result.data!._id });
+      expect(saved?.items).toHaveLength(2);
+      expect(saved?.totalCalories).toBeGreaterThan(0);
+      expect(saved?.analysisConfidence).toBe(0.9);
+    });
+
+    it('should not save a log without any known foods', async () => {
+      const result = await foodLogService.saveFoodLog(userId, [
+        { name: 'Mystery Stew', portionGrams: 100, confidence: 0.3 },
+      ]);
+
+      expect(result.error?.code).toBe('FOOD_NOT_FOUND');
+      expect(await schemas.getFoodLogsCollection().countDocuments()).toBe(0);
+    });
+
+    it('should reject a missing portion', async () => {
+      const result = await foodLogService.saveFoodLog(userId, [
+        { name: 'Amala', portionGrams: NaN, confidence: 1 },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('Amala');
+    });
+  });
+});
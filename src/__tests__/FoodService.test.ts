@@ -0,0 +1,124 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db } from 'mongodb';
+import { FoodService } from '../services/FoodService';
+import { DatabaseSchemas } from '../database/schemas';
+import { FOOD_SEED_VERSION, NIGERIAN_FOODS, seedFoods } from '../database/seeds/foods';
+import { database } from '../database/connection';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('FoodService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let foodService: FoodService;
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    foodService = new FoodService();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  describe('seedFoods', () => {
+    it('should load the whole dataset at the current version', async () => {
+      const count = await schemas.getFoodItemsCollection().countDocuments({ seedVersion: FOOD_SEED_VERSION });
+      expect(count).toBe(NIGERIAN_FOODS.length);
+      expect(count).toBeGreaterThanOrEqual(100);
+    });
+
+    it('should be safe to run again', async () => {
+      const inserted = await seedFoods(schemas.getFoodItemsCollection());
+
+      expect(inserted).toBe(0);
+      expect(await schemas.getFoodItemsCollection().countDocuments()).toBe(NIGERIAN_FOODS.length);
+    });
+
+    it('should update foods seeded by an older version in place', async () => {
+      const collection = schemas.getFoodItemsCollection();
+      const before = await collection.findOne({ name: 'Eba' });
+      await collection.updateOne({ name: 'Eba' }, { $set: { seedVersion: FOOD_SEED_VERSION - 1, averagePrice: 1 } });
+
+      const inserted = await seedFoods(collection);
+      const after = await collection.findOne({ name: 'Eba' });
+
+      expect(inserted).toBe(0);
+      expect(after?._id).toEqual(before?._id);
+      expect(after?.seedVersion).toBe(FOOD_SEED_VERSION);
+      expect(after?.averagePrice).toBe(before?.averagePrice);
+    });
+
+    it('should not reuse a local name across foods', () => {
+      const names = NIGERIAN_FOODS.flatMap(food => [food.name, ...food.localNames])
+        .map(name => name.toLowerCase());
+
+      expect(new Set(names).size).toBe(names.length);
+    });
+  });
+
+  describe('searchFoods', () => {
+    it('should match local names in the text query', async () => {
+      const result = await foodService.searchFoods({ query: 'iyan' });
+
+      expect(result.data?.map(food => food.name)).toContain('Pounded Yam');
+    });
+
+    it('should filter by category and price', async () => {
+      const result = await foodService.searchFoods({ category: 'swallow', maxPrice: 1000 }, 1, 100);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.length).toBeGreaterThan(0);
+      result.data!.forEach(food => {
+        expect(food.category).toBe('swallow');
+        expect(food.averagePrice).toBeLessThanOrEqual(1000);
+      });
+    });
+
+    it('should reject a price that is not a positive number', async () => {
+      const result = await foodService.searchFoods({ maxPrice: NaN });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('getFoodById', () => {
+    it('should return FOOD_NOT_FOUND for an unknown ID', async () => {
+      const result = await foodService.getFoodById('507f1f77bcf86cd799439011');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('FOOD_NOT_FOUND');
+    });
+  });
+
+  describe('resolveFood', () => {
+    it('should resolve a local name case-insensitively', async () => {
+      const result = await foodService.resolveFood('Akpu');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.name).toBe('Fufu');
+    });
+
+    it('should not treat the name as a pattern', async () => {
+      const result = await foodService.resolveFood('.*');
+
+      expect(result.error?.code).toBe('FOOD_NOT_FOUND');
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db } from 'mongodb';
+import { MealPlanService } from '../services/MealPlanService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('MealPlanService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let mealPlanService: MealPlanService;
+  let userId: string;
+
+  const user: User = {
+    telegramId: 'meals123',
+    profile: {
+      name: 'Aisha',
+      age: 26,
+      height: 165,
+      weight: 62,
+      bmi: 22.8,
+      fitnessGoal: 'maintain',
+      trainingPhilosophy: 'custom',
+      experienceLevel: 'beginner',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '06:00', end: '07:00' }],
+      preferredWorkoutDuration: 45,
+      workoutDaysPerWeek: 3,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: true,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    mealPlanService = new MealPlanService();
+
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await schemas.getMealPlansCollection().deleteMany({});
+  });
+
+  describe('generateMealPlan', () => {
+    it('should save an active plan of foods from the database', async () => {
+      const result = await mealPlanService.generateMealPlan(userId, { budgetTier: 'low', culturalPreferences: ['halal'] });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.meals).toHaveLength(4);
+      expect(result.data?.budgetTier).toBe('low');
+      expect(result.metadata?.totalCost).toBeLessThanOrEqual(result.metadata?.dailyBudget);
+
+      const foodIds = result.data!.meals.flatMap(meal => meal.foods.map(food => food.foodId));
+      const foods = await schemas.getFoodItemsCollection().find({ _id: { $in: foodIds } }).toArray();
+      expect(foods.some(food => food.dietaryTags?.includes('pork'))).toBe(false);
+
+      const active = await mealPlanService.getActiveMealPlan(userId);
+      expect(active.data?._id).toEqual(result.data?._id);
+    });
+
+    it('should replace the active plan, keeping its budget and preferences', async () => {
+      const first = await mealPlanService.generateMealPlan(userId, { budgetTier: 'high', culturalPreferences: ['no_pork'] });
+      const second = await mealPlanService.generateMealPlan(userId);
+
+      expect(second.data?.budgetTier).toBe('high');
+      expect(second.data?.culturalPreferences).toEqual(['no_pork']);
+      expect(second.metadata?.previousPlanId).toEqual(first.data?._id);
+      expect(await schemas.getMealPlansCollection().countDocuments({ isActive: true })).toBe(1);
+    });
+
+    it('should reject an unknown preference', async () => {
+      const result = await mealPlanService.generateMealPlan(userId, { culturalPreferences: ['no_snails'] });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('no_snails');
+    });
+
+    it('should return USER_NOT_FOUND for an unknown user', async () => {
+      const result = await mealPlanService.generateMealPlan('507f1f77bcf86cd799439011');
+
+      expect(result.error?.code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('getActiveMealPlan', () => {
+    it('should return MEAL_PLAN_NOT_FOUND without a plan', async () => {
+      const result = await mealPlanService.getActiveMealPlan(userId);
+
+      expect(result.error?.code).toBe('MEAL_PLAN_NOT_FOUND');
+    });
+  });
+
+  describe('formatMealPlan', () => {
+    it('should list each meal with portions and cost', async () => {
+      const result = await mealPlanService.generateMealPlan(userId);
+      const text = mealPlanService.formatMealPlan(result.data!);
+
+      expect(text).toContain('Breakfast:');
+      expect(text).toContain(`${result.data!.meals[1].foods[0].foodName}: ${result.data!.meals[1].foods[0].quantity}g`);
+      expect(text).toContain('medium budget');
+    });
+  });
+});
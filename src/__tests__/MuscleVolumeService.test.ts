@@ -0,0 +1,169 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { MuscleVolumeService } from '../services/MuscleVolumeService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User, ExerciseLog } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('MuscleVolumeService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let muscleVolumeService: MuscleVolumeService;
+  let userId: string;
+  const now = new Date('2026-10-21T12:00:00');
+  const day = 86400000;
+
+  const user: User = {
+    telegramId: 'volume123',
+    profile: {
+      name: 'Ada',
+      age: 30,
+      height: 170,
+      weight: 65,
+      bmi: 22.5,
+      fitnessGoal: 'maintain',
+      trainingPhilosophy: 'custom',
+      experienceLevel: 'intermediate',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '18:00', end: '20:00' }],
+      preferredWorkoutDuration: 60,
+      workoutDaysPerWeek: 3,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: false,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const addSession = async (daysAgo: number, exercises: ExerciseLog[]) => {
+    await schemas.getWorkoutSessionsCollection().insertOne({
+      userId: new ObjectId(userId),
+      startTime: new Date(now.getTime() - daysAgo * day),
+      exercises,
+      isCompleted: true,
+    });
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    muscleVolumeService = new MuscleVolumeService();
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+  });
+
+  describe('getWeeklyMuscleVolume', () => {
+    it('should count hard sets for the primary muscle and half for the rest', async () => {
+      await addSession(2, [
+        { exerciseName: 'bench press', sets: [{ reps: 8, weight: 70 }, { reps: 8, weight: 70 }] },
+      ]);
+
+      const { muscleGroups } = (await muscleVolumeService.getWeeklyMuscleVolume(userId, now)).data!;
+      const chest = muscleGroups.find(group => group.muscleGroup === 'chest')!;
+
+      expect(chest.hardSets).toBe(2);
+      expect(muscleGroups.find(group => group.muscleGroup === 'triceps')!.hardSets).toBe(1);
+      expect(chest.recommended).toEqual({ min: 10, max: 20 });
+      expect(chest.status).toBe('below');
+      expect(chest.daysSinceTrained).toBe(2);
+    });
+
+    it('should skip warm-ups and drop sets', async () => {
+      await addSession(1, [
+        {
+          exerciseName: 'squat',
+          sets: [
+            { reps: 10, weight: 60, rpe: 5 },
+            { reps: 5, weight: 100, rpe: 8 },
+            { reps: 8, weight: 80, dropSet: true },
+          ],
+        },
+      ]);
+
+      const { muscleGroups } = (await muscleVolumeService.getWeeklyMuscleVolume(userId, now)).data!;
+
+      expect(muscleGroups.find(group => group.muscleGroup === 'quads')!.hardSets).toBe(1);
+    });
+
+    it('should compare against the range for the training philosophy', async () => {
+      await schemas.getUsersCollection().updateOne(
+        { _id: new ObjectId(userId) },
+        { $set: { 'profile.trainingPhilosophy': 'mentzer' } }
+      );
+      await addSession(1, [
+        { exerciseName: 'bench press', sets: Array.from({ length: 4 }, () => ({ reps: 6, weight: 80, toFailure: true })) },
+      ]);
+
+      const report = (await muscleVolumeService.getWeeklyMuscleVolume(userId, now)).data!;
+      await schemas.getUsersCollection().updateOne(
+        { _id: new ObjectId(userId) },
+        { $set: { 'profile.trainingPhilosophy': 'custom' } }
+      );
+
+      expect(report.philosophy).toBe('mentzer');
+      expect(report.muscleGroups.find(group => group.muscleGroup === 'chest')!.status).toBe('within');
+    });
+
+    it('should flag muscle groups not trained for a week', async () => {
+      await addSession(10, [{ exerciseName: 'rdl', sets: [{ reps: 8, weight: 80 }] }]);
+      await addSession(1, [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }]);
+
+      const report = (await muscleVolumeService.getWeeklyMuscleVolume(userId, now)).data!;
+      const neglected = report.neglected.map(group => group.muscleGroup);
+
+      expect(neglected).toContain('chest');
+      expect(neglected).not.toContain('quads');
+      expect(report.neglected.find(group => group.muscleGroup === 'hamstrings')).toBeUndefined();
+    });
+
+    it('should return USER_NOT_FOUND for an unknown user', async () => {
+      const result = await muscleVolumeService.getWeeklyMuscleVolume(new ObjectId().toString(), now);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('describeNeglected', () => {
+    it('should say how long each muscle group has gone untrained', async () => {
+      await addSession(10, [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }]);
+
+      const report = (await muscleVolumeService.getWeeklyMuscleVolume(userId, now)).data!;
+      const message = muscleVolumeService.describeNeglected(report, 20)!;
+
+      expect(message).toContain('You haven\'t trained quads in 10 days');
+      expect(message).toContain('You haven\'t trained chest in over 4 weeks');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { OnboardingService, OnboardingState } from '../services/OnboardingService';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('OnboardingService', () => {
+  let onboardingService: OnboardingService;
+
+  const stateAt = (step: OnboardingState['step']): OnboardingState => ({
+    step,
+    data: { name: 'Ada', height: 165, weight: 60, bmi: 22 },
+  });
+
+  beforeAll(() => {
+    onboardingService = new OnboardingService();
+  });
+
+  describe('gender step', () => {
+    it('should read the gender and age', async () => {
+      const result = await onboardingService.processOnboardingStep('ada123', 'gender', 'Female, 28', stateAt('gender'));
+
+      expect(result.nextStep).toBe('activity_level');
+      expect(result.state.data.gender).toBe('female');
+      expect(result.state.data.age).toBe(28);
+    });
+
+    it('should accept m or f as the whole answer', async () => {
+      const result = await onboardingService.processOnboardingStep('ada123', 'gender', 'm 32', stateAt('gender'));
+
+      expect(result.state.data.gender).toBe('male');
+    });
+
+    it('should ask again when no gender is given', async () => {
+      const result = await onboardingService.processOnboardingStep('ada123', 'gender', 'I\'m 30', stateAt('gender'));
+
+      expect(result.success).toBe(false);
+      expect(result.state.data.gender).toBeUndefined();
+      expect(result.message).toContain('male or female');
+    });
+  });
+
+  describe('activity level step', () => {
+    it.each([
+      ['3', 'moderate'],
+      ['5.', 'very_active'],
+      ['light, 1-3 days', 'light'],
+      ['moderate 3-5 days', 'moderate'],
+      ['not very active', 'light'],
+      ['sedentary - desk job', 'sedentary'],
+      ['Very active, I work on a building site', 'very_active'],
+      ['active', 'active'],
+    ])('should read "%s" as %s', async (input, activityLevel) => {
+      const result = await onboardingService.processOnboardingStep('ada123', 'activity_level', input, stateAt('activity_level'));
+
+      expect(result.nextStep).toBe('limitations');
+      expect(result.state.data.activityLevel).toBe(activityLevel);
+    });
+
+    it('should ask again for an answer it can\'t read', async () => {
+      const result = await onboardingService.processOnboardingStep('ada123', 'activity_level', '7', stateAt('activity_level'));
+
+      expect(result.success).toBe(false);
+      expect(result.state.data.activityLevel).toBeUndefined();
+    });
+  });
+});
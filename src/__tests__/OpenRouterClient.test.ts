@@ -218,8 +218,24 @@ describe('OpenRouterClient', () => {
       const callArgs = mockFetch.mock.calls[0];
       const requestBody = JSON.parse(callArgs[1]?.body as string);
       
-      expect(requestBody.messages[0].content).toContain('Analyze this food');
-      expect(requestBody.messages[0].content).toContain('data:image/jpeg;base64,');
+      expect(requestBody.messages[0].content).toEqual([
+        { type: 'text', text: 'Analyze this food' },
+        { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,base64-encoded-image-data' } },
+      ]);
+    });
+
+    it('should send the image with its MIME type', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: 'A plate of jollof rice.' } }],
+        }),
+      } as Response);
+
+      await client.analyzeImage('base64-encoded-image-data', 'Analyze this food', { mimeType: 'image/png' });
+
+      const requestBody = JSON.parse(mockFetch.mock.calls[0][1]?.body as string);
+      expect(requestBody.messages[0].content[1].image_url.url).toBe('data:image/png;base64,base64-encoded-image-data');
     });
 
     it('should handle image analysis errors', async () => {
@@ -0,0 +1,175 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { WorkoutSessionService } from '../services/WorkoutSessionService';
+import { PersonalRecordService } from '../services/PersonalRecordService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { SetLog } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('PersonalRecordService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let sessionService: WorkoutSessionService;
+  let recordService: PersonalRecordService;
+  const userId = '507f1f77bcf86cd799439011';
+
+  // Log sets in a fresh session and close it, as an earlier workout
+  const logPastSession = async (exerciseName: string, sets: SetLog[]) => {
+    const session = await sessionService.startSession(userId);
+    const sessionId = session.data!._id!.toString();
+    await schemas.getWorkoutSessionsCollection().updateOne(
+      { _id: session.data!._id },
+      { $set: { startTime: new Date(Date.now() - 86400000) } }
+    );
+    await sessionService.logSets(sessionId, exerciseName, sets);
+    await sessionService.endSession(sessionId);
+  };
+
+  const logCurrentSession = async (exerciseName: string, sets: SetLog[]) => {
+    const session = await sessionService.startSession(userId);
+    return sessionService.logSets(session.data!._id!.toString(), exerciseName, sets);
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    sessionService = new WorkoutSessionService();
+    recordService = new PersonalRecordService();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+    await schemas.getPersonalRecordsCollection().deleteMany({});
+  });
+
+  describe('checkForRecords', () => {
+    it('should only set a baseline the first time an exercise is logged', async () => {
+      const result = await logCurrentSession('bench press', [{ reps: 5, weight: 100 }]);
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.personalRecords).toEqual([]);
+      expect(await schemas.getPersonalRecordsCollection().countDocuments()).toBe(0);
+    });
+
+    it('should detect a heavier weight and a better estimated 1RM', async () => {
+      await logPastSession('bench press', [{ reps: 5, weight: 95 }]);
+
+      const result = await logCurrentSession('Bench Press', [{ reps: 5, weight: 100 }]);
+      const types = result.metadata?.personalRecords.map((record: any) => record.type);
+
+      expect(types).toContain('max_weight');
+      expect(types).toContain('estimated_1rm');
+      const maxWeight = result.metadata?.personalRecords.find((record: any) => record.type === 'max_weight');
+      expect(maxWeight.value).toBe(100);
+      expect(maxWeight.previousValue).toBe(95);
+    });
+
+    it('should detect more reps at the same weight', async () => {
+      await logPastSession('squat', [{ reps: 5, weight: 100 }]);
+
+      const result = await logCurrentSession('squat', [{ reps: 7, weight: 100 }]);
+      const repsRecord = result.metadata?.personalRecords.find((record: any) => record.type === 'reps_at_weight');
+
+      expect(repsRecord.value).toBe(7);
+      expect(repsRecord.weight).toBe(100);
+      expect(repsRecord.previousValue).toBe(5);
+    });
+
+    it('should detect bodyweight rep records', async () => {
+      await logPastSession('pull up', [{ reps: 8 }]);
+
+      const result = await logCurrentSession('pull up', [{ reps: 10 }]);
+
+      expect(result.metadata?.personalRecords).toHaveLength(1);
+      expect(result.metadata?.personalRecords[0].type).toBe('reps_at_weight');
+    });
+
+    it('should report session volume once when it is passed', async () => {
+      await logPastSession('row', [{ reps: 10, weight: 50 }, { reps: 10, weight: 50 }]);
+
+      const first = await logCurrentSession('row', [{ reps: 10, weight: 50 }]);
+      const second = await logCurrentSession('row', [{ reps: 10, weight: 50 }, { reps: 10, weight: 50 }]);
+      const third = await logCurrentSession('row', [{ reps: 10, weight: 50 }]);
+
+      const volumeRecords = (result: any) =>
+        result.metadata?.personalRecords.filter((record: any) => record.type === 'session_volume');
+      expect(volumeRecords(first)).toHaveLength(0);
+      expect(volumeRecords(second)).toHaveLength(1);
+      expect(volumeRecords(second)[0].value).toBe(1500);
+      expect(volumeRecords(third)).toHaveLength(0);
+    });
+
+    it('should not report a weaker set', async () => {
+      await logPastSession('deadlift', [{ reps: 5, weight: 140 }]);
+
+      const result = await logCurrentSession('deadlift', [{ reps: 5, weight: 120 }]);
+
+      expect(result.metadata?.personalRecords).toEqual([]);
+    });
+
+    it('should compare against earlier sets in the same session', async () => {
+      await logPastSession('overhead press', [{ reps: 5, weight: 40 }]);
+      await logCurrentSession('overhead press', [{ reps: 5, weight: 45 }]);
+
+      const result = await logCurrentSession('overhead press', [{ reps: 5, weight: 45 }]);
+
+      expect(result.metadata?.personalRecords.map((record: any) => record.type)).not.toContain('max_weight');
+    });
+
+    it('should store records in the personal_records collection', async () => {
+      await logPastSession('bench press', [{ reps: 5, weight: 95 }]);
+      await logCurrentSession('bench press', [{ reps: 5, weight: 100 }]);
+
+      const stored = await schemas.getPersonalRecordsCollection().find({}).toArray();
+      expect(stored.length).toBeGreaterThan(0);
+      stored.forEach(record => {
+        expect(record.userId.equals(new ObjectId(userId))).toBe(true);
+        expect(record.exerciseName).toBe('bench press');
+        expect(record.sessionId).toBeDefined();
+      });
+    });
+  });
+
+  describe('getRecordsForUser', () => {
+    it('should filter by exercise name', async () => {
+      await logPastSession('bench press', [{ reps: 5, weight: 95 }]);
+      await logPastSession('squat', [{ reps: 5, weight: 100 }]);
+      await logCurrentSession('bench press', [{ reps: 5, weight: 100 }]);
+      await logCurrentSession('squat', [{ reps: 5, weight: 110 }]);
+
+      const result = await recordService.getRecordsForUser(userId, 'Squat');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.length).toBeGreaterThan(0);
+      result.data!.forEach(record => expect(record.exerciseName).toBe('squat'));
+    });
+
+    it('should reject an invalid user ID', async () => {
+      const result = await recordService.getRecordsForUser('invalid-id');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Invalid user ID format');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { ProgressionService } from '../services/ProgressionService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { WorkoutPlan, SetLog } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('ProgressionService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let progressionService: ProgressionService;
+  const userId = '507f1f77bcf86cd799439011';
+  const monday = new Date('2026-10-19T08:00:00');
+
+  const createPlan = async (
+    philosophy: WorkoutPlan['philosophy'],
+    reps: string,
+    dayOfWeek = 'Monday',
+    deload?: WorkoutPlan['deload']
+  ) => {
+    await schemas.getWorkoutPlansCollection().insertOne({
+      userId: new ObjectId(userId),
+      planType: 'full_body',
+      philosophy,
+      schedule: [{
+        dayOfWeek,
+        muscleGroups: ['chest'],
+        exercises: [{ exerciseName: 'Barbell Bench Press', sets: 3, reps, restTime: 120 }],
+        estimatedDuration: 30,
+      }],
+      createdAt: new Date(),
+      isActive: true,
+      ...(deload && { deload }),
+    });
+  };
+
+  const addSession = async (daysAgo: number, sets: SetLog[], exerciseName = 'bench press') => {
+    const result = await schemas.getWorkoutSessionsCollection().insertOne({
+      userId: new ObjectId(userId),
+      startTime: new Date(monday.getTime() - daysAgo * 86400000),
+      exercises: [{ exerciseName, sets }],
+      isCompleted: true,
+    });
+    return result.insertedId.toString();
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    progressionService = new ProgressionService();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutPlansCollection().deleteMany({});
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+  });
+
+  describe('getSessionTargets', () => {
+    it('should return PLAN_NOT_FOUND without an active plan', async () => {
+      const result = await progressionService.getSessionTargets(userId, undefined, monday);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PLAN_NOT_FOUND');
+    });
+
+    it('should start at the bottom of the range the first time', async () => {
+      await createPlan('arnold', '8-12');
+
+      const result = await progressionService.getSessionTargets(userId, undefined, monday);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(result.data![0].targetReps).toBe(8);
+      expect(result.data![0].targetWeight).toBeUndefined();
+      expect(result.data![0].lastSession).toBeUndefined();
+    });
+
+    it('should add reps at the same weight with double progression', async () => {
+      await createPlan('arnold', '8-12');
+      await addSession(7, [{ reps: 12, weight: 80 }]);
+      await addSession(3, [{ reps: 10, weight: 60 }, { reps: 9, weight: 60 }, { reps: 8, weight: 60 }]);
+
+      const [target] = (await progressionService.getSessionTargets(userId, undefined, monday)).data!;
+
+      expect(target.targetWeight).toBe(60);
+      expect(target.targetReps).toBe(9);
+      expect(target.toFailure).toBe(false);
+      expect(target.lastSession?.reps).toEqual([10, 9, 8]);
+    });
+
+    it('should add weight once every set reaches the top of the range', async () => {
+      await createPlan('arnold', '8-12');
+      await addSession(3, [{ reps: 12, weight: 60 }, { reps: 12, weight: 60 }, { reps: 12, weight: 60 }]);
+
+      const [target] = (await progressionService.getSessionTargets(userId, undefined, monday)).data!;
+
+      expect(target.targetWeight).toBe(62.5);
+      expect(target.targetReps).toBe(8);
+    });
+
+    it('should ask Mentzer users to beat last time\'s reps to failure', async () => {
+      await createPlan('mentzer', '6-10 to failure');
+      await addSession(3, [{ reps: 7, weight: 100, toFailure: true }]);
+
+      const [target] = (await progressionService.getSessionTargets(userId, undefined, monday)).data!;
+
+      expect(target.targetWeight).toBe(100);
+      expect(target.targetReps).toBe(8);
+      expect(target.toFailure).toBe(true);
+      expect(target.note).toContain('Beat last time\'s 7 reps');
+    });
+
+    it('should move Mentzer users up in weight past the top of the range', async () => {
+      await createPlan('mentzer', '6-10 to failure');
+      await addSession(3, [{ reps: 10, weight: 100 }]);
+
+      const [target] = (await progressionService.getSessionTargets(userId, undefined, monday)).data!;
+
+      expect(target.targetWeight).toBe(102.5);
+      expect(target.targetReps).toBe(6);
+    });
+
+    it('should ignore drop sets and the session being started', async () => {
+      await createPlan('arnold', '8-12');
+      await addSession(3, [{ reps: 10, weight: 60 }, { reps: 12, weight: 40, dropSet: true }]);
+      const currentSessionId = await addSession(0, [{ reps: 12, weight: 70 }]);
+
+      const [target] = (await progressionService.getSessionTargets(userId, currentSessionId, monday)).data!;
+
+      expect(target.targetWeight).toBe(60);
+      expect(target.lastSession?.reps).toEqual([10]);
+    });
+
+    it('should halve sets and lighten weights during an accepted deload week', async () => {
+      await createPlan('mentzer', '6-10 to failure', 'Monday', {
+        status: 'accepted',
+        startDate: new Date('2026-10-19T00:00:00'),
+        endDate: new Date('2026-10-26T00:00:00'),
+        reasons: [],
+        scheduledAt: new Date('2026-10-14T00:00:00'),
+      });
+      await addSession(3, [{ reps: 7, weight: 100 }]);
+
+      const result = await progressionService.getSessionTargets(userId, undefined, monday);
+      const [target] = result.data!;
+
+      expect(result.metadata?.deloadWeek).toBe(true);
+      expect(target.sets).toBe(2);
+      expect(target.targetWeight).toBe(90);
+      expect(target.toFailure).toBe(false);
+      expect(target.note).toContain('Deload week');
+    });
+
+    it('should deload in the week a deload was postponed to', async () => {
+      await createPlan('arnold', '8-12', 'Monday', {
+        status: 'postponed',
+        startDate: new Date('2026-10-19T00:00:00'),
+        endDate: new Date('2026-10-26T00:00:00'),
+        reasons: [],
+        scheduledAt: new Date('2026-10-07T00:00:00'),
+      });
+      await addSession(3, [{ reps: 10, weight: 100 }]);
+
+      const thisWeek = await progressionService.getSessionTargets(userId, undefined, monday);
+      const weekBefore = await progressionService.getSessionTargets(userId, undefined, new Date(monday.getTime() - 7 * 86400000));
+
+      expect(thisWeek.metadata?.deloadWeek).toBe(true);
+      expect(thisWeek.data![0].note).toContain('Deload week');
+      expect(weekBefore.metadata?.deloadWeek).toBe(false);
+    });
+
+    it('should use the next planned day on a rest day', async () => {
+      await createPlan('arnold', '8-12', 'Wednesday');
+
+      const result = await progressionService.getSessionTargets(userId, undefined, monday);
+
+      expect(result.data).toHaveLength(1);
+      expect(result.metadata?.dayOfWeek).toBe('Wednesday');
+    });
+  });
+});
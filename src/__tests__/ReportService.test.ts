@@ -0,0 +1,200 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { ReportService } from '../services/ReportService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User, ExerciseLog } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('ReportService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let reportService: ReportService;
+  let userId: string;
+  const wednesday = new Date('2026-10-21T12:00:00');
+  const day = 86400000;
+
+  const user: User = {
+    telegramId: 'report123',
+    profile: {
+      name: 'Tunde',
+      age: 28,
+      height: 180,
+      weight: 80,
+      bmi: 24.7,
+      fitnessGoal: 'bulk',
+      trainingPhilosophy: 'arnold',
+      experienceLevel: 'intermediate',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '06:00', end: '08:00' }],
+      preferredWorkoutDuration: 60,
+      workoutDaysPerWeek: 2,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: false,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const addSession = async (date: Date, exercises: ExerciseLog[], isCompleted = true) => {
+    await schemas.getWorkoutSessionsCollection().insertOne({
+      userId: new ObjectId(userId),
+      startTime: date,
+      exercises,
+      isCompleted,
+    });
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    reportService = new ReportService();
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+    await schemas.getWeeklyReportsCollection().deleteMany({});
+  });
+
+  describe('getWeeklyReport', () => {
+    it('should total this week and compare it with last week', async () => {
+      await addSession(new Date('2026-10-19T07:00:00'), [
+        { exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }, { reps: 5, weight: 100 }] },
+        { exerciseName: 'bench press', sets: [{ reps: 8, weight: 70 }] },
+      ]);
+      await addSession(new Date('2026-10-21T07:00:00'), [
+        { exerciseName: 'squat', sets: [{ reps: 3, weight: 110 }] },
+      ]);
+      await addSession(new Date('2026-10-14T07:00:00'), [
+        { exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] },
+      ]);
+      // Open sessions don't count until they are finished
+      await addSession(new Date('2026-10-21T10:00:00'), [{ exerciseName: 'squat', sets: [{ reps: 5 }] }], false);
+
+      const result = await reportService.getWeeklyReport(userId, wednesday);
+      const report = result.data!;
+
+      expect(result.success).toBe(true);
+      expect(report.weekStart).toEqual(new Date('2026-10-19T00:00:00'));
+      expect(report.sessionsCompleted).toBe(2);
+      expect(report.targetSessions).toBe(2);
+      expect(report.totalSets).toBe(4);
+      expect(report.totalVolume).toBe(1890);
+      expect(report.previousWeek).toEqual({ sessionsCompleted: 1, totalSets: 1, totalVolume: 500 });
+      expect(report.change).toEqual({ sessions: 1, volumePercent: 278 });
+    });
+
+    it('should break volume down by muscle group', async () => {
+      await addSession(new Date('2026-10-19T07:00:00'), [
+        { exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }, { reps: 5, weight: 100 }] },
+        { exerciseName: 'bench press', sets: [{ reps: 8, weight: 70 }] },
+        { exerciseName: 'mystery move', sets: [{ reps: 10 }] },
+      ]);
+
+      const { muscleGroups } = (await reportService.getWeeklyReport(userId, wednesday)).data!;
+
+      expect(muscleGroups.slice(0, 3).map(group => group.muscleGroup)).toEqual(['quads', 'glutes', 'hamstrings']);
+      expect(muscleGroups.find(group => group.muscleGroup === 'quads')).toEqual({ muscleGroup: 'quads', sets: 2, volume: 1000 });
+      expect(muscleGroups.find(group => group.muscleGroup === 'chest')).toEqual({ muscleGroup: 'chest', sets: 1, volume: 560 });
+    });
+
+    it('should list the top lifts by estimated one-rep max', async () => {
+      await addSession(new Date('2026-10-19T07:00:00'), [
+        { exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }, { reps: 1, weight: 120 }] },
+        { exerciseName: 'bench press', sets: [{ reps: 8, weight: 70 }] },
+      ]);
+
+      const { topLifts } = (await reportService.getWeeklyReport(userId, wednesday)).data!;
+
+      expect(topLifts.map(lift => lift.exerciseName)).toEqual(['squat', 'bench press']);
+      expect(topLifts[0].weight).toBe(120);
+    });
+
+    it('should count consecutive weeks that hit the target', async () => {
+      for (const weeksAgo of [1, 2, 3]) {
+        for (const dayOffset of [0, 2]) {
+          await addSession(new Date(new Date('2026-10-19T07:00:00').getTime() - weeksAgo * 7 * day + dayOffset * day), [
+            { exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] },
+          ]);
+        }
+      }
+      await addSession(new Date('2026-10-19T07:00:00'), [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }]);
+
+      const inProgress = (await reportService.getWeeklyReport(userId, wednesday)).data!;
+      expect(inProgress.streakWeeks).toBe(3);
+
+      await addSession(new Date('2026-10-21T07:00:00'), [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }]);
+      const completed = (await reportService.getWeeklyReport(userId, wednesday)).data!;
+      expect(completed.streakWeeks).toBe(4);
+    });
+
+    it('should return USER_NOT_FOUND for an unknown user', async () => {
+      const result = await reportService.getWeeklyReport(new ObjectId().toString(), wednesday);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('claimDueWeeklyReports', () => {
+    const sundayEvening = new Date('2026-10-25T19:00:00');
+
+    it('should wait until Sunday evening', async () => {
+      const result = await reportService.claimDueWeeklyReports(new Date('2026-10-25T09:00:00'));
+
+      expect(result.data).toEqual([]);
+    });
+
+    it('should claim each user\'s report once a week', async () => {
+      const first = await reportService.claimDueWeeklyReports(sundayEvening);
+      const second = await reportService.claimDueWeeklyReports(new Date(sundayEvening.getTime() + 15 * 60000));
+
+      expect(first.data).toHaveLength(1);
+      expect(first.data![0].telegramId).toBe('report123');
+      expect(first.data![0].report.weekStart).toEqual(new Date('2026-10-19T00:00:00'));
+      expect(second.data).toEqual([]);
+    });
+  });
+
+  describe('formatWeeklyReport', () => {
+    it('should describe sessions, volume and streak', async () => {
+      await addSession(new Date('2026-10-19T07:00:00'), [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }]);
+      await addSession(new Date('2026-10-20T07:00:00'), [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }]);
+
+      const report = (await reportService.getWeeklyReport(userId, wednesday)).data!;
+      const message = reportService.formatWeeklyReport(report);
+
+      expect(message).toContain('Workouts: 2/2');
+      expect(message).toContain('1000kg volume');
+      expect(message).toContain('1-week streak');
+    });
+  });
+});
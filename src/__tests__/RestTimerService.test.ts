@@ -0,0 +1,99 @@
+import { RestTimerService, RestTimer } from '../services/RestTimerService';
+import { WorkoutSessionService } from '../services/WorkoutSessionService';
+
+// Mock the workout session service
+jest.mock('../services/WorkoutSessionService');
+
+describe('RestTimerService', () => {
+  let restTimerService: RestTimerService;
+  let mockSessionService: jest.Mocked<WorkoutSessionService>;
+  let onComplete: jest.Mock;
+  const chatId = '12345';
+
+  const timer: RestTimer = {
+    userId: '507f1f77bcf86cd799439011',
+    sessionId: '507f1f77bcf86cd799439022',
+    exerciseName: 'Barbell Bench Press',
+    exerciseIndex: 0,
+    setIndex: 2,
+    seconds: 90,
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+
+    restTimerService = new RestTimerService();
+    const instances = (WorkoutSessionService as jest.MockedClass<typeof WorkoutSessionService>).mock.instances;
+    mockSessionService = instances[instances.length - 1] as jest.Mocked<WorkoutSessionService>;
+    mockSessionService.updateSet.mockResolvedValue({ success: true });
+    onComplete = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    restTimerService.stopAll();
+    jest.useRealTimers();
+  });
+
+  it('should notify and record the rest when the timer runs out', async () => {
+    await restTimerService.start(chatId, timer, onComplete);
+
+    await jest.advanceTimersByTimeAsync(89000);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onComplete).toHaveBeenCalledWith(timer);
+    expect(mockSessionService.updateSet).toHaveBeenCalledWith(timer.userId, timer.sessionId, 0, 2, { restTime: 90 });
+  });
+
+  it('should record the actual rest when skipped', async () => {
+    await restTimerService.start(chatId, timer, onComplete);
+    await jest.advanceTimersByTimeAsync(45000);
+
+    const rested = await restTimerService.finish(chatId);
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(rested).toBe(45);
+    expect(mockSessionService.updateSet).toHaveBeenCalledWith(timer.userId, timer.sessionId, 0, 2, { restTime: 45 });
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(restTimerService.isResting(chatId)).toBe(false);
+  });
+
+  it('should add time to a running rest', async () => {
+    await restTimerService.start(chatId, timer, onComplete);
+    await jest.advanceTimersByTimeAsync(60000);
+
+    const secondsLeft = restTimerService.extend(chatId, 30, onComplete);
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(secondsLeft).toBe(60);
+    expect(onComplete).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close the previous rest when the next set starts a new one', async () => {
+    await restTimerService.start(chatId, timer, onComplete);
+    await jest.advanceTimersByTimeAsync(120000);
+
+    await restTimerService.start(chatId, { ...timer, setIndex: 3 }, onComplete);
+
+    expect(mockSessionService.updateSet).toHaveBeenLastCalledWith(timer.userId, timer.sessionId, 0, 2, { restTime: 120 });
+    expect(restTimerService.isResting(chatId)).toBe(true);
+  });
+
+  it('should drop a cancelled rest without recording it', async () => {
+    await restTimerService.start(chatId, timer, onComplete);
+
+    restTimerService.cancel(chatId);
+    await jest.advanceTimersByTimeAsync(90000);
+
+    expect(mockSessionService.updateSet).not.toHaveBeenCalled();
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it('should ignore skips and extensions without a rest', async () => {
+    expect(await restTimerService.finish(chatId)).toBeUndefined();
+    expect(restTimerService.extend(chatId, 30, onComplete)).toBeUndefined();
+  });
+});
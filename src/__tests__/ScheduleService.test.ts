@@ -0,0 +1,211 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { ScheduleService } from '../services/ScheduleService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User, WorkoutDay } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('ScheduleService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let scheduleService: ScheduleService;
+  let userId: string;
+  // A Wednesday
+  const now = new Date('2026-10-21T12:00:00');
+
+  const user: User = {
+    telegramId: 'schedule123',
+    profile: {
+      name: 'Chioma',
+      age: 31,
+      height: 165,
+      weight: 62,
+      bmi: 22.8,
+      fitnessGoal: 'lean',
+      trainingPhilosophy: 'custom',
+      experienceLevel: 'intermediate',
+    },
+    schedule: {
+      workDays: ['Monday', 'Wednesday', 'Friday'],
+      availableHours: [{ start: '06:00', end: '06:30' }, { start: '18:00', end: '20:00' }],
+      preferredWorkoutDuration: 60,
+      workoutDaysPerWeek: 3,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: false,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const day = (dayOfWeek: string, muscleGroups: string[]): WorkoutDay => ({
+    dayOfWeek,
+    muscleGroups,
+    exercises: [],
+    estimatedDuration: 60,
+  });
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    scheduleService = new ScheduleService();
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    await schemas.getScheduledWorkoutsCollection().deleteMany({});
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+    await schemas.getWorkoutPlansCollection().deleteMany({});
+    await schemas.getWorkoutPlansCollection().insertOne({
+      userId: new ObjectId(userId),
+      planType: 'push_pull_legs',
+      schedule: [day('Monday', ['chest', 'shoulders', 'triceps']), day('Wednesday', ['back', 'biceps']), day('Friday', ['legs'])],
+      philosophy: 'custom',
+      createdAt: new Date('2026-10-01T09:00:00'),
+      isActive: true,
+    });
+  });
+
+  describe('getWeekSchedule', () => {
+    it('should put each plan day on its weekday in the first slot long enough', async () => {
+      const result = await scheduleService.getWeekSchedule(userId, now, now);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.weekStart).toEqual(new Date('2026-10-19T00:00:00'));
+      expect(result.data?.workouts.map(workout => [workout.date, workout.startTime, workout.endTime])).toEqual([
+        [new Date('2026-10-19T00:00:00'), '18:00', '19:00'],
+        [new Date('2026-10-21T00:00:00'), '18:00', '19:00'],
+        [new Date('2026-10-23T00:00:00'), '18:00', '19:00'],
+      ]);
+    });
+
+    it('should mark workouts completed or missed', async () => {
+      await schemas.getWorkoutSessionsCollection().insertOne({
+        userId: new ObjectId(userId),
+        startTime: new Date('2026-10-19T18:05:00'),
+        exercises: [],
+        isCompleted: true,
+      });
+
+      const result = await scheduleService.getWeekSchedule(userId, now, new Date('2026-10-22T09:00:00'));
+
+      expect(result.data?.workouts.map(workout => workout.status)).toEqual(['completed', 'missed', 'upcoming']);
+    });
+
+    it('should schedule a week only once', async () => {
+      await scheduleService.getWeekSchedule(userId, now, now);
+      await scheduleService.getWeekSchedule(userId, now, now);
+
+      expect(await schemas.getScheduledWorkoutsCollection().countDocuments({ userId: new ObjectId(userId) })).toBe(3);
+    });
+
+    it('should return PLAN_NOT_FOUND without an active plan', async () => {
+      await schemas.getWorkoutPlansCollection().deleteMany({});
+
+      const result = await scheduleService.getWeekSchedule(userId, now, now);
+
+      expect(result.error?.code).toBe('PLAN_NOT_FOUND');
+    });
+  });
+
+  describe('rescheduleWorkout', () => {
+    it('should move a missed workout to another day', async () => {
+      const result = await scheduleService.rescheduleWorkout(userId, {
+        from: new Date('2026-10-21T00:00:00'),
+        to: new Date('2026-10-22T00:00:00'),
+      }, now);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.muscleGroups).toEqual(['back', 'biceps']);
+      expect(result.data?.rescheduledFrom).toEqual(new Date('2026-10-21T00:00:00'));
+
+      const week = await scheduleService.getWeekSchedule(userId, now, now);
+      expect(week.data?.workouts.map(workout => workout.date)).toEqual([
+        new Date('2026-10-19T00:00:00'),
+        new Date('2026-10-22T00:00:00'),
+        new Date('2026-10-23T00:00:00'),
+      ]);
+    });
+
+    it('should move a workout into next week in place of that week\'s own', async () => {
+      const result = await scheduleService.rescheduleWorkout(userId, {
+        from: new Date('2026-10-23T00:00:00'),
+        to: new Date('2026-10-27T00:00:00'),
+      }, now);
+
+      expect(result.data?.weekStart).toEqual(new Date('2026-10-26T00:00:00'));
+
+      const nextWeek = await scheduleService.getWeekSchedule(userId, new Date('2026-10-27T12:00:00'), now);
+      expect(nextWeek.data?.workouts.map(workout => workout.date)).toEqual([
+        new Date('2026-10-26T00:00:00'),
+        new Date('2026-10-27T00:00:00'),
+        new Date('2026-10-28T00:00:00'),
+      ]);
+      const week = await scheduleService.getWeekSchedule(userId, now, now);
+      expect(week.data?.workouts.map(workout => workout.date)).toEqual([
+        new Date('2026-10-19T00:00:00'),
+        new Date('2026-10-21T00:00:00'),
+      ]);
+    });
+
+    it('should use a start time when one is given', async () => {
+      const result = await scheduleService.rescheduleWorkout(userId, {
+        from: new Date('2026-10-21T00:00:00'),
+        to: new Date('2026-10-24T00:00:00'),
+        startTime: '07:30',
+      }, now);
+
+      expect(result.data).toMatchObject({ startTime: '07:30', endTime: '08:30' });
+    });
+
+    it('should not double up on a day that already has a workout', async () => {
+      const result = await scheduleService.rescheduleWorkout(userId, {
+        from: new Date('2026-10-21T00:00:00'),
+        to: new Date('2026-10-23T00:00:00'),
+      }, now);
+
+      expect(result.error?.code).toBe('DAY_ALREADY_SCHEDULED');
+    });
+
+    it('should return NO_WORKOUT_SCHEDULED for a rest day', async () => {
+      const result = await scheduleService.rescheduleWorkout(userId, {
+        from: new Date('2026-10-20T00:00:00'),
+        to: new Date('2026-10-22T00:00:00'),
+      }, now);
+
+      expect(result.error?.code).toBe('NO_WORKOUT_SCHEDULED');
+    });
+
+    it('should not move a workout into the past', async () => {
+      const result = await scheduleService.rescheduleWorkout(userId, {
+        from: new Date('2026-10-21T00:00:00'),
+        to: new Date('2026-10-20T00:00:00'),
+      }, now);
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { StrengthService } from '../services/StrengthService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User, SetLog } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('StrengthService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let strengthService: StrengthService;
+  let userId: string;
+
+  const user: User = {
+    profile: {
+      name: 'Ngozi',
+      age: 30,
+      height: 170,
+      weight: 80,
+      bmi: 27.7,
+      fitnessGoal: 'maintain',
+      trainingPhilosophy: 'arnold',
+      experienceLevel: 'beginner',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '06:00', end: '08:00' }],
+      preferredWorkoutDuration: 60,
+      workoutDaysPerWeek: 3,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: false,
+      conversationStyle: 'professional',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const addSession = async (daysAgo: number, exerciseName: string, sets: SetLog[]) => {
+    await schemas.getWorkoutSessionsCollection().insertOne({
+      userId: new ObjectId(userId),
+      startTime: new Date(Date.now() - daysAgo * 86400000),
+      exercises: [{ exerciseName, sets }],
+      isCompleted: true,
+    });
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    strengthService = new StrengthService();
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+  });
+
+  describe('getOneRepMaxHistory', () => {
+    it('should return each session\'s best estimate, oldest first', async () => {
+      await addSession(1, 'squat', [{ reps: 5, weight: 100 }, { reps: 3, weight: 105 }]);
+      await addSession(8, 'Barbell Back Squat', [{ reps: 5, weight: 95 }]);
+
+      const result = await strengthService.getOneRepMaxHistory(userId, 'squat');
+
+      expect(result.success).toBe(true);
+      expect(result.metadata?.exerciseName).toBe('Barbell Back Squat');
+      expect(result.data).toHaveLength(2);
+      expect(result.data![0].set.weight).toBe(95);
+      expect(result.data![1].estimates).toEqual({ epley: 116.7, brzycki: 112.5 });
+      expect(result.metadata?.bestOneRepMax).toBe(116.7);
+    });
+
+    it('should use the RPE chart when sets have an RPE', async () => {
+      await addSession(1, 'squat', [{ reps: 5, weight: 100, rpe: 8 }]);
+
+      const result = await strengthService.getOneRepMaxHistory(userId, 'squat');
+
+      expect(result.data![0].estimates.rpe).toBe(123.3);
+      expect(result.data![0].estimatedOneRepMax).toBe(123.3);
+    });
+
+    it('should skip bodyweight sets', async () => {
+      await addSession(1, 'squat', [{ reps: 20 }]);
+
+      const result = await strengthService.getOneRepMaxHistory(userId, 'squat');
+
+      expect(result.data).toEqual([]);
+    });
+  });
+
+  describe('getStrengthLevel', () => {
+    it('should rate the best lift against bodyweight and experience', async () => {
+      await addSession(1, 'squat', [{ reps: 1, weight: 120 }]);
+
+      const result = await strengthService.getStrengthLevel(userId, 'squat');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.level).toBe('intermediate');
+      expect(result.data?.bodyweightRatio).toBe(1.5);
+      expect(result.data?.expectedLevel).toBe('novice');
+      expect(result.data?.comparedToExpected).toBe('ahead');
+    });
+
+    it('should return NO_LIFT_HISTORY when the lift was never logged', async () => {
+      const result = await strengthService.getStrengthLevel(userId, 'squat');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NO_LIFT_HISTORY');
+    });
+
+    it('should return NO_STRENGTH_STANDARD for lifts without standards', async () => {
+      await addSession(1, 'Lateral Raise', [{ reps: 10, weight: 10 }]);
+
+      const result = await strengthService.getStrengthLevel(userId, 'Lateral Raise');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('NO_STRENGTH_STANDARD');
+    });
+
+    it('should reject an unknown user', async () => {
+      const result = await strengthService.getStrengthLevel(new ObjectId().toString(), 'squat');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('User not found');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { SubstitutionService } from '../services/SubstitutionService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User, WorkoutPlan, Gym } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('SubstitutionService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let substitutionService: SubstitutionService;
+  let userId: string;
+
+  const user: User = {
+    telegramId: 'swap123',
+    profile: {
+      name: 'Chidi',
+      age: 26,
+      height: 178,
+      weight: 75,
+      bmi: 23.7,
+      fitnessGoal: 'bulk',
+      trainingPhilosophy: 'arnold',
+      experienceLevel: 'intermediate',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '17:00', end: '19:00' }],
+      preferredWorkoutDuration: 60,
+      workoutDaysPerWeek: 2,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: true,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const localGym: Gym = {
+    name: 'Street Corner Gym',
+    location: { address: '12 Allen Avenue', coordinates: [3.35, 6.6], city: 'Ikeja', state: 'Lagos' },
+    qualityTier: 'local',
+    amenities: ['Dumbbells', 'Barbells', 'Benches', 'Squat rack', 'Changing room'],
+    operatingHours: {},
+    contact: {},
+    ratings: { overall: 4, equipment: 3, cleanliness: 4, staff: 4, reviewCount: 10 },
+    verificationStatus: 'verified',
+    createdAt: new Date(),
+  };
+
+  const createPlan = async (): Promise<void> => {
+    const plan: WorkoutPlan = {
+      userId: new ObjectId(userId),
+      planType: 'upper_lower',
+      philosophy: 'arnold',
+      createdAt: new Date(),
+      isActive: true,
+      schedule: [
+        {
+          dayOfWeek: 'Monday',
+          muscleGroups: ['back', 'triceps'],
+          estimatedDuration: 60,
+          exercises: [
+            { exerciseName: 'Lat Pulldown', sets: 3, reps: '8-12', restTime: 90 },
+            { exerciseName: 'Seated Cable Row', sets: 3, reps: '8-12', restTime: 90 },
+            { exerciseName: 'Tricep Pushdown', sets: 3, reps: '10-15', restTime: 60 },
+          ],
+        },
+        {
+          dayOfWeek: 'Thursday',
+          muscleGroups: ['quads'],
+          estimatedDuration: 60,
+          exercises: [
+            { exerciseName: 'Barbell Back Squat', sets: 4, reps: '6-8', restTime: 150 },
+            { exerciseName: 'Leg Press', sets: 3, reps: '10-12', restTime: 90 },
+          ],
+        },
+      ],
+    };
+    await schemas.getWorkoutPlansCollection().insertOne(plan);
+  };
+
+  const getPlanExercises = async (): Promise<string[]> => {
+    const plan = await schemas.getWorkoutPlansCollection().findOne({ userId: new ObjectId(userId), isActive: true });
+    return plan!.schedule.flatMap(day => day.exercises.map(exercise => exercise.exerciseName));
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+    await schemas.seedReferenceData();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    substitutionService = new SubstitutionService();
+    const result = await schemas.getUsersCollection().insertOne(user);
+    userId = result.insertedId.toString();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutPlansCollection().deleteMany({});
+    await schemas.getGymsCollection().deleteMany({});
+    await schemas.getUsersCollection().updateOne({ _id: new ObjectId(userId) }, { $unset: { homeGymId: '' } });
+  });
+
+  describe('substituteMissingEquipment', () => {
+    it('should swap every exercise that needs the missing equipment', async () => {
+      await createPlan();
+
+      const result = await substitutionService.substituteMissingEquipment(userId, ['cable']);
+      const exercises = await getPlanExercises();
+
+      expect(result.success).toBe(true);
+      expect(result.data!.substitutions.map(substitution => substitution.original))
+        .toEqual(['Lat Pulldown', 'Seated Cable Row', 'Tricep Pushdown']);
+      expect(exercises).not.toContain('Lat Pulldown');
+      expect(exercises).toContain('Leg Press');
+    });
+
+    it('should not put the same substitute in a day twice', async () => {
+      await createPlan();
+
+      const result = await substitutionService.substituteMissingEquipment(userId, ['cable']);
+      const mondaySubstitutes = result.data!.substitutions
+        .filter(substitution => substitution.dayOfWeek === 'Monday')
+        .map(substitution => substitution.substitute);
+
+      expect(new Set(mondaySubstitutes).size).toBe(mondaySubstitutes.length);
+    });
+
+    it('should link substitutes to the exercise library', async () => {
+      await createPlan();
+
+      await substitutionService.substituteMissingEquipment(userId, ['machine']);
+      const plan = await schemas.getWorkoutPlansCollection().findOne({ userId: new ObjectId(userId), isActive: true });
+      const substitute = plan!.schedule[1].exercises[1];
+      const exercise = await schemas.getExercisesCollection().findOne({ _id: substitute.exerciseId });
+
+      expect(exercise!.name).toBe(substitute.exerciseName);
+      expect(exercise!.muscleGroups[0]).toBe('quads');
+      expect(substitute.sets).toBe(3);
+    });
+
+    it('should return PLAN_NOT_FOUND without an active plan', async () => {
+      const result = await substitutionService.substituteMissingEquipment(userId, ['cable']);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PLAN_NOT_FOUND');
+    });
+  });
+
+  describe('adaptPlanToUser', () => {
+    it('should swap exercises the home gym has no equipment for', async () => {
+      const gym = await schemas.getGymsCollection().insertOne(localGym);
+      await schemas.getUsersCollection().updateOne({ _id: new ObjectId(userId) }, { $set: { homeGymId: gym.insertedId } });
+      await createPlan();
+
+      const result = await substitutionService.adaptPlanToUser(userId);
+      const exercises = await getPlanExercises();
+
+      expect(result.data!.substitutions.map(substitution => substitution.original))
+        .toEqual(['Lat Pulldown', 'Seated Cable Row', 'Tricep Pushdown', 'Leg Press']);
+      expect(exercises).toContain('Barbell Back Squat');
+    });
+
+    it('should swap or remove exercises that load a recorded limitation', async () => {
+      await schemas.getUsersCollection().updateOne(
+        { _id: new ObjectId(userId) },
+        { $set: { 'profile.limitations': [{ area: 'knee' }] } }
+      );
+      await createPlan();
+
+      const result = await substitutionService.adaptPlanToUser(userId);
+      const exercises = await getPlanExercises();
+      await schemas.getUsersCollection().updateOne({ _id: new ObjectId(userId) }, { $unset: { 'profile.limitations': '' } });
+
+      expect(exercises).not.toContain('Barbell Back Squat');
+      expect(exercises).not.toContain('Leg Press');
+      expect([
+        ...result.data!.substitutions.map(substitution => substitution.original),
+        ...result.data!.removed.map(exercise => exercise.exerciseName),
+      ]).toEqual(expect.arrayContaining(['Barbell Back Squat', 'Leg Press']));
+      expect(exercises).toContain('Lat Pulldown');
+    });
+
+    it('should leave the plan alone when the gym\'s equipment is unknown', async () => {
+      const gym = await schemas.getGymsCollection().insertOne({ ...localGym, amenities: ['Parking'] });
+      await schemas.getUsersCollection().updateOne({ _id: new ObjectId(userId) }, { $set: { homeGymId: gym.insertedId } });
+      await createPlan();
+
+      const result = await substitutionService.adaptPlanToUser(userId);
+
+      expect(result.data!.substitutions).toEqual([]);
+      expect(await getPlanExercises()).toContain('Lat Pulldown');
+    });
+  });
+
+  describe('describeSubstitutions', () => {
+    it('should list each swap by day', () => {
+      const message = substitutionService.describeSubstitutions({
+        substitutions: [{ dayOfWeek: 'Monday', original: 'Lat Pulldown', substitute: 'Dumbbell Row', missingEquipment: ['cable'], limitations: [] }],
+        unavailable: [],
+        removed: [],
+      });
+
+      expect(message).toContain('Monday: Lat Pulldown → Dumbbell Row');
+    });
+  });
+});
@@ -92,6 +92,18 @@ describe('UserService', () => {
       expect(result.data?.profile.bmi).toBe(22.9);
     });
 
+    it('should store calorie and macro targets for the profile', async () => {
+      const result = await userService.createUser({
+        ...validUserData,
+        profile: { ...validUserData.profile!, gender: 'male', activityLevel: 'moderate' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.nutritionTargets?.bmr).toBe(1674); // 10*70 + 6.25*175 - 5*25 + 5
+      expect(result.data?.nutritionTargets?.tdee).toBe(2594);
+      expect(result.data?.nutritionTargets?.targetCalories).toBe(2983); // 15% bulk surplus
+    });
+
     it('should set default values for missing optional fields', async () => {
       const minimalUserData = {
         profile: validUserData.profile,
@@ -261,6 +273,15 @@ describe('UserService', () => {
       expect(result.data?.profile.bmi).toBe(21.6); // New BMI
     });
 
+    it('should recalculate calorie targets when weight changes', async () => {
+      const before = await userService.getUserById(userId);
+      const result = await userService.updateUserProfile(userId, { weight: 80 });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.nutritionTargets?.targetCalories).toBeGreaterThan(before.data!.nutritionTargets!.targetCalories);
+      expect(result.metadata?.calorieTargetChanged).toBe(true);
+    });
+
     it('should reject invalid updates', async () => {
       const invalidUpdates = { age: 150 };
 
@@ -300,6 +321,15 @@ describe('UserService', () => {
       expect(result.metadata?.recommendations).toContain('Focus on compound movements');
     });
 
+    it('should move calorie targets with the goal', async () => {
+      const lean = await userService.setFitnessGoal(userId, 'lean');
+      const bulk = await userService.setFitnessGoal(userId, 'bulk');
+
+      expect(lean.data!.nutritionTargets!.targetCalories).toBeLessThan(lean.data!.nutritionTargets!.tdee);
+      expect(bulk.data!.nutritionTargets!.targetCalories).toBeGreaterThan(bulk.data!.nutritionTargets!.tdee);
+      expect(bulk.metadata?.nutritionTargets).toEqual(bulk.data?.nutritionTargets);
+    });
+
     it('should provide different recommendations for different goals', async () => {
       const leanResult = await userService.setFitnessGoal(userId, 'lean');
       
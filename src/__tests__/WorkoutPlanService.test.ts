@@ -0,0 +1,243 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, Collection } from 'mongodb';
+import { WorkoutPlanService } from '../services/WorkoutPlanService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+import { User } from '../types';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('WorkoutPlanService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let planService: WorkoutPlanService;
+
+  const baseUser: User = {
+    profile: {
+      name: 'Chidi',
+      age: 28,
+      height: 178,
+      weight: 80,
+      bmi: 25.2,
+      fitnessGoal: 'bulk',
+      trainingPhilosophy: 'arnold',
+      experienceLevel: 'intermediate',
+    },
+    schedule: {
+      workDays: [],
+      availableHours: [{ start: '17:00', end: '21:00' }],
+      preferredWorkoutDuration: 90,
+      workoutDaysPerWeek: 6,
+    },
+    preferences: {
+      reminderFrequency: 'daily',
+      humorEnabled: true,
+      conversationStyle: 'casual',
+    },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  let userCount = 0;
+  const createUser = async (overrides: {
+    profile?: Partial<User['profile']>;
+    schedule?: Partial<User['schedule']>;
+  } = {}): Promise<string> => {
+    userCount++;
+    const result = await schemas.getUsersCollection().insertOne({
+      ...baseUser,
+      telegramId: `plan${userCount}`,
+      profile: { ...baseUser.profile, ...overrides.profile },
+      schedule: { ...baseUser.schedule, ...overrides.schedule },
+    });
+    return result.insertedId.toString();
+  };
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    planService = new WorkoutPlanService();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getUsersCollection().deleteMany({});
+    await schemas.getWorkoutPlansCollection().deleteMany({});
+  });
+
+  describe('generatePlan', () => {
+    it('should build a push/pull/legs plan for a 6-day intermediate lifter', async () => {
+      const userId = await createUser();
+
+      const result = await planService.generatePlan(userId);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.planType).toBe('push_pull_legs');
+      expect(result.data?.schedule).toHaveLength(6);
+      expect(result.data?.isActive).toBe(true);
+      expect(result.metadata?.trainingDays).toEqual([
+        'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday',
+      ]);
+    });
+
+    it('should build a full body plan for 3 days per week', async () => {
+      const userId = await createUser({ schedule: { workoutDaysPerWeek: 3 } });
+
+      const result = await planService.generatePlan(userId);
+
+      expect(result.data?.planType).toBe('full_body');
+      expect(result.data?.schedule.map(day => day.dayOfWeek)).toEqual(['Monday', 'Wednesday', 'Friday']);
+    });
+
+    it('should use the user\'s own training days when they match the frequency', async () => {
+      const userId = await createUser({
+        schedule: { workoutDaysPerWeek: 3, workDays: ['Saturday', 'Tuesday', 'Thursday'] },
+      });
+
+      const result = await planService.generatePlan(userId);
+
+      expect(result.data?.schedule.map(day => day.dayOfWeek)).toEqual(['Tuesday', 'Thursday', 'Saturday']);
+    });
+
+    it('should prescribe low volume to failure for Mentzer users', async () => {
+      const userId = await createUser({ profile: { trainingPhilosophy: 'mentzer' } });
+
+      const result = await planService.generatePlan(userId);
+      const exercises = result.data!.schedule.flatMap(day => day.exercises);
+
+      expect(result.data?.philosophy).toBe('mentzer');
+      exercises.forEach(exercise => {
+        expect(exercise.sets).toBe(1);
+        expect(exercise.reps).toContain('failure');
+      });
+    });
+
+    it('should prescribe more volume for Arnold users than Mentzer users', async () => {
+      const arnoldId = await createUser();
+      const mentzerId = await createUser({ profile: { trainingPhilosophy: 'mentzer' } });
+
+      const arnold = await planService.generatePlan(arnoldId);
+      const mentzer = await planService.generatePlan(mentzerId);
+
+      const totalSets = (plan: typeof arnold) =>
+        plan.data!.schedule[0].exercises.reduce((total, exercise) => total + exercise.sets, 0);
+      expect(totalSets(arnold)).toBeGreaterThan(totalSets(mentzer));
+    });
+
+    it('should superset opposing muscle groups for experienced Arnold users', async () => {
+      const userId = await createUser({ schedule: { workoutDaysPerWeek: 4 } });
+
+      const result = await planService.generatePlan(userId);
+      const grouped = result.data!.schedule[0].exercises.filter(exercise => exercise.group);
+
+      expect(grouped.length).toBeGreaterThan(0);
+      const labels = [...new Set(grouped.map(exercise => exercise.group!.label))];
+      labels.forEach(label => {
+        const pair = grouped.filter(exercise => exercise.group!.label === label);
+        expect(pair).toHaveLength(2);
+        expect(pair[0].restTime).toBe(0);
+        expect(pair[1].restTime).toBeGreaterThan(0);
+      });
+    });
+
+    it('should add drop sets to isolation work for experienced Mentzer users', async () => {
+      const userId = await createUser({ profile: { trainingPhilosophy: 'mentzer' } });
+
+      const result = await planService.generatePlan(userId);
+      const exercises = result.data!.schedule.flatMap(day => day.exercises);
+
+      expect(exercises.some(exercise => exercise.dropSets === 1)).toBe(true);
+      expect(exercises.find(exercise => exercise.exerciseName === 'Barbell Back Squat')?.dropSets).toBeUndefined();
+    });
+
+    it('should fit each day into the preferred workout duration', async () => {
+      const userId = await createUser({ schedule: { preferredWorkoutDuration: 45 } });
+
+      const result = await planService.generatePlan(userId);
+
+      result.data!.schedule.forEach(day => {
+        expect(day.exercises.length).toBeGreaterThanOrEqual(day.muscleGroups.length);
+        if (day.exercises.length > day.muscleGroups.length) {
+          expect(day.estimatedDuration).toBeLessThanOrEqual(45);
+        }
+      });
+    });
+
+    it('should keep exactly one active plan per user', async () => {
+      const userId = await createUser();
+
+      await planService.generatePlan(userId);
+      await planService.generatePlan(userId, 'upper_lower');
+
+      const plans = await schemas.getWorkoutPlansCollection().find({}).toArray();
+      expect(plans).toHaveLength(2);
+      expect(plans.filter(plan => plan.isActive)).toHaveLength(1);
+
+      const active = await planService.getActivePlan(userId);
+      expect(active.data?.planType).toBe('upper_lower');
+    });
+
+    it('should keep the old plan active when the new one can\'t be saved', async () => {
+      const userId = await createUser();
+      await planService.generatePlan(userId);
+      const insertOne = jest.spyOn(Collection.prototype, 'insertOne').mockRejectedValueOnce(new Error('Write failed'));
+
+      const result = await planService.generatePlan(userId, 'upper_lower');
+      insertOne.mockRestore();
+
+      expect(result.success).toBe(false);
+      const active = await planService.getActivePlan(userId);
+      expect(active.data?.planType).toBe('push_pull_legs');
+    });
+
+    it('should not leave a plan behind when two are generated at once', async () => {
+      const userId = await createUser();
+      await planService.generatePlan(userId);
+
+      const results = await Promise.all([
+        planService.generatePlan(userId, 'upper_lower'),
+        planService.generatePlan(userId, 'full_body'),
+      ]);
+
+      const plans = await schemas.getWorkoutPlansCollection().find({}).toArray();
+      expect(plans.filter(plan => plan.isActive)).toHaveLength(1);
+      expect(plans).toHaveLength(1 + results.filter(result => result.success).length);
+    });
+
+    it('should return error for non-existent user', async () => {
+      const result = await planService.generatePlan('507f1f77bcf86cd799439011');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('User not found');
+    });
+  });
+
+  describe('getActivePlan', () => {
+    it('should return PLAN_NOT_FOUND when the user has no plan', async () => {
+      const userId = await createUser();
+
+      const result = await planService.getActivePlan(userId);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PLAN_NOT_FOUND');
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { WorkoutSessionService } from '../services/WorkoutSessionService';
+import { DatabaseSchemas } from '../database/schemas';
+import { database } from '../database/connection';
+
+// Mock the database connection
+jest.mock('../database/connection');
+
+describe('WorkoutSessionService', () => {
+  let mongoServer: MongoMemoryServer;
+  let client: MongoClient;
+  let db: Db;
+  let schemas: DatabaseSchemas;
+  let sessionService: WorkoutSessionService;
+  const userId = '507f1f77bcf86cd799439011';
+
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    client = new MongoClient(uri);
+    await client.connect();
+    db = client.db('test');
+    schemas = new DatabaseSchemas(db);
+    await schemas.createIndexes();
+
+    // Mock the database connection methods
+    (database.getSchemas as jest.Mock).mockReturnValue(schemas);
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    sessionService = new WorkoutSessionService();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await mongoServer.stop();
+  });
+
+  beforeEach(async () => {
+    // Clean up collections before each test
+    await schemas.getWorkoutSessionsCollection().deleteMany({});
+  });
+
+  describe('startSession', () => {
+    it('should create a new open session', async () => {
+      const result = await sessionService.startSession(userId);
+
+      expect(result.success).toBe(true);
+      expect(result.data?._id).toBeDefined();
+      expect(result.data?.isCompleted).toBe(false);
+      expect(result.data?.exercises).toHaveLength(0);
+      expect(result.metadata?.resumed).toBe(false);
+
+      const stored = await schemas.getWorkoutSessionsCollection().find({}).toArray();
+      expect(stored).toHaveLength(1);
+    });
+
+    it('should resume an existing open session', async () => {
+      const first = await sessionService.startSession(userId);
+      const second = await sessionService.startSession(userId);
+
+      expect(second.success).toBe(true);
+      expect(second.metadata?.resumed).toBe(true);
+      expect(second.data?._id?.toString()).toBe(first.data?._id?.toString());
+    });
+
+    it('should reject an invalid user ID', async () => {
+      const result = await sessionService.startSession('invalid-id');
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Invalid user ID format');
+    });
+  });
+
+  describe('logSets', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+      const result = await sessionService.startSession(userId);
+      sessionId = result.data!._id!.toString();
+    });
+
+    it('should append a new exercise log', async () => {
+      const result = await sessionService.logSets(sessionId, 'bench press', [
+        { reps: 10, weight: 60 },
+        { reps: 10, weight: 60 },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.exercises).toHaveLength(1);
+      expect(result.data?.exercises[0].exerciseName).toBe('bench press');
+      expect(result.data?.exercises[0].sets).toHaveLength(2);
+    });
+
+    it('should add sets to the latest log of the same exercise', async () => {
+      await sessionService.logSets(sessionId, 'squat', [{ reps: 5, weight: 100 }]);
+      const result = await sessionService.logSets(sessionId, 'Squat', [{ reps: 5, weight: 105 }]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.exercises).toHaveLength(1);
+      expect(result.data?.exercises[0].sets.map(set => set.weight)).toEqual([100, 105]);
+    });
+
+    it('should match logs by exercise ID when provided', async () => {
+      const exerciseId = new ObjectId();
+      await sessionService.logSets(sessionId, 'bench', [{ reps: 8 }], exerciseId);
+      const result = await sessionService.logSets(sessionId, 'bench press', [{ reps: 8 }], exerciseId);
+
+      expect(result.data?.exercises).toHaveLength(1);
+      expect(result.data?.exercises[0].exerciseId?.equals(exerciseId)).toBe(true);
+    });
+
+    it('should reject an empty set list', async () => {
+      const result = await sessionService.logSets(sessionId, 'squat', []);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('At least one set is required');
+    });
+
+    it('should reject logging to a completed session', async () => {
+      await sessionService.endSession(sessionId);
+
+      const result = await sessionService.logSets(sessionId, 'squat', [{ reps: 5 }]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Workout session is already completed');
+    });
+  });
+
+  describe('logGroupSets', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+      const result = await sessionService.startSession(userId);
+      sessionId = result.data!._id!.toString();
+    });
+
+    it('should log each exercise of a superset under one group', async () => {
+      const result = await sessionService.logGroupSets(sessionId, { type: 'superset' }, [
+        { exerciseName: 'curls', sets: [{ reps: 12 }, { reps: 12 }] },
+        { exerciseName: 'pushdowns', sets: [{ reps: 12 }, { reps: 12 }] },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.exercises.map(log => log.group)).toEqual([
+        { label: 'A', type: 'superset' },
+        { label: 'A', type: 'superset' },
+      ]);
+      expect(result.metadata?.exerciseIndex).toBe(1);
+    });
+
+    it('should give each group in a session its own label', async () => {
+      await sessionService.logGroupSets(sessionId, { type: 'superset' }, [
+        { exerciseName: 'curls', sets: [{ reps: 12 }] },
+        { exerciseName: 'pushdowns', sets: [{ reps: 12 }] },
+      ]);
+      const result = await sessionService.logGroupSets(sessionId, { type: 'circuit', rounds: 1 }, [
+        { exerciseName: 'burpees', sets: [{ reps: 10 }] },
+      ]);
+
+      expect(result.data?.exercises[2].group).toEqual({ label: 'B', type: 'circuit', rounds: 1 });
+    });
+
+    it('should not add straight sets to a grouped log', async () => {
+      await sessionService.logGroupSets(sessionId, { type: 'superset' }, [
+        { exerciseName: 'curls', sets: [{ reps: 12 }] },
+        { exerciseName: 'pushdowns', sets: [{ reps: 12 }] },
+      ]);
+      const result = await sessionService.logSets(sessionId, 'pushdowns', [{ reps: 10 }]);
+
+      expect(result.data?.exercises).toHaveLength(3);
+      expect(result.data?.exercises[2].group).toBeUndefined();
+    });
+
+    it('should reject an exercise without sets', async () => {
+      const result = await sessionService.logGroupSets(sessionId, { type: 'superset' }, [
+        { exerciseName: 'curls', sets: [{ reps: 12 }] },
+        { exerciseName: 'pushdowns', sets: [] },
+      ]);
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('endSession', () => {
+    it('should close the session with an end time', async () => {
+      const started = await sessionService.startSession(userId);
+      const sessionId = started.data!._id!.toString();
+      await sessionService.logSets(sessionId, 'deadlift', [{ reps: 5 }, { reps: 5 }, { reps: 5 }]);
+
+      const result = await sessionService.endSession(sessionId, 'Felt strong');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.isCompleted).toBe(true);
+      expect(result.data?.endTime).toBeDefined();
+      expect(result.data?.notes).toBe('Felt strong');
+      expect(result.metadata?.totalSets).toBe(3);
+
+      const active = await sessionService.getActiveSession(userId);
+      expect(active.success).toBe(false);
+      expect(active.error?.code).toBe('NO_ACTIVE_SESSION');
+    });
+
+    it('should count a drop set chain as one set', async () => {
+      const started = await sessionService.startSession(userId);
+      const sessionId = started.data!._id!.toString();
+      await sessionService.logSets(sessionId, 'curls', [
+        { reps: 10, weight: 20 },
+        { reps: 8, weight: 14, dropSet: true },
+        { reps: 6, weight: 10, dropSet: true },
+      ]);
+
+      const result = await sessionService.endSession(sessionId);
+
+      expect(result.metadata?.totalSets).toBe(1);
+      expect(result.metadata?.summary.totalVolume).toBe(372);
+    });
+
+    it('should return error when the session is already closed', async () => {
+      const started = await sessionService.startSession(userId);
+      const sessionId = started.data!._id!.toString();
+      await sessionService.endSession(sessionId);
+
+      const result = await sessionService.endSession(sessionId);
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should summarize duration, volume and exercises without paused time', async () => {
+      const started = await sessionService.startSession(userId);
+      const sessionId = started.data!._id!.toString();
+      await sessionService.logSets(sessionId, 'squat', [{ reps: 5, weight: 100 }, { reps: 5, weight: 100 }]);
+      await sessionService.logSets(sessionId, 'plank', [{ reps: 1 }]);
+      await schemas.getWorkoutSessionsCollection().updateOne(
+        { _id: started.data!._id },
+        { $set: { startTime: new Date(Date.now() - 60 * 60000), pausedSeconds: 15 * 60 } }
+      );
+
+      const result = await sessionService.endSession(sessionId);
+
+      expect(result.metadata?.durationMinutes).toBe(45);
+      expect(result.metadata?.summary).toEqual({
+        durationMinutes: 45,
+        totalSets: 3,
+        totalVolume: 1000,
+        exercises: [
+          { exerciseName: 'squat', sets: 2, volume: 1000 },
+          { exerciseName: 'plank', sets: 1, volume: 0 },
+        ],
+        personalRecords: [],
+      });
+    });
+  });
+
+  describe('pauseSession and resumeSession', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+      const result = await sessionService.startSession(userId);
+      sessionId = result.data!._id!.toString();
+    });
+
+    it('should pause and resume, adding up the paused time', async () => {
+      const paused = await sessionService.pauseSession(sessionId);
+      expect(paused.data?.pausedAt).toBeDefined();
+      expect(paused.metadata?.alreadyPaused).toBe(false);
+
+      await schemas.getWorkoutSessionsCollection().updateOne(
+        { _id: new ObjectId(sessionId) },
+        { $set: { pausedAt: new Date(Date.now() - 10 * 60000) } }
+      );
+      const resumed = await sessionService.resumeSession(sessionId);
+
+      expect(resumed.success).toBe(true);
+      expect(resumed.metadata?.pausedMinutes).toBe(10);
+      const stored = await schemas.getWorkoutSessionsCollection().findOne({ _id: new ObjectId(sessionId) });
+      expect(stored?.pausedAt).toBeUndefined();
+      expect(stored?.pausedSeconds).toBe(600);
+    });
+
+    it('should report a session that is already paused', async () => {
+      await sessionService.pauseSession(sessionId);
+
+      const result = await sessionService.pauseSession(sessionId);
+
+      expect(result.metadata?.alreadyPaused).toBe(true);
+    });
+
+    it('should resume when a set is logged', async () => {
+      await sessionService.pauseSession(sessionId);
+
+      const result = await sessionService.logSets(sessionId, 'squat', [{ reps: 5 }]);
+
+      expect(result.data?.pausedAt).toBeUndefined();
+      const stored = await schemas.getWorkoutSessionsCollection().findOne({ _id: new ObjectId(sessionId) });
+      expect(stored?.pausedAt).toBeUndefined();
+      expect(stored?.pausedSeconds).toBeDefined();
+    });
+
+    it('should not pause a completed session', async () => {
+      await sessionService.endSession(sessionId);
+
+      const result = await sessionService.pauseSession(sessionId);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Active workout session not found');
+    });
+  });
+
+  describe('closeIdleSessions', () => {
+    it('should close sessions idle past the limit at their last activity', async () => {
+      const lastActivityAt = new Date(Date.now() - 4 * 3600000);
+      const idle = await schemas.getWorkoutSessionsCollection().insertOne({
+        userId: new ObjectId(userId),
+        startTime: new Date(lastActivityAt.getTime() - 30 * 60000),
+        lastActivityAt,
+        exercises: [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }],
+        isCompleted: false,
+      });
+      const active = await sessionService.startSession(new ObjectId().toString());
+
+      const result = await sessionService.closeIdleSessions(3);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(1);
+      expect(result.data![0].autoClosed).toBe(true);
+      expect(result.data![0].endTime).toEqual(lastActivityAt);
+      expect(result.metadata?.summaries[idle.insertedId.toString()].durationMinutes).toBe(30);
+
+      const stillOpen = await schemas.getWorkoutSessionsCollection().findOne({ _id: active.data!._id });
+      expect(stillOpen?.isCompleted).toBe(false);
+    });
+  });
+
+  describe('getSessionsForUser', () => {
+    it('should page sessions newest first', async () => {
+      for (let i = 0; i < 3; i++) {
+        const started = await sessionService.startSession(userId);
+        await sessionService.endSession(started.data!._id!.toString());
+      }
+
+      const result = await sessionService.getSessionsForUser(userId, 1, 2);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toHaveLength(2);
+      expect(result.metadata?.total).toBe(3);
+      expect(result.metadata?.totalPages).toBe(2);
+      expect(result.data![0].startTime.getTime()).toBeGreaterThanOrEqual(result.data![1].startTime.getTime());
+    });
+  });
+
+  describe('addSets and updateSet', () => {
+    let sessionId: string;
+
+    beforeEach(async () => {
+      const started = await sessionService.startSession(userId);
+      sessionId = started.data!._id!.toString();
+      await sessionService.logSets(sessionId, 'bench press', [{ reps: 10, weight: 60 }]);
+      await sessionService.logSets(sessionId, 'row', [{ reps: 10, weight: 50 }]);
+      await sessionService.endSession(sessionId);
+    });
+
+    it('should add sets to a completed session', async () => {
+      const result = await sessionService.addSets(userId, sessionId, 'Bench Press', [{ reps: 8, weight: 65 }]);
+
+      expect(result.success).toBe(true);
+      expect(result.data?.exercises).toHaveLength(2);
+      expect(result.data?.exercises[0].sets).toHaveLength(2);
+    });
+
+    it('should reject invalid sets', async () => {
+      const result = await sessionService.addSets(userId, sessionId, 'row', [{ reps: 8, rpe: 14 }]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('Set validation failed');
+    });
+
+    it('should edit a logged set', async () => {
+      const result = await sessionService.updateSet(userId, sessionId, 1, 0, { weight: 55, rpe: 8 });
+
+      expect(result.success).toBe(true);
+      const stored = await sessionService.getSessionById(userId, sessionId);
+      expect(stored.data?.exercises[1].sets[0]).toEqual({ reps: 10, weight: 55, rpe: 8 });
+    });
+
+    it('should return SET_NOT_FOUND for a missing set', async () => {
+      const result = await sessionService.updateSet(userId, sessionId, 0, 5, { reps: 1 });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SET_NOT_FOUND');
+    });
+
+    it('should not expose another user\'s session', async () => {
+      const result = await sessionService.getSessionById('507f1f77bcf86cd799439012', sessionId);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('SESSION_NOT_FOUND');
+    });
+  });
+});
@@ -217,6 +217,11 @@ describe('AI Routes', () => {
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.message).toContain('rice and chicken');
+      expect(mockAIService.analyzeImage).toHaveBeenCalledWith(
+        '507f1f77bcf86cd799439011',
+        expect.any(Buffer),
+        'food_analysis'
+      );
     });
 
     it('should return 400 for missing image', async () => {
@@ -228,6 +233,21 @@ describe('AI Routes', () => {
       expect(response.body.error.code).toBe('NO_IMAGE_PROVIDED');
     });
 
+    it('should return 400 for an unreadable image', async () => {
+      mockAIService.analyzeImage.mockResolvedValue({
+        success: false,
+        error: {
+          code: 'INVALID_IMAGE',
+          message: 'Unreadable image: Input buffer contains unsupported image format',
+        },
+      });
+
+      await request(app.app)
+        .post('/api/ai/analyze-image/507f1f77bcf86cd799439011')
+        .attach('image', Buffer.from('fake-image-data'), 'test-food.png')
+        .expect(400);
+    });
+
     it('should handle image analysis errors', async () => {
       mockAIService.analyzeImage.mockResolvedValue({
         success: false,
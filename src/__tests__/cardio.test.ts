@@ -0,0 +1,83 @@
+import { parseCardioActivity, calculatePace, formatPace, estimateCaloriesBurned, describeCardioLog } from '../utils/cardio';
+
+describe('Cardio', () => {
+  describe('parseCardioActivity', () => {
+    it('should read distance and duration', () => {
+      expect(parseCardioActivity('ran 5k in 28 mins')).toEqual({ activity: 'running', durationMinutes: 28, distanceKm: 5 });
+      expect(parseCardioActivity('cycled 20km in 1h 5m avg hr 142')).toEqual({
+        activity: 'cycling',
+        durationMinutes: 65,
+        distanceKm: 20,
+        averageHeartRate: 142,
+      });
+      expect(parseCardioActivity('jogged 3 miles in 27:30')).toEqual({ activity: 'running', durationMinutes: 27.5, distanceKm: 4.83 });
+    });
+
+    it('should read activities logged by time only', () => {
+      expect(parseCardioActivity('played football for 90 minutes, 700 kcal')).toEqual({
+        activity: 'football',
+        durationMinutes: 90,
+        caloriesBurned: 700,
+      });
+      expect(parseCardioActivity('skipping rope half an hour')).toEqual({ activity: 'skipping', durationMinutes: 30 });
+    });
+
+    it('should keep a distance without a duration', () => {
+      expect(parseCardioActivity('swam 800m')).toEqual({ activity: 'swimming', distanceKm: 0.8 });
+    });
+
+    it('should ignore plans, questions and messages without numbers', () => {
+      expect(parseCardioActivity('I want to run a 5k')).toBeNull();
+      expect(parseCardioActivity('how long should I walk for?')).toBeNull();
+      expect(parseCardioActivity('went for a run')).toBeNull();
+      expect(parseCardioActivity('bench press 3x10 @ 60kg')).toBeNull();
+    });
+  });
+
+  describe('calculatePace and formatPace', () => {
+    it('should give minutes per km', () => {
+      expect(calculatePace(28, 5)).toBe(5.6);
+      expect(formatPace(5.6)).toBe('5:36/km');
+      expect(formatPace(4.999)).toBe('5:00/km');
+    });
+  });
+
+  describe('estimateCaloriesBurned', () => {
+    it('should use METs by speed when the distance is known', () => {
+      // 10.7 km/h is 11 METs: 11 x 70kg x 28/60h
+      expect(estimateCaloriesBurned({ activity: 'running', durationMinutes: 28, distanceKm: 5, weightKg: 70 })).toBe(359);
+      // 6 METs for a slow 6 km/h jog
+      expect(estimateCaloriesBurned({ activity: 'running', durationMinutes: 60, distanceKm: 6, weightKg: 70 })).toBe(420);
+    });
+
+    it('should use the activity MET when only the duration is known', () => {
+      expect(estimateCaloriesBurned({ activity: 'football', durationMinutes: 90, weightKg: 80 })).toBe(840);
+    });
+
+    it('should use heart rate when the age is known', () => {
+      const byHeartRate = estimateCaloriesBurned({
+        activity: 'cycling', durationMinutes: 60, averageHeartRate: 150, weightKg: 75, age: 30,
+      });
+      expect(byHeartRate).toBeGreaterThan(500);
+      expect(byHeartRate).toBeLessThan(900);
+    });
+
+    it('should use the equation for the user\'s gender when known', () => {
+      const input = { activity: 'cycling' as const, durationMinutes: 60, averageHeartRate: 150, weightKg: 75, age: 30 };
+      const male = estimateCaloriesBurned({ ...input, gender: 'male' });
+      const female = estimateCaloriesBurned({ ...input, gender: 'female' });
+
+      expect(male).toBeGreaterThan(female);
+      expect(estimateCaloriesBurned(input)).toBeCloseTo((male + female) / 2, -1);
+    });
+  });
+
+  describe('describeCardioLog', () => {
+    it('should summarise a run', () => {
+      expect(describeCardioLog({ activity: 'running', durationMinutes: 28, distanceKm: 5, paceMinPerKm: 5.6, caloriesBurned: 385 }))
+        .toBe('5 km run in 28 min (5:36/km), about 385 kcal burned');
+      expect(describeCardioLog({ activity: 'football', durationMinutes: 90, caloriesBurned: 840 }))
+        .toBe('football in 90 min, about 840 kcal burned');
+    });
+  });
+});
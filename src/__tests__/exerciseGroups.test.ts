@@ -0,0 +1,87 @@
+import { parseExerciseGroup, countWorkingSets, countMuscleGroupSets, nextGroupLabel } from '../utils/exerciseGroups';
+
+describe('Exercise Groups', () => {
+  describe('parseExerciseGroup', () => {
+    it('should share sets given once across a superset', () => {
+      const result = parseExerciseGroup('superset curls and pushdowns 3x12');
+
+      expect(result?.type).toBe('superset');
+      expect(result?.exercises.map(exercise => exercise.exerciseText)).toEqual(['curls', 'pushdowns']);
+      result?.exercises.forEach(exercise => {
+        expect(exercise.sets).toEqual([{ reps: 12 }, { reps: 12 }, { reps: 12 }]);
+      });
+    });
+
+    it('should keep each exercise\'s own weight', () => {
+      const result = parseExerciseGroup('superset curls 12kg and pushdowns 30kg 3 rounds of 12');
+
+      expect(result?.rounds).toBe(3);
+      expect(result?.exercises[0].sets).toEqual([{ reps: 12, weight: 12 }, { reps: 12, weight: 12 }, { reps: 12, weight: 12 }]);
+      expect(result?.exercises[1].sets[0]).toEqual({ reps: 12, weight: 30 });
+    });
+
+    it('should leave sets empty when only rounds are given', () => {
+      const result = parseExerciseGroup('superset curls and pushdowns 3 rounds');
+
+      expect(result?.rounds).toBe(3);
+      expect(result?.exercises.every(exercise => exercise.sets.length === 0)).toBe(true);
+    });
+
+    it('should call a superset of three or more a giant set', () => {
+      expect(parseExerciseGroup('superset lateral raise, front raise and rear delt fly 3x15')?.type).toBe('giant_set');
+      expect(parseExerciseGroup('tri-set lateral raise, front raise and rear delt fly 3x15')?.type).toBe('giant_set');
+    });
+
+    it('should repeat circuit reps for every round', () => {
+      const result = parseExerciseGroup('circuit: 10 burpees, 15 squats, push-ups x20 x 3 rounds');
+
+      expect(result?.type).toBe('circuit');
+      expect(result?.exercises.map(exercise => [exercise.exerciseText, exercise.sets.length, exercise.sets[0].reps]))
+        .toEqual([['burpees', 3, 10], ['squats', 3, 15], ['push ups', 3, 20]]);
+    });
+
+    it('should read EMOM minutes as rounds', () => {
+      expect(parseExerciseGroup('EMOM 10 min 5 pull ups')).toEqual({
+        type: 'emom',
+        rounds: 10,
+        intervalSeconds: 60,
+        exercises: [{ exerciseText: 'pull ups', sets: Array(10).fill({ reps: 5 }) }],
+      });
+      expect(parseExerciseGroup('E2MOM 12 minutes 3 deadlifts @ 140kg')?.rounds).toBe(6);
+    });
+
+    it('should ignore questions and messages without a group', () => {
+      expect(parseExerciseGroup('should I superset curls and pushdowns?')).toBeNull();
+      expect(parseExerciseGroup('superset curls')).toBeNull();
+      expect(parseExerciseGroup('bench press 3x10 and then rows')).toBeNull();
+    });
+  });
+
+  describe('countWorkingSets', () => {
+    it('should count a drop set chain once', () => {
+      expect(countWorkingSets([
+        { reps: 10, weight: 20 },
+        { reps: 8, weight: 14, dropSet: true },
+        { reps: 10, weight: 20 },
+      ])).toBe(2);
+    });
+  });
+
+  describe('countMuscleGroupSets', () => {
+    it('should count hard sets in full for the main muscle group and half for the others', () => {
+      expect(countMuscleGroupSets([
+        { reps: 12, weight: 40, rpe: 5 },
+        { reps: 8, weight: 70, rpe: 8 },
+        { reps: 8, weight: 70 },
+        { reps: 6, weight: 50, dropSet: true },
+      ], ['chest', 'triceps', 'shoulders'])).toEqual({ chest: 2, triceps: 1, shoulders: 1 });
+    });
+  });
+
+  describe('nextGroupLabel', () => {
+    it('should use the first free letter', () => {
+      expect(nextGroupLabel([])).toBe('A');
+      expect(nextGroupLabel(['A', 'C'])).toBe('B');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  matchExercises,
+  tokenizeExerciseName,
+  levenshteinDistance,
+  CONFIDENT_MATCH,
+} from '../utils/exerciseMatcher';
+import { EXERCISE_LIBRARY } from '../database/seeds/exercises';
+
+const bestMatch = (text: string) => matchExercises(text, EXERCISE_LIBRARY)[0];
+
+describe('Exercise Matcher', () => {
+  describe('tokenizeExerciseName', () => {
+    it('should expand abbreviations and singularize', () => {
+      expect(tokenizeExerciseName('DB Curls')).toEqual(['dumbbell', 'curl']);
+      expect(tokenizeExerciseName('bench presses')).toEqual(['bench', 'press']);
+    });
+
+    it('should drop chat filler only when asked', () => {
+      expect(tokenizeExerciseName('I did some rows', true)).toEqual(['row']);
+      expect(tokenizeExerciseName('I did some rows')).toEqual(['i', 'did', 'some', 'row']);
+    });
+  });
+
+  describe('levenshteinDistance', () => {
+    it('should count single edits', () => {
+      expect(levenshteinDistance('squat', 'squat')).toBe(0);
+      expect(levenshteinDistance('squart', 'squat')).toBe(1);
+      expect(levenshteinDistance('', 'row')).toBe(3);
+    });
+  });
+
+  describe('matchExercises', () => {
+    it.each([
+      ['benchpress', 'Barbell Bench Press'],
+      ['squart', 'Barbell Back Squat'],
+      ['OHP', 'Overhead Press'],
+      ['RDL', 'Romanian Deadlift'],
+      ['DB curl', 'Dumbbell Curl'],
+      ['pullups', 'Pull Up'],
+      ['hip thrusts', 'Hip Thrust'],
+      ['did some rows', 'Barbell Row'],
+      ['pumping', 'Push Up'],
+      ['dumbell fly', 'Dumbbell Fly'],
+    ])('should confidently resolve "%s" to %s', (text, expected) => {
+      const match = bestMatch(text);
+
+      expect(match.exercise.name).toBe(expected);
+      expect(match.confidence).toBeGreaterThanOrEqual(CONFIDENT_MATCH);
+    });
+
+    it('should give a low confidence to a loose description', () => {
+      const match = bestMatch('the thing with the rope');
+
+      expect(match.confidence).toBeLessThan(CONFIDENT_MATCH);
+    });
+
+    it('should return nothing for unrelated text', () => {
+      expect(matchExercises('what time is it', EXERCISE_LIBRARY)).toEqual([]);
+      expect(matchExercises('', EXERCISE_LIBRARY)).toEqual([]);
+    });
+
+    it('should list each exercise once, best first', () => {
+      const matches = matchExercises('incline db press', EXERCISE_LIBRARY, 5);
+      const names = matches.map(match => match.exercise.name);
+
+      expect(names[0]).toBe('Incline Dumbbell Press');
+      expect(new Set(names).size).toBe(names.length);
+      expect(matches.map(match => match.confidence)).toEqual(
+        [...matches.map(match => match.confidence)].sort((a, b) => b - a)
+      );
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import request from 'supertest';
+import App from '../app';
+import { database } from '../database/connection';
+import { ExerciseService } from '../services/ExerciseService';
+
+// Mock the exercise service
+jest.mock('../services/ExerciseService');
+jest.mock('../database/connection');
+
+describe('Exercise Routes', () => {
+  let app: App;
+  let mockExerciseService: jest.Mocked<ExerciseService>;
+
+  beforeAll(() => {
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    app = new App();
+
+    // The router's service instance is the most recently constructed mock
+    const instances = (ExerciseService as jest.MockedClass<typeof ExerciseService>).mock.instances;
+    mockExerciseService = instances[instances.length - 1] as jest.Mocked<ExerciseService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/exercises', () => {
+    it('should pass filters and paging to the service', async () => {
+      mockExerciseService.searchExercises.mockResolvedValue({
+        success: true,
+        data: [{ name: 'Goblet Squat' } as any],
+        metadata: { page: 1, limit: 10, total: 1, totalPages: 1 },
+      });
+
+      const response = await request(app.app)
+        .get('/api/exercises?q=squat&muscleGroup=quads&equipment=dumbbell&difficulty=beginner&limit=10')
+        .expect(200);
+
+      expect(response.body.data[0].name).toBe('Goblet Squat');
+      expect(mockExerciseService.searchExercises).toHaveBeenCalledWith(
+        { query: 'squat', muscleGroup: 'quads', equipment: 'dumbbell', difficulty: 'beginner', category: undefined },
+        1,
+        10
+      );
+    });
+
+    it('should return 400 for an invalid difficulty', async () => {
+      const response = await request(app.app)
+        .get('/api/exercises?difficulty=expert')
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_DIFFICULTY');
+      expect(mockExerciseService.searchExercises).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/exercises/:exerciseId', () => {
+    it('should return 404 for an unknown exercise', async () => {
+      mockExerciseService.getExerciseById.mockResolvedValue({
+        success: false,
+        error: { code: 'EXERCISE_NOT_FOUND', message: 'Exercise not found' },
+      });
+
+      await request(app.app)
+        .get('/api/exercises/507f1f77bcf86cd799439011')
+        .expect(404);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  parseEquipment,
+  parseMissingEquipment,
+  equipmentFromAmenities,
+  findSubstitutes,
+  hasEquipment,
+} from '../utils/exerciseSubstitution';
+import { EXERCISE_LIBRARY } from '../database/seeds/exercises';
+
+const libraryExercise = (name: string) => EXERCISE_LIBRARY.find(exercise => exercise.name === name)!;
+
+describe('Exercise Substitution', () => {
+  describe('parseEquipment', () => {
+    it('should map names to library equipment, longest first', () => {
+      expect(parseEquipment('Smith machine')).toEqual(['smith_machine']);
+      expect(parseEquipment('Free weights and a squat rack')).toEqual(['barbell', 'dumbbell', 'weight_plate', 'rack']);
+      expect(parseEquipment('Showers')).toEqual([]);
+    });
+  });
+
+  describe('parseMissingEquipment', () => {
+    it('should find equipment the user says is missing', () => {
+      expect(parseMissingEquipment('No cable machine here')).toEqual(['cable']);
+      expect(parseMissingEquipment('we don\'t have a leg press')).toEqual(['machine']);
+      expect(parseMissingEquipment('the smith machine is broken')).toEqual(['smith_machine']);
+    });
+
+    it('should ignore equipment mentioned in passing', () => {
+      expect(parseMissingEquipment('no, bench press 3x8')).toEqual([]);
+      expect(parseMissingEquipment('cable row 3x12 @ 50kg')).toEqual([]);
+    });
+  });
+
+  describe('equipmentFromAmenities', () => {
+    it('should treat amenities without equipment as unknown', () => {
+      expect(equipmentFromAmenities(['Dumbbells', 'Benches', 'Parking'])).toEqual(['dumbbell', 'bench']);
+      expect(equipmentFromAmenities(['Parking', 'Showers'])).toEqual([]);
+    });
+  });
+
+  describe('findSubstitutes', () => {
+    const dumbbellsOnly = ['dumbbell', 'bench'];
+
+    it('should keep the muscle groups and use the equipment available', () => {
+      const [substitute] = findSubstitutes(
+        libraryExercise('Lat Pulldown'),
+        EXERCISE_LIBRARY,
+        candidate => hasEquipment(candidate, dumbbellsOnly)
+      );
+
+      expect(substitute.muscleGroups).toEqual(expect.arrayContaining(['back', 'biceps']));
+      expect(hasEquipment(substitute, dumbbellsOnly)).toBe(true);
+    });
+
+    it('should prefer loaded exercises over bodyweight ones', () => {
+      const [substitute] = findSubstitutes(
+        libraryExercise('Leg Press'),
+        EXERCISE_LIBRARY,
+        candidate => hasEquipment(candidate, dumbbellsOnly)
+      );
+
+      expect(substitute.equipment).toContain('dumbbell');
+      expect(substitute.muscleGroups[0]).toBe('quads');
+    });
+
+    it('should not offer stretches for a lift', () => {
+      const substitutes = findSubstitutes(libraryExercise('Lying Leg Curl'), EXERCISE_LIBRARY, () => true);
+
+      expect(substitutes.map(exercise => exercise.category)).not.toContain('mobility');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { parseFoodAnalysis, parseFoodLogCorrection, applyFoodLogCorrection, DetectedFoodItem } from '../utils/foodAnalysis';
+
+describe('Food Analysis', () => {
+  describe('parseFoodAnalysis', () => {
+    it('should read the items from a JSON reply', () => {
+      const content = '{"items": [{"name": "Jollof Rice", "portionGrams": 250, "confidence": 0.9}, {"name": "Fried Plantain", "portionGrams": 80.4, "confidence": 0.7}]}';
+
+      expect(parseFoodAnalysis(content)).toEqual([
+        { name: 'Jollof Rice', portionGrams: 250, confidence: 0.9 },
+        { name: 'Fried Plantain', portionGrams: 80, confidence: 0.7 },
+      ]);
+    });
+
+    it('should find JSON in a code fence or prose', () => {
+      expect(parseFoodAnalysis('```json\n{"items": [{"name": "Amala", "portionGrams": 300, "confidence": 0.8}]}\n```')).toEqual([
+        { name: 'Amala', portionGrams: 300, confidence: 0.8 },
+      ]);
+      expect(parseFoodAnalysis('Here you go: [{"name": "Suya", "grams": 100}]')).toEqual([
+        { name: 'Suya', portionGrams: 100, confidence: 0.5 },
+      ]);
+    });
+
+    it('should drop items without a name or a sensible portion, and clamp confidence', () => {
+      const content = JSON.stringify({
+        items: [
+          { name: '', portionGrams: 100, confidence: 0.9 },
+          { name: 'Eba', portionGrams: 0, confidence: 0.9 },
+          { name: 'Egusi Soup', portionGrams: 200, confidence: 1.4 },
+        ],
+      });
+
+      expect(parseFoodAnalysis(content)).toEqual([{ name: 'Egusi Soup', portionGrams: 200, confidence: 1 }]);
+    });
+
+    it('should return null for a reply without JSON', () => {
+      expect(parseFoodAnalysis('I can see rice and chicken, approximately 450 calories total.')).toBeNull();
+      expect(parseFoodAnalysis('{"items": "rice"}')).toBeNull();
+    });
+  });
+
+  describe('parseFoodLogCorrection', () => {
+    it('should read saving and discarding', () => {
+      expect(parseFoodLogCorrection('Save')).toEqual({ action: 'save' });
+      expect(parseFoodLogCorrection('log it!')).toEqual({ action: 'save' });
+      expect(parseFoodLogCorrection('discard')).toEqual({ action: 'discard' });
+      expect(parseFoodLogCorrection('don\'t save')).toEqual({ action: 'discard' });
+    });
+
+    it('should leave yes and no to other questions', () => {
+      ['yes', 'y', 'ok', 'no', 'nope'].forEach(reply => {
+        expect(parseFoodLogCorrection(reply)).toBeNull();
+      });
+      expect(parseFoodLogCorrection('no more sets')).toBeNull();
+    });
+
+    it('should read removals and portions', () => {
+      expect(parseFoodLogCorrection('remove the plantain')).toEqual({ action: 'remove', name: 'plantain' });
+      expect(parseFoodLogCorrection('without moi moi')).toEqual({ action: 'remove', name: 'moi moi' });
+      expect(parseFoodLogCorrection('rice 300g')).toEqual({ action: 'portion', name: 'rice', portionGrams: 300 });
+      expect(parseFoodLogCorrection('the egusi soup was about 150 grams')).toEqual({ action: 'portion', name: 'egusi soup', portionGrams: 150 });
+      expect(parseFoodLogCorrection('add suya 100g')).toEqual({ action: 'portion', name: 'suya', portionGrams: 100 });
+    });
+
+    it('should ignore other messages', () => {
+      expect(parseFoodLogCorrection('what should I eat for dinner?')).toBeNull();
+      expect(parseFoodLogCorrection('bench press 3x10 @ 60kg')).toBeNull();
+    });
+  });
+
+  describe('applyFoodLogCorrection', () => {
+    const items: DetectedFoodItem[] = [
+      { name: 'Jollof Rice', portionGrams: 250, confidence: 0.9 },
+      { name: 'Fried Plantain', portionGrams: 80, confidence: 0.6 },
+    ];
+
+    it('should change the portion of a food named in part', () => {
+      expect(applyFoodLogCorrection(items, { action: 'portion', name: 'rice', portionGrams: 300 })[0]).toEqual({
+        name: 'Jollof Rice',
+        portionGrams: 300,
+        confidence: 1,
+      });
+    });
+
+    it('should add a food not in the list', () => {
+      const corrected = applyFoodLogCorrection(items, { action: 'portion', name: 'suya', portionGrams: 100 });
+
+      expect(corrected).toHaveLength(3);
+      expect(corrected[2]).toEqual({ name: 'suya', portionGrams: 100, confidence: 1 });
+    });
+
+    it('should remove a food, leaving the list alone for an unknown one', () => {
+      expect(applyFoodLogCorrection(items, { action: 'remove', name: 'plantain' })).toEqual([items[0]]);
+      expect(applyFoodLogCorrection(items, { action: 'remove', name: 'chicken' })).toEqual(items);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import request from 'supertest';
+import App from '../app';
+import { database } from '../database/connection';
+import { FoodService } from '../services/FoodService';
+
+// Mock the food service
+jest.mock('../services/FoodService');
+jest.mock('../database/connection');
+
+describe('Food Routes', () => {
+  let app: App;
+  let mockFoodService: jest.Mocked<FoodService>;
+
+  beforeAll(() => {
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    app = new App();
+
+    // The router's service instance is the most recently constructed mock
+    const instances = (FoodService as jest.MockedClass<typeof FoodService>).mock.instances;
+    mockFoodService = instances[instances.length - 1] as jest.Mocked<FoodService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/foods', () => {
+    it('should pass filters and paging to the service', async () => {
+      mockFoodService.searchFoods.mockResolvedValue({
+        success: true,
+        data: [{ name: 'Pounded Yam' } as any],
+        metadata: { page: 1, limit: 10, total: 1, totalPages: 1 },
+      });
+
+      const response = await request(app.app)
+        .get('/api/foods?q=iyan&category=swallow&availability=common&maxPrice=2000&limit=10')
+        .expect(200);
+
+      expect(response.body.data[0].name).toBe('Pounded Yam');
+      expect(mockFoodService.searchFoods).toHaveBeenCalledWith(
+        { query: 'iyan', category: 'swallow', availability: 'common', maxPrice: 2000 },
+        1,
+        10
+      );
+    });
+
+    it('should return 400 for an invalid category', async () => {
+      const response = await request(app.app)
+        .get('/api/foods?category=dessert')
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_CATEGORY');
+      expect(mockFoodService.searchFoods).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid availability', async () => {
+      const response = await request(app.app)
+        .get('/api/foods?availability=always')
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_AVAILABILITY');
+    });
+  });
+
+  describe('GET /api/foods/:foodId', () => {
+    it('should return 404 for an unknown food', async () => {
+      mockFoodService.getFoodById.mockResolvedValue({
+        success: false,
+        error: { code: 'FOOD_NOT_FOUND', message: 'Food not found' },
+      });
+
+      await request(app.app)
+        .get('/api/foods/507f1f77bcf86cd799439011')
+        .expect(404);
+    });
+  });
+});
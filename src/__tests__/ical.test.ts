@@ -0,0 +1,51 @@
+import { buildICalendar, escapeICalText, foldICalLine, formatICalDate } from '../utils/ical';
+
+describe('iCalendar', () => {
+  describe('formatICalDate', () => {
+    it('should format local time without a zone', () => {
+      expect(formatICalDate(new Date('2026-10-21T18:05:00'))).toBe('20261021T180500');
+    });
+  });
+
+  describe('escapeICalText', () => {
+    it('should escape separators and newlines', () => {
+      expect(escapeICalText('Chest, back; arms\nRest 90s \\ set')).toBe('Chest\\, back\\; arms\\nRest 90s \\\\ set');
+    });
+  });
+
+  describe('foldICalLine', () => {
+    it('should fold lines longer than 75 octets', () => {
+      const folded = foldICalLine(`DESCRIPTION:${'a'.repeat(100)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines[0]).toHaveLength(75);
+      expect(lines[1].startsWith(' ')).toBe(true);
+      expect(lines.map((line, index) => index === 0 ? line : line.slice(1)).join('')).toBe(`DESCRIPTION:${'a'.repeat(100)}`);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const lines = foldICalLine(`SUMMARY:${'🏋️'.repeat(30)}`).split('\r\n');
+
+      lines.forEach(line => expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75));
+      expect(lines.join('')).not.toContain('�');
+    });
+  });
+
+  describe('buildICalendar', () => {
+    it('should write one event per workout', () => {
+      const ics = buildICalendar('Ada\'s workouts', [{
+        uid: 'abc@fitbuddy',
+        start: new Date('2026-10-21T18:00:00'),
+        end: new Date('2026-10-21T19:00:00'),
+        summary: 'Chest, Triceps workout',
+        description: '- Barbell Bench Press: 4 x 8-12',
+      }], new Date('2026-10-19T08:00:00Z'));
+
+      expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+      expect(ics).toContain('X-WR-CALNAME:Ada\'s workouts\r\n');
+      expect(ics).toContain('UID:abc@fitbuddy\r\nDTSTAMP:20261019T080000Z\r\nDTSTART:20261021T180000\r\nDTEND:20261021T190000\r\n');
+      expect(ics).toContain('SUMMARY:Chest\\, Triceps workout\r\n');
+      expect(ics.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import sharp from 'sharp';
+import { prepareVisionImage, MAX_VISION_IMAGE_SIZE } from '../utils/image';
+
+describe('Image', () => {
+  const createImage = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: { r: 200, g: 120, b: 40 } } });
+
+  describe('prepareVisionImage', () => {
+    it('should send a small image as it is', async () => {
+      const image = await createImage(640, 480).png().toBuffer();
+
+      const result = await prepareVisionImage(image);
+
+      expect(result.data).toBe(image);
+      expect(result.mimeType).toBe('image/png');
+    });
+
+    it('should label the image with the format it is in', async () => {
+      const image = await createImage(640, 480).webp().toBuffer();
+
+      const result = await prepareVisionImage(image);
+
+      expect(result.mimeType).toBe('image/webp');
+    });
+
+    it('should downscale a large image, keeping its format and shape', async () => {
+      const image = await createImage(4000, 3000).jpeg().toBuffer();
+
+      const result = await prepareVisionImage(image);
+      const metadata = await sharp(result.data).metadata();
+
+      expect(result.mimeType).toBe('image/jpeg');
+      expect(metadata.format).toBe('jpeg');
+      expect(metadata.width).toBe(MAX_VISION_IMAGE_SIZE);
+      expect(metadata.height).toBe(1176);
+    });
+
+    it('should convert formats the vision model can\'t read to JPEG', async () => {
+      const image = await createImage(300, 300).tiff().toBuffer();
+
+      const result = await prepareVisionImage(image);
+
+      expect(result.mimeType).toBe('image/jpeg');
+      expect((await sharp(result.data).metadata()).format).toBe('jpeg');
+    });
+
+    it('should reject data that isn\'t an image', async () => {
+      await expect(prepareVisionImage(Buffer.from('fake-image-data'))).rejects.toThrow('Unreadable image');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  parseLimitationAreas,
+  parseLimitationReport,
+  findLimitationConflicts,
+  describeLimitationAreas,
+} from '../utils/limitations';
+
+describe('Limitations', () => {
+  describe('parseLimitationAreas', () => {
+    it('should map how people describe injuries to areas', () => {
+      expect(parseLimitationAreas('Shoulder impingement')).toEqual(['shoulder']);
+      expect(parseLimitationAreas('bad back and a dodgy knee')).toEqual(['lower_back', 'knee']);
+      expect(parseLimitationAreas('Tennis elbow')).toEqual(['elbow']);
+      expect(parseLimitationAreas('none')).toEqual([]);
+    });
+  });
+
+  describe('parseLimitationReport', () => {
+    it('should recognise an injury report', () => {
+      expect(parseLimitationReport('I hurt my knee playing football')).toEqual({ areas: ['knee'], recovered: false });
+      expect(parseLimitationReport('my lower back is in pain')).toEqual({ areas: ['lower_back'], recovered: false });
+    });
+
+    it('should recognise a recovery', () => {
+      expect(parseLimitationReport('My knee is better now')).toEqual({ areas: ['knee'], recovered: true });
+    });
+
+    it('should ignore messages that only mention a body part', () => {
+      expect(parseLimitationReport('Shoulder press 3x10 @ 20kg')).toBeNull();
+      expect(parseLimitationReport('I want bigger shoulders')).toBeNull();
+    });
+  });
+
+  describe('findLimitationConflicts', () => {
+    it('should flag exercises that load a limited area', () => {
+      expect(findLimitationConflicts('Barbell Back Squat', [{ area: 'knee' }, { area: 'lower_back' }]))
+        .toEqual(['knee', 'lower_back']);
+      expect(findLimitationConflicts('Overhead Press', [{ area: 'shoulder' }])).toEqual(['shoulder']);
+    });
+
+    it('should allow exercises that spare the area', () => {
+      expect(findLimitationConflicts('Lat Pulldown', [{ area: 'knee' }])).toEqual([]);
+      expect(findLimitationConflicts('Deadlift', [])).toEqual([]);
+    });
+  });
+
+  describe('describeLimitationAreas', () => {
+    it('should list areas in plain words', () => {
+      expect(describeLimitationAreas(['lower_back'])).toBe('lower back');
+      expect(describeLimitationAreas(['lower_back', 'knee', 'wrist'])).toBe('lower back, knee and wrist');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { ObjectId } from 'mongodb';
+import { NIGERIAN_FOODS } from '../database/seeds/foods';
+import { buildMeals, calculateMealPlanTargets, isFoodAllowed, DAILY_BUDGETS } from '../utils/mealPlanner';
+import { calculateNutritionTargets } from '../utils/validation';
+import { FoodItem, UserProfile } from '../types';
+
+describe('Meal Planner', () => {
+  const foods: FoodItem[] = NIGERIAN_FOODS.map(food => ({ ...food, _id: new ObjectId() }));
+  const foodsById = new Map(foods.map(food => [food._id!.toString(), food]));
+
+  const profile: UserProfile = {
+    name: 'Chioma',
+    age: 30,
+    height: 170,
+    weight: 75,
+    bmi: 26,
+    fitnessGoal: 'lean',
+    trainingPhilosophy: 'custom',
+    experienceLevel: 'beginner',
+  };
+
+  const targetsFor = (budgetTier: 'low' | 'medium' | 'high') =>
+    calculateMealPlanTargets(calculateNutritionTargets(profile, 3), budgetTier);
+
+  const plannedFoods = (meals: ReturnType<typeof buildMeals>) =>
+    meals.flatMap(meal => meal.foods.map(food => foodsById.get(food.foodId.toString())!));
+
+  describe('calculateMealPlanTargets', () => {
+    it('should use the user\'s targets with the budget for the tier', () => {
+      const nutrition = calculateNutritionTargets(profile, 3);
+      const targets = calculateMealPlanTargets(nutrition, 'low');
+
+      expect(targets.dailyCalories).toBe(nutrition.targetCalories);
+      expect(targets.macroTargets).toEqual(nutrition.macroTargets);
+      expect(targets.dailyBudget).toBe(DAILY_BUDGETS.low);
+    });
+  });
+
+  describe('isFoodAllowed', () => {
+    const pork = foods.find(food => food.name === 'Peppered Pork')!;
+    const suya = foods.find(food => food.name === 'Suya')!;
+
+    it('should rule out foods by their dietary tags', () => {
+      expect(isFoodAllowed(pork, ['no_pork'])).toBe(false);
+      expect(isFoodAllowed(suya, ['no_pork'])).toBe(true);
+      expect(isFoodAllowed(suya, ['vegetarian'])).toBe(false);
+    });
+
+    it('should allow everything without preferences', () => {
+      expect(isFoodAllowed(pork, [])).toBe(true);
+    });
+  });
+
+  describe('buildMeals', () => {
+    it('should plan breakfast, lunch, dinner and a snack close to the calorie target', () => {
+      const targets = targetsFor('medium');
+      const meals = buildMeals(foods, targets, { culturalPreferences: [] });
+      const calories = meals.reduce((total, meal) => total + meal.totalCalories, 0);
+
+      expect(meals.map(meal => meal.type)).toEqual(['breakfast', 'lunch', 'dinner', 'snack']);
+      expect(Math.abs(calories - targets.dailyCalories) / targets.dailyCalories).toBeLessThan(0.1);
+    });
+
+    it.each(['low', 'medium', 'high'] as const)('should stay within the %s daily budget', budgetTier => {
+      const targets = targetsFor(budgetTier);
+      const meals = buildMeals(foods, targets, { culturalPreferences: [] });
+
+      expect(meals.reduce((total, meal) => total + meal.cost, 0)).toBeLessThanOrEqual(targets.dailyBudget);
+    });
+
+    it('should serve swallows with soup', () => {
+      const targets = targetsFor('medium');
+      const meals = buildMeals(foods, targets, { culturalPreferences: [] });
+
+      for (const meal of meals) {
+        const categories = meal.foods.map(food => foodsById.get(food.foodId.toString())!.category);
+        if (categories.includes('swallow')) {
+          expect(categories).toContain('soup');
+        }
+      }
+    });
+
+    it('should respect religious and dietary preferences', () => {
+      const targets = targetsFor('high');
+
+      const halal = plannedFoods(buildMeals(foods, targets, { culturalPreferences: ['halal'] }));
+      expect(halal.some(food => food.dietaryTags?.includes('pork') || food.dietaryTags?.includes('alcohol'))).toBe(false);
+
+      const vegetarian = plannedFoods(buildMeals(foods, targets, { culturalPreferences: ['vegetarian'] }));
+      expect(vegetarian.length).toBeGreaterThan(0);
+      expect(vegetarian.some(food => food.dietaryTags?.includes('meat') || food.dietaryTags?.includes('fish'))).toBe(false);
+    });
+
+    it('should never plan alcohol', () => {
+      const targets = targetsFor('high');
+      const planned = plannedFoods(buildMeals(foods, targets, { culturalPreferences: [] }));
+
+      expect(planned.some(food => food.dietaryTags?.includes('alcohol'))).toBe(false);
+    });
+
+    it('should prefer common foods over seasonal ones', () => {
+      const targets = targetsFor('medium');
+      const planned = plannedFoods(buildMeals(foods, targets, { culturalPreferences: [] }));
+
+      expect(planned.every(food => food.availability === 'common')).toBe(true);
+    });
+
+    it('should not repeat a food within the day', () => {
+      const targets = targetsFor('medium');
+      const planned = plannedFoods(buildMeals(foods, targets, { culturalPreferences: [] }));
+
+      expect(new Set(planned.map(food => food.name)).size).toBe(planned.length);
+    });
+
+    it('should vary foods from the previous plan', () => {
+      const targets = targetsFor('medium');
+      const first = buildMeals(foods, targets, { culturalPreferences: [] });
+      const second = buildMeals(foods, targets, {
+        culturalPreferences: [],
+        avoidFoodIds: first.flatMap(meal => meal.foods.map(food => food.foodId.toString())),
+      });
+
+      expect(second.map(meal => meal.name)).not.toEqual(first.map(meal => meal.name));
+    });
+
+    it('should return no meals without foods to plan from', () => {
+      const targets = targetsFor('medium');
+
+      expect(buildMeals([], targets, { culturalPreferences: [] })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import request from 'supertest';
+import App from '../app';
+import { database } from '../database/connection';
+import { MealPlanService } from '../services/MealPlanService';
+import { FoodLogService } from '../services/FoodLogService';
+
+// Mock the meal plan and food log services
+jest.mock('../services/MealPlanService');
+jest.mock('../services/FoodLogService');
+jest.mock('../database/connection');
+
+describe('Nutrition Routes', () => {
+  let app: App;
+  let mockMealPlanService: jest.Mocked<MealPlanService>;
+  let mockFoodLogService: jest.Mocked<FoodLogService>;
+  const userId = '507f1f77bcf86cd799439011';
+
+  beforeAll(() => {
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    app = new App();
+
+    // The router's service instance is the most recently constructed mock
+    const instances = (MealPlanService as jest.MockedClass<typeof MealPlanService>).mock.instances;
+    mockMealPlanService = instances[instances.length - 1] as jest.Mocked<MealPlanService>;
+    const foodLogInstances = (FoodLogService as jest.MockedClass<typeof FoodLogService>).mock.instances;
+    mockFoodLogService = foodLogInstances[foodLogInstances.length - 1] as jest.Mocked<FoodLogService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/nutrition/:userId/meal-plan', () => {
+    it('should generate a plan with the budget and preferences given', async () => {
+      mockMealPlanService.generateMealPlan.mockResolvedValue({
+        success: true,
+        data: { budgetTier: 'low', meals: [] } as any,
+      });
+
+      await request(app.app)
+        .post(`/api/nutrition/${userId}/meal-plan`)
+        .send({ budgetTier: 'low', culturalPreferences: ['no_pork'] })
+        .expect(201);
+
+      expect(mockMealPlanService.generateMealPlan).toHaveBeenCalledWith(userId, {
+        budgetTier: 'low',
+        culturalPreferences: ['no_pork'],
+      });
+    });
+
+    it('should return 400 when preferences are not a list', async () => {
+      const response = await request(app.app)
+        .post(`/api/nutrition/${userId}/meal-plan`)
+        .send({ culturalPreferences: 'no_pork' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_PREFERENCES');
+      expect(mockMealPlanService.generateMealPlan).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      mockMealPlanService.generateMealPlan.mockResolvedValue({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+
+      await request(app.app)
+        .post(`/api/nutrition/${userId}/meal-plan`)
+        .send({})
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/nutrition/:userId/meal-plan', () => {
+    it('should return 404 without an active plan', async () => {
+      mockMealPlanService.getActiveMealPlan.mockResolvedValue({
+        success: false,
+        error: { code: 'MEAL_PLAN_NOT_FOUND', message: 'No active meal plan' },
+      });
+
+      await request(app.app)
+        .get(`/api/nutrition/${userId}/meal-plan`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/nutrition/:userId/food-logs', () => {
+    it('should save the confirmed foods', async () => {
+      mockFoodLogService.saveFoodLog.mockResolvedValue({
+        success: true,
+        data: { totalCalories: 438, items: [] } as any,
+      });
+
+      await request(app.app)
+        .post(`/api/nutrition/${userId}/food-logs`)
+        .send({ items: [{ name: 'Jollof Rice', portionGrams: 250, confidence: 0.9 }, { name: 'Dodo', portionGrams: 80 }] })
+        .expect(201);
+
+      expect(mockFoodLogService.saveFoodLog).toHaveBeenCalledWith(userId, [
+        { name: 'Jollof Rice', portionGrams: 250, confidence: 0.9 },
+        { name: 'Dodo', portionGrams: 80, confidence: 1 },
+      ], { imageUrl: undefined });
+    });
+
+    it('should return 400 without items', async () => {
+      const response = await request(app.app)
+        .post(`/api/nutrition/${userId}/food-logs`)
+        .send({ items: [] })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_FOOD_ITEMS');
+      expect(mockFoodLogService.saveFoodLog).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when none of the foods are known', async () => {
+      mockFoodLogService.saveFoodLog.mockResolvedValue({
+        success: false,
+        error: { code: 'FOOD_NOT_FOUND', message: 'No foods match Mystery Stew' },
+      });
+
+      await request(app.app)
+        .post(`/api/nutrition/${userId}/food-logs`)
+        .send({ items: [{ name: 'Mystery Stew', portionGrams: 100 }] })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  epleyOneRepMax,
+  brzyckiOneRepMax,
+  rpeOneRepMax,
+  estimateOneRepMaxes,
+  estimateOneRepMax,
+  MAX_REPS_FOR_ESTIMATE,
+} from '../utils/oneRepMax';
+
+describe('One Rep Max', () => {
+  describe('formulas', () => {
+    it('should estimate with Epley', () => {
+      expect(epleyOneRepMax(100, 5)).toBe(116.7);
+      expect(epleyOneRepMax(100, 1)).toBe(100);
+    });
+
+    it('should estimate with Brzycki', () => {
+      expect(brzyckiOneRepMax(100, 5)).toBe(112.5);
+      expect(brzyckiOneRepMax(100, 1)).toBe(100);
+    });
+
+    it('should estimate from the RPE chart', () => {
+      expect(rpeOneRepMax(100, 1, 10)).toBe(100);
+      expect(rpeOneRepMax(100, 5, 8)).toBe(123.3); // 81.1% of max
+      expect(rpeOneRepMax(100, 5, 8.5)).toBe(121.4); // halfway between 5@8 and 5@9
+    });
+
+    it('should not read the RPE chart past its range', () => {
+      expect(rpeOneRepMax(100, 10, 7)).toBeUndefined();
+      expect(rpeOneRepMax(100, 5, 4)).toBeUndefined();
+    });
+  });
+
+  describe('estimateOneRepMaxes', () => {
+    it('should include the RPE estimate only when the set has an RPE', () => {
+      expect(estimateOneRepMaxes(100, 5)).toEqual({ epley: 116.7, brzycki: 112.5 });
+      expect(estimateOneRepMaxes(100, 5, 8)).toEqual({ epley: 116.7, brzycki: 112.5, rpe: 123.3 });
+    });
+
+    it('should skip bodyweight and long sets', () => {
+      expect(estimateOneRepMaxes(undefined, 10)).toBeUndefined();
+      expect(estimateOneRepMaxes(0, 10)).toBeUndefined();
+      expect(estimateOneRepMaxes(60, MAX_REPS_FOR_ESTIMATE + 1)).toBeUndefined();
+    });
+  });
+
+  describe('estimateOneRepMax', () => {
+    it('should prefer the RPE estimate and fall back to Epley', () => {
+      expect(estimateOneRepMax(100, 5, 8)).toBe(123.3);
+      expect(estimateOneRepMax(100, 5)).toBe(116.7);
+      expect(estimateOneRepMax(100, 10, 7)).toBe(133.3);
+    });
+  });
+});
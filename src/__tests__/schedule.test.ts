@@ -0,0 +1,69 @@
+import { parseRescheduleRequest, isWeekScheduleRequest, findTimeSlot, startOfWeek } from '../utils/schedule';
+
+describe('Schedule', () => {
+  // A Wednesday
+  const now = new Date('2026-10-21T12:00:00');
+
+  describe('parseRescheduleRequest', () => {
+    it('should move today\'s workout by default', () => {
+      expect(parseRescheduleRequest('I couldn\'t go today, move it to tomorrow', now)).toEqual({
+        from: new Date('2026-10-21T00:00:00'),
+        to: new Date('2026-10-22T00:00:00'),
+      });
+    });
+
+    it('should read the day moved from and the time', () => {
+      expect(parseRescheduleRequest('move Monday\'s workout to Friday at 7pm', now)).toEqual({
+        from: new Date('2026-10-19T00:00:00'),
+        to: new Date('2026-10-23T00:00:00'),
+        startTime: '19:00',
+      });
+      expect(parseRescheduleRequest('can\'t make it on Thursday, move it to Saturday 07:30', now)?.from)
+        .toEqual(new Date('2026-10-22T00:00:00'));
+    });
+
+    it('should read a day after "on" as the day missed', () => {
+      expect(parseRescheduleRequest('couldn\'t train on monday, push it to thursday', now)).toEqual({
+        from: new Date('2026-10-19T00:00:00'),
+        to: new Date('2026-10-22T00:00:00'),
+      });
+    });
+
+    it('should move to the next one of a weekday', () => {
+      expect(parseRescheduleRequest('reschedule today to wednesday', now)?.to).toEqual(new Date('2026-10-28T00:00:00'));
+    });
+
+    it('should ignore messages without a move', () => {
+      expect(parseRescheduleRequest('did push ups on sat', now)).toBeNull();
+      expect(parseRescheduleRequest('I couldn\'t go today', now)).toBeNull();
+      expect(parseRescheduleRequest('I couldn\'t train on friday', now)).toBeNull();
+    });
+  });
+
+  describe('isWeekScheduleRequest', () => {
+    it('should spot questions about the week', () => {
+      expect(isWeekScheduleRequest('what\'s my schedule this week')).toBe(true);
+      expect(isWeekScheduleRequest('when is my next workout?')).toBe(true);
+      expect(isWeekScheduleRequest('show my weekly report')).toBe(false);
+    });
+  });
+
+  describe('findTimeSlot', () => {
+    it('should use the first slot long enough', () => {
+      expect(findTimeSlot([{ start: '06:00', end: '06:45' }, { start: '18:00', end: '20:00' }], 60))
+        .toEqual({ startTime: '18:00', endTime: '19:00' });
+    });
+
+    it('should fall back to the longest slot, or the evening', () => {
+      expect(findTimeSlot([{ start: '06:00', end: '06:45' }], 60)).toEqual({ startTime: '06:00', endTime: '07:00' });
+      expect(findTimeSlot([], 75)).toEqual({ startTime: '18:00', endTime: '19:15' });
+    });
+  });
+
+  describe('startOfWeek', () => {
+    it('should start weeks on Monday', () => {
+      expect(startOfWeek(now)).toEqual(new Date('2026-10-19T00:00:00'));
+      expect(startOfWeek(new Date('2026-10-25T20:00:00'))).toEqual(new Date('2026-10-19T00:00:00'));
+    });
+  });
+});
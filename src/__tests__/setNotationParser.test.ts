@@ -0,0 +1,269 @@
+import { parseSetNotation, consumeMatches } from '../utils/setNotationParser';
+
+describe('Set Notation Parser', () => {
+  describe('sets and reps', () => {
+    it.each([
+      ['3 sets of 10 reps', 3, 10],
+      ['3x10', 3, 10],
+      ['3 x 10', 3, 10],
+      ['3×10', 3, 10],
+      ['3*10', 3, 10],
+      ['3 sets x 10 reps', 3, 10],
+      ['4 sets 8 reps', 4, 8],
+      ['10 reps x 3 sets', 3, 10],
+      ['three sets of ten', 3, 10],
+      ['a set of 12', 1, 12],
+      ['12 reps', 1, 12],
+      ['3 sets, 12 reps', 3, 12],
+    ])('should read "%s" as %i sets of %i', (message, sets, reps) => {
+      const result = parseSetNotation(message);
+
+      expect(result.sets).toHaveLength(sets);
+      result.sets.forEach(set => expect(set).toEqual({ reps }));
+    });
+
+    it('should read a lone number before the exercise as one set of reps', () => {
+      expect(parseSetNotation('10 pull ups')).toEqual({ exerciseText: 'pull ups', sets: [{ reps: 10 }] });
+      expect(parseSetNotation('did 12 burpees').sets).toEqual([{ reps: 12 }]);
+      expect(parseSetNotation('10 pull ups with 20kg').sets).toEqual([{ reps: 10, weight: 20 }]);
+      expect(parseSetNotation('5 min plank').sets).toEqual([]);
+      expect(parseSetNotation('2 dumbbells only, no barbell').sets).toEqual([]);
+    });
+
+    it('should apply a bare set count to bare reps', () => {
+      const result = parseSetNotation('did 10 reps, 4 sets');
+
+      expect(result.sets).toEqual(Array(4).fill({ reps: 10 }));
+    });
+
+    it('should return no sets when there is no set notation', () => {
+      expect(parseSetNotation('just did squats').sets).toEqual([]);
+      expect(parseSetNotation('').sets).toEqual([]);
+    });
+  });
+
+  describe('weights', () => {
+    it('should read weight x reps for each set', () => {
+      const result = parseSetNotation('60x8, 65x6, 70x5');
+
+      expect(result.sets).toEqual([
+        { reps: 8, weight: 60 },
+        { reps: 6, weight: 65 },
+        { reps: 5, weight: 70 },
+      ]);
+    });
+
+    it('should apply one weight to every set', () => {
+      const expected = Array(3).fill({ reps: 10, weight: 60 });
+
+      expect(parseSetNotation('3 sets of 10 reps at 60kg').sets).toEqual(expected);
+      expect(parseSetNotation('3x10 @ 60kg').sets).toEqual(expected);
+      expect(parseSetNotation('3x10 with 60 kilos').sets).toEqual(expected);
+      expect(parseSetNotation('3x10 @ 60').sets).toEqual(expected);
+      expect(parseSetNotation('3x10 at 60').sets).toEqual(expected);
+      expect(parseSetNotation('3 sets of 10 at 60').sets).toEqual(expected);
+      expect(parseSetNotation('3x10 with 60').sets).toEqual(expected);
+    });
+
+    it('should keep the exercise name around a weight after "at"', () => {
+      const result = parseSetNotation('bench 3x10 at 60');
+
+      expect(result.exerciseText).toBe('bench');
+      expect(result.sets).toEqual(Array(3).fill({ reps: 10, weight: 60 }));
+      expect(parseSetNotation('bench 3x10 with 60')).toEqual(result);
+    });
+
+    it.each([
+      ['60kg x 8 x 3'],
+      ['60 x 8 x 3'],
+      ['3 x 8 x 60kg'],
+      ['3x8x60'],
+      ['8 x 60kg x 3'],
+    ])('should read "%s" as three sets of 8 at 60kg', message => {
+      const result = parseSetNotation(message);
+
+      expect(result.sets).toEqual(Array(3).fill({ reps: 8, weight: 60 }));
+    });
+
+    it('should read reps x weight when the unit follows the second number', () => {
+      expect(parseSetNotation('8 x 60kg').sets).toEqual([{ reps: 8, weight: 60 }]);
+    });
+
+    it('should treat a first number above the set limit as the weight', () => {
+      expect(parseSetNotation('12x10').sets).toEqual([{ reps: 10, weight: 12 }]);
+      expect(parseSetNotation('22.5x10').sets).toEqual([{ reps: 10, weight: 22.5 }]);
+    });
+
+    it('should convert pounds to kilograms', () => {
+      expect(parseSetNotation('135lbs x 5').sets).toEqual([{ reps: 5, weight: 61.2 }]);
+      expect(parseSetNotation('3x10 at 100 pounds').sets[0].weight).toBe(45.4);
+    });
+
+    it('should read a weight list with a shared rep count', () => {
+      const result = parseSetNotation('60/65/70kg x 8');
+
+      expect(result.sets).toEqual([
+        { reps: 8, weight: 60 },
+        { reps: 8, weight: 65 },
+        { reps: 8, weight: 70 },
+      ]);
+    });
+
+    it('should pair a weight list with a rep list', () => {
+      const result = parseSetNotation('12/10/8 with 60/65/70kg');
+
+      expect(result.sets).toEqual([
+        { reps: 12, weight: 60 },
+        { reps: 10, weight: 65 },
+        { reps: 8, weight: 70 },
+      ]);
+    });
+
+    it('should drop a weight list that has no reps', () => {
+      expect(parseSetNotation('60/65/70kg').sets).toEqual([]);
+    });
+  });
+
+  describe('rep lists', () => {
+    it('should read a pyramid as one set per rep count', () => {
+      const result = parseSetNotation('pyramid 12/10/8');
+
+      expect(result.sets).toEqual([{ reps: 12 }, { reps: 10 }, { reps: 8 }]);
+      expect(result.exerciseText).toBe('');
+    });
+
+    it('should read a comma separated rep list', () => {
+      expect(parseSetNotation('12, 10, 8 reps').sets).toEqual([{ reps: 12 }, { reps: 10 }, { reps: 8 }]);
+    });
+
+    it('should apply a weight to a rep list', () => {
+      const result = parseSetNotation('12/10/8 @ 50kg');
+
+      expect(result.sets.map(set => set.weight)).toEqual([50, 50, 50]);
+    });
+  });
+
+  describe('effort', () => {
+    it('should read RPE for every set', () => {
+      const result = parseSetNotation('bench 3x10 @ RPE 8');
+
+      expect(result.sets).toEqual(Array(3).fill({ reps: 10, rpe: 8 }));
+    });
+
+    it('should read RPE per set', () => {
+      const result = parseSetNotation('100x5 @8, 105x5 @9');
+
+      expect(result.sets).toEqual([
+        { reps: 5, weight: 100, rpe: 8 },
+        { reps: 5, weight: 105, rpe: 9 },
+      ]);
+    });
+
+    it('should read a bare "@ N" of at most 10 as RPE', () => {
+      expect(parseSetNotation('3x5 @ 7.5').sets[0].rpe).toBe(7.5);
+    });
+
+    it('should convert reps in reserve to RPE', () => {
+      expect(parseSetNotation('3x8 RIR 2').sets[0].rpe).toBe(8);
+      expect(parseSetNotation('3x8, 1 rir').sets[0].rpe).toBe(9);
+    });
+  });
+
+  describe('failure and AMRAP', () => {
+    it('should read AMRAP with reps as one set to failure', () => {
+      expect(parseSetNotation('AMRAP 15').sets).toEqual([{ reps: 15, toFailure: true }]);
+      expect(parseSetNotation('15 reps amrap').sets).toEqual([{ reps: 15, toFailure: true }]);
+      expect(parseSetNotation('15 (AMRAP)').sets).toEqual([{ reps: 15, toFailure: true }]);
+    });
+
+    it('should mark every set taken to failure', () => {
+      const result = parseSetNotation('3x12 to failure');
+
+      expect(result.sets).toEqual(Array(3).fill({ reps: 12, toFailure: true }));
+    });
+
+    it('should flag failure even without reps', () => {
+      const result = parseSetNotation('push ups to failure');
+
+      expect(result.sets).toEqual([]);
+      expect(result.exerciseText).toBe('push ups');
+    });
+
+    it('should give no sets for failure without a rep count', () => {
+      expect(parseSetNotation('squats to failure')).toEqual({ exerciseText: 'squats', sets: [] });
+      expect(parseSetNotation('3 sets to failure').sets).toEqual([]);
+    });
+  });
+
+  describe('rest times', () => {
+    it.each([
+      ['3x10 rest 90s', 90],
+      ['3x10 rest 90', 90],
+      ['3x10 rest 2 min', 120],
+      ['3x10 rest 2', 120],
+      ['3x10 rested 1:30', 90],
+      ['3x10, 2 mins rest', 120],
+      ['1:30 rest 3x10', 90],
+      ['3x10 with 45 seconds rest', 45],
+    ])('should read "%s" as %i seconds of rest', (message, restTime) => {
+      const result = parseSetNotation(message);
+
+      expect(result.sets).toHaveLength(3);
+      result.sets.forEach(set => expect(set.restTime).toBe(restTime));
+    });
+
+    it('should not read the set count after "rest" as a rest time', () => {
+      const result = parseSetNotation('rest 3x10');
+
+      expect(result.sets).toEqual(Array(3).fill({ reps: 10 }));
+    });
+  });
+
+  describe('drop sets', () => {
+    it.each([
+      ['100x8 -> 80x6'],
+      ['100x8 → 80x6'],
+      ['100x8 > 80x6'],
+      ['100x8 dropped to 80x6'],
+      ['drop set 100x8, 80x6'],
+    ])('should mark the sets after the first in "%s" as drop sets', message => {
+      const result = parseSetNotation(message);
+
+      expect(result.sets).toEqual([
+        { reps: 8, weight: 100 },
+        { reps: 6, weight: 80, dropSet: true },
+      ]);
+    });
+
+    it('should not take "drop" in an exercise name as a drop set', () => {
+      const result = parseSetNotation('drop jumps 3x10');
+
+      expect(result.exerciseText).toBe('drop jumps');
+      expect(result.sets.every(set => !set.dropSet)).toBe(true);
+    });
+  });
+
+  describe('exerciseText', () => {
+    it.each([
+      ['bench 3x10 @ RPE 8', 'bench'],
+      ['bench press 4 sets 8 reps 70kg', 'bench press'],
+      ['squat 5x5 @ 100', 'squat'],
+      ['1:30 rest 3x10 curls', 'curls'],
+      ['one arm row three sets of ten', 'one arm row'],
+      ['60x8, 65x6, 70x5', ''],
+    ])('should leave only the exercise in "%s"', (message, exerciseText) => {
+      expect(parseSetNotation(message).exerciseText).toBe(exerciseText);
+    });
+  });
+
+  describe('consumeMatches', () => {
+    it('should hand each match\'s groups to the handler and take the match out', () => {
+      const seen: string[][] = [];
+
+      const text = consumeMatches('rest 90s then rest 2m', /rest (\d+)(s|m)/g, groups => seen.push(groups));
+
+      expect(text).toBe('  then  ');
+      expect(seen).toEqual([['rest 90s', '90', 's'], ['rest 2m', '2', 'm']]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  rateStrength,
+  expectedStrengthLevel,
+  compareStrengthLevels,
+} from '../utils/strengthStandards';
+
+describe('Strength Standards', () => {
+  describe('rateStrength', () => {
+    it('should rate a lift relative to bodyweight', () => {
+      const rating = rateStrength('Barbell Back Squat', 120, 80);
+
+      expect(rating).toEqual({
+        level: 'intermediate',
+        bodyweightRatio: 1.5,
+        nextLevel: 'advanced',
+        nextLevelOneRepMax: 180,
+      });
+    });
+
+    it('should rate lifts below the first standard as beginner', () => {
+      const rating = rateStrength('Barbell Bench Press', 20, 80);
+
+      expect(rating?.level).toBe('beginner');
+      expect(rating?.nextLevel).toBe('novice');
+    });
+
+    it('should have no next level at elite', () => {
+      const rating = rateStrength('Conventional Deadlift', 250, 80);
+
+      expect(rating?.level).toBe('elite');
+      expect(rating?.nextLevel).toBeUndefined();
+      expect(rating?.nextLevelOneRepMax).toBeUndefined();
+    });
+
+    it('should not rate lifts without a standard or a bodyweight', () => {
+      expect(rateStrength('Cable Crossover', 50, 80)).toBeUndefined();
+      expect(rateStrength('Barbell Back Squat', 100, 0)).toBeUndefined();
+    });
+  });
+
+  describe('experience levels', () => {
+    it('should expect more from more experienced lifters', () => {
+      expect(expectedStrengthLevel('beginner')).toBe('novice');
+      expect(expectedStrengthLevel('advanced')).toBe('advanced');
+    });
+
+    it('should order levels', () => {
+      expect(compareStrengthLevels('novice', 'intermediate')).toBeLessThan(0);
+      expect(compareStrengthLevels('elite', 'advanced')).toBeGreaterThan(0);
+      expect(compareStrengthLevels('novice', 'novice')).toBe(0);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import request from 'supertest';
 import { MongoMemoryServer } from 'mongodb-memory-server';
-import { MongoClient } from 'mongodb';
+import { MongoClient, ObjectId } from 'mongodb';
 import App from '../app';
 import { database } from '../database/connection';
 
@@ -23,6 +23,11 @@ describe('User Routes', () => {
     (database.isConnected as jest.Mock).mockReturnValue(true);
     (database.getSchemas as jest.Mock).mockReturnValue({
       getUsersCollection: () => client.db('test').collection('users'),
+      getWorkoutSessionsCollection: () => client.db('test').collection('workout_sessions'),
+      getExercisesCollection: () => client.db('test').collection('exercises'),
+      getGymsCollection: () => client.db('test').collection('gyms'),
+      getWorkoutPlansCollection: () => client.db('test').collection('workout_plans'),
+      getScheduledWorkoutsCollection: () => client.db('test').collection('scheduled_workouts'),
     });
 
     app = new App();
@@ -343,6 +348,230 @@ describe('User Routes', () => {
     });
   });
 
+  describe('GET /api/users/:userId/reports/weekly', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      await client.db('test').collection('workout_sessions').deleteMany({});
+      const createResponse = await request(app.app)
+        .post('/api/users')
+        .send({
+          telegramId: 'reporttest123',
+          profile: {
+            name: 'Report Test',
+            age: 25,
+            height: 175,
+            weight: 70,
+            bmi: 22.9,
+            fitnessGoal: 'bulk',
+            trainingPhilosophy: 'arnold',
+            experienceLevel: 'intermediate',
+          },
+        });
+      userId = createResponse.body.data._id;
+    });
+
+    it('should return the report for the requested week', async () => {
+      await client.db('test').collection('workout_sessions').insertOne({
+        userId: new ObjectId(userId),
+        startTime: new Date('2026-10-20T07:00:00'),
+        endTime: new Date('2026-10-20T08:00:00'),
+        exercises: [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }],
+        isCompleted: true,
+      });
+
+      const response = await request(app.app)
+        .get(`/api/users/${userId}/reports/weekly?date=2026-10-22`)
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.sessionsCompleted).toBe(1);
+      expect(response.body.data.targetSessions).toBe(3);
+      expect(response.body.data.totalVolume).toBe(500);
+    });
+
+    it('should return 404 for non-existent user', async () => {
+      const response = await request(app.app)
+        .get('/api/users/507f1f77bcf86cd799439011/reports/weekly')
+        .expect(404);
+
+      expect(response.body.error.code).toBe('USER_NOT_FOUND');
+    });
+
+    it('should return 400 for an invalid date', async () => {
+      await request(app.app)
+        .get(`/api/users/${userId}/reports/weekly?date=not-a-date`)
+        .expect(400);
+    });
+  });
+
+  describe('PUT /api/users/:userId/home-gym', () => {
+    let userId: string;
+    let gymId: string;
+
+    beforeEach(async () => {
+      await client.db('test').collection('gyms').deleteMany({});
+      const gym = await client.db('test').collection('gyms').insertOne({
+        name: 'Mama Put Fitness',
+        qualityTier: 'local',
+        amenities: ['Dumbbells', 'Benches'],
+      });
+      gymId = gym.insertedId.toString();
+
+      const createResponse = await request(app.app)
+        .post('/api/users')
+        .send({
+          telegramId: 'gymtest123',
+          profile: {
+            name: 'Gym Test',
+            age: 25,
+            height: 175,
+            weight: 70,
+            bmi: 22.9,
+            fitnessGoal: 'bulk',
+            trainingPhilosophy: 'arnold',
+            experienceLevel: 'intermediate',
+          },
+        });
+      userId = createResponse.body.data._id;
+    });
+
+    it('should set the home gym', async () => {
+      const response = await request(app.app)
+        .put(`/api/users/${userId}/home-gym`)
+        .send({ gymId })
+        .expect(200);
+
+      expect(response.body.data.homeGymId).toBe(gymId);
+      expect(response.body.metadata.substitutions).toEqual([]);
+    });
+
+    it('should return 404 for an unknown gym', async () => {
+      const response = await request(app.app)
+        .put(`/api/users/${userId}/home-gym`)
+        .send({ gymId: '507f1f77bcf86cd799439011' })
+        .expect(404);
+
+      expect(response.body.error.code).toBe('GYM_NOT_FOUND');
+    });
+
+    it('should return 400 without a gym', async () => {
+      await request(app.app)
+        .put(`/api/users/${userId}/home-gym`)
+        .send({})
+        .expect(400);
+    });
+  });
+
+  describe('PUT /api/users/:userId/limitations', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      const createResponse = await request(app.app)
+        .post('/api/users')
+        .send({
+          telegramId: 'injurytest123',
+          profile: {
+            name: 'Injury Test',
+            age: 25,
+            height: 175,
+            weight: 70,
+            bmi: 22.9,
+            fitnessGoal: 'bulk',
+            trainingPhilosophy: 'arnold',
+            experienceLevel: 'intermediate',
+          },
+        });
+      userId = createResponse.body.data._id;
+    });
+
+    it('should record the user\'s limitations', async () => {
+      const response = await request(app.app)
+        .put(`/api/users/${userId}/limitations`)
+        .send({ limitations: [{ area: 'knee' }] })
+        .expect(200);
+
+      expect(response.body.data.profile.limitations).toEqual([{ area: 'knee' }]);
+      expect(response.body.metadata.removedExercises).toEqual([]);
+    });
+
+    it('should return 400 for an unknown area', async () => {
+      await request(app.app)
+        .put(`/api/users/${userId}/limitations`)
+        .send({ limitations: [{ area: 'toe' }] })
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/users/:userId/calendar.ics', () => {
+    let userId: string;
+
+    beforeEach(async () => {
+      await client.db('test').collection('workout_plans').deleteMany({});
+      await client.db('test').collection('scheduled_workouts').deleteMany({});
+      const createResponse = await request(app.app)
+        .post('/api/users')
+        .send({
+          telegramId: 'calendartest123',
+          profile: {
+            name: 'Calendar Test',
+            age: 25,
+            height: 175,
+            weight: 70,
+            bmi: 22.9,
+            fitnessGoal: 'bulk',
+            trainingPhilosophy: 'arnold',
+            experienceLevel: 'intermediate',
+          },
+        });
+      userId = createResponse.body.data._id;
+    });
+
+    it('should give the same private link every time', async () => {
+      const first = await request(app.app).get(`/api/users/${userId}/calendar`).expect(200);
+      const second = await request(app.app).get(`/api/users/${userId}/calendar`).expect(200);
+
+      expect(first.body.data.url).toMatch(new RegExp(`/api/users/${userId}/calendar\\.ics\\?token=[0-9a-f]{48}$`));
+      expect(second.body.data.url).toBe(first.body.data.url);
+      expect(first.body.data.subscribeUrl.startsWith('webcal://')).toBe(true);
+    });
+
+    it('should serve the plan\'s workouts with their exercises', async () => {
+      await client.db('test').collection('workout_plans').insertOne({
+        userId: new ObjectId(userId),
+        planType: 'full_body',
+        schedule: ['Monday', 'Wednesday', 'Friday'].map(dayOfWeek => ({
+          dayOfWeek,
+          muscleGroups: ['legs'],
+          exercises: [{ exerciseName: 'Barbell Back Squat', sets: 4, reps: '8-12', restTime: 120 }],
+          estimatedDuration: 60,
+        })),
+        philosophy: 'arnold',
+        createdAt: new Date('2026-01-01'),
+        isActive: true,
+      });
+      const link = await request(app.app).get(`/api/users/${userId}/calendar`);
+      const path = new URL(link.body.data.url).pathname + new URL(link.body.data.url).search;
+
+      const response = await request(app.app).get(path).expect(200);
+
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.text).toContain('BEGIN:VCALENDAR');
+      expect(response.text).toContain('SUMMARY:🏋️ Legs workout');
+      expect(response.text).toContain('DESCRIPTION:- Barbell Back Squat: 4 x 8-12');
+      // Three workouts a week for four weeks
+      expect(response.text.match(/BEGIN:VEVENT/g)!.length).toBe(12);
+    });
+
+    it('should return 403 for a wrong token', async () => {
+      await request(app.app).get(`/api/users/${userId}/calendar`);
+
+      await request(app.app)
+        .get(`/api/users/${userId}/calendar.ics?token=nope`)
+        .expect(403);
+    });
+  });
+
   describe('DELETE /api/users/:userId', () => {
     let userId: string;
 
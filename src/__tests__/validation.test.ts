@@ -1,9 +1,12 @@
 import {
   calculateBMI,
   calculateDailyCalories,
+  calculateBMR,
+  calculateNutritionTargets,
   validateUserProfile,
   validateUserSchedule,
   validateUserPreferences,
+  validateCardioLog,
   validateNigerianPhoneNumber,
   validateNigerianState,
   sanitizeString,
@@ -43,6 +46,65 @@ describe('Validation Utils', () => {
     });
   });
 
+  describe('calculateBMR', () => {
+    it('should use the Mifflin-St Jeor equations', () => {
+      expect(calculateBMR(70, 175, 25, 'male')).toBeCloseTo(1673.75);
+      expect(calculateBMR(70, 175, 25, 'female')).toBeCloseTo(1507.75);
+    });
+  });
+
+  describe('calculateNutritionTargets', () => {
+    const profile: UserProfile = {
+      name: 'Chioma',
+      age: 30,
+      height: 170,
+      weight: 75,
+      bmi: 26,
+      fitnessGoal: 'lean',
+      trainingPhilosophy: 'custom',
+      experienceLevel: 'beginner',
+      gender: 'female',
+      activityLevel: 'light',
+    };
+
+    it('should match calculateDailyCalories for the profile', () => {
+      const targets = calculateNutritionTargets(profile, 3);
+
+      expect(targets.bmr).toBe(Math.round(calculateBMR(75, 170, 30, 'female')));
+      expect(targets.tdee).toBe(Math.round(calculateBMR(75, 170, 30, 'female') * 1.375));
+      expect(targets.targetCalories).toBe(calculateDailyCalories(75, 170, 30, 'female', 'light', 'lean'));
+    });
+
+    it('should split calories into protein by body weight, fats and carbs', () => {
+      const targets = calculateNutritionTargets(profile, 3);
+      const { protein, carbs, fats } = targets.macroTargets;
+
+      expect(protein).toBe(150);
+      expect(protein * 4 + carbs * 4 + fats * 9).toBeCloseTo(targets.targetCalories, -1);
+    });
+
+    it('should average the equations without a gender', () => {
+      const targets = calculateNutritionTargets({ ...profile, gender: undefined }, 3);
+
+      expect(targets.bmr).toBe(Math.round((calculateBMR(75, 170, 30, 'male') + calculateBMR(75, 170, 30, 'female')) / 2));
+    });
+
+    it('should take the activity level from training days without one', () => {
+      const often = calculateNutritionTargets({ ...profile, activityLevel: undefined }, 6);
+      const rarely = calculateNutritionTargets({ ...profile, activityLevel: undefined }, 2);
+
+      expect(often.tdee).toBeGreaterThan(rarely.tdee);
+      expect(rarely.tdee).toBe(calculateNutritionTargets(profile, 6).tdee);
+    });
+
+    it('should set a deficit for leaning out and a surplus for bulking', () => {
+      const maintain = calculateNutritionTargets({ ...profile, fitnessGoal: 'maintain' }, 3);
+
+      expect(calculateNutritionTargets(profile, 3).targetCalories).toBeLessThan(maintain.targetCalories);
+      expect(calculateNutritionTargets({ ...profile, fitnessGoal: 'bulk' }, 3).targetCalories).toBeGreaterThan(maintain.targetCalories);
+    });
+  });
+
   describe('validateUserProfile', () => {
     const validProfile: UserProfile = {
       name: 'John Doe',
@@ -73,6 +135,26 @@ describe('Validation Utils', () => {
       expect(result.error).toBeDefined();
     });
 
+    it('should accept a gender and activity level', () => {
+      const result = validateUserProfile({ ...validProfile, gender: 'male', activityLevel: 'very_active' });
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should reject an unknown activity level', () => {
+      const result = validateUserProfile({ ...validProfile, activityLevel: 'couch' as any });
+      expect(result.error).toBeDefined();
+    });
+
+    it('should accept known limitation areas', () => {
+      const result = validateUserProfile({ ...validProfile, limitations: [{ area: 'knee', notes: 'ACL surgery' }] });
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should reject unknown limitation areas', () => {
+      const result = validateUserProfile({ ...validProfile, limitations: [{ area: 'toe' as any }] });
+      expect(result.error).toBeDefined();
+    });
+
     it('should reject missing required fields', () => {
       const invalidProfile = { ...validProfile };
       delete (invalidProfile as any).name;
@@ -134,6 +216,18 @@ describe('Validation Utils', () => {
     });
   });
 
+  describe('validateCardioLog', () => {
+    it('should validate a cardio log', () => {
+      const result = validateCardioLog({ activity: 'running', durationMinutes: 28, distanceKm: 5, averageHeartRate: 152 });
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should reject an unknown activity or missing duration', () => {
+      expect(validateCardioLog({ activity: 'sleeping' as any, durationMinutes: 30 }).error).toBeDefined();
+      expect(validateCardioLog({ activity: 'walking' } as any).error).toBeDefined();
+    });
+  });
+
   describe('validateNigerianPhoneNumber', () => {
     it('should validate correct Nigerian phone numbers', () => {
       expect(validateNigerianPhoneNumber('+2348012345678')).toBe(true);
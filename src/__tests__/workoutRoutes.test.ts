@@ -0,0 +1,417 @@
+import request from 'supertest';
+import App from '../app';
+import { database } from '../database/connection';
+import { WorkoutPlanService } from '../services/WorkoutPlanService';
+import { WorkoutSessionService } from '../services/WorkoutSessionService';
+import { StrengthService } from '../services/StrengthService';
+import { MuscleVolumeService } from '../services/MuscleVolumeService';
+import { SubstitutionService } from '../services/SubstitutionService';
+import { CardioService } from '../services/CardioService';
+import { ScheduleService } from '../services/ScheduleService';
+
+// Mock the workout services
+jest.mock('../services/WorkoutPlanService');
+jest.mock('../services/WorkoutSessionService');
+jest.mock('../services/StrengthService');
+jest.mock('../services/MuscleVolumeService');
+jest.mock('../services/SubstitutionService');
+jest.mock('../services/CardioService');
+jest.mock('../services/ScheduleService');
+jest.mock('../database/connection');
+
+describe('Workout Routes', () => {
+  let app: App;
+  let mockPlanService: jest.Mocked<WorkoutPlanService>;
+  let mockSessionService: jest.Mocked<WorkoutSessionService>;
+  let mockStrengthService: jest.Mocked<StrengthService>;
+  let mockMuscleVolumeService: jest.Mocked<MuscleVolumeService>;
+  let mockSubstitutionService: jest.Mocked<SubstitutionService>;
+  let mockCardioService: jest.Mocked<CardioService>;
+  let mockScheduleService: jest.Mocked<ScheduleService>;
+  const userId = '507f1f77bcf86cd799439011';
+  const sessionId = '507f1f77bcf86cd799439022';
+
+  beforeAll(() => {
+    (database.isConnected as jest.Mock).mockReturnValue(true);
+
+    app = new App();
+
+    // The router's service instances are the most recently constructed mocks
+    const planInstances = (WorkoutPlanService as jest.MockedClass<typeof WorkoutPlanService>).mock.instances;
+    const sessionInstances = (WorkoutSessionService as jest.MockedClass<typeof WorkoutSessionService>).mock.instances;
+    mockPlanService = planInstances[planInstances.length - 1] as jest.Mocked<WorkoutPlanService>;
+    mockSessionService = sessionInstances[sessionInstances.length - 1] as jest.Mocked<WorkoutSessionService>;
+    const strengthInstances = (StrengthService as jest.MockedClass<typeof StrengthService>).mock.instances;
+    mockStrengthService = strengthInstances[strengthInstances.length - 1] as jest.Mocked<StrengthService>;
+    const volumeInstances = (MuscleVolumeService as jest.MockedClass<typeof MuscleVolumeService>).mock.instances;
+    mockMuscleVolumeService = volumeInstances[volumeInstances.length - 1] as jest.Mocked<MuscleVolumeService>;
+    const substitutionInstances = (SubstitutionService as jest.MockedClass<typeof SubstitutionService>).mock.instances;
+    mockSubstitutionService = substitutionInstances[substitutionInstances.length - 1] as jest.Mocked<SubstitutionService>;
+    const cardioInstances = (CardioService as jest.MockedClass<typeof CardioService>).mock.instances;
+    mockCardioService = cardioInstances[cardioInstances.length - 1] as jest.Mocked<CardioService>;
+    const scheduleInstances = (ScheduleService as jest.MockedClass<typeof ScheduleService>).mock.instances;
+    mockScheduleService = scheduleInstances[scheduleInstances.length - 1] as jest.Mocked<ScheduleService>;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/workouts/:userId/plan', () => {
+    it('should generate a workout plan', async () => {
+      mockPlanService.generatePlan.mockResolvedValue({
+        success: true,
+        data: { planType: 'full_body', schedule: [], philosophy: 'arnold', isActive: true } as any,
+      });
+
+      const response = await request(app.app)
+        .post(`/api/workouts/${userId}/plan`)
+        .send({})
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.planType).toBe('full_body');
+      expect(mockPlanService.generatePlan).toHaveBeenCalledWith(userId, undefined);
+    });
+
+    it('should return 400 for an invalid plan type', async () => {
+      const response = await request(app.app)
+        .post(`/api/workouts/${userId}/plan`)
+        .send({ planType: 'bro_split' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('INVALID_PLAN_TYPE');
+      expect(mockPlanService.generatePlan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/workouts/:userId/plan/regenerate', () => {
+    it('should regenerate the plan with the requested split', async () => {
+      mockPlanService.regeneratePlan.mockResolvedValue({
+        success: true,
+        data: { planType: 'upper_lower' } as any,
+      });
+
+      await request(app.app)
+        .post(`/api/workouts/${userId}/plan/regenerate`)
+        .send({ planType: 'upper_lower' })
+        .expect(201);
+
+      expect(mockPlanService.regeneratePlan).toHaveBeenCalledWith(userId, 'upper_lower');
+    });
+  });
+
+  describe('POST /api/workouts/:userId/plan/substitutions', () => {
+    it('should swap exercises that need the missing equipment', async () => {
+      mockSubstitutionService.substituteMissingEquipment.mockResolvedValue({
+        success: true,
+        data: {
+          substitutions: [{ dayOfWeek: 'Monday', original: 'Lat Pulldown', substitute: 'Dumbbell Row', missingEquipment: ['cable'], limitations: [] }],
+          unavailable: [],
+          removed: [],
+        },
+      });
+
+      const response = await request(app.app)
+        .post(`/api/workouts/${userId}/plan/substitutions`)
+        .send({ missingEquipment: ['Cable'] })
+        .expect(200);
+
+      expect(response.body.data.substitutions[0].substitute).toBe('Dumbbell Row');
+      expect(mockSubstitutionService.substituteMissingEquipment).toHaveBeenCalledWith(userId, ['cable']);
+    });
+
+    it('should reject a request without equipment', async () => {
+      await request(app.app)
+        .post(`/api/workouts/${userId}/plan/substitutions`)
+        .send({ missingEquipment: [] })
+        .expect(400);
+
+      expect(mockSubstitutionService.substituteMissingEquipment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/workouts/:userId/plan', () => {
+    it('should return 404 when the user has no active plan', async () => {
+      mockPlanService.getActivePlan.mockResolvedValue({
+        success: false,
+        error: { code: 'PLAN_NOT_FOUND', message: 'No active workout plan' },
+      });
+
+      const response = await request(app.app)
+        .get(`/api/workouts/${userId}/plan`)
+        .expect(404);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('GET /api/workouts/:userId/sessions', () => {
+    it('should pass paging parameters to the service', async () => {
+      mockSessionService.getSessionsForUser.mockResolvedValue({
+        success: true,
+        data: [],
+        metadata: { page: 2, limit: 5, total: 7, totalPages: 2 },
+      });
+
+      const response = await request(app.app)
+        .get(`/api/workouts/${userId}/sessions?page=2&limit=5`)
+        .expect(200);
+
+      expect(response.body.metadata.totalPages).toBe(2);
+      expect(mockSessionService.getSessionsForUser).toHaveBeenCalledWith(userId, 2, 5);
+    });
+  });
+
+  describe('GET /api/workouts/:userId/sessions/:sessionId', () => {
+    it('should return 404 for a missing session', async () => {
+      mockSessionService.getSessionById.mockResolvedValue({
+        success: false,
+        error: { code: 'SESSION_NOT_FOUND', message: 'Workout session not found' },
+      });
+
+      await request(app.app)
+        .get(`/api/workouts/${userId}/sessions/${sessionId}`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/workouts/:userId/sessions/:sessionId/sets', () => {
+    it('should add sets to a session', async () => {
+      mockSessionService.addSets.mockResolvedValue({
+        success: true,
+        data: { exercises: [{ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] }] } as any,
+      });
+
+      const response = await request(app.app)
+        .post(`/api/workouts/${userId}/sessions/${sessionId}/sets`)
+        .send({ exerciseName: 'squat', sets: [{ reps: 5, weight: 100 }] })
+        .expect(201);
+
+      expect(response.body.success).toBe(true);
+      expect(mockSessionService.addSets).toHaveBeenCalledWith(
+        userId, sessionId, 'squat', [{ reps: 5, weight: 100 }]
+      );
+    });
+
+    it('should return 400 when sets are missing', async () => {
+      const response = await request(app.app)
+        .post(`/api/workouts/${userId}/sessions/${sessionId}/sets`)
+        .send({ exerciseName: 'squat' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('MISSING_REQUIRED_FIELDS');
+    });
+  });
+
+  describe('PUT /api/workouts/:userId/sessions/:sessionId/exercises/:exerciseIndex/sets/:setIndex', () => {
+    it('should update a logged set', async () => {
+      mockSessionService.updateSet.mockResolvedValue({
+        success: true,
+        data: { exercises: [] } as any,
+      });
+
+      await request(app.app)
+        .put(`/api/workouts/${userId}/sessions/${sessionId}/exercises/0/sets/1`)
+        .send({ weight: 62.5 })
+        .expect(200);
+
+      expect(mockSessionService.updateSet).toHaveBeenCalledWith(userId, sessionId, 0, 1, { weight: 62.5 });
+    });
+
+    it('should return 404 when the set does not exist', async () => {
+      mockSessionService.updateSet.mockResolvedValue({
+        success: false,
+        error: { code: 'SET_NOT_FOUND', message: 'Set not found' },
+      });
+
+      await request(app.app)
+        .put(`/api/workouts/${userId}/sessions/${sessionId}/exercises/3/sets/9`)
+        .send({ reps: 8 })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/workouts/:userId/exercises/:exerciseName/one-rep-max', () => {
+    it('should return the 1RM history for the exercise', async () => {
+      mockStrengthService.getOneRepMaxHistory.mockResolvedValue({
+        success: true,
+        data: [{ estimatedOneRepMax: 116.7, estimates: { epley: 116.7, brzycki: 112.5 } } as any],
+      });
+
+      const response = await request(app.app)
+        .get(`/api/workouts/${userId}/exercises/bench%20press/one-rep-max`)
+        .expect(200);
+
+      expect(response.body.data[0].estimatedOneRepMax).toBe(116.7);
+      expect(mockStrengthService.getOneRepMaxHistory).toHaveBeenCalledWith(userId, 'bench press');
+    });
+  });
+
+  describe('GET /api/workouts/:userId/exercises/:exerciseName/strength-level', () => {
+    it('should return the strength level', async () => {
+      mockStrengthService.getStrengthLevel.mockResolvedValue({
+        success: true,
+        data: { exerciseName: 'Barbell Back Squat', level: 'intermediate' } as any,
+      });
+
+      const response = await request(app.app)
+        .get(`/api/workouts/${userId}/exercises/squat/strength-level`)
+        .expect(200);
+
+      expect(response.body.data.level).toBe('intermediate');
+    });
+
+    it('should return 404 when the lift has not been logged', async () => {
+      mockStrengthService.getStrengthLevel.mockResolvedValue({
+        success: false,
+        error: { code: 'NO_LIFT_HISTORY', message: 'No weighted sets logged for squat' },
+      });
+
+      await request(app.app)
+        .get(`/api/workouts/${userId}/exercises/squat/strength-level`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/workouts/:userId/muscle-volume', () => {
+    it('should return weekly sets per muscle group for the given date', async () => {
+      mockMuscleVolumeService.getWeeklyMuscleVolume.mockResolvedValue({
+        success: true,
+        data: {
+          philosophy: 'arnold',
+          muscleGroups: [{ muscleGroup: 'hamstrings', hardSets: 0, recommended: { min: 15, max: 25 }, status: 'below' }],
+          neglected: [],
+        } as any,
+      });
+
+      const response = await request(app.app)
+        .get(`/api/workouts/${userId}/muscle-volume?date=2026-10-21`)
+        .expect(200);
+
+      expect(response.body.data.muscleGroups[0].status).toBe('below');
+      expect(mockMuscleVolumeService.getWeeklyMuscleVolume).toHaveBeenCalledWith(userId, new Date('2026-10-21'));
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      mockMuscleVolumeService.getWeeklyMuscleVolume.mockResolvedValue({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+
+      await request(app.app)
+        .get(`/api/workouts/${userId}/muscle-volume`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/workouts/:userId/cardio', () => {
+    it('should log a cardio activity', async () => {
+      mockCardioService.logCardio.mockResolvedValue({
+        success: true,
+        data: { activity: 'running', durationMinutes: 28, distanceKm: 5, paceMinPerKm: 5.6, caloriesBurned: 385 } as any,
+      });
+
+      const response = await request(app.app)
+        .post(`/api/workouts/${userId}/cardio`)
+        .send({ activity: 'running', durationMinutes: 28, distanceKm: 5 })
+        .expect(201);
+
+      expect(response.body.data.caloriesBurned).toBe(385);
+      expect(mockCardioService.logCardio).toHaveBeenCalledWith(userId, { activity: 'running', durationMinutes: 28, distanceKm: 5 });
+    });
+
+    it('should return 404 for an unknown user', async () => {
+      mockCardioService.logCardio.mockResolvedValue({
+        success: false,
+        error: { code: 'USER_NOT_FOUND', message: 'User not found' },
+      });
+
+      await request(app.app)
+        .post(`/api/workouts/${userId}/cardio`)
+        .send({ activity: 'running', durationMinutes: 28 })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/workouts/:userId/cardio', () => {
+    it('should pass the date range and limit through', async () => {
+      mockCardioService.getCardioLogs.mockResolvedValue({ success: true, data: [] });
+
+      await request(app.app)
+        .get(`/api/workouts/${userId}/cardio?from=2026-10-01&to=2026-10-19&limit=10`)
+        .expect(200);
+
+      expect(mockCardioService.getCardioLogs).toHaveBeenCalledWith(userId, {
+        from: new Date('2026-10-01'),
+        to: new Date('2026-10-19'),
+        limit: 10,
+      });
+    });
+  });
+
+  describe('GET /api/workouts/:userId/schedule', () => {
+    it('should return the week containing the given date', async () => {
+      mockScheduleService.getWeekSchedule.mockResolvedValue({
+        success: true,
+        data: { weekStart: new Date('2026-10-19'), weekEnd: new Date('2026-10-26'), workouts: [] },
+      });
+
+      await request(app.app)
+        .get(`/api/workouts/${userId}/schedule?date=2026-10-21`)
+        .expect(200);
+
+      expect(mockScheduleService.getWeekSchedule).toHaveBeenCalledWith(userId, new Date('2026-10-21'));
+    });
+
+    it('should return 404 without an active plan', async () => {
+      mockScheduleService.getWeekSchedule.mockResolvedValue({
+        success: false,
+        error: { code: 'PLAN_NOT_FOUND', message: 'No active workout plan' },
+      });
+
+      await request(app.app)
+        .get(`/api/workouts/${userId}/schedule`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /api/workouts/:userId/schedule/reschedule', () => {
+    it('should move a workout', async () => {
+      mockScheduleService.rescheduleWorkout.mockResolvedValue({
+        success: true,
+        data: { date: new Date('2026-10-22'), startTime: '07:00' } as any,
+      });
+
+      await request(app.app)
+        .post(`/api/workouts/${userId}/schedule/reschedule`)
+        .send({ from: '2026-10-21', to: '2026-10-22', startTime: '07:00' })
+        .expect(200);
+
+      expect(mockScheduleService.rescheduleWorkout).toHaveBeenCalledWith(userId, {
+        from: new Date('2026-10-21'),
+        to: new Date('2026-10-22'),
+        startTime: '07:00',
+      });
+    });
+
+    it('should return 409 when the day already has a workout', async () => {
+      mockScheduleService.rescheduleWorkout.mockResolvedValue({
+        success: false,
+        error: { code: 'DAY_ALREADY_SCHEDULED', message: 'A workout is already scheduled on that day' },
+      });
+
+      await request(app.app)
+        .post(`/api/workouts/${userId}/schedule/reschedule`)
+        .send({ from: '2026-10-21', to: '2026-10-23' })
+        .expect(409);
+    });
+
+    it('should return 400 without both dates', async () => {
+      await request(app.app)
+        .post(`/api/workouts/${userId}/schedule/reschedule`)
+        .send({ from: '2026-10-21' })
+        .expect(400);
+    });
+  });
+});
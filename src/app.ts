@@ -7,6 +7,10 @@ import { database } from './database/connection';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import userRoutes from './routes/userRoutes';
 import aiRoutes from './routes/aiRoutes';
+import workoutRoutes from './routes/workoutRoutes';
+import exerciseRoutes from './routes/exerciseRoutes';
+import nutritionRoutes from './routes/nutritionRoutes';
+import foodRoutes from './routes/foodRoutes';
 import telegramRoutes, { getTelegramService } from './routes/telegramRoutes';
 
 class App {
@@ -56,6 +60,10 @@ class App {
     // API routes
     this.app.use('/api/users', userRoutes);
     this.app.use('/api/ai', aiRoutes);
+    this.app.use('/api/workouts', workoutRoutes);
+    this.app.use('/api/exercises', exerciseRoutes);
+    this.app.use('/api/nutrition', nutritionRoutes);
+    this.app.use('/api/foods', foodRoutes);
     this.app.use('/api/telegram', telegramRoutes);
 
     // API info endpoint
@@ -67,6 +75,10 @@ class App {
           health: '/health',
           users: '/api/users',
           ai: '/api/ai',
+          workouts: '/api/workouts',
+          exercises: '/api/exercises',
+          nutrition: '/api/nutrition',
+          foods: '/api/foods',
           telegram: '/api/telegram',
           // More endpoints will be added as we build services
         },
@@ -115,6 +127,10 @@ class App {
         console.log(`🔗 Health check: http://localhost:${port}/health`);
         console.log(`👤 Users API: http://localhost:${port}/api/users`);
         console.log(`🤖 AI API: http://localhost:${port}/api/ai`);
+        console.log(`🏋️ Workouts API: http://localhost:${port}/api/workouts`);
+        console.log(`📚 Exercises API: http://localhost:${port}/api/exercises`);
+        console.log(`🥗 Nutrition API: http://localhost:${port}/api/nutrition`);
+        console.log(`🍲 Foods API: http://localhost:${port}/api/foods`);
         console.log(`📱 Telegram API: http://localhost:${port}/api/telegram`);
         if (!database.isConnected()) {
           console.log(`⚠️  Database: Not connected (running in limited mode)`);
@@ -7,6 +7,8 @@ export const config = {
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
+    // Where the API is reachable from outside, for links such as calendar feeds
+    publicUrl: process.env.PUBLIC_URL || '',
   },
   database: {
     mongoUri: process.env.MONGODB_URI || '',
@@ -33,6 +35,10 @@ export const config = {
     botToken: process.env.TELEGRAM_BOT_TOKEN || '',
     webhookUrl: process.env.WEBHOOK_URL || '',
   },
+  workouts: {
+    // Open sessions with no activity for this long are closed automatically
+    idleHoursBeforeAutoClose: parseFloat(process.env.WORKOUT_IDLE_HOURS || '3'),
+  },
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
   },
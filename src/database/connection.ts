@@ -37,6 +37,7 @@ class DatabaseConnection {
       this.schemas = new DatabaseSchemas(this.db);
       await this.schemas.createValidationRules();
       await this.schemas.createIndexes();
+      await this.schemas.seedReferenceData();
       
       console.log('✅ Successfully connected to MongoDB');
       return this.db;
@@ -9,8 +9,14 @@ import {
   FoodLog, 
   Gym, 
   Conversation, 
-  UserProgress 
+  UserProgress,
+  PersonalRecord,
+  WeeklyReportDelivery,
+  CardioLog,
+  ScheduledWorkout
 } from '../types';
+import { seedExercises } from './seeds/exercises';
+import { seedFoods } from './seeds/foods';
 
 export class DatabaseSchemas {
   private db: Db;
@@ -32,6 +38,10 @@ export class DatabaseSchemas {
       // Workout plans collection indexes
       const workoutPlansCollection = this.db.collection<WorkoutPlan>('workout_plans');
       await workoutPlansCollection.createIndex({ userId: 1, isActive: 1 });
+      await workoutPlansCollection.createIndex(
+        { userId: 1 },
+        { unique: true, partialFilterExpression: { isActive: true } } // one active plan per user
+      );
       await workoutPlansCollection.createIndex({ createdAt: -1 });
 
       // Workout sessions collection indexes
@@ -41,9 +51,11 @@ export class DatabaseSchemas {
 
       // Exercises collection indexes
       const exercisesCollection = this.db.collection<Exercise>('exercises');
-      await exercisesCollection.createIndex({ name: 1 });
+      await exercisesCollection.createIndex({ name: 1 }, { unique: true });
+      await exercisesCollection.createIndex({ localNames: 1 });
       await exercisesCollection.createIndex({ category: 1 });
       await exercisesCollection.createIndex({ muscleGroups: 1 });
+      await exercisesCollection.createIndex({ equipment: 1 });
       await exercisesCollection.createIndex({ difficulty: 1 });
 
       // Meal plans collection indexes
@@ -81,6 +93,25 @@ export class DatabaseSchemas {
       const userProgressCollection = this.db.collection<UserProgress>('user_progress');
       await userProgressCollection.createIndex({ userId: 1, date: -1 });
 
+      // Personal records collection indexes
+      const personalRecordsCollection = this.db.collection<PersonalRecord>('personal_records');
+      await personalRecordsCollection.createIndex({ userId: 1, exerciseName: 1, type: 1, achievedAt: -1 });
+      await personalRecordsCollection.createIndex({ userId: 1, achievedAt: -1 });
+      await personalRecordsCollection.createIndex({ sessionId: 1 });
+
+      // Weekly report deliveries, one per user per week
+      const weeklyReportsCollection = this.db.collection<WeeklyReportDelivery>('weekly_reports');
+      await weeklyReportsCollection.createIndex({ userId: 1, weekStart: 1 }, { unique: true });
+
+      // Cardio logs collection indexes
+      const cardioLogsCollection = this.db.collection<CardioLog>('cardio_logs');
+      await cardioLogsCollection.createIndex({ userId: 1, performedAt: -1 });
+
+      // Scheduled workouts, one per plan day per week
+      const scheduledWorkoutsCollection = this.db.collection<ScheduledWorkout>('scheduled_workouts');
+      await scheduledWorkoutsCollection.createIndex({ userId: 1, planId: 1, weekStart: 1, workoutDayIndex: 1 }, { unique: true });
+      await scheduledWorkoutsCollection.createIndex({ userId: 1, date: 1 });
+
       console.log('Database indexes created successfully');
     } catch (error) {
       console.error('Error creating database indexes:', error);
@@ -180,6 +211,20 @@ export class DatabaseSchemas {
     }
   }
 
+  async seedReferenceData(): Promise<void> {
+    try {
+      console.log('Seeding reference data...');
+
+      const insertedExercises = await seedExercises(this.getExercisesCollection());
+      const insertedFoods = await seedFoods(this.getFoodItemsCollection());
+
+      console.log(`Reference data seeded (${insertedExercises} new exercises, ${insertedFoods} new foods)`);
+    } catch (error) {
+      console.error('Error seeding reference data:', error);
+      throw error;
+    }
+  }
+
   // Collection getters for type safety
   getUsersCollection(): Collection<User> {
     return this.db.collection<User>('users');
@@ -220,4 +265,20 @@ export class DatabaseSchemas {
   getUserProgressCollection(): Collection<UserProgress> {
     return this.db.collection<UserProgress>('user_progress');
   }
+
+  getPersonalRecordsCollection(): Collection<PersonalRecord> {
+    return this.db.collection<PersonalRecord>('personal_records');
+  }
+
+  getWeeklyReportsCollection(): Collection<WeeklyReportDelivery> {
+    return this.db.collection<WeeklyReportDelivery>('weekly_reports');
+  }
+
+  getCardioLogsCollection(): Collection<CardioLog> {
+    return this.db.collection<CardioLog>('cardio_logs');
+  }
+
+  getScheduledWorkoutsCollection(): Collection<ScheduledWorkout> {
+    return this.db.collection<ScheduledWorkout>('scheduled_workouts');
+  }
 }
\ No newline at end of file
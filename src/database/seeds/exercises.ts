@@ -0,0 +1,3868 @@
+import { Collection } from 'mongodb';
+import { Exercise } from '../../types';
+
+/**
+ * Curated exercise library. Local names cover what Nigerian gym-goers
+ * actually call a movement (Pidgin, Yoruba, Hausa and gym-floor shorthand)
+ * so free-text logs can be resolved to a library exercise.
+ */
+export const EXERCISE_LIBRARY: Exercise[] = [
+  {
+    name: 'Barbell Bench Press',
+    localNames: ['bench press', 'flat bench', 'bench'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps', 'shoulders'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Lie on the bench with eyes under the bar and feet planted',
+      'Lower the bar to mid-chest and press back up to lockout',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Incline Barbell Bench Press',
+    localNames: ['incline bench', 'incline press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'shoulders', 'triceps'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Set the bench to 30-45 degrees',
+      'Lower the bar to the upper chest and press up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Decline Barbell Bench Press',
+    localNames: ['decline bench', 'decline press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Hook your legs on the decline bench',
+      'Lower the bar to the lower chest and press up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Close Grip Bench Press',
+    localNames: ['close grip bench', 'cgbp'],
+    category: 'compound',
+    muscleGroups: ['triceps', 'chest'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Grip the bar about shoulder-width apart',
+      'Keep elbows tucked as you lower and press',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dumbbell Bench Press',
+    localNames: ['db bench', 'dumbbell press', 'flat dumbbell press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps', 'shoulders'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Press the dumbbells up from chest level',
+      'Lower under control until elbows are slightly below the bench',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Incline Dumbbell Press',
+    localNames: ['incline db press', 'incline dumbbell bench'],
+    category: 'compound',
+    muscleGroups: ['chest', 'shoulders', 'triceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Set the bench to 30-45 degrees',
+      'Press the dumbbells up and together over the upper chest',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Decline Dumbbell Press',
+    localNames: ['decline db press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Secure your legs on the decline bench',
+      'Press the dumbbells up over the lower chest',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dumbbell Fly',
+    localNames: ['flyes', 'chest fly', 'db fly'],
+    category: 'isolation',
+    muscleGroups: ['chest'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Hold the dumbbells over your chest with a slight elbow bend',
+      'Open the arms wide in an arc and squeeze back together',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Incline Dumbbell Fly',
+    localNames: ['incline fly'],
+    category: 'isolation',
+    muscleGroups: ['chest'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Lie on an incline bench with dumbbells over the chest',
+      'Lower in a wide arc and squeeze back up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Cable Crossover',
+    localNames: ['cable fly', 'crossover'],
+    category: 'isolation',
+    muscleGroups: ['chest'],
+    equipment: ['cable'],
+    instructions: [
+      'Stand between the cable towers with handles set high',
+      'Bring the handles together in front of the hips',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Low Cable Fly',
+    localNames: ['low to high fly'],
+    category: 'isolation',
+    muscleGroups: ['chest'],
+    equipment: ['cable'],
+    instructions: [
+      'Set the pulleys low',
+      'Sweep the handles up and together to chest height',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Pec Deck',
+    localNames: ['butterfly', 'pec fly machine', 'butterfly machine'],
+    category: 'isolation',
+    muscleGroups: ['chest'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the pads at chest height',
+      'Squeeze the handles together and return slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Machine Chest Press',
+    localNames: ['chest press', 'chest press machine'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['machine'],
+    instructions: [
+      'Set the seat so the handles line up with mid-chest',
+      'Press forward and return under control',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Smith Machine Bench Press',
+    localNames: ['smith bench'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['smith_machine', 'bench'],
+    instructions: [
+      'Lie under the smith bar at mid-chest',
+      'Unrack, lower to the chest and press up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Push Up',
+    localNames: ['pushup', 'press up', 'pumping'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps', 'shoulders', 'core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Keep the body in a straight line from head to heels',
+      'Lower the chest to the floor and push back up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Knee Push Up',
+    localNames: ['kneeling push up', 'half push up'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Support yourself on your knees and hands',
+      'Lower the chest and push back up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Incline Push Up',
+    localNames: ['bench push up'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['bodyweight', 'bench'],
+    instructions: [
+      'Place hands on a raised surface',
+      'Lower the chest to the edge and push back',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Decline Push Up',
+    localNames: ['feet elevated push up'],
+    category: 'compound',
+    muscleGroups: ['chest', 'shoulders', 'triceps'],
+    equipment: ['bodyweight', 'bench'],
+    instructions: [
+      'Place your feet on a raised surface',
+      'Lower the chest to the floor and push back up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Diamond Push Up',
+    localNames: ['diamond pushup', 'triangle push up'],
+    category: 'compound',
+    muscleGroups: ['triceps', 'chest'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Form a diamond with thumbs and index fingers under the chest',
+      'Lower and press keeping elbows close',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Wide Push Up',
+    localNames: ['wide grip push up'],
+    category: 'compound',
+    muscleGroups: ['chest', 'shoulders'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Place hands wider than shoulder-width',
+      'Lower the chest and push back up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Clap Push Up',
+    localNames: ['clapping push up'],
+    category: 'plyometric',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lower into a push up',
+      'Explode up, clap, and land softly',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Chest Dip',
+    localNames: ['dips', 'parallel bar dip'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['dip_bars'],
+    instructions: [
+      'Lean the torso forward on the bars',
+      'Lower until the shoulders are below the elbows and press up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Svend Press',
+    localNames: ['plate press'],
+    category: 'isolation',
+    muscleGroups: ['chest'],
+    equipment: ['weight_plate'],
+    instructions: [
+      'Squeeze a plate between your palms at chest height',
+      'Press it straight out and back while squeezing',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Landmine Press',
+    localNames: ['landmine chest press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'shoulders'],
+    equipment: ['barbell', 'landmine'],
+    instructions: [
+      'Hold the end of a landmine bar at the shoulder',
+      'Press up and forward to lockout',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Conventional Deadlift',
+    localNames: ['deadlift', 'deads', 'dl'],
+    category: 'compound',
+    muscleGroups: ['back', 'hamstrings', 'glutes'],
+    equipment: ['barbell'],
+    instructions: [
+      'Stand with mid-foot under the bar and grip outside the knees',
+      'Brace and stand up by driving through the floor',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Sumo Deadlift',
+    localNames: ['sumo'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'quads', 'back'],
+    equipment: ['barbell'],
+    instructions: [
+      'Take a wide stance with hands inside the knees',
+      'Push the floor apart and stand up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Trap Bar Deadlift',
+    localNames: ['hex bar deadlift', 'trap bar'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes', 'back'],
+    equipment: ['trap_bar'],
+    instructions: [
+      'Stand inside the trap bar and grip the handles',
+      'Drive up through the legs to standing',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Rack Pull',
+    localNames: ['block pull'],
+    category: 'compound',
+    muscleGroups: ['back', 'glutes'],
+    equipment: ['barbell', 'rack'],
+    instructions: [
+      'Set the bar on pins just below the knees',
+      'Pull to lockout squeezing the glutes',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Barbell Row',
+    localNames: ['bent over row', 'bb row', 'row'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Hinge forward with a flat back',
+      'Pull the bar to the lower ribs and lower under control',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Pendlay Row',
+    localNames: ['dead stop row'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['barbell'],
+    instructions: [
+      'Start each rep from the floor with a flat back',
+      'Explosively row the bar to the lower chest',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Dumbbell Row',
+    localNames: ['one arm row', 'single arm row', 'db row'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Support one knee and hand on a bench',
+      'Row the dumbbell to the hip and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Chest Supported Row',
+    localNames: ['incline row'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Lie face down on an incline bench',
+      'Row the dumbbells up and squeeze the shoulder blades',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'T-Bar Row',
+    localNames: ['t bar row', 'tbar'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['barbell', 'landmine'],
+    instructions: [
+      'Straddle the bar and grip the handle',
+      'Row to the chest keeping the back flat',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Seated Cable Row',
+    localNames: ['cable row', 'seated row', 'low row'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Sit with a slight knee bend and neutral back',
+      'Pull the handle to your stomach and return slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Machine Row',
+    localNames: ['seated row machine'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['machine'],
+    instructions: [
+      'Set the chest pad so you can reach the handles',
+      'Row back and squeeze the shoulder blades',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Inverted Row',
+    localNames: ['australian pull up', 'body row'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['barbell', 'rack'],
+    instructions: [
+      'Hang under a low bar with a straight body',
+      'Pull your chest to the bar',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Pull Up',
+    localNames: ['pullup', 'pull-up'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Hang from the bar with an overhand grip',
+      'Pull until the chin clears the bar',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Chin Up',
+    localNames: ['chinup', 'chin-up', 'underhand pull up'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Hang from the bar with an underhand grip',
+      'Pull until the chin is over the bar',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Assisted Pull Up',
+    localNames: ['assisted pullup', 'band pull up'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['machine'],
+    instructions: [
+      'Use a machine or band for support',
+      'Pull up until the chin clears the bar',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Neutral Grip Pull Up',
+    localNames: ['hammer grip pull up'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Grip parallel handles',
+      'Pull up until the chin clears the handles',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Lat Pulldown',
+    localNames: ['pulldown', 'lat pull down', 'lats'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Grip the bar wider than shoulders',
+      'Pull the bar to the upper chest and return slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Close Grip Lat Pulldown',
+    localNames: ['v bar pulldown'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Use a close or V-grip handle',
+      'Pull to the upper chest leading with the elbows',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Straight Arm Pulldown',
+    localNames: ['straight arm pushdown', 'lat pushdown'],
+    category: 'isolation',
+    muscleGroups: ['back'],
+    equipment: ['cable'],
+    instructions: [
+      'Stand facing a high pulley with straight arms',
+      'Sweep the bar down to the thighs',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dumbbell Pullover',
+    localNames: ['pullover'],
+    category: 'isolation',
+    muscleGroups: ['back', 'chest'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Lie across a bench holding a dumbbell over the chest',
+      'Lower it behind the head and pull back over',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Good Morning',
+    localNames: ['goodmorning'],
+    category: 'compound',
+    muscleGroups: ['hamstrings', 'back'],
+    equipment: ['barbell'],
+    instructions: [
+      'Rest the bar on the upper back',
+      'Hinge at the hips with a flat back and return',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Back Extension',
+    localNames: ['hyperextension', 'hyper', 'back raise'],
+    category: 'isolation',
+    muscleGroups: ['back', 'glutes', 'hamstrings'],
+    equipment: ['hyperextension_bench'],
+    instructions: [
+      'Lock your legs into the bench',
+      'Lower the torso and raise to a straight line',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Superman',
+    localNames: ['superman hold'],
+    category: 'isolation',
+    muscleGroups: ['back', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie face down with arms overhead',
+      'Lift arms, chest and legs off the floor',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Barbell Shrug',
+    localNames: ['shrugs', 'shoulder shrug'],
+    category: 'isolation',
+    muscleGroups: ['traps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Hold the bar at arm\'s length',
+      'Shrug the shoulders straight up and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Dumbbell Shrug',
+    localNames: ['db shrug'],
+    category: 'isolation',
+    muscleGroups: ['traps'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells at your sides',
+      'Shrug up toward the ears and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Meadows Row',
+    localNames: ['meadow row'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['barbell', 'landmine'],
+    instructions: [
+      'Stand side-on to a landmine bar',
+      'Row the end of the bar with one arm',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Kettlebell Swing',
+    localNames: ['kb swing', 'swings'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'hamstrings', 'back'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Hinge and hike the kettlebell between the legs',
+      'Snap the hips forward to swing it to chest height',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Renegade Row',
+    localNames: ['plank row'],
+    category: 'compound',
+    muscleGroups: ['back', 'core'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold a plank on two dumbbells',
+      'Row one dumbbell at a time without rotating',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Overhead Press',
+    localNames: ['military press', 'ohp', 'shoulder press', 'standing press'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Start with the bar on the front shoulders',
+      'Press overhead to lockout and lower under control',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Seated Barbell Press',
+    localNames: ['seated military press'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Sit upright with the bar at the upper chest',
+      'Press overhead and lower to the chin',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Push Press',
+    localNames: [],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps', 'quads'],
+    equipment: ['barbell'],
+    instructions: [
+      'Dip slightly at the knees',
+      'Drive with the legs and press the bar overhead',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Dumbbell Shoulder Press',
+    localNames: ['db shoulder press', 'dumbbell press overhead'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Hold dumbbells at shoulder height',
+      'Press overhead until the arms are straight',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Arnold Press',
+    localNames: ['arnold'],
+    category: 'compound',
+    muscleGroups: ['shoulders'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Start with palms facing you at shoulder height',
+      'Rotate the palms out as you press overhead',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Machine Shoulder Press',
+    localNames: ['shoulder press machine'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps'],
+    equipment: ['machine'],
+    instructions: [
+      'Adjust the seat so the handles are at shoulder height',
+      'Press up and return slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Lateral Raise',
+    localNames: ['side raise', 'lateral', 'side lateral raise'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells at your sides',
+      'Raise the arms out to shoulder height and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Lateral Raise',
+    localNames: ['cable side raise'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['cable'],
+    instructions: [
+      'Stand side-on to a low pulley',
+      'Raise the handle out to shoulder height',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Front Raise',
+    localNames: ['front delt raise'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells in front of the thighs',
+      'Raise to shoulder height with straight arms',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Plate Front Raise',
+    localNames: ['plate raise'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['weight_plate'],
+    instructions: [
+      'Hold a plate at the edges',
+      'Raise it to eye level and lower',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Rear Delt Fly',
+    localNames: ['reverse fly', 'rear fly'],
+    category: 'isolation',
+    muscleGroups: ['shoulders', 'back'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hinge forward with dumbbells hanging',
+      'Raise the arms out to the sides',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Reverse Pec Deck',
+    localNames: ['rear delt machine'],
+    category: 'isolation',
+    muscleGroups: ['shoulders', 'back'],
+    equipment: ['machine'],
+    instructions: [
+      'Face the pec deck with arms straight',
+      'Open the arms back and squeeze the rear delts',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Face Pull',
+    localNames: ['facepull'],
+    category: 'isolation',
+    muscleGroups: ['shoulders', 'back'],
+    equipment: ['cable'],
+    instructions: [
+      'Set a rope at face height',
+      'Pull toward the face with elbows high and rotate out',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Upright Row',
+    localNames: ['upright rows'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'traps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Hold the bar with a shoulder-width grip',
+      'Pull up to the chest leading with the elbows',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Pike Push Up',
+    localNames: ['pike press'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Form an inverted V with hips high',
+      'Lower the head toward the floor and press up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Handstand Push Up',
+    localNames: ['hspu'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Kick up into a handstand against a wall',
+      'Lower the head to the floor and press up',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Landmine Shoulder Press',
+    localNames: ['single arm landmine press'],
+    category: 'compound',
+    muscleGroups: ['shoulders'],
+    equipment: ['barbell', 'landmine'],
+    instructions: [
+      'Hold the end of the bar at the shoulder',
+      'Press up and forward with one arm',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Y Raise',
+    localNames: ['incline y raise'],
+    category: 'isolation',
+    muscleGroups: ['shoulders', 'back'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Lie face down on an incline bench',
+      'Raise light dumbbells into a Y shape',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Barbell Curl',
+    localNames: ['bicep curl', 'curls', 'biceps curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Hold the bar with an underhand grip',
+      'Curl to the shoulders keeping elbows fixed',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'EZ Bar Curl',
+    localNames: ['ez curl', 'zigzag bar curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['ez_bar'],
+    instructions: [
+      'Grip the angled part of the EZ bar',
+      'Curl up and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Dumbbell Curl',
+    localNames: ['db curl', 'alternating curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells with palms forward',
+      'Curl one or both arms up and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Dumbbell Hammer Curl',
+    localNames: ['hammer curl', 'hammer'],
+    category: 'isolation',
+    muscleGroups: ['biceps', 'forearms'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells with palms facing each other',
+      'Curl up keeping the neutral grip',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Incline Dumbbell Curl',
+    localNames: ['incline curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Sit back on an incline bench with arms hanging',
+      'Curl up without moving the upper arm',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Preacher Curl',
+    localNames: ['preacher', 'scott curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['ez_bar', 'preacher_bench'],
+    instructions: [
+      'Rest the upper arms on the preacher pad',
+      'Curl up and lower to almost straight',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Concentration Curl',
+    localNames: ['concentration'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Sit with the elbow braced against the inner thigh',
+      'Curl the dumbbell to the shoulder',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Curl',
+    localNames: ['cable bicep curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Stand facing a low pulley',
+      'Curl the bar to the shoulders',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Spider Curl',
+    localNames: ['spider'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Lie chest down on an incline bench',
+      'Curl the dumbbells with arms hanging vertically',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Reverse Curl',
+    localNames: ['reverse grip curl'],
+    category: 'isolation',
+    muscleGroups: ['forearms', 'biceps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Hold the bar with an overhand grip',
+      'Curl up and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Bayesian Curl',
+    localNames: ['behind the body curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Face away from a low pulley',
+      'Curl with the arm starting behind the body',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Zottman Curl',
+    localNames: ['zottman'],
+    category: 'isolation',
+    muscleGroups: ['biceps', 'forearms'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Curl up with palms up',
+      'Rotate palms down and lower slowly',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Tricep Pushdown',
+    localNames: ['pushdown', 'triceps pushdown', 'cable pushdown'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Hold the bar at a high pulley with elbows at your sides',
+      'Push down to full extension',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Rope Pushdown',
+    localNames: ['rope extension'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Grip a rope at a high pulley',
+      'Push down and spread the rope at the bottom',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Overhead Tricep Extension',
+    localNames: ['overhead extension', 'tricep extension', 'french press'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold a dumbbell overhead with both hands',
+      'Lower behind the head and extend',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Overhead Tricep Extension',
+    localNames: ['overhead rope extension'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Face away from the pulley holding a rope overhead',
+      'Extend the arms forward and up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Skull Crusher',
+    localNames: ['skullcrusher', 'lying tricep extension'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['ez_bar', 'bench'],
+    instructions: [
+      'Lie on a bench with the bar over the face',
+      'Lower to the forehead and extend',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Tricep Dip',
+    localNames: ['tricep dips', 'upright dip'],
+    category: 'compound',
+    muscleGroups: ['triceps', 'chest'],
+    equipment: ['dip_bars'],
+    instructions: [
+      'Keep the torso upright on the bars',
+      'Lower until elbows reach 90 degrees and press up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Bench Dip',
+    localNames: ['chair dip', 'bench dips'],
+    category: 'compound',
+    muscleGroups: ['triceps'],
+    equipment: ['bench', 'bodyweight'],
+    instructions: [
+      'Place hands on a bench behind you',
+      'Lower the hips and press back up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Tricep Kickback',
+    localNames: ['kickback'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hinge forward with the upper arm by your side',
+      'Extend the forearm back until straight',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'JM Press',
+    localNames: ['jm'],
+    category: 'compound',
+    muscleGroups: ['triceps'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Lower the bar toward the chin with elbows forward',
+      'Press back up using the triceps',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Barbell Back Squat',
+    localNames: ['squat', 'back squat', 'squats', 'bere', 'tsugunawa'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes', 'hamstrings'],
+    equipment: ['barbell', 'rack'],
+    instructions: [
+      'Rest the bar on the upper back',
+      'Sit down between the hips to below parallel and stand up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Front Squat',
+    localNames: ['front squats'],
+    category: 'compound',
+    muscleGroups: ['quads', 'core'],
+    equipment: ['barbell', 'rack'],
+    instructions: [
+      'Hold the bar on the front shoulders with elbows high',
+      'Squat down keeping the torso upright',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Goblet Squat',
+    localNames: ['goblet', 'kettlebell squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold a dumbbell at chest height',
+      'Squat down between the knees and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Bodyweight Squat',
+    localNames: ['air squat', 'free squat', 'sit down stand up'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Stand with feet shoulder-width apart',
+      'Squat down and stand back up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Smith Machine Squat',
+    localNames: ['smith squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['smith_machine'],
+    instructions: [
+      'Stand under the smith bar with feet slightly forward',
+      'Squat down and drive up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hack Squat',
+    localNames: ['hack squat machine'],
+    category: 'compound',
+    muscleGroups: ['quads'],
+    equipment: ['machine'],
+    instructions: [
+      'Stand on the platform with shoulders under the pads',
+      'Lower until knees reach 90 degrees and press up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Leg Press',
+    localNames: ['leg press machine'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['machine'],
+    instructions: [
+      'Place feet shoulder-width on the platform',
+      'Lower the sled and press back up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Leg Extension',
+    localNames: ['leg extensions', 'quad extension'],
+    category: 'isolation',
+    muscleGroups: ['quads'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the pad on the lower shins',
+      'Extend the legs and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Walking Lunge',
+    localNames: ['lunges', 'walking lunges'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Step forward and lower the back knee',
+      'Drive up and step through with the other leg',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Reverse Lunge',
+    localNames: ['back lunge'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Step backward and lower the back knee',
+      'Drive back to standing',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Bulgarian Split Squat',
+    localNames: ['split squat', 'bss', 'rear foot elevated split squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Rest the back foot on a bench',
+      'Lower the back knee and drive up through the front heel',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Step Up',
+    localNames: ['box step up', 'step ups'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Step onto a box or bench',
+      'Drive through the top foot to stand tall',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Sissy Squat',
+    localNames: ['sissy'],
+    category: 'isolation',
+    muscleGroups: ['quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lean back while bending the knees forward',
+      'Lower under control and return',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Wall Sit',
+    localNames: ['wall squat', 'chair pose'],
+    category: 'isolation',
+    muscleGroups: ['quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Slide down a wall until knees are at 90 degrees',
+      'Hold the position',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Pistol Squat',
+    localNames: ['single leg squat', 'pistol'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Stand on one leg with the other extended',
+      'Squat down on one leg and stand up',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Zercher Squat',
+    localNames: ['zercher'],
+    category: 'compound',
+    muscleGroups: ['quads', 'core'],
+    equipment: ['barbell'],
+    instructions: [
+      'Hold the bar in the crook of the elbows',
+      'Squat down and stand up',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Belt Squat',
+    localNames: ['belt squat machine'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['machine'],
+    instructions: [
+      'Attach the belt around the hips',
+      'Squat down and stand up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Frog Jump',
+    localNames: ['frog jumps', 'frog jump punishment'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'glutes', 'calves'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Squat down with hands behind the head',
+      'Jump forward and land back in the squat',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Romanian Deadlift',
+    localNames: ['rdl', 'romanian'],
+    category: 'compound',
+    muscleGroups: ['hamstrings', 'glutes', 'back'],
+    equipment: ['barbell'],
+    instructions: [
+      'Hold the bar at the hips',
+      'Hinge back with soft knees until the hamstrings stretch and stand up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dumbbell Romanian Deadlift',
+    localNames: ['db rdl'],
+    category: 'compound',
+    muscleGroups: ['hamstrings', 'glutes'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells in front of the thighs',
+      'Hinge back and return to standing',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Single Leg Romanian Deadlift',
+    localNames: ['single leg rdl'],
+    category: 'compound',
+    muscleGroups: ['hamstrings', 'glutes'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold a dumbbell and balance on one leg',
+      'Hinge forward and return',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Stiff Leg Deadlift',
+    localNames: ['stiff legged deadlift', 'sldl'],
+    category: 'compound',
+    muscleGroups: ['hamstrings', 'back'],
+    equipment: ['barbell'],
+    instructions: [
+      'Keep the legs nearly straight',
+      'Lower the bar toward the floor and stand up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Lying Leg Curl',
+    localNames: ['leg curl', 'hamstring curl'],
+    category: 'isolation',
+    muscleGroups: ['hamstrings'],
+    equipment: ['machine'],
+    instructions: [
+      'Lie face down with the pad above the heels',
+      'Curl the heels toward the glutes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Seated Leg Curl',
+    localNames: ['seated hamstring curl'],
+    category: 'isolation',
+    muscleGroups: ['hamstrings'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the pad behind the lower legs',
+      'Curl down and return slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Nordic Curl',
+    localNames: ['nordic hamstring curl', 'nordics'],
+    category: 'isolation',
+    muscleGroups: ['hamstrings'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Kneel with the ankles anchored',
+      'Lower the torso forward as slowly as possible',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Glute Ham Raise',
+    localNames: ['ghr'],
+    category: 'compound',
+    muscleGroups: ['hamstrings', 'glutes'],
+    equipment: ['ghd'],
+    instructions: [
+      'Lock the feet into the GHD',
+      'Lower the torso and curl back up',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Swiss Ball Leg Curl',
+    localNames: ['ball leg curl'],
+    category: 'isolation',
+    muscleGroups: ['hamstrings'],
+    equipment: ['stability_ball'],
+    instructions: [
+      'Lie on your back with heels on the ball',
+      'Lift the hips and curl the ball in',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Pull Through',
+    localNames: ['pull through'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'hamstrings'],
+    equipment: ['cable'],
+    instructions: [
+      'Face away from a low pulley holding a rope between the legs',
+      'Hinge and drive the hips forward',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hip Thrust',
+    localNames: ['barbell hip thrust', 'hip thrusts'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'hamstrings'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Rest the upper back on a bench with the bar on the hips',
+      'Drive the hips up and squeeze the glutes',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Glute Bridge',
+    localNames: ['bridge', 'hip raise'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with knees bent',
+      'Lift the hips and squeeze the glutes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Single Leg Glute Bridge',
+    localNames: ['one leg bridge'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with one foot planted',
+      'Lift the hips on one leg',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Kickback',
+    localNames: ['glute kickback'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['cable'],
+    instructions: [
+      'Attach an ankle strap to a low pulley',
+      'Kick the leg back and squeeze',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hip Abduction Machine',
+    localNames: ['abductor', 'outer thigh machine'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the pads outside the knees',
+      'Push the legs apart and return',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hip Adduction Machine',
+    localNames: ['adductor', 'inner thigh machine'],
+    category: 'isolation',
+    muscleGroups: ['quads'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the pads inside the knees',
+      'Squeeze the legs together and return',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Donkey Kick',
+    localNames: ['donkey kicks'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start on hands and knees',
+      'Kick one leg up toward the ceiling',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Fire Hydrant',
+    localNames: ['hydrant'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start on hands and knees',
+      'Lift one knee out to the side',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Sumo Squat',
+    localNames: ['plie squat'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'quads'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Take a wide stance holding a dumbbell',
+      'Squat down and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Curtsy Lunge',
+    localNames: ['curtsy'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Step one leg behind and across',
+      'Lower and return to standing',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Frog Pump',
+    localNames: ['frog pumps'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with soles together',
+      'Thrust the hips up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Banded Lateral Walk',
+    localNames: ['monster walk', 'band walk'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Place a band above the knees',
+      'Step sideways keeping tension',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Standing Calf Raise',
+    localNames: ['calf raise', 'calf raises', 'calves'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['machine'],
+    instructions: [
+      'Stand on the edge of a step',
+      'Raise onto the toes and lower fully',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Seated Calf Raise',
+    localNames: ['seated calf'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the pad on the knees',
+      'Raise the heels and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Single Leg Calf Raise',
+    localNames: ['one leg calf raise'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Stand on one foot on a step',
+      'Raise up and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Donkey Calf Raise',
+    localNames: ['donkey calves'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['machine'],
+    instructions: [
+      'Hinge forward with hips under the pad',
+      'Raise onto the toes and lower',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Leg Press Calf Raise',
+    localNames: ['calf press'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['machine'],
+    instructions: [
+      'Place the balls of the feet on the sled',
+      'Press through the toes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Smith Machine Calf Raise',
+    localNames: ['smith calf raise'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['smith_machine'],
+    instructions: [
+      'Stand on a plate under the smith bar',
+      'Raise up onto the toes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Tibialis Raise',
+    localNames: ['tib raise'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lean against a wall with heels out',
+      'Lift the toes toward the shins',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Plank',
+    localNames: ['planks', 'front plank'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Hold a push up position on the forearms',
+      'Keep the body straight and brace',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Side Plank',
+    localNames: ['side planks'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on one side supported by the forearm',
+      'Lift the hips and hold',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Crunch',
+    localNames: ['crunches', 'abs'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with knees bent',
+      'Curl the shoulders off the floor',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Sit Up',
+    localNames: ['situp', 'sit-ups', 'sit ups'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with knees bent',
+      'Sit all the way up and lower',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Bicycle Crunch',
+    localNames: ['bicycle', 'bicycles'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with hands behind the head',
+      'Bring opposite elbow to knee alternately',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Russian Twist',
+    localNames: ['twists'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Sit leaning back with feet raised',
+      'Rotate the torso side to side',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hanging Leg Raise',
+    localNames: ['leg raise', 'hanging knee raise'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Hang from a bar',
+      'Raise the legs to hip height or higher',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Lying Leg Raise',
+    localNames: ['floor leg raise', 'leg raises'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with legs straight',
+      'Raise the legs to vertical and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Crunch',
+    localNames: ['kneeling cable crunch'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['cable'],
+    instructions: [
+      'Kneel holding a rope at a high pulley',
+      'Crunch down bringing elbows to knees',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Ab Wheel Rollout',
+    localNames: ['ab roller', 'rollout', 'ab wheel'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['ab_wheel'],
+    instructions: [
+      'Kneel holding the wheel',
+      'Roll out as far as you can and pull back',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Mountain Climber',
+    localNames: ['mountain climbers', 'climbers'],
+    category: 'cardio',
+    muscleGroups: ['core', 'shoulders'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start in a push up position',
+      'Drive the knees to the chest alternately',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Dead Bug',
+    localNames: ['deadbug'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with arms and knees up',
+      'Lower opposite arm and leg together',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hollow Body Hold',
+    localNames: ['hollow hold'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back and lift shoulders and legs',
+      'Hold with the lower back pressed down',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'V Up',
+    localNames: ['v-ups', 'v sit up'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie flat with arms overhead',
+      'Lift legs and torso to meet in a V',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Pallof Press',
+    localNames: ['anti rotation press'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['cable'],
+    instructions: [
+      'Stand side-on to a cable at chest height',
+      'Press the handle out and resist rotation',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Flutter Kicks',
+    localNames: ['flutter kick'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with legs raised',
+      'Kick the legs up and down alternately',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Toe Touch',
+    localNames: ['toe touches', 'toe reach'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with legs vertical',
+      'Reach up to touch the toes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hanging Windshield Wiper',
+    localNames: ['windshield wipers'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Hang with legs raised',
+      'Rotate the legs side to side',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Decline Sit Up',
+    localNames: ['decline crunch'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bench'],
+    instructions: [
+      'Hook your feet on a decline bench',
+      'Sit up and lower slowly',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Farmer\'s Walk',
+    localNames: ['farmers walk', 'farmer carry', 'loaded carry'],
+    category: 'compound',
+    muscleGroups: ['forearms', 'traps', 'core'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Pick up heavy dumbbells',
+      'Walk with an upright posture',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Suitcase Carry',
+    localNames: ['single arm carry'],
+    category: 'compound',
+    muscleGroups: ['core', 'forearms'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold one heavy dumbbell at your side',
+      'Walk without leaning',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Bird Dog',
+    localNames: ['birddog'],
+    category: 'isolation',
+    muscleGroups: ['core', 'back'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start on hands and knees',
+      'Extend opposite arm and leg and hold',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Wrist Curl',
+    localNames: ['wrist curls'],
+    category: 'isolation',
+    muscleGroups: ['forearms'],
+    equipment: ['barbell'],
+    instructions: [
+      'Rest the forearms on the thighs palms up',
+      'Curl the wrists up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Reverse Wrist Curl',
+    localNames: ['wrist extension'],
+    category: 'isolation',
+    muscleGroups: ['forearms'],
+    equipment: ['barbell'],
+    instructions: [
+      'Rest the forearms on the thighs palms down',
+      'Extend the wrists up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Dead Hang',
+    localNames: ['bar hang', 'hang'],
+    category: 'isolation',
+    muscleGroups: ['forearms', 'back'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Grip the bar and hang with straight arms',
+      'Hold as long as possible',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Plate Pinch',
+    localNames: ['pinch grip'],
+    category: 'isolation',
+    muscleGroups: ['forearms'],
+    equipment: ['weight_plate'],
+    instructions: [
+      'Pinch two plates together',
+      'Hold for time',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Power Clean',
+    localNames: ['clean', 'cleans'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes', 'back', 'traps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Pull the bar from the floor explosively',
+      'Catch it on the front shoulders',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Hang Clean',
+    localNames: ['hang power clean'],
+    category: 'compound',
+    muscleGroups: ['back', 'traps', 'quads'],
+    equipment: ['barbell'],
+    instructions: [
+      'Start with the bar at mid-thigh',
+      'Explode up and catch on the shoulders',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Clean and Jerk',
+    localNames: ['clean and press', 'c&j'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes', 'shoulders', 'back'],
+    equipment: ['barbell'],
+    instructions: [
+      'Clean the bar to the shoulders',
+      'Dip and drive it overhead',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Snatch',
+    localNames: ['power snatch'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes', 'shoulders', 'back'],
+    equipment: ['barbell'],
+    instructions: [
+      'Pull the bar from the floor explosively',
+      'Catch it overhead in one movement',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Thruster',
+    localNames: ['thrusters'],
+    category: 'compound',
+    muscleGroups: ['quads', 'shoulders'],
+    equipment: ['barbell'],
+    instructions: [
+      'Front squat down',
+      'Drive up and press the bar overhead',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dumbbell Thruster',
+    localNames: ['db thruster'],
+    category: 'compound',
+    muscleGroups: ['quads', 'shoulders'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Squat with dumbbells at the shoulders',
+      'Stand and press overhead',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Burpee',
+    localNames: ['burpees', 'up-down'],
+    category: 'cardio',
+    muscleGroups: ['quads', 'chest', 'core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Drop into a push up position',
+      'Jump the feet in and jump up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Turkish Get Up',
+    localNames: ['get up', 'tgu'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'core'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Lie down holding a kettlebell overhead',
+      'Stand up while keeping it locked out',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Kettlebell Goblet Squat',
+    localNames: ['kb goblet squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Hold a kettlebell by the horns',
+      'Squat down and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Kettlebell Clean and Press',
+    localNames: ['kb clean and press'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'glutes'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Clean the kettlebell to the rack position',
+      'Press it overhead',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Kettlebell Snatch',
+    localNames: ['kb snatch'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'glutes', 'back'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Swing the kettlebell between the legs',
+      'Pull it overhead in one motion',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Sled Push',
+    localNames: ['prowler push', 'sled'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['sled'],
+    instructions: [
+      'Lean into the sled handles',
+      'Drive with short powerful steps',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Battle Ropes',
+    localNames: ['battle rope', 'ropes'],
+    category: 'cardio',
+    muscleGroups: ['shoulders', 'core'],
+    equipment: ['battle_rope'],
+    instructions: [
+      'Hold a rope end in each hand',
+      'Create alternating waves',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Wall Ball',
+    localNames: ['wall balls'],
+    category: 'compound',
+    muscleGroups: ['quads', 'shoulders'],
+    equipment: ['medicine_ball'],
+    instructions: [
+      'Squat holding a medicine ball',
+      'Stand and throw it to a target on the wall',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Medicine Ball Slam',
+    localNames: ['ball slam', 'slams'],
+    category: 'plyometric',
+    muscleGroups: ['core', 'shoulders'],
+    equipment: ['medicine_ball'],
+    instructions: [
+      'Lift the ball overhead',
+      'Slam it to the floor',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Bear Crawl',
+    localNames: ['bear walk'],
+    category: 'cardio',
+    muscleGroups: ['shoulders', 'core', 'quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Crawl on hands and feet with knees off the floor',
+      'Move forward keeping the hips low',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Tire Flip',
+    localNames: ['tyre flip'],
+    category: 'compound',
+    muscleGroups: ['back', 'glutes', 'quads'],
+    equipment: ['tire'],
+    instructions: [
+      'Squat down and grip the bottom of the tire',
+      'Drive up and push it over',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Box Jump',
+    localNames: ['box jumps'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'glutes', 'calves'],
+    equipment: ['plyo_box'],
+    instructions: [
+      'Stand in front of a box',
+      'Jump onto it and land softly',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Jump Squat',
+    localNames: ['squat jump', 'jumping squat'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Squat down',
+      'Explode up into a jump and land softly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Broad Jump',
+    localNames: ['standing long jump'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Swing the arms and jump forward',
+      'Land softly with bent knees',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Tuck Jump',
+    localNames: ['tuck jumps'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Jump up bringing the knees to the chest',
+      'Land softly',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Jumping Lunge',
+    localNames: ['split jump', 'lunge jump'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start in a lunge',
+      'Jump and switch legs in the air',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Skater Jump',
+    localNames: ['skaters'],
+    category: 'plyometric',
+    muscleGroups: ['glutes', 'quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Jump sideways from one leg',
+      'Land on the other leg',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Depth Jump',
+    localNames: ['drop jump'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'calves'],
+    equipment: ['plyo_box'],
+    instructions: [
+      'Step off a box',
+      'Rebound into a jump as soon as you land',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Lateral Box Jump',
+    localNames: ['side box jump'],
+    category: 'plyometric',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['plyo_box'],
+    instructions: [
+      'Stand side-on to a box',
+      'Jump sideways onto it',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Treadmill Run',
+    localNames: ['treadmill', 'running', 'run'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads'],
+    equipment: ['treadmill'],
+    instructions: [
+      'Set the treadmill speed',
+      'Run with an upright posture',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Outdoor Run',
+    localNames: ['jogging', 'jog', 'road run', 'morning run'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start at an easy pace',
+      'Keep a steady rhythm',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Sprint',
+    localNames: ['sprints', 'dash'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads', 'hamstrings'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Accelerate to near top speed',
+      'Walk back to recover',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Brisk Walk',
+    localNames: ['walking', 'trekking', 'walk'],
+    category: 'cardio',
+    muscleGroups: ['cardio'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Walk at a pace that raises your breathing',
+      'Keep going for the planned time',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Incline Walk',
+    localNames: ['incline treadmill walk'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'glutes'],
+    equipment: ['treadmill'],
+    instructions: [
+      'Set the treadmill to a steep incline',
+      'Walk without holding the rails',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Stationary Bike',
+    localNames: ['bike', 'cycling', 'spinning'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads'],
+    equipment: ['stationary_bike'],
+    instructions: [
+      'Set the seat to hip height',
+      'Pedal at a steady cadence',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Outdoor Cycling',
+    localNames: ['bicycle ride', 'riding bicycle'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads'],
+    equipment: ['bicycle'],
+    instructions: [
+      'Ride at a steady pace',
+      'Stay hydrated',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Rowing Machine',
+    localNames: ['rower', 'erg', 'rowing'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'back'],
+    equipment: ['rowing_machine'],
+    instructions: [
+      'Drive with the legs then pull with the arms',
+      'Return in reverse order',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Elliptical',
+    localNames: ['cross trainer', 'elliptical machine'],
+    category: 'cardio',
+    muscleGroups: ['cardio'],
+    equipment: ['elliptical'],
+    instructions: [
+      'Stand on the pedals',
+      'Move at a steady pace',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Stair Climber',
+    localNames: ['stairmaster', 'stair climbing', 'stairs'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'glutes'],
+    equipment: ['stair_machine'],
+    instructions: [
+      'Step at a steady pace',
+      'Stand tall without leaning on the rails',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Jump Rope',
+    localNames: ['skipping', 'skipping rope', 'rope skipping'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'calves'],
+    equipment: ['jump_rope'],
+    instructions: [
+      'Turn the rope with the wrists',
+      'Jump lightly on the balls of the feet',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Jumping Jacks',
+    localNames: ['star jumps', 'jumping jack'],
+    category: 'cardio',
+    muscleGroups: ['cardio'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Jump the feet out while raising the arms',
+      'Jump back to start',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'High Knees',
+    localNames: ['high knee', 'running in place'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Run in place',
+      'Drive the knees up to hip height',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Butt Kicks',
+    localNames: ['butt kickers'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'hamstrings'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Jog in place',
+      'Kick the heels to the glutes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Swimming',
+    localNames: ['swim'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'back', 'shoulders'],
+    equipment: ['pool'],
+    instructions: [
+      'Swim at a steady pace',
+      'Rest between laps as needed',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dancing',
+    localNames: ['dance workout', 'afro dance', 'aerobics'],
+    category: 'cardio',
+    muscleGroups: ['cardio'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Follow the rhythm of the music',
+      'Keep moving for the session',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Shadow Boxing',
+    localNames: ['boxing', 'shadowbox'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'shoulders'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Throw punches in the air with good form',
+      'Keep moving on your feet',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Football',
+    localNames: ['soccer', 'play ball'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Play a match or training drill',
+      'Warm up before and stretch after',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Basketball',
+    localNames: ['hoops'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Play a match or shooting drills',
+      'Warm up before and stretch after',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hiking',
+    localNames: ['hike', 'hill walk'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Walk up and down hilly terrain',
+      'Keep a steady pace',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Stair Running',
+    localNames: ['staircase run', 'stadium stairs'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Run up a flight of stairs',
+      'Walk back down to recover',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Assault Bike',
+    localNames: ['air bike', 'fan bike'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads', 'shoulders'],
+    equipment: ['air_bike'],
+    instructions: [
+      'Push and pull the handles while pedalling',
+      'Go hard for intervals',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Hip Flexor Stretch',
+    localNames: ['lunge stretch'],
+    category: 'mobility',
+    muscleGroups: ['hip_flexors'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Kneel in a lunge position',
+      'Push the hips forward and hold',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hamstring Stretch',
+    localNames: ['toe touch stretch'],
+    category: 'mobility',
+    muscleGroups: ['hamstrings'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Sit or stand with legs straight',
+      'Reach toward the toes and hold',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cat Cow',
+    localNames: ['cat camel'],
+    category: 'mobility',
+    muscleGroups: ['back', 'core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start on hands and knees',
+      'Alternate arching and rounding the spine',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'World\'s Greatest Stretch',
+    localNames: ['worlds greatest stretch'],
+    category: 'mobility',
+    muscleGroups: ['hip_flexors', 'hamstrings', 'back'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Step into a deep lunge',
+      'Rotate the torso and reach up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Foam Rolling',
+    localNames: ['foam roll', 'rolling'],
+    category: 'mobility',
+    muscleGroups: ['quads', 'back', 'hamstrings'],
+    equipment: ['foam_roller'],
+    instructions: [
+      'Roll slowly over tight muscles',
+      'Pause on tender spots',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Child\'s Pose',
+    localNames: ['childs pose'],
+    category: 'mobility',
+    muscleGroups: ['back'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Kneel and sit back on the heels',
+      'Reach the arms forward and relax',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Pigeon Stretch',
+    localNames: ['pigeon pose'],
+    category: 'mobility',
+    muscleGroups: ['glutes', 'hip_flexors'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Bring one leg forward bent in front',
+      'Lower the hips and hold',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Shoulder Dislocates',
+    localNames: ['band pass through', 'pass through'],
+    category: 'mobility',
+    muscleGroups: ['shoulders'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Hold a band wide in front of you',
+      'Pass it overhead and behind the back',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Thoracic Rotation',
+    localNames: ['open book'],
+    category: 'mobility',
+    muscleGroups: ['back'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on one side with knees bent',
+      'Open the top arm across and rotate',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Deep Squat Hold',
+    localNames: ['squat hold', 'bere hold'],
+    category: 'mobility',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Sink into a deep squat',
+      'Hold with the chest up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Ankle Mobility Drill',
+    localNames: ['knee to wall'],
+    category: 'mobility',
+    muscleGroups: ['calves'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Place the foot near a wall',
+      'Drive the knee toward the wall',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Yoga Flow',
+    localNames: ['yoga'],
+    category: 'mobility',
+    muscleGroups: ['core', 'hamstrings', 'shoulders'],
+    equipment: ['yoga_mat'],
+    instructions: [
+      'Move through a sequence of poses',
+      'Breathe steadily throughout',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Floor Press',
+    localNames: ['barbell floor press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Lie on the floor under the bar',
+      'Lower until the elbows touch the floor and press',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dumbbell Floor Press',
+    localNames: ['db floor press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Lie on the floor holding dumbbells',
+      'Lower to the floor and press up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Guillotine Press',
+    localNames: ['neck press'],
+    category: 'compound',
+    muscleGroups: ['chest'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Lower the bar toward the neck with elbows flared',
+      'Press back up with a light weight',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Spoto Press',
+    localNames: ['paused bench'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Lower the bar to just above the chest',
+      'Pause and press up',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Paused Bench Press',
+    localNames: ['pause bench'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Lower the bar to the chest',
+      'Pause for a second and press',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Incline Machine Press',
+    localNames: ['incline chest press machine'],
+    category: 'compound',
+    muscleGroups: ['chest', 'shoulders'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit in the incline press machine',
+      'Press up and return slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Chest Press',
+    localNames: ['band press'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Anchor a band behind you',
+      'Press the handles forward',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Push Up',
+    localNames: ['banded push up'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['resistance_band', 'bodyweight'],
+    instructions: [
+      'Loop a band across the back',
+      'Perform a push up against the band',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Archer Push Up',
+    localNames: ['archer'],
+    category: 'compound',
+    muscleGroups: ['chest', 'triceps'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Set the hands very wide',
+      'Lower toward one hand keeping the other arm straight',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Hindu Push Up',
+    localNames: ['dand', 'dive bomber push up'],
+    category: 'compound',
+    muscleGroups: ['chest', 'shoulders'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Start in a pike',
+      'Swoop the chest down and up into a cobra',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Deficit Deadlift',
+    localNames: ['deficit pull'],
+    category: 'compound',
+    muscleGroups: ['back', 'hamstrings', 'glutes'],
+    equipment: ['barbell', 'weight_plate'],
+    instructions: [
+      'Stand on a plate or platform',
+      'Deadlift from the lower starting position',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Snatch Grip Deadlift',
+    localNames: ['wide grip deadlift'],
+    category: 'compound',
+    muscleGroups: ['back', 'traps', 'hamstrings'],
+    equipment: ['barbell'],
+    instructions: [
+      'Take a very wide grip',
+      'Deadlift keeping the chest up',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Dumbbell Deadlift',
+    localNames: ['db deadlift'],
+    category: 'compound',
+    muscleGroups: ['back', 'glutes', 'hamstrings'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells beside the feet',
+      'Stand up with a flat back',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Kettlebell Deadlift',
+    localNames: ['kb deadlift'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'hamstrings'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Stand over a kettlebell',
+      'Hinge down, grip and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Seal Row',
+    localNames: ['bench row'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['barbell', 'bench'],
+    instructions: [
+      'Lie face down on a high bench',
+      'Row the bar to the bench',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Yates Row',
+    localNames: ['underhand row'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Row with an underhand grip',
+      'Pull toward the belly button',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Kroc Row',
+    localNames: ['heavy db row'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Brace on a bench with one hand',
+      'Row a heavy dumbbell with controlled momentum',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Single Arm Cable Row',
+    localNames: ['one arm cable row'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['cable'],
+    instructions: [
+      'Sit or kneel facing the pulley',
+      'Row one handle toward the hip',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Single Arm Lat Pulldown',
+    localNames: ['one arm pulldown'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['cable'],
+    instructions: [
+      'Kneel under a high pulley',
+      'Pull the handle down to the shoulder',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Band Pull Apart',
+    localNames: ['pull aparts'],
+    category: 'isolation',
+    muscleGroups: ['shoulders', 'back'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Hold a band at shoulder height',
+      'Pull it apart until it touches the chest',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Row',
+    localNames: ['banded row'],
+    category: 'compound',
+    muscleGroups: ['back'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Anchor a band in front',
+      'Row the handles to the ribs',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Weighted Pull Up',
+    localNames: ['weighted pullup'],
+    category: 'compound',
+    muscleGroups: ['back', 'biceps'],
+    equipment: ['pull_up_bar', 'dip_belt'],
+    instructions: [
+      'Attach weight with a belt',
+      'Perform strict pull ups',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Muscle Up',
+    localNames: ['muscle-up'],
+    category: 'compound',
+    muscleGroups: ['back', 'chest', 'triceps'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Pull explosively above the bar',
+      'Transition and press to lockout',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Scapular Pull Up',
+    localNames: ['scap pull'],
+    category: 'isolation',
+    muscleGroups: ['back'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Hang from the bar',
+      'Pull the shoulder blades down without bending the arms',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Shrug',
+    localNames: ['cable shrugs'],
+    category: 'isolation',
+    muscleGroups: ['traps'],
+    equipment: ['cable'],
+    instructions: [
+      'Hold a bar at a low pulley',
+      'Shrug up and hold',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Trap Bar Shrug',
+    localNames: ['hex bar shrug'],
+    category: 'isolation',
+    muscleGroups: ['traps'],
+    equipment: ['trap_bar'],
+    instructions: [
+      'Stand in the trap bar',
+      'Shrug the handles up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Behind the Neck Press',
+    localNames: ['btn press'],
+    category: 'compound',
+    muscleGroups: ['shoulders'],
+    equipment: ['barbell'],
+    instructions: [
+      'Start with the bar behind the neck',
+      'Press overhead',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Z Press',
+    localNames: ['floor seated press'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'core'],
+    equipment: ['barbell'],
+    instructions: [
+      'Sit on the floor with legs straight',
+      'Press the bar overhead',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Kettlebell Press',
+    localNames: ['kb press'],
+    category: 'compound',
+    muscleGroups: ['shoulders', 'triceps'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Hold the kettlebell in the rack position',
+      'Press it overhead',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Shoulder Press',
+    localNames: ['band overhead press'],
+    category: 'compound',
+    muscleGroups: ['shoulders'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Stand on a band',
+      'Press the handles overhead',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Lu Raise',
+    localNames: ['lu raises'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold light dumbbells at the sides',
+      'Raise them all the way overhead with straight arms',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Leaning Lateral Raise',
+    localNames: ['lean away lateral'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold a post and lean away',
+      'Raise the dumbbell out to the side',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Machine Lateral Raise',
+    localNames: ['lateral raise machine'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the pads on the arms',
+      'Raise the arms to shoulder height',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cable Rear Delt Fly',
+    localNames: ['cable reverse fly'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['cable'],
+    instructions: [
+      'Cross the cables at chest height',
+      'Pull the arms apart',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Cable Front Raise',
+    localNames: [],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['cable'],
+    instructions: [
+      'Face away from a low pulley',
+      'Raise the handle to shoulder height',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Curl',
+    localNames: ['banded curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Stand on a band',
+      'Curl the handles up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Drag Curl',
+    localNames: ['bar drag curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['barbell'],
+    instructions: [
+      'Keep the bar close to the body',
+      'Drag it up by pulling the elbows back',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Cable Hammer Curl',
+    localNames: ['rope hammer curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps', 'forearms'],
+    equipment: ['cable'],
+    instructions: [
+      'Grip a rope at a low pulley',
+      'Curl with a neutral grip',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Machine Preacher Curl',
+    localNames: ['bicep machine'],
+    category: 'isolation',
+    muscleGroups: ['biceps'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit with the arms on the pad',
+      'Curl up and lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cross Body Hammer Curl',
+    localNames: ['cross body curl'],
+    category: 'isolation',
+    muscleGroups: ['biceps', 'forearms'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Curl the dumbbell across the body',
+      'Lower slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Chin Up Hold',
+    localNames: ['flexed arm hang'],
+    category: 'isolation',
+    muscleGroups: ['biceps', 'back'],
+    equipment: ['pull_up_bar'],
+    instructions: [
+      'Pull to the top of a chin up',
+      'Hold the position',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Pushdown',
+    localNames: ['band tricep pushdown'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Anchor a band high',
+      'Push the band down to full extension',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Tate Press',
+    localNames: ['tate'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Hold dumbbells over the chest with elbows out',
+      'Lower them to the chest and extend',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Machine Dip',
+    localNames: ['dip machine'],
+    category: 'compound',
+    muscleGroups: ['triceps', 'chest'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit in the dip machine',
+      'Press down to full extension',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Single Arm Cable Pushdown',
+    localNames: ['one arm pushdown'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['cable'],
+    instructions: [
+      'Hold a single handle at a high pulley',
+      'Push down to full extension',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Dumbbell Skull Crusher',
+    localNames: ['db skull crusher'],
+    category: 'isolation',
+    muscleGroups: ['triceps'],
+    equipment: ['dumbbell', 'bench'],
+    instructions: [
+      'Lie with dumbbells over the face',
+      'Lower beside the head and extend',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Box Squat',
+    localNames: ['squat to box'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['barbell', 'plyo_box'],
+    instructions: [
+      'Squat back to a box',
+      'Pause and drive up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Pause Squat',
+    localNames: ['paused squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['barbell', 'rack'],
+    instructions: [
+      'Squat to depth',
+      'Hold for two seconds and drive up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Safety Bar Squat',
+    localNames: ['ssb squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['safety_bar', 'rack'],
+    instructions: [
+      'Hold the safety bar handles',
+      'Squat down and stand up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Dumbbell Squat',
+    localNames: ['db squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells at your sides',
+      'Squat down and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Kettlebell Swing Squat',
+    localNames: ['kb squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Hold a kettlebell between the legs',
+      'Squat and stand',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Squat',
+    localNames: ['banded squat'],
+    category: 'compound',
+    muscleGroups: ['quads'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Stand on a band with handles at the shoulders',
+      'Squat down and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Pendulum Squat',
+    localNames: ['pendulum'],
+    category: 'compound',
+    muscleGroups: ['quads'],
+    equipment: ['machine'],
+    instructions: [
+      'Stand in the pendulum machine',
+      'Lower deep and press up',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Single Leg Press',
+    localNames: ['one leg press'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['machine'],
+    instructions: [
+      'Place one foot on the sled',
+      'Lower and press up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Smith Machine Lunge',
+    localNames: ['smith split squat'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['smith_machine'],
+    instructions: [
+      'Stand in a split stance under the bar',
+      'Lower the back knee and drive up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Lateral Lunge',
+    localNames: ['side lunge'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Step out to the side',
+      'Sit back into the hip and return',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Cossack Squat',
+    localNames: ['cossack'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Take a wide stance',
+      'Shift down onto one leg with the other straight',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Spanish Squat',
+    localNames: ['band knee squat'],
+    category: 'isolation',
+    muscleGroups: ['quads'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Loop a band behind the knees',
+      'Squat upright keeping tension',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Kettlebell Romanian Deadlift',
+    localNames: ['kb rdl'],
+    category: 'compound',
+    muscleGroups: ['hamstrings', 'glutes'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Hold a kettlebell in front',
+      'Hinge back and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Standing Leg Curl',
+    localNames: ['single leg curl'],
+    category: 'isolation',
+    muscleGroups: ['hamstrings'],
+    equipment: ['machine'],
+    instructions: [
+      'Stand with the pad behind one ankle',
+      'Curl the heel up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Leg Curl',
+    localNames: ['banded hamstring curl'],
+    category: 'isolation',
+    muscleGroups: ['hamstrings'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Lie face down with a band on the ankles',
+      'Curl the heels in',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Slider Leg Curl',
+    localNames: ['sliding leg curl'],
+    category: 'isolation',
+    muscleGroups: ['hamstrings'],
+    equipment: ['sliders'],
+    instructions: [
+      'Lie with heels on sliders and hips up',
+      'Slide the heels in and out',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Reverse Hyperextension',
+    localNames: ['reverse hyper'],
+    category: 'isolation',
+    muscleGroups: ['glutes', 'hamstrings'],
+    equipment: ['machine'],
+    instructions: [
+      'Lie face down with legs hanging',
+      'Lift the legs to hip height',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Smith Machine Hip Thrust',
+    localNames: ['smith hip thrust'],
+    category: 'compound',
+    muscleGroups: ['glutes'],
+    equipment: ['smith_machine', 'bench'],
+    instructions: [
+      'Set the bar on the hips under a smith machine',
+      'Drive the hips up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Hip Thrust Machine',
+    localNames: ['glute drive'],
+    category: 'compound',
+    muscleGroups: ['glutes'],
+    equipment: ['machine'],
+    instructions: [
+      'Sit in the machine with the pad on the hips',
+      'Drive up and squeeze',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Kettlebell Sumo Deadlift',
+    localNames: ['kb sumo deadlift'],
+    category: 'compound',
+    muscleGroups: ['glutes', 'quads'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Take a wide stance over a kettlebell',
+      'Stand up squeezing the glutes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Clamshell',
+    localNames: ['clams'],
+    category: 'isolation',
+    muscleGroups: ['glutes'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Lie on your side with knees bent',
+      'Open the top knee against the band',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Standing Dumbbell Calf Raise',
+    localNames: ['db calf raise'],
+    category: 'isolation',
+    muscleGroups: ['calves'],
+    equipment: ['dumbbell'],
+    instructions: [
+      'Hold dumbbells at your sides',
+      'Raise onto the toes',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Jumping Calf Raise',
+    localNames: ['pogo jumps', 'pogos'],
+    category: 'plyometric',
+    muscleGroups: ['calves'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Stay on the balls of the feet',
+      'Bounce quickly and lightly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Weighted Plank',
+    localNames: ['plank with plate'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['weight_plate'],
+    instructions: [
+      'Hold a plank with a plate on the back',
+      'Keep the hips level',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Plank Shoulder Tap',
+    localNames: ['shoulder taps'],
+    category: 'isolation',
+    muscleGroups: ['core', 'shoulders'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Hold a high plank',
+      'Tap each shoulder without rocking',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Copenhagen Plank',
+    localNames: ['copenhagen'],
+    category: 'isolation',
+    muscleGroups: ['core', 'glutes'],
+    equipment: ['bench'],
+    instructions: [
+      'Rest the top leg on a bench in a side plank',
+      'Lift the hips and hold',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Landmine Rotation',
+    localNames: ['landmine twist'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['barbell', 'landmine'],
+    instructions: [
+      'Hold the end of a landmine bar overhead',
+      'Rotate it side to side',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Woodchopper',
+    localNames: ['cable woodchop', 'wood chop'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['cable'],
+    instructions: [
+      'Stand side-on to a high pulley',
+      'Pull the handle down across the body',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Captain\'s Chair Leg Raise',
+    localNames: ['captains chair', 'knee raise'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['captains_chair'],
+    instructions: [
+      'Support yourself on the forearm pads',
+      'Raise the knees to the chest',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Reverse Crunch',
+    localNames: ['reverse crunches'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie on your back with knees bent',
+      'Curl the hips off the floor',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Heel Touch',
+    localNames: ['heel taps'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Lie with knees bent',
+      'Reach side to side to touch the heels',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Dragon Flag',
+    localNames: ['dragon flags'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['bench'],
+    instructions: [
+      'Grip the bench behind the head',
+      'Lower the straight body slowly',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'L Sit',
+    localNames: ['l-sit'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['dip_bars'],
+    instructions: [
+      'Support yourself on bars',
+      'Hold the legs straight out in front',
+    ],
+    difficulty: 'advanced',
+  },
+  {
+    name: 'Stir the Pot',
+    localNames: ['ball stir'],
+    category: 'isolation',
+    muscleGroups: ['core'],
+    equipment: ['stability_ball'],
+    instructions: [
+      'Plank with forearms on a ball',
+      'Circle the forearms',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Gripper',
+    localNames: ['hand grip', 'hand gripper'],
+    category: 'isolation',
+    muscleGroups: ['forearms'],
+    equipment: ['hand_gripper'],
+    instructions: [
+      'Squeeze the gripper fully closed',
+      'Release slowly',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Towel Hang',
+    localNames: ['towel pull up hang'],
+    category: 'isolation',
+    muscleGroups: ['forearms', 'back'],
+    equipment: ['pull_up_bar', 'towel'],
+    instructions: [
+      'Drape towels over the bar',
+      'Hang gripping the towels',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Kettlebell Halo',
+    localNames: ['halo'],
+    category: 'mobility',
+    muscleGroups: ['shoulders', 'core'],
+    equipment: ['kettlebell'],
+    instructions: [
+      'Hold a kettlebell upside down at the chest',
+      'Circle it around the head',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Sandbag Clean',
+    localNames: ['sandbag lift'],
+    category: 'compound',
+    muscleGroups: ['back', 'glutes', 'quads'],
+    equipment: ['sandbag'],
+    instructions: [
+      'Hinge to grip the sandbag',
+      'Explode up and catch it at the chest',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Sandbag Carry',
+    localNames: ['bear hug carry'],
+    category: 'compound',
+    muscleGroups: ['core', 'back'],
+    equipment: ['sandbag'],
+    instructions: [
+      'Hug a sandbag to the chest',
+      'Walk with an upright posture',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Bucket Carry',
+    localNames: ['water bucket carry', 'carry water'],
+    category: 'compound',
+    muscleGroups: ['forearms', 'core', 'traps'],
+    equipment: ['bucket'],
+    instructions: [
+      'Fill buckets or jerrycans with water',
+      'Walk with one in each hand',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Jerrycan Deadlift',
+    localNames: ['keg deadlift', 'gallon deadlift'],
+    category: 'compound',
+    muscleGroups: ['back', 'glutes', 'hamstrings'],
+    equipment: ['jerrycan'],
+    instructions: [
+      'Place filled jerrycans beside the feet',
+      'Hinge down and stand up',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Pounding Yam Squat',
+    localNames: ['pounding yam', 'pounding'],
+    category: 'compound',
+    muscleGroups: ['quads', 'glutes', 'shoulders'],
+    equipment: ['pestle'],
+    instructions: [
+      'Stand over the mortar holding the pestle',
+      'Sink into a squat on each stroke',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Star Jump Burpee',
+    localNames: ['burpee star jump'],
+    category: 'cardio',
+    muscleGroups: ['quads', 'chest'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Perform a burpee',
+      'Finish with a star jump',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Sprint Intervals',
+    localNames: ['hiit sprints', 'interval run'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'quads', 'hamstrings'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Sprint hard for the work interval',
+      'Walk or jog to recover',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Skipping Intervals',
+    localNames: ['rope intervals'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'calves'],
+    equipment: ['jump_rope'],
+    instructions: [
+      'Skip fast for the work interval',
+      'Rest and repeat',
+    ],
+    difficulty: 'intermediate',
+  },
+  {
+    name: 'Circuit Training',
+    localNames: ['circuit', 'tabata', 'hiit'],
+    category: 'cardio',
+    muscleGroups: ['cardio'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Move through each station',
+      'Rest only at the end of the round',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Kneel Down Hands Up',
+    localNames: ['kneel down and raise your hands', 'school punishment hold'],
+    category: 'isolation',
+    muscleGroups: ['shoulders'],
+    equipment: ['bodyweight'],
+    instructions: [
+      'Kneel on the floor',
+      'Hold the arms straight up overhead',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Ruck Walk',
+    localNames: ['rucking', 'loaded walk'],
+    category: 'cardio',
+    muscleGroups: ['cardio', 'back', 'quads'],
+    equipment: ['backpack'],
+    instructions: [
+      'Wear a loaded backpack',
+      'Walk at a brisk pace',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Band Face Pull',
+    localNames: ['banded face pull'],
+    category: 'isolation',
+    muscleGroups: ['shoulders', 'back'],
+    equipment: ['resistance_band'],
+    instructions: [
+      'Anchor a band at face height',
+      'Pull toward the face with elbows high',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Neck Curl',
+    localNames: ['neck flexion'],
+    category: 'isolation',
+    muscleGroups: ['neck'],
+    equipment: ['weight_plate', 'bench'],
+    instructions: [
+      'Lie on a bench holding a plate on the forehead',
+      'Curl the chin toward the chest',
+    ],
+    difficulty: 'beginner',
+  },
+  {
+    name: 'Neck Extension',
+    localNames: ['neck raise'],
+    category: 'isolation',
+    muscleGroups: ['neck'],
+    equipment: ['weight_plate', 'bench'],
+    instructions: [
+      'Lie face down holding a plate behind the head',
+      'Raise the head up',
+    ],
+    difficulty: 'beginner',
+  },
+];
+
+/**
+ * Upsert the exercise library by name so re-running the seed picks up
+ * library changes without duplicating exercises
+ */
+export async function seedExercises(collection: Collection<Exercise>): Promise<number> {
+  const result = await collection.bulkWrite(
+    EXERCISE_LIBRARY.map(exercise => ({
+      updateOne: {
+        filter: { name: exercise.name },
+        update: { $set: exercise },
+        upsert: true,
+      },
+    }))
+  );
+
+  return result.upsertedCount;
+}
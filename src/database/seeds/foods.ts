@@ -0,0 +1,1138 @@
+import { Collection } from 'mongodb';
+import { FoodItem } from '../../types';
+
+/**
+ * Bump when foods are added or their values change, so the next start-up
+ * re-seeds. Items from older versions are updated in place, keeping their
+ * IDs for existing food logs and meal plans.
+ */
+export const FOOD_SEED_VERSION = 2;
+
+export const FOOD_CATEGORIES = [
+  'swallow',
+  'soup',
+  'rice_dish',
+  'staple',
+  'protein',
+  'street_food',
+  'snack',
+  'fruit',
+  'drink',
+  'ingredient',
+];
+
+/**
+ * Common Nigerian foods as eaten, so swallows and soups are prepared and
+ * soups include their usual meat and oil. Macros are per 100g. Local names
+ * cover Yoruba, Igbo, Hausa and Pidgin names and common spellings so
+ * free-text food logs can be resolved. Dietary tags mark what a dish
+ * usually contains that some users avoid. Prices are typical Lagos market or
+ * buka prices per kg in Naira and drift with inflation.
+ */
+export const NIGERIAN_FOODS: FoodItem[] = [
+  // Swallows
+  {
+    name: 'Eba',
+    localNames: ['garri swallow', 'yellow eba', 'white eba'],
+    category: 'swallow',
+    caloriesPerGram: 1.62,
+    macros: { protein: 0.6, carbs: 39, fats: 0.3 },
+    typicalServing: { grams: 300, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 900,
+  },
+  {
+    name: 'Pounded Yam',
+    localNames: ['iyan', 'utara ji', 'sakwara', 'poundo', 'poundo yam'],
+    category: 'swallow',
+    caloriesPerGram: 1.18,
+    macros: { protein: 1.5, carbs: 28, fats: 0.2 },
+    typicalServing: { grams: 300, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 1700,
+  },
+  {
+    name: 'Amala',
+    localNames: ['amala isu', 'amala dudu', 'elubo', 'yam flour swallow'],
+    category: 'swallow',
+    caloriesPerGram: 1.18,
+    macros: { protein: 1.2, carbs: 28, fats: 0.2 },
+    typicalServing: { grams: 300, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 1200,
+  },
+  {
+    name: 'Plantain Amala',
+    localNames: ['amala ogede', 'plantain flour swallow', 'plantain fufu'],
+    category: 'swallow',
+    caloriesPerGram: 1.22,
+    macros: { protein: 1.2, carbs: 29, fats: 0.3 },
+    typicalServing: { grams: 300, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 1600,
+  },
+  {
+    name: 'Fufu',
+    localNames: ['akpu', 'loi loi', 'foofoo', 'cassava fufu'],
+    category: 'swallow',
+    caloriesPerGram: 1.45,
+    macros: { protein: 0.5, carbs: 36, fats: 0.2 },
+    typicalServing: { grams: 300, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 800,
+  },
+  {
+    name: 'Semovita',
+    localNames: ['semo', 'semolina swallow'],
+    category: 'swallow',
+    caloriesPerGram: 1.25,
+    macros: { protein: 4, carbs: 25, fats: 0.4 },
+    typicalServing: { grams: 300, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 1000,
+  },
+  {
+    name: 'Wheat Swallow',
+    localNames: ['wheat meal', 'alkama', 'wheat'],
+    category: 'swallow',
+    caloriesPerGram: 1.2,
+    macros: { protein: 4, carbs: 24, fats: 0.8 },
+    typicalServing: { grams: 300, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 1200,
+  },
+  {
+    name: 'Tuwo Shinkafa',
+    localNames: ['tuwo', 'tuwon shinkafa', 'rice swallow'],
+    category: 'swallow',
+    caloriesPerGram: 1.3,
+    macros: { protein: 2.4, carbs: 29, fats: 0.2 },
+    typicalServing: { grams: 300, description: '2 balls' },
+    availability: 'common',
+    averagePrice: 900,
+  },
+  {
+    name: 'Tuwo Masara',
+    localNames: ['tuwon masara', 'corn swallow', 'tuwo masa'],
+    category: 'swallow',
+    caloriesPerGram: 1.1,
+    macros: { protein: 2.5, carbs: 23, fats: 0.8 },
+    typicalServing: { grams: 300, description: '2 balls' },
+    availability: 'common',
+    averagePrice: 600,
+  },
+  {
+    name: 'Starch',
+    localNames: ['usi', 'urhobo starch', 'cassava starch swallow'],
+    category: 'swallow',
+    caloriesPerGram: 1.45,
+    macros: { protein: 0.1, carbs: 36, fats: 0.1 },
+    typicalServing: { grams: 250, description: '1 medium wrap' },
+    availability: 'common',
+    averagePrice: 900,
+  },
+
+  // Soups and stews
+  {
+    name: 'Egusi Soup',
+    localNames: ['egusi', 'ofe egusi', 'efo elegusi', 'miyan gushi', 'melon soup'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 2.3,
+    macros: { protein: 10, carbs: 5, fats: 19 },
+    typicalServing: { grams: 250, description: '1 bowl with meat' },
+    availability: 'common',
+    averagePrice: 6000,
+  },
+  {
+    name: 'Ogbono Soup',
+    localNames: ['ogbono', 'ofe ogbono', 'apon', 'draw soup'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.9,
+    macros: { protein: 8, carbs: 5, fats: 15 },
+    typicalServing: { grams: 250, description: '1 bowl with meat' },
+    availability: 'common',
+    averagePrice: 5500,
+  },
+  {
+    name: 'Efo Riro',
+    localNames: ['efo', 'obe efo', 'spinach stew'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.4,
+    macros: { protein: 7, carbs: 5, fats: 10 },
+    typicalServing: { grams: 250, description: '1 bowl with meat' },
+    availability: 'common',
+    averagePrice: 5000,
+  },
+  {
+    name: 'Edikang Ikong',
+    localNames: ['edikaikong', 'edikang ikong soup', 'vegetable soup', 'veggie soup'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.5,
+    macros: { protein: 9, carbs: 4, fats: 11 },
+    typicalServing: { grams: 250, description: '1 bowl with meat' },
+    availability: 'common',
+    averagePrice: 7000,
+  },
+  {
+    name: 'Afang Soup',
+    localNames: ['afang', 'ofe okazi', 'okazi soup', 'okazi'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.5,
+    macros: { protein: 9, carbs: 4, fats: 11 },
+    typicalServing: { grams: 250, description: '1 bowl with meat' },
+    availability: 'common',
+    averagePrice: 6500,
+  },
+  {
+    name: 'Okra Soup',
+    localNames: ['okra', 'okro', 'okro soup', 'obe ila', 'ila', 'ofe okwuru', 'miyan kubewa'],
+    category: 'soup',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 0.9,
+    macros: { protein: 6, carbs: 5, fats: 5 },
+    typicalServing: { grams: 250, description: '1 bowl with fish' },
+    availability: 'common',
+    averagePrice: 4000,
+  },
+  {
+    name: 'Ewedu',
+    localNames: ['ewedu soup', 'jute leaf soup', 'miyan lalo'],
+    category: 'soup',
+    caloriesPerGram: 0.35,
+    macros: { protein: 3, carbs: 4, fats: 1 },
+    typicalServing: { grams: 150, description: '1 small bowl' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+  {
+    name: 'Gbegiri',
+    localNames: ['gbegiri soup', 'bean soup'],
+    category: 'soup',
+    caloriesPerGram: 1.1,
+    macros: { protein: 6, carbs: 12, fats: 4 },
+    typicalServing: { grams: 150, description: '1 small bowl' },
+    availability: 'common',
+    averagePrice: 2000,
+  },
+  {
+    name: 'Banga Soup',
+    localNames: ['banga', 'ofe akwu', 'palm nut soup', 'obe eyin'],
+    category: 'soup',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 2.1,
+    macros: { protein: 7, carbs: 5, fats: 18 },
+    typicalServing: { grams: 250, description: '1 bowl with fish' },
+    availability: 'common',
+    averagePrice: 6000,
+  },
+  {
+    name: 'Oha Soup',
+    localNames: ['oha', 'ofe oha', 'ora soup'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.6,
+    macros: { protein: 8, carbs: 6, fats: 12 },
+    typicalServing: { grams: 250, description: '1 bowl with meat' },
+    availability: 'seasonal',
+    averagePrice: 6000,
+  },
+  {
+    name: 'Bitterleaf Soup',
+    localNames: ['ofe onugbu', 'onugbu', 'bitter leaf soup', 'obe ewuro'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.6,
+    macros: { protein: 8, carbs: 6, fats: 12 },
+    typicalServing: { grams: 250, description: '1 bowl with meat' },
+    availability: 'common',
+    averagePrice: 5500,
+  },
+  {
+    name: 'Miyan Kuka',
+    localNames: ['kuka soup', 'baobab leaf soup', 'kuka'],
+    category: 'soup',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.2,
+    macros: { protein: 6, carbs: 8, fats: 7 },
+    typicalServing: { grams: 250, description: '1 bowl' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Miyan Taushe',
+    localNames: ['taushe', 'pumpkin soup'],
+    category: 'soup',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 1.4,
+    macros: { protein: 6, carbs: 8, fats: 9 },
+    typicalServing: { grams: 250, description: '1 bowl' },
+    availability: 'common',
+    averagePrice: 3000,
+  },
+  {
+    name: 'Goat Meat Pepper Soup',
+    localNames: ['pepper soup', 'goat pepper soup', 'ngwo ngwo', 'miyan nama'],
+    category: 'soup',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 0.9,
+    macros: { protein: 12, carbs: 2, fats: 4 },
+    typicalServing: { grams: 350, description: '1 bowl' },
+    availability: 'common',
+    averagePrice: 9000,
+  },
+  {
+    name: 'Catfish Pepper Soup',
+    localNames: ['point and kill', 'fish pepper soup', 'catfish soup'],
+    category: 'soup',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 0.8,
+    macros: { protein: 12, carbs: 1, fats: 3 },
+    typicalServing: { grams: 350, description: '1 bowl' },
+    availability: 'common',
+    averagePrice: 8000,
+  },
+  {
+    name: 'Tomato Stew',
+    localNames: ['stew', 'red stew', 'obe ata', 'buka stew'],
+    category: 'soup',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 1.6,
+    macros: { protein: 2, carbs: 8, fats: 13 },
+    typicalServing: { grams: 100, description: '1 ladle' },
+    availability: 'common',
+    averagePrice: 3500,
+  },
+  {
+    name: 'Ayamase',
+    localNames: ['ofada stew', 'designer stew', 'green stew'],
+    category: 'soup',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 2.5,
+    macros: { protein: 8, carbs: 5, fats: 22 },
+    typicalServing: { grams: 150, description: '1 ladle with assorted meat' },
+    availability: 'common',
+    averagePrice: 6000,
+  },
+
+  // Rice dishes
+  {
+    name: 'Jollof Rice',
+    localNames: ['jollof', 'party jollof', 'jellof', 'jollof rice and chicken'],
+    category: 'rice_dish',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 1.75,
+    macros: { protein: 3, carbs: 30, fats: 5 },
+    typicalServing: { grams: 350, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 2800,
+  },
+  {
+    name: 'Nigerian Fried Rice',
+    localNames: ['fried rice', 'party fried rice'],
+    category: 'rice_dish',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.8,
+    macros: { protein: 4, carbs: 28, fats: 6 },
+    typicalServing: { grams: 350, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 3200,
+  },
+  {
+    name: 'White Rice',
+    localNames: ['plain rice', 'boiled rice', 'rice', 'iresi', 'osikapa', 'shinkafa'],
+    category: 'rice_dish',
+    caloriesPerGram: 1.3,
+    macros: { protein: 2.7, carbs: 28, fats: 0.3 },
+    typicalServing: { grams: 300, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 1800,
+  },
+  {
+    name: 'Ofada Rice',
+    localNames: ['ofada', 'local rice', 'abakaliki rice'],
+    category: 'rice_dish',
+    caloriesPerGram: 1.25,
+    macros: { protein: 2.8, carbs: 26, fats: 0.8 },
+    typicalServing: { grams: 300, description: '1 wrap' },
+    availability: 'common',
+    averagePrice: 2200,
+  },
+  {
+    name: 'Coconut Rice',
+    localNames: ['coconut jollof'],
+    category: 'rice_dish',
+    dietaryTags: ['meat', 'fish'],
+    caloriesPerGram: 1.9,
+    macros: { protein: 3, carbs: 28, fats: 7.5 },
+    typicalServing: { grams: 350, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 3000,
+  },
+  {
+    name: 'Rice and Beans',
+    localNames: ['ewa and rice', 'garau garau', 'rice n beans'],
+    category: 'rice_dish',
+    caloriesPerGram: 1.4,
+    macros: { protein: 5, carbs: 26, fats: 1.5 },
+    typicalServing: { grams: 350, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 2000,
+  },
+
+  // Staples and sides
+  {
+    name: 'Boiled Yam',
+    localNames: ['yam', 'isu', 'ji', 'doya', 'yam and egg'],
+    category: 'staple',
+    caloriesPerGram: 1.16,
+    macros: { protein: 1.5, carbs: 27.5, fats: 0.2 },
+    typicalServing: { grams: 250, description: '3 slices' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+  {
+    name: 'Yam Porridge',
+    localNames: ['asaro', 'yam pottage', 'pottage'],
+    category: 'staple',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 1.4,
+    macros: { protein: 2, carbs: 24, fats: 4 },
+    typicalServing: { grams: 350, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 2000,
+  },
+  {
+    name: 'Beans Porridge',
+    localNames: ['beans', 'ewa', 'agwa', 'wake', 'porridge beans'],
+    category: 'staple',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 1.5,
+    macros: { protein: 7, carbs: 20, fats: 5 },
+    typicalServing: { grams: 300, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 1800,
+  },
+  {
+    name: 'Moi Moi',
+    localNames: ['moin moin', 'moimoi', 'olele', 'alale', 'bean pudding'],
+    category: 'staple',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 1.6,
+    macros: { protein: 8, carbs: 13, fats: 8 },
+    typicalServing: { grams: 150, description: '1 wrap' },
+    availability: 'common',
+    averagePrice: 3500,
+  },
+  {
+    name: 'Boiled Plantain',
+    localNames: ['ogede sise', 'unripe plantain', 'boiled unripe plantain', 'agade'],
+    category: 'staple',
+    caloriesPerGram: 1.16,
+    macros: { protein: 0.8, carbs: 31, fats: 0.2 },
+    typicalServing: { grams: 200, description: '1 plantain' },
+    availability: 'common',
+    averagePrice: 1200,
+  },
+  {
+    name: 'Dodo',
+    localNames: ['fried plantain', 'dodo plantain', 'ogede dindin'],
+    category: 'staple',
+    caloriesPerGram: 2.5,
+    macros: { protein: 1, carbs: 40, fats: 10 },
+    typicalServing: { grams: 120, description: '1 plantain, sliced' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Agege Bread',
+    localNames: ['bread', 'agege', 'burodi', 'sliced bread'],
+    category: 'staple',
+    caloriesPerGram: 2.8,
+    macros: { protein: 8, carbs: 52, fats: 4 },
+    typicalServing: { grams: 100, description: '3 slices' },
+    availability: 'common',
+    averagePrice: 2000,
+  },
+  {
+    name: 'Instant Noodles',
+    localNames: ['indomie', 'noodles', 'indomie and egg'],
+    category: 'staple',
+    caloriesPerGram: 1.9,
+    macros: { protein: 4, carbs: 26, fats: 8 },
+    typicalServing: { grams: 240, description: '1 pack, cooked' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Jollof Spaghetti',
+    localNames: ['spaghetti', 'party spaghetti', 'spag'],
+    category: 'staple',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 1.7,
+    macros: { protein: 5, carbs: 28, fats: 4.5 },
+    typicalServing: { grams: 300, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Garri',
+    localNames: ['gari', 'soaked garri', 'ijebu garri', 'drinking garri'],
+    category: 'staple',
+    caloriesPerGram: 3.6,
+    macros: { protein: 1.2, carbs: 88, fats: 0.5 },
+    typicalServing: { grams: 80, description: '1 cup, dry' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+  {
+    name: 'Pap',
+    localNames: ['ogi', 'akamu', 'koko', 'akara and pap'],
+    category: 'staple',
+    caloriesPerGram: 0.45,
+    macros: { protein: 0.8, carbs: 10, fats: 0.3 },
+    typicalServing: { grams: 350, description: '1 bowl' },
+    availability: 'common',
+    averagePrice: 600,
+  },
+  {
+    name: 'Sweet Potato',
+    localNames: ['boiled sweet potato', 'dankali', 'odunkun'],
+    category: 'staple',
+    caloriesPerGram: 0.86,
+    macros: { protein: 1.6, carbs: 20, fats: 0.1 },
+    typicalServing: { grams: 200, description: '1 medium potato' },
+    availability: 'common',
+    averagePrice: 1000,
+  },
+  {
+    name: 'Boiled Corn',
+    localNames: ['corn', 'agbado', 'oka', 'masara', 'boiled maize'],
+    category: 'staple',
+    caloriesPerGram: 0.96,
+    macros: { protein: 3.4, carbs: 21, fats: 1.5 },
+    typicalServing: { grams: 150, description: '1 cob' },
+    availability: 'seasonal',
+    averagePrice: 1000,
+  },
+
+  // Meat, fish and eggs
+  {
+    name: 'Chicken',
+    localNames: ['fried chicken', 'stewed chicken', 'adie', 'okuko', 'kaza', 'naman kaza'],
+    category: 'protein',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 2.4,
+    macros: { protein: 25, carbs: 0, fats: 15 },
+    typicalServing: { grams: 150, description: '1 thigh and drumstick' },
+    availability: 'common',
+    averagePrice: 7000,
+  },
+  {
+    name: 'Beef',
+    localNames: ['meat', 'eran', 'eran malu', 'anu', 'anu ehi', 'nama', 'naman sa'],
+    category: 'protein',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 2.5,
+    macros: { protein: 26, carbs: 0, fats: 16 },
+    typicalServing: { grams: 60, description: '2 pieces' },
+    availability: 'common',
+    averagePrice: 8000,
+  },
+  {
+    name: 'Goat Meat',
+    localNames: ['eran ewure', 'anu ewu', 'naman akuya', 'goat'],
+    category: 'protein',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 1.43,
+    macros: { protein: 27, carbs: 0, fats: 3 },
+    typicalServing: { grams: 60, description: '2 pieces' },
+    availability: 'common',
+    averagePrice: 10000,
+  },
+  {
+    name: 'Shaki',
+    localNames: ['tripe', 'towel', 'saki'],
+    category: 'protein',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 0.94,
+    macros: { protein: 12, carbs: 0, fats: 4 },
+    typicalServing: { grams: 50, description: '2 pieces' },
+    availability: 'common',
+    averagePrice: 6000,
+  },
+  {
+    name: 'Ponmo',
+    localNames: ['kpomo', 'cow skin', 'pomo'],
+    category: 'protein',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 0.8,
+    macros: { protein: 18, carbs: 0, fats: 1 },
+    typicalServing: { grams: 50, description: '2 pieces' },
+    availability: 'common',
+    averagePrice: 4000,
+  },
+  {
+    name: 'Fried Mackerel',
+    localNames: ['titus', 'mackerel', 'titus fish', 'fried fish'],
+    category: 'protein',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 2.3,
+    macros: { protein: 21, carbs: 0, fats: 16 },
+    typicalServing: { grams: 120, description: '1 medium piece' },
+    availability: 'common',
+    averagePrice: 6000,
+  },
+  {
+    name: 'Catfish',
+    localNames: ['eja aro', 'aro', 'grilled catfish', 'asa'],
+    category: 'protein',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 1.05,
+    macros: { protein: 18, carbs: 0, fats: 3 },
+    typicalServing: { grams: 150, description: '1 medium piece' },
+    availability: 'common',
+    averagePrice: 5500,
+  },
+  {
+    name: 'Stockfish',
+    localNames: ['okporoko', 'panla', 'okpoloko'],
+    category: 'protein',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 2.9,
+    macros: { protein: 62, carbs: 0, fats: 2.5 },
+    typicalServing: { grams: 30, description: '1 piece, dried' },
+    availability: 'common',
+    averagePrice: 25000,
+  },
+  {
+    name: 'Crayfish',
+    localNames: ['ede', 'oporo', 'jatan lande', 'dried crayfish'],
+    category: 'ingredient',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 3,
+    macros: { protein: 60, carbs: 2, fats: 5 },
+    typicalServing: { grams: 10, description: '1 tablespoon, ground' },
+    availability: 'common',
+    averagePrice: 15000,
+  },
+  {
+    name: 'Boiled Egg',
+    localNames: ['egg', 'eggs', 'eyin', 'akwa', 'kwai', 'fried egg'],
+    category: 'protein',
+    caloriesPerGram: 1.55,
+    macros: { protein: 13, carbs: 1.1, fats: 11 },
+    typicalServing: { grams: 50, description: '1 egg' },
+    availability: 'common',
+    averagePrice: 5000,
+  },
+  {
+    name: 'Kilishi',
+    localNames: ['dried suya', 'beef jerky'],
+    category: 'protein',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 4,
+    macros: { protein: 55, carbs: 12, fats: 14 },
+    typicalServing: { grams: 50, description: '1 small pack' },
+    availability: 'common',
+    averagePrice: 20000,
+  },
+  {
+    name: 'Wara',
+    localNames: ['wagashi', 'local cheese', 'cuku', 'fried wara'],
+    category: 'protein',
+    caloriesPerGram: 1.5,
+    macros: { protein: 10, carbs: 3, fats: 11 },
+    typicalServing: { grams: 100, description: '2 pieces' },
+    availability: 'common',
+    averagePrice: 4000,
+  },
+  {
+    name: 'Awara',
+    localNames: ['soya cheese', 'tofu', 'soy cheese'],
+    category: 'protein',
+    caloriesPerGram: 1.4,
+    macros: { protein: 14, carbs: 3, fats: 8 },
+    typicalServing: { grams: 100, description: '4 pieces' },
+    availability: 'common',
+    averagePrice: 3000,
+  },
+
+  // Street food
+  {
+    name: 'Suya',
+    localNames: ['tsire', 'beef suya', 'chicken suya'],
+    category: 'street_food',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 2.6,
+    macros: { protein: 28, carbs: 6, fats: 14 },
+    typicalServing: { grams: 100, description: '1 stick' },
+    availability: 'common',
+    averagePrice: 10000,
+  },
+  {
+    name: 'Akara',
+    localNames: ['kosai', 'bean cake', 'bean fritters', 'akara balls'],
+    category: 'street_food',
+    caloriesPerGram: 2.9,
+    macros: { protein: 12, carbs: 22, fats: 18 },
+    typicalServing: { grams: 100, description: '4 balls' },
+    availability: 'common',
+    averagePrice: 3000,
+  },
+  {
+    name: 'Puff Puff',
+    localNames: ['puff-puff', 'buff buff', 'bofrot', 'kpof kpof'],
+    category: 'street_food',
+    caloriesPerGram: 3.4,
+    macros: { protein: 5, carbs: 45, fats: 15 },
+    typicalServing: { grams: 100, description: '4 balls' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Ewa Agoyin',
+    localNames: ['agoyin', 'agoyin beans', 'ewa aganyin', 'beans and bread'],
+    category: 'street_food',
+    caloriesPerGram: 2,
+    macros: { protein: 7, carbs: 19, fats: 11 },
+    typicalServing: { grams: 300, description: '1 plate with sauce' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Boli',
+    localNames: ['bole', 'roasted plantain', 'boli and fish'],
+    category: 'street_food',
+    caloriesPerGram: 1.35,
+    macros: { protein: 1.3, carbs: 35, fats: 0.4 },
+    typicalServing: { grams: 200, description: '1 plantain' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+  {
+    name: 'Roasted Corn',
+    localNames: ['agbado sisun', 'corn and ube', 'roast corn'],
+    category: 'street_food',
+    caloriesPerGram: 1.2,
+    macros: { protein: 3.5, carbs: 25, fats: 1.5 },
+    typicalServing: { grams: 150, description: '1 cob' },
+    availability: 'seasonal',
+    averagePrice: 1200,
+  },
+  {
+    name: 'Masa',
+    localNames: ['waina', 'rice cake', 'masa and miyan taushe'],
+    category: 'street_food',
+    caloriesPerGram: 2,
+    macros: { protein: 4, carbs: 35, fats: 5 },
+    typicalServing: { grams: 150, description: '3 pieces' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Okpa',
+    localNames: ['okpa di oku', 'bambara nut pudding', 'bambara pudding'],
+    category: 'street_food',
+    caloriesPerGram: 2.2,
+    macros: { protein: 10, carbs: 22, fats: 10 },
+    typicalServing: { grams: 200, description: '1 wrap' },
+    availability: 'common',
+    averagePrice: 3000,
+  },
+  {
+    name: 'Abacha',
+    localNames: ['african salad', 'abacha ncha', 'abacha and ugba'],
+    category: 'street_food',
+    dietaryTags: ['fish'],
+    caloriesPerGram: 1.8,
+    macros: { protein: 4, carbs: 25, fats: 8 },
+    typicalServing: { grams: 250, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 3500,
+  },
+  {
+    name: 'Asun',
+    localNames: ['peppered goat meat', 'spicy goat meat', 'asun goat'],
+    category: 'street_food',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 2.3,
+    macros: { protein: 25, carbs: 3, fats: 13 },
+    typicalServing: { grams: 150, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 12000,
+  },
+  {
+    name: 'Nkwobi',
+    localNames: ['cow foot', 'spicy cow foot', 'isi ewu'],
+    category: 'street_food',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 2,
+    macros: { protein: 17, carbs: 3, fats: 14 },
+    typicalServing: { grams: 200, description: '1 bowl' },
+    availability: 'common',
+    averagePrice: 12000,
+  },
+  {
+    name: 'Peppered Pork',
+    localNames: ['pork', 'eran elede', 'anu ezi', 'naman alade', 'pork suya'],
+    category: 'street_food',
+    dietaryTags: ['meat', 'pork'],
+    caloriesPerGram: 2.9,
+    macros: { protein: 24, carbs: 3, fats: 20 },
+    typicalServing: { grams: 150, description: '1 plate' },
+    availability: 'common',
+    averagePrice: 9000,
+  },
+  {
+    name: 'Dundun',
+    localNames: ['fried yam', 'yam chips', 'dundu'],
+    category: 'street_food',
+    caloriesPerGram: 2.6,
+    macros: { protein: 2, carbs: 36, fats: 12 },
+    typicalServing: { grams: 200, description: '6 pieces' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Shawarma',
+    localNames: ['chicken shawarma', 'beef shawarma', 'shawama'],
+    category: 'street_food',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 2.2,
+    macros: { protein: 10, carbs: 22, fats: 10 },
+    typicalServing: { grams: 350, description: '1 wrap' },
+    availability: 'common',
+    averagePrice: 10000,
+  },
+  {
+    name: 'Meat Pie',
+    localNames: ['meatpie', 'nigerian meat pie', 'fish pie'],
+    category: 'street_food',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 3,
+    macros: { protein: 8, carbs: 33, fats: 15 },
+    typicalServing: { grams: 120, description: '1 pie' },
+    availability: 'common',
+    averagePrice: 6000,
+  },
+  {
+    name: 'Sausage Roll',
+    localNames: ['gala', 'beef roll'],
+    category: 'street_food',
+    dietaryTags: ['meat'],
+    caloriesPerGram: 3,
+    macros: { protein: 8, carbs: 34, fats: 15 },
+    typicalServing: { grams: 65, description: '1 roll' },
+    availability: 'common',
+    averagePrice: 5000,
+  },
+
+  // Snacks
+  {
+    name: 'Chin Chin',
+    localNames: ['chinchin', 'chin-chin'],
+    category: 'snack',
+    caloriesPerGram: 4.8,
+    macros: { protein: 8, carbs: 60, fats: 23 },
+    typicalServing: { grams: 50, description: '1 small pack' },
+    availability: 'common',
+    averagePrice: 5000,
+  },
+  {
+    name: 'Plantain Chips',
+    localNames: ['ipekere', 'plantain crisps'],
+    category: 'snack',
+    caloriesPerGram: 5.2,
+    macros: { protein: 2.3, carbs: 62, fats: 30 },
+    typicalServing: { grams: 50, description: '1 small pack' },
+    availability: 'common',
+    averagePrice: 6000,
+  },
+  {
+    name: 'Roasted Groundnuts',
+    localNames: ['groundnut', 'groundnuts', 'peanuts', 'epa', 'ahuekere', 'gyada'],
+    category: 'snack',
+    caloriesPerGram: 5.8,
+    macros: { protein: 26, carbs: 16, fats: 49 },
+    typicalServing: { grams: 40, description: '1 small cup' },
+    availability: 'common',
+    averagePrice: 3000,
+  },
+  {
+    name: 'Kuli Kuli',
+    localNames: ['kulikuli', 'groundnut cake', 'kuli-kuli'],
+    category: 'snack',
+    caloriesPerGram: 5.6,
+    macros: { protein: 30, carbs: 20, fats: 40 },
+    typicalServing: { grams: 40, description: '4 sticks' },
+    availability: 'common',
+    averagePrice: 4000,
+  },
+  {
+    name: 'Tiger Nuts',
+    localNames: ['tigernut', 'aya', 'ofio', 'akiausa', 'imumu'],
+    category: 'snack',
+    caloriesPerGram: 4.1,
+    macros: { protein: 4.6, carbs: 45, fats: 24 },
+    typicalServing: { grams: 50, description: '1 small cup' },
+    availability: 'common',
+    averagePrice: 3500,
+  },
+  {
+    name: 'Coconut',
+    localNames: ['agbon', 'aki oyibo', 'kwakwa', 'coconut chunks'],
+    category: 'snack',
+    caloriesPerGram: 3.54,
+    macros: { protein: 3.3, carbs: 15, fats: 33 },
+    typicalServing: { grams: 50, description: '2 chunks' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+  {
+    name: 'Guguru',
+    localNames: ['popcorn', 'guguru and epa', 'roasted corn kernels'],
+    category: 'snack',
+    caloriesPerGram: 3.8,
+    macros: { protein: 10, carbs: 75, fats: 4 },
+    typicalServing: { grams: 50, description: '1 small cup' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+
+  // Fruit
+  {
+    name: 'Banana',
+    localNames: ['ogede wewe', 'ayaba', 'unere'],
+    category: 'fruit',
+    caloriesPerGram: 0.89,
+    macros: { protein: 1.1, carbs: 23, fats: 0.3 },
+    typicalServing: { grams: 120, description: '1 medium banana' },
+    availability: 'common',
+    averagePrice: 1200,
+  },
+  {
+    name: 'Orange',
+    localNames: ['osan', 'oroma', 'lemu', 'oranges'],
+    category: 'fruit',
+    caloriesPerGram: 0.47,
+    macros: { protein: 0.9, carbs: 12, fats: 0.1 },
+    typicalServing: { grams: 150, description: '1 orange' },
+    availability: 'common',
+    averagePrice: 1000,
+  },
+  {
+    name: 'Pineapple',
+    localNames: ['ope oyinbo', 'abarba', 'nkwu oyibo'],
+    category: 'fruit',
+    caloriesPerGram: 0.5,
+    macros: { protein: 0.5, carbs: 13, fats: 0.1 },
+    typicalServing: { grams: 150, description: '1 cup, chopped' },
+    availability: 'common',
+    averagePrice: 1000,
+  },
+  {
+    name: 'Watermelon',
+    localNames: ['kankana', 'bara', 'water melon'],
+    category: 'fruit',
+    caloriesPerGram: 0.3,
+    macros: { protein: 0.6, carbs: 7.6, fats: 0.2 },
+    typicalServing: { grams: 300, description: '1 big slice' },
+    availability: 'common',
+    averagePrice: 700,
+  },
+  {
+    name: 'Pawpaw',
+    localNames: ['papaya', 'ibepe', 'gwanda', 'okwuru bekee'],
+    category: 'fruit',
+    caloriesPerGram: 0.43,
+    macros: { protein: 0.5, carbs: 11, fats: 0.3 },
+    typicalServing: { grams: 200, description: '1 big slice' },
+    availability: 'common',
+    averagePrice: 800,
+  },
+  {
+    name: 'Mango',
+    localNames: ['mangoro', 'mangolo'],
+    category: 'fruit',
+    caloriesPerGram: 0.6,
+    macros: { protein: 0.8, carbs: 15, fats: 0.4 },
+    typicalServing: { grams: 200, description: '1 mango' },
+    availability: 'seasonal',
+    averagePrice: 1000,
+  },
+  {
+    name: 'Agbalumo',
+    localNames: ['udara', 'african star apple', 'alasa'],
+    category: 'fruit',
+    caloriesPerGram: 0.67,
+    macros: { protein: 1, carbs: 15, fats: 0.5 },
+    typicalServing: { grams: 100, description: '2 fruits' },
+    availability: 'seasonal',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Avocado',
+    localNames: ['pear', 'avocado pear', 'ube oyibo'],
+    category: 'fruit',
+    caloriesPerGram: 1.6,
+    macros: { protein: 2, carbs: 8.5, fats: 15 },
+    typicalServing: { grams: 150, description: '1 medium avocado' },
+    availability: 'seasonal',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Garden Egg',
+    localNames: ['anara', 'igba', 'gauta', 'garden eggs'],
+    category: 'fruit',
+    caloriesPerGram: 0.25,
+    macros: { protein: 1, carbs: 6, fats: 0.2 },
+    typicalServing: { grams: 100, description: '3 garden eggs' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+
+  // Drinks (per kg is per litre)
+  {
+    name: 'Zobo',
+    localNames: ['sobo', 'hibiscus drink', 'zoborodo'],
+    category: 'drink',
+    caloriesPerGram: 0.4,
+    macros: { protein: 0, carbs: 9.5, fats: 0 },
+    typicalServing: { grams: 350, description: '1 bottle' },
+    availability: 'common',
+    averagePrice: 1000,
+  },
+  {
+    name: 'Kunun Zaki',
+    localNames: ['kunu', 'kunnu', 'kunun gyada'],
+    category: 'drink',
+    caloriesPerGram: 0.6,
+    macros: { protein: 1, carbs: 13, fats: 0.5 },
+    typicalServing: { grams: 350, description: '1 bottle' },
+    availability: 'common',
+    averagePrice: 1000,
+  },
+  {
+    name: 'Kunun Aya',
+    localNames: ['tiger nut milk', 'tigernut drink', 'kunu aya'],
+    category: 'drink',
+    caloriesPerGram: 0.9,
+    macros: { protein: 1, carbs: 12, fats: 4.5 },
+    typicalServing: { grams: 350, description: '1 bottle' },
+    availability: 'common',
+    averagePrice: 2000,
+  },
+  {
+    name: 'Fura da Nono',
+    localNames: ['fura', 'nono', 'fura and nono'],
+    category: 'drink',
+    caloriesPerGram: 1.1,
+    macros: { protein: 3.5, carbs: 16, fats: 3.5 },
+    typicalServing: { grams: 500, description: '1 calabash' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+  {
+    name: 'Soya Milk',
+    localNames: ['soy milk', 'soya drink'],
+    category: 'drink',
+    caloriesPerGram: 0.45,
+    macros: { protein: 3.3, carbs: 3, fats: 2 },
+    typicalServing: { grams: 350, description: '1 bottle' },
+    availability: 'common',
+    averagePrice: 1500,
+  },
+  {
+    name: 'Chocolate Malt Drink',
+    localNames: ['milo', 'bournvita', 'ovaltine', 'beverage'],
+    category: 'drink',
+    caloriesPerGram: 0.8,
+    macros: { protein: 3, carbs: 11, fats: 2.5 },
+    typicalServing: { grams: 300, description: '1 mug with milk and sugar' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  {
+    name: 'Malt Drink',
+    localNames: ['malt', 'maltina', 'amstel malta', 'malta guinness'],
+    category: 'drink',
+    caloriesPerGram: 0.6,
+    macros: { protein: 0.3, carbs: 14, fats: 0 },
+    typicalServing: { grams: 330, description: '1 can or bottle' },
+    availability: 'common',
+    averagePrice: 2000,
+  },
+  {
+    name: 'Soft Drink',
+    localNames: ['minerals', 'coke', 'fanta', 'pepsi', 'sprite', 'soda'],
+    category: 'drink',
+    caloriesPerGram: 0.42,
+    macros: { protein: 0, carbs: 10.6, fats: 0 },
+    typicalServing: { grams: 350, description: '1 bottle' },
+    availability: 'common',
+    averagePrice: 1200,
+  },
+  {
+    name: 'Chapman',
+    localNames: ['chapman drink', 'nigerian chapman'],
+    category: 'drink',
+    dietaryTags: ['alcohol'],
+    caloriesPerGram: 0.5,
+    macros: { protein: 0, carbs: 12.5, fats: 0 },
+    typicalServing: { grams: 400, description: '1 glass' },
+    availability: 'common',
+    averagePrice: 2500,
+  },
+  // Calories for alcoholic drinks include the alcohol, which macros leave out
+  {
+    name: 'Palm Wine',
+    localNames: ['emu', 'mmanya ngwo', 'tombo', 'palmy'],
+    category: 'drink',
+    dietaryTags: ['alcohol'],
+    caloriesPerGram: 0.4,
+    macros: { protein: 0.4, carbs: 4, fats: 0 },
+    typicalServing: { grams: 500, description: '1 calabash' },
+    availability: 'common',
+    averagePrice: 1200,
+  },
+  {
+    name: 'Lager Beer',
+    localNames: ['beer', 'star', 'gulder', 'trophy', 'hero', 'guinness'],
+    category: 'drink',
+    dietaryTags: ['alcohol'],
+    caloriesPerGram: 0.43,
+    macros: { protein: 0.5, carbs: 3.6, fats: 0 },
+    typicalServing: { grams: 600, description: '1 big bottle' },
+    availability: 'common',
+    averagePrice: 2000,
+  },
+];
+
+/**
+ * Upsert the food database by name so re-running the seed picks up dataset
+ * changes without duplicating foods. Does nothing when every food is
+ * already at the current version.
+ */
+export async function seedFoods(collection: Collection<FoodItem>): Promise<number> {
+  const current = await collection.countDocuments({ seedVersion: FOOD_SEED_VERSION });
+  if (current >= NIGERIAN_FOODS.length) {
+    return 0;
+  }
+
+  const result = await collection.bulkWrite(
+    NIGERIAN_FOODS.map(food => ({
+      updateOne: {
+        filter: { name: food.name },
+        update: { $set: { ...food, seedVersion: FOOD_SEED_VERSION } },
+        upsert: true,
+      },
+    }))
+  );
+
+  return result.upsertedCount;
+}
@@ -155,7 +155,8 @@ router.post('/analyze-image/:userId', upload.single('image'), async (req: Multer
     if (result.success) {
       res.json(result);
     } else {
-      res.status(500).json(result);
+      const statusCode = result.error?.code === 'INVALID_IMAGE' ? 400 : 500;
+      res.status(statusCode).json(result);
     }
   } catch (error) {
     console.error('Error in POST /ai/analyze-image:', error);
@@ -0,0 +1,86 @@
+import { Router, Request, Response } from 'express';
+import { ExerciseService } from '../services/ExerciseService';
+
+const router = Router();
+const exerciseService = new ExerciseService();
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'];
+
+/**
+ * GET /api/exercises - Search the exercise library
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { q, muscleGroup, equipment, difficulty, category } = req.query as { [key: string]: string | undefined };
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    if (difficulty && !DIFFICULTIES.includes(difficulty)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DIFFICULTY',
+          message: 'Invalid difficulty',
+          userMessage: 'Please select a valid difficulty: beginner, intermediate, or advanced.',
+        },
+      });
+    }
+
+    const result = await exerciseService.searchExercises(
+      {
+        query: q,
+        muscleGroup,
+        equipment,
+        difficulty: difficulty as 'beginner' | 'intermediate' | 'advanced' | undefined,
+        category,
+      },
+      page,
+      limit
+    );
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /exercises:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to search exercises.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/exercises/:exerciseId - Get a single exercise
+ */
+router.get('/:exerciseId', async (req: Request, res: Response) => {
+  try {
+    const { exerciseId } = req.params;
+    const result = await exerciseService.getExerciseById(exerciseId);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'EXERCISE_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /exercises/:exerciseId:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve exercise.',
+      },
+    });
+  }
+});
+
+export default router;
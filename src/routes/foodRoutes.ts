@@ -0,0 +1,96 @@
+import { Router, Request, Response } from 'express';
+import { FoodService } from '../services/FoodService';
+import { FOOD_CATEGORIES } from '../database/seeds/foods';
+
+const router = Router();
+const foodService = new FoodService();
+
+const AVAILABILITIES = ['common', 'seasonal', 'rare'];
+
+/**
+ * GET /api/foods - Search the food database (?q=&category=&availability=&maxPrice=)
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { q, category, availability, maxPrice } = req.query as { [key: string]: string | undefined };
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    if (category && !FOOD_CATEGORIES.includes(category)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_CATEGORY',
+          message: 'Invalid food category',
+          userMessage: `Please select a valid category: ${FOOD_CATEGORIES.join(', ')}.`,
+        },
+      });
+    }
+    if (availability && !AVAILABILITIES.includes(availability)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_AVAILABILITY',
+          message: 'Invalid availability',
+          userMessage: 'Please select a valid availability: common, seasonal, or rare.',
+        },
+      });
+    }
+
+    const result = await foodService.searchFoods(
+      {
+        query: q,
+        category,
+        availability: availability as 'common' | 'seasonal' | 'rare' | undefined,
+        maxPrice: maxPrice !== undefined ? Number(maxPrice) : undefined,
+      },
+      page,
+      limit
+    );
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /foods:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to search foods.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/foods/:foodId - Get a single food
+ */
+router.get('/:foodId', async (req: Request, res: Response) => {
+  try {
+    const { foodId } = req.params;
+    const result = await foodService.getFoodById(foodId);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'FOOD_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /foods/:foodId:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve food.',
+      },
+    });
+  }
+});
+
+export default router;
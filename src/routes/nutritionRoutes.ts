@@ -0,0 +1,152 @@
+import { Router, Request, Response } from 'express';
+import { NutritionService } from '../services/NutritionService';
+import { MealPlanService } from '../services/MealPlanService';
+import { FoodLogService } from '../services/FoodLogService';
+
+const router = Router();
+const nutritionService = new NutritionService();
+const mealPlanService = new MealPlanService();
+const foodLogService = new FoodLogService();
+
+/**
+ * GET /api/nutrition/:userId/balance - Calories eaten, burned and remaining for a day (?date=YYYY-MM-DD)
+ */
+router.get('/:userId/balance', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const date = req.query.date ? new Date(String(req.query.date)) : new Date();
+    const result = await nutritionService.getDailyBalance(userId, date);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /nutrition/:userId/balance:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve your calorie balance.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/nutrition/:userId/meal-plan - Generate a meal plan ({ budgetTier, culturalPreferences })
+ */
+router.post('/:userId/meal-plan', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { budgetTier, culturalPreferences } = req.body;
+
+    if (culturalPreferences !== undefined && !Array.isArray(culturalPreferences)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_PREFERENCES',
+          message: 'culturalPreferences must be an array',
+          userMessage: 'Please list your food preferences, e.g. ["no_pork"].',
+        },
+      });
+    }
+
+    const result = await mealPlanService.generateMealPlan(userId, { budgetTier, culturalPreferences });
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /nutrition/:userId/meal-plan:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to create your meal plan.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/nutrition/:userId/meal-plan - Get the user's active meal plan
+ */
+router.get('/:userId/meal-plan', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await mealPlanService.getActiveMealPlan(userId);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'MEAL_PLAN_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /nutrition/:userId/meal-plan:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve your meal plan.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/nutrition/:userId/food-logs - Log confirmed foods, e.g. a corrected photo analysis
+ * ({ items: [{ name, portionGrams, confidence }], imageUrl })
+ */
+router.post('/:userId/food-logs', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { items, imageUrl } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_FOOD_ITEMS',
+          message: 'items must be a non-empty array',
+          userMessage: 'Please list the foods you ate, e.g. [{ "name": "Jollof Rice", "portionGrams": 250 }].',
+        },
+      });
+    }
+
+    // Confirmed items are as sure as the user is
+    const result = await foodLogService.saveFoodLog(userId, items.map((item: any) => ({
+      name: String(item?.name ?? ''),
+      portionGrams: Number(item?.portionGrams),
+      confidence: item?.confidence !== undefined ? Number(item.confidence) : 1,
+    })), { imageUrl: typeof imageUrl === 'string' ? imageUrl : undefined });
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /nutrition/:userId/food-logs:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to log your meal.',
+      },
+    });
+  }
+});
+
+export default router;
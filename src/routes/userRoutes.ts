@@ -1,8 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { UserService } from '../services/UserService';
+import { ReportService } from '../services/ReportService';
+import { CalendarService } from '../services/CalendarService';
 
 const router = Router();
 const userService = new UserService();
+const reportService = new ReportService();
+const calendarService = new CalendarService();
 
 /**
  * POST /api/users - Create a new user
@@ -245,6 +249,172 @@ router.put('/:userId/philosophy', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/users/:userId/limitations - Record injuries and limitations and adapt the plan to them
+ */
+router.put('/:userId/limitations', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { limitations } = req.body;
+
+    if (!Array.isArray(limitations)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_LIMITATIONS',
+          message: 'limitations must be a list',
+          userMessage: 'Please send your limitations as a list, e.g. [{ "area": "knee" }].',
+        },
+      });
+    }
+
+    const result = await userService.setLimitations(userId, limitations);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in PUT /users/:userId/limitations:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to update your injuries and limitations.',
+      },
+    });
+  }
+});
+
+/**
+ * PUT /api/users/:userId/home-gym - Set the user's gym and adapt their plan to its equipment
+ */
+router.put('/:userId/home-gym', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { gymId } = req.body;
+
+    if (!gymId || typeof gymId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_GYM',
+          message: 'gymId is required',
+          userMessage: 'Please choose a gym.',
+        },
+      });
+    }
+
+    const result = await userService.setHomeGym(userId, gymId);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = ['USER_NOT_FOUND', 'GYM_NOT_FOUND'].includes(result.error?.code || '') ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in PUT /users/:userId/home-gym:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to update your gym.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/users/:userId/reports/weekly - Weekly training report (?date=YYYY-MM-DD picks the week)
+ */
+router.get('/:userId/reports/weekly', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const date = req.query.date ? new Date(String(req.query.date)) : new Date();
+    const result = await reportService.getWeeklyReport(userId, date);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /users/:userId/reports/weekly:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve weekly report.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/users/:userId/calendar - The private link to the user's workout calendar feed
+ */
+router.get('/:userId/calendar', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await calendarService.getCalendarLink(userId);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /users/:userId/calendar:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to create your calendar link.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/users/:userId/calendar.ics - iCalendar feed of scheduled workouts (?token= from the calendar link)
+ */
+router.get('/:userId/calendar.ics', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await calendarService.getCalendarFeed(userId, String(req.query.token || ''));
+
+    if (result.success) {
+      res
+        .type('text/calendar; charset=utf-8')
+        .set('Content-Disposition', 'inline; filename="fitbuddy-workouts.ics"')
+        .send(result.data);
+    } else {
+      const code = result.error?.code;
+      const statusCode = code === 'USER_NOT_FOUND' ? 404 : code === 'INVALID_CALENDAR_TOKEN' ? 403 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /users/:userId/calendar.ics:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to build your workout calendar.',
+      },
+    });
+  }
+});
+
 /**
  * DELETE /api/users/:userId - Delete user account
  */
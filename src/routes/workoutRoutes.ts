@@ -0,0 +1,514 @@
+import { Router, Request, Response } from 'express';
+import { WorkoutPlanService } from '../services/WorkoutPlanService';
+import { WorkoutSessionService } from '../services/WorkoutSessionService';
+import { StrengthService } from '../services/StrengthService';
+import { MuscleVolumeService } from '../services/MuscleVolumeService';
+import { SubstitutionService } from '../services/SubstitutionService';
+import { CardioService } from '../services/CardioService';
+import { ScheduleService } from '../services/ScheduleService';
+
+const router = Router();
+const workoutPlanService = new WorkoutPlanService();
+const workoutSessionService = new WorkoutSessionService();
+const strengthService = new StrengthService();
+const muscleVolumeService = new MuscleVolumeService();
+const substitutionService = new SubstitutionService();
+const cardioService = new CardioService();
+const scheduleService = new ScheduleService();
+
+const PLAN_TYPES = ['full_body', 'upper_lower', 'push_pull_legs', 'body_part_split'];
+
+const invalidPlanTypeResponse = {
+  success: false,
+  error: {
+    code: 'INVALID_PLAN_TYPE',
+    message: 'Invalid plan type',
+    userMessage: 'Please select a valid plan type: full_body, upper_lower, push_pull_legs, or body_part_split.',
+  },
+};
+
+/**
+ * POST /api/workouts/:userId/plan - Generate a new workout plan
+ */
+router.post('/:userId/plan', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { planType } = req.body;
+
+    if (planType && !PLAN_TYPES.includes(planType)) {
+      return res.status(400).json(invalidPlanTypeResponse);
+    }
+
+    const result = await workoutPlanService.generatePlan(userId, planType);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /workouts/:userId/plan:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to create workout plan.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/workouts/:userId/plan/regenerate - Rebuild the active plan from the current profile
+ */
+router.post('/:userId/plan/regenerate', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { planType } = req.body;
+
+    if (planType && !PLAN_TYPES.includes(planType)) {
+      return res.status(400).json(invalidPlanTypeResponse);
+    }
+
+    const result = await workoutPlanService.regeneratePlan(userId, planType);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /workouts/:userId/plan/regenerate:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to regenerate workout plan.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/workouts/:userId/plan/substitutions - Swap plan exercises that need missing equipment
+ */
+router.post('/:userId/plan/substitutions', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { missingEquipment } = req.body;
+
+    if (!Array.isArray(missingEquipment) || missingEquipment.length === 0 ||
+        !missingEquipment.every(item => typeof item === 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_EQUIPMENT',
+          message: 'missingEquipment must be a non-empty list of equipment',
+          userMessage: 'Tell me which equipment is missing, e.g. ["cable", "machine"].',
+        },
+      });
+    }
+
+    const result = await substitutionService.substituteMissingEquipment(
+      userId,
+      missingEquipment.map((item: string) => item.toLowerCase())
+    );
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'PLAN_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /workouts/:userId/plan/substitutions:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to swap exercises.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/plan - Get the active workout plan
+ */
+router.get('/:userId/plan', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await workoutPlanService.getActivePlan(userId);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'PLAN_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/plan:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve workout plan.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/sessions - List past workout sessions
+ */
+router.get('/:userId/sessions', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const result = await workoutSessionService.getSessionsForUser(userId, page, limit);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/sessions:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve workout history.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/sessions/:sessionId - Get a single workout session
+ */
+router.get('/:userId/sessions/:sessionId', async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = req.params;
+    const result = await workoutSessionService.getSessionById(userId, sessionId);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'SESSION_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/sessions/:sessionId:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve workout session.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/workouts/:userId/sessions/:sessionId/sets - Add sets to a session
+ */
+router.post('/:userId/sessions/:sessionId/sets', async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = req.params;
+    const { exerciseName, sets } = req.body;
+
+    if (!exerciseName || !Array.isArray(sets) || sets.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'MISSING_REQUIRED_FIELDS',
+          message: 'exerciseName and a non-empty sets array are required',
+          userMessage: 'Please provide the exercise and at least one set.',
+        },
+      });
+    }
+
+    const result = await workoutSessionService.addSets(userId, sessionId, exerciseName, sets);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      const statusCode = result.error?.code === 'SESSION_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /workouts/:userId/sessions/:sessionId/sets:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to add sets.',
+      },
+    });
+  }
+});
+
+/**
+ * PUT /api/workouts/:userId/sessions/:sessionId/exercises/:exerciseIndex/sets/:setIndex - Edit a logged set
+ */
+router.put('/:userId/sessions/:sessionId/exercises/:exerciseIndex/sets/:setIndex', async (req: Request, res: Response) => {
+  try {
+    const { userId, sessionId } = req.params;
+    const exerciseIndex = parseInt(req.params.exerciseIndex);
+    const setIndex = parseInt(req.params.setIndex);
+
+    if (isNaN(exerciseIndex) || isNaN(setIndex)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_INDEX',
+          message: 'exerciseIndex and setIndex must be numbers',
+          userMessage: 'That set reference isn\'t valid.',
+        },
+      });
+    }
+
+    const result = await workoutSessionService.updateSet(userId, sessionId, exerciseIndex, setIndex, req.body);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = ['SESSION_NOT_FOUND', 'SET_NOT_FOUND'].includes(result.error?.code || '') ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in PUT /workouts/:userId/sessions/:sessionId/exercises/:exerciseIndex/sets/:setIndex:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to update set.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/exercises/:exerciseName/one-rep-max - Estimated 1RM per session over time
+ */
+router.get('/:userId/exercises/:exerciseName/one-rep-max', async (req: Request, res: Response) => {
+  try {
+    const { userId, exerciseName } = req.params;
+    const result = await strengthService.getOneRepMaxHistory(userId, exerciseName);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/exercises/:exerciseName/one-rep-max:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve one-rep max history.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/exercises/:exerciseName/strength-level - Rate a lift against strength standards
+ */
+router.get('/:userId/exercises/:exerciseName/strength-level', async (req: Request, res: Response) => {
+  try {
+    const { userId, exerciseName } = req.params;
+    const result = await strengthService.getStrengthLevel(userId, exerciseName);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = ['NO_LIFT_HISTORY', 'NO_STRENGTH_STANDARD'].includes(result.error?.code || '') ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/exercises/:exerciseName/strength-level:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve strength level.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/muscle-volume - Weekly hard sets per muscle group (?date=YYYY-MM-DD ends the week)
+ */
+router.get('/:userId/muscle-volume', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const date = req.query.date ? new Date(String(req.query.date)) : new Date();
+    const result = await muscleVolumeService.getWeeklyMuscleVolume(userId, date);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/muscle-volume:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve muscle group volume.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/workouts/:userId/cardio - Log a cardio activity
+ */
+router.post('/:userId/cardio', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await cardioService.logCardio(userId, req.body);
+
+    if (result.success) {
+      res.status(201).json(result);
+    } else {
+      const statusCode = result.error?.code === 'USER_NOT_FOUND' ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /workouts/:userId/cardio:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to log cardio.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/cardio - List cardio logs (?from=&to=&limit=)
+ */
+router.get('/:userId/cardio', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const result = await cardioService.getCardioLogs(userId, {
+      from: req.query.from ? new Date(String(req.query.from)) : undefined,
+      to: req.query.to ? new Date(String(req.query.to)) : undefined,
+      limit: parseInt(req.query.limit as string) || undefined,
+    });
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      res.status(400).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/cardio:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve cardio history.',
+      },
+    });
+  }
+});
+
+/**
+ * GET /api/workouts/:userId/schedule - The plan's workouts on the calendar for a week (?date=YYYY-MM-DD in the week)
+ */
+router.get('/:userId/schedule', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const date = req.query.date ? new Date(String(req.query.date)) : new Date();
+    const result = await scheduleService.getWeekSchedule(userId, date);
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const statusCode = ['USER_NOT_FOUND', 'PLAN_NOT_FOUND'].includes(result.error?.code || '') ? 404 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in GET /workouts/:userId/schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to retrieve your workout schedule.',
+      },
+    });
+  }
+});
+
+/**
+ * POST /api/workouts/:userId/schedule/reschedule - Move a scheduled workout to another day
+ */
+router.post('/:userId/schedule/reschedule', async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const { from, to, startTime } = req.body;
+
+    if (!from || !to) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'MISSING_REQUIRED_FIELDS',
+          message: 'from and to dates are required',
+          userMessage: 'Please say which day to move the workout from and to.',
+        },
+      });
+    }
+
+    const result = await scheduleService.rescheduleWorkout(userId, {
+      from: new Date(from),
+      to: new Date(to),
+      ...(startTime && { startTime }),
+    });
+
+    if (result.success) {
+      res.json(result);
+    } else {
+      const code = result.error?.code || '';
+      const statusCode = ['USER_NOT_FOUND', 'PLAN_NOT_FOUND', 'NO_WORKOUT_SCHEDULED'].includes(code) ? 404
+        : code === 'DAY_ALREADY_SCHEDULED' ? 409 : 400;
+      res.status(statusCode).json(result);
+    }
+  } catch (error) {
+    console.error('Error in POST /workouts/:userId/schedule/reschedule:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+        userMessage: 'Failed to move the workout.',
+      },
+    });
+  }
+});
+
+export default router;
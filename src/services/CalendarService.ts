@@ -0,0 +1,214 @@
+import { ObjectId } from 'mongodb';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { database } from '../database/connection';
+import { config } from '../config';
+import { User, WorkoutDay, ScheduledWorkout, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { ScheduleService } from './ScheduleService';
+import { CalendarEvent, buildICalendar } from '../utils/ical';
+import { addDays, timeToMinutes } from '../utils/schedule';
+
+export interface CalendarFeedLink {
+  url: string; // https link for the API and browsers
+  subscribeUrl: string; // webcal link that calendar apps subscribe to
+}
+
+// Weeks of workouts in the feed, starting with the current one
+const FEED_WEEKS = 4;
+
+export class CalendarService {
+  private scheduleService: ScheduleService;
+
+  constructor() {
+    this.scheduleService = new ScheduleService();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get workoutPlansCollection() {
+    return database.getSchemas().getWorkoutPlansCollection();
+  }
+
+  private get gymsCollection() {
+    return database.getSchemas().getGymsCollection();
+  }
+
+  /**
+   * The user's private calendar feed link, creating its token the first time
+   */
+  async getCalendarLink(userId: string): Promise<ApiResponse<CalendarFeedLink>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+
+      let token = user.calendarToken;
+      if (!token) {
+        token = randomBytes(24).toString('hex');
+        // Another request may have set one first, so keep whichever is stored
+        await this.usersCollection.updateOne(
+          { _id: user._id, calendarToken: { $exists: false } },
+          { $set: { calendarToken: token, updatedAt: new Date() } }
+        );
+        token = (await this.usersCollection.findOne({ _id: user._id }))?.calendarToken || token;
+      }
+
+      const url = `${this.publicUrl()}/api/users/${userId}/calendar.ics?token=${token}`;
+      return {
+        success: true,
+        data: {
+          url,
+          subscribeUrl: url.replace(/^https?:\/\//, 'webcal://'),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error getting calendar link:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'CALENDAR_LINK_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t create your calendar link. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * The .ics feed of the user's scheduled workouts for the next few weeks.
+   * The feed is empty rather than an error without an active plan, so
+   * subscriptions keep working while a plan is being made.
+   */
+  async getCalendarFeed(userId: string, token: string, now: Date = new Date()): Promise<ApiResponse<string>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+      if (!this.isValidToken(user, token)) {
+        return {
+          success: false,
+          error: {
+            code: 'INVALID_CALENDAR_TOKEN',
+            message: 'Invalid calendar token',
+            userMessage: 'This calendar link is no longer valid. Ask me for a new one.',
+          },
+        };
+      }
+
+      const plan = await this.workoutPlansCollection.findOne({ userId: user._id!, isActive: true });
+      const location = await this.homeGymLocation(user);
+      const events: CalendarEvent[] = [];
+
+      if (plan) {
+        for (let week = 0; week < FEED_WEEKS; week++) {
+          const scheduleResult = await this.scheduleService.getWeekSchedule(userId, addDays(now, week * 7), now);
+          if (!scheduleResult.success) {
+            return { success: false, error: scheduleResult.error };
+          }
+          events.push(...scheduleResult.data!.workouts.map(workout =>
+            this.toEvent(workout, plan.schedule[workout.workoutDayIndex], location)
+          ));
+        }
+      }
+
+      return {
+        success: true,
+        data: buildICalendar(`${user.profile.name}'s workouts`, events, now),
+      };
+    } catch (error: any) {
+      console.error('Error building calendar feed:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'CALENDAR_FEED_ERROR',
+          message: error.message,
+          userMessage: 'Failed to build your workout calendar.',
+        },
+      };
+    }
+  }
+
+  // Helper methods
+
+  private toEvent(workout: ScheduledWorkout, day: WorkoutDay | undefined, location?: string): CalendarEvent {
+    const at = (time: string) => {
+      const date = new Date(workout.date);
+      date.setHours(0, timeToMinutes(time), 0, 0);
+      return date;
+    };
+    const start = at(workout.startTime);
+    let end = at(workout.endTime);
+    // A workout running past midnight ends the next day
+    if (end <= start) {
+      end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+    }
+
+    const muscleGroups = workout.muscleGroups.map(group => group.charAt(0).toUpperCase() + group.slice(1)).join(', ');
+    const exercises = (day?.exercises || []).map(exercise =>
+      `- ${exercise.exerciseName}: ${exercise.sets} x ${exercise.reps}` +
+      (exercise.group ? ` (${exercise.group.type.replace(/_/g, ' ')} ${exercise.group.label})` : '')
+    );
+
+    return {
+      uid: `${workout._id}@fitbuddy`,
+      start,
+      end,
+      summary: `🏋️ ${muscleGroups} workout`,
+      ...(exercises.length > 0 && { description: exercises.join('\n') }),
+      ...(location && { location }),
+    };
+  }
+
+  private async homeGymLocation(user: User): Promise<string | undefined> {
+    if (!user.homeGymId) {
+      return undefined;
+    }
+    const gym = await this.gymsCollection.findOne({ _id: user.homeGymId });
+    return gym ? `${gym.name}, ${gym.location.address}` : undefined;
+  }
+
+  private isValidToken(user: User, token: string): boolean {
+    if (!user.calendarToken || !token) {
+      return false;
+    }
+    const expected = Buffer.from(user.calendarToken);
+    const given = Buffer.from(token);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private publicUrl(): string {
+    if (config.server.publicUrl) {
+      return config.server.publicUrl.replace(/\/+$/, '');
+    }
+    if (config.telegram.webhookUrl) {
+      return new URL(config.telegram.webhookUrl).origin;
+    }
+    return `http://localhost:${config.server.port}`;
+  }
+}
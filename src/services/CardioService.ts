@@ -0,0 +1,138 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { CardioLog, CardioLogInput, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { validateCardioLog } from '../utils/validation';
+import { calculatePace, estimateCaloriesBurned } from '../utils/cardio';
+
+export interface CardioLogQuery {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export class CardioService {
+  private get cardioLogsCollection() {
+    return database.getSchemas().getCardioLogsCollection();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  /**
+   * Log a cardio activity. Pace is worked out from the distance, and calories
+   * burned are estimated from the user's weight unless they were given.
+   */
+  async logCardio(userId: string, input: CardioLogInput): Promise<ApiResponse<CardioLog>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const validation = validateCardioLog(input);
+      if (validation.error) {
+        throw createError(`Cardio validation failed: ${validation.error}`, 400);
+      }
+      const cardio = validation.value!;
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+
+      const now = new Date();
+      const log: CardioLog = {
+        userId: user._id!,
+        activity: cardio.activity,
+        performedAt: cardio.performedAt || now,
+        durationMinutes: cardio.durationMinutes,
+        ...(cardio.distanceKm && {
+          distanceKm: cardio.distanceKm,
+          paceMinPerKm: calculatePace(cardio.durationMinutes, cardio.distanceKm),
+        }),
+        ...(cardio.averageHeartRate && { averageHeartRate: cardio.averageHeartRate }),
+        caloriesBurned: cardio.caloriesBurned ?? estimateCaloriesBurned({
+          activity: cardio.activity,
+          durationMinutes: cardio.durationMinutes,
+          distanceKm: cardio.distanceKm,
+          averageHeartRate: cardio.averageHeartRate,
+          weightKg: user.profile.weight,
+          age: user.profile.age,
+          gender: user.profile.gender,
+        }),
+        ...(cardio.notes && { notes: cardio.notes }),
+        createdAt: now,
+      };
+
+      const result = await this.cardioLogsCollection.insertOne(log);
+
+      return {
+        success: true,
+        data: { ...log, _id: result.insertedId },
+      };
+    } catch (error: any) {
+      console.error('Error logging cardio:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'CARDIO_LOG_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t save that activity. Please check the details and try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * A user's cardio logs, newest first
+   */
+  async getCardioLogs(userId: string, query: CardioLogQuery = {}): Promise<ApiResponse<CardioLog[]>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if ((query.from && isNaN(query.from.getTime())) || (query.to && isNaN(query.to.getTime()))) {
+        throw createError('Invalid date', 400);
+      }
+
+      const performedAt = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to }),
+      };
+      const logs = await this.cardioLogsCollection
+        .find({
+          userId: new ObjectId(userId),
+          ...(Object.keys(performedAt).length > 0 && { performedAt }),
+        })
+        .sort({ performedAt: -1 })
+        .limit(Math.min(Math.max(1, Math.floor(query.limit || 50)), 200))
+        .toArray();
+
+      return {
+        success: true,
+        data: logs,
+        metadata: {
+          totalCaloriesBurned: logs.reduce((total, log) => total + log.caloriesBurned, 0),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error getting cardio logs:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'CARDIO_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your cardio history.',
+        },
+      };
+    }
+  }
+}
@@ -3,15 +3,71 @@ import { database } from '../database/connection';
 import { OpenRouterClient } from './OpenRouterClient';
 import { UserService } from './UserService';
 import { OnboardingService, OnboardingState } from './OnboardingService';
+import { WorkoutSessionService, WorkoutSummary } from './WorkoutSessionService';
+import { ExerciseService } from './ExerciseService';
+import { ProgressionService, ExerciseTarget } from './ProgressionService';
+import { FatigueService } from './FatigueService';
+import { WorkoutPlanService } from './WorkoutPlanService';
+import { RestTimer, DEFAULT_REST_SECONDS } from './RestTimerService';
+import { ReportService } from './ReportService';
+import { MuscleVolumeService } from './MuscleVolumeService';
+import { SubstitutionService } from './SubstitutionService';
+import { CardioService } from './CardioService';
+import { NutritionService } from './NutritionService';
+import { FoodLogService } from './FoodLogService';
+import { ScheduleService } from './ScheduleService';
 import { 
   Conversation, 
   Message, 
   ConversationContext, 
   User, 
+  SetLog,
+  PersonalRecord,
+  DeloadWeek,
+  Limitation,
+  LimitationArea,
+  ExerciseGroup,
+  CardioLog,
+  FoodLog,
   ApiResponse 
 } from '../types';
 import { createError } from '../middleware/errorHandler';
 import { config } from '../config';
+import { EXERCISE_LIBRARY } from '../database/seeds/exercises';
+import { NIGERIAN_FOODS } from '../database/seeds/foods';
+import { CONFIDENT_MATCH, tokenizeExerciseName } from '../utils/exerciseMatcher';
+import { parseSetNotation } from '../utils/setNotationParser';
+import { rateStrength, compareStrengthLevels } from '../utils/strengthStandards';
+import { parseMissingEquipment } from '../utils/exerciseSubstitution';
+import { parseLimitationReport, findLimitationConflicts, describeLimitationAreas } from '../utils/limitations';
+import { parseExerciseGroup, describeGroupType, ParsedExerciseGroup } from '../utils/exerciseGroups';
+import { parseCardioActivity, describeCardioLog, ParsedCardioActivity } from '../utils/cardio';
+import { parseRescheduleRequest, isWeekScheduleRequest, formatScheduleDay } from '../utils/schedule';
+import {
+  DetectedFoodItem,
+  FoodLogCorrection,
+  parseFoodAnalysis,
+  parseFoodLogCorrection,
+  applyFoodLogCorrection,
+} from '../utils/foodAnalysis';
+import { prepareVisionImage } from '../utils/image';
+
+// Exercise names and local names from the library, longest first so
+// "incline bench press" is preferred over "bench"
+const EXERCISE_KEYWORDS = [...new Set(
+  EXERCISE_LIBRARY.flatMap(exercise => [exercise.name, ...exercise.localNames])
+    .map(name => normalizeExerciseText(name))
+)].sort((a, b) => b.length - a.length);
+
+// A food photo's items wait this long for "save" or a correction
+const PENDING_FOOD_LOG_MINUTES = 30;
+
+// Below this the user is asked to check the portions
+const CONFIDENT_FOOD_ANALYSIS = 0.6;
+
+function normalizeExerciseText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9'&]+/g, ' ').trim();
+}
 
 export interface AIResponse {
   message: string;
@@ -32,11 +88,35 @@ export interface WorkoutSessionResponse {
   sessionActive: boolean;
   exerciseLogged?: boolean;
   sessionComplete?: boolean;
+  workoutSessionId?: string;
+  pendingExerciseMatch?: PendingExerciseMatch;
+  personalRecords?: PersonalRecord[];
+  overloadSuggestions?: ExerciseTarget[]; // today's targets, when a session starts
+  deloadProposed?: boolean; // a deload week was scheduled and needs an answer
+  restTimer?: RestTimer; // rest to count down after the set just logged
+  summary?: WorkoutSummary; // when the workout was just finished
+  limitationConflicts?: LimitationArea[]; // injuries the logged exercise may aggravate
+  exerciseGroup?: ExerciseGroup; // when a superset, circuit or EMOM was logged
+}
+
+export interface PendingExerciseMatch {
+  input: string; // what the user typed
+  exerciseId: string;
+  exerciseName: string;
+  confidence: number;
+  sets: SetLog[];
+}
+
+export interface PendingFoodLog {
+  items: DetectedFoodItem[]; // as detected in the photo, with the user's corrections
+  createdAt: Date;
 }
 
 export interface ImageAnalysisResponse {
   message: string;
-  detectedItems?: any[];
+  detectedItems?: DetectedFoodItem[];
+  foodLog?: FoodLog; // draft awaiting the user's confirmation, not saved yet
+  unmatchedItems?: string[]; // detected foods not in the food database
   totalCalories?: number;
   confidence?: number;
 }
@@ -45,11 +125,35 @@ export class ConversationalAIService {
   private openRouterClient: OpenRouterClient;
   private userService: UserService;
   private onboardingService: OnboardingService;
+  private workoutSessionService: WorkoutSessionService;
+  private exerciseService: ExerciseService;
+  private progressionService: ProgressionService;
+  private fatigueService: FatigueService;
+  private workoutPlanService: WorkoutPlanService;
+  private reportService: ReportService;
+  private muscleVolumeService: MuscleVolumeService;
+  private substitutionService: SubstitutionService;
+  private cardioService: CardioService;
+  private nutritionService: NutritionService;
+  private foodLogService: FoodLogService;
+  private scheduleService: ScheduleService;
 
   constructor() {
     this.openRouterClient = new OpenRouterClient();
     this.userService = new UserService();
     this.onboardingService = new OnboardingService();
+    this.workoutSessionService = new WorkoutSessionService();
+    this.exerciseService = new ExerciseService();
+    this.progressionService = new ProgressionService();
+    this.fatigueService = new FatigueService();
+    this.workoutPlanService = new WorkoutPlanService();
+    this.reportService = new ReportService();
+    this.muscleVolumeService = new MuscleVolumeService();
+    this.substitutionService = new SubstitutionService();
+    this.cardioService = new CardioService();
+    this.nutritionService = new NutritionService();
+    this.foodLogService = new FoodLogService();
+    this.scheduleService = new ScheduleService();
   }
 
   private get conversationsCollection() {
@@ -177,9 +281,133 @@ export class ConversationalAIService {
         };
       }
 
+      // Reply to a food photo awaiting confirmation ("save", "rice 250g", "remove dodo")
+      const pendingFoodLog = conversation.context.sessionData?.pendingFoodLog as PendingFoodLog | undefined;
+      const foodLogCorrection = pendingFoodLog &&
+        Date.now() - new Date(pendingFoodLog.createdAt).getTime() < PENDING_FOOD_LOG_MINUTES * 60 * 1000
+        ? parseFoodLogCorrection(message)
+        : null;
+      if (pendingFoodLog && foodLogCorrection) {
+        const foodLogResult = await this.correctPendingFoodLog(actualUserId, conversation, pendingFoodLog, foodLogCorrection);
+        if (database.isConnected()) {
+          await this.saveConversation(conversation);
+        }
+        return {
+          success: true,
+          data: {
+            message: foodLogResult.message,
+            context: conversation.context,
+            metadata: {
+              foodLog: foodLogResult.foodLog,
+              foodLogSaved: foodLogResult.saved,
+            },
+          },
+        };
+      }
+
       // Check if user is in workout mode or starting a workout
       const lowerMessage = message.toLowerCase();
-      const isWorkoutActivity = conversation.context.currentActivity === 'workout';
+      // A workout closed elsewhere (/finish or the idle check) no longer routes messages
+      let isWorkoutActivity = conversation.context.currentActivity === 'workout';
+      if (isWorkoutActivity && database.isConnected()) {
+        const activeSession = await this.workoutSessionService.getActiveSession(actualUserId);
+        if (!activeSession.success && activeSession.error?.code === 'NO_ACTIVE_SESSION') {
+          isWorkoutActivity = false;
+          conversation.context = {
+            ...conversation.context,
+            currentActivity: undefined,
+          };
+        }
+      }
+
+      // Injury reports ("I hurt my knee") and recoveries, unless the message is logging sets
+      const limitationReport = parseLimitationReport(message);
+      if (limitationReport && parseSetNotation(message).sets.length === 0) {
+        const limitationResult = await this.recordLimitationReport(user, limitationReport);
+        if (database.isConnected()) {
+          await this.saveConversation(conversation);
+        }
+        return {
+          success: true,
+          data: {
+            message: limitationResult.message,
+            context: conversation.context,
+            metadata: {
+              limitations: limitationResult.limitations,
+            },
+          },
+        };
+      }
+
+      // Missing equipment ("no cable machine here") swaps exercises in the plan,
+      // unless the message is logging sets
+      const missingEquipment = parseMissingEquipment(message);
+      if (missingEquipment.length > 0 && parseSetNotation(message).sets.length === 0) {
+        const substitutionResult = await this.substitutionService.substituteMissingEquipment(actualUserId, missingEquipment);
+        if (database.isConnected()) {
+          await this.saveConversation(conversation);
+        }
+        return {
+          success: true,
+          data: {
+            message: substitutionResult.success
+              ? this.substitutionService.describeSubstitutions(substitutionResult.data!)
+              : substitutionResult.error!.userMessage || substitutionResult.error!.message,
+            context: conversation.context,
+            metadata: {
+              substitutions: substitutionResult.data?.substitutions,
+            },
+          },
+        };
+      }
+
+      // Cardio done outside the plan ("ran 5k in 28 mins"), unless the message is logging sets
+      const cardioActivity = parseCardioActivity(message);
+      if (cardioActivity && parseSetNotation(message).sets.length === 0) {
+        const cardioResult = await this.recordCardio(actualUserId, cardioActivity);
+        if (database.isConnected()) {
+          await this.saveConversation(conversation);
+        }
+        return {
+          success: true,
+          data: {
+            message: cardioResult.message,
+            context: conversation.context,
+            metadata: {
+              cardioLog: cardioResult.cardioLog,
+            },
+          },
+        };
+      }
+
+      // Moving a workout ("I couldn't go today, move it to tomorrow") or seeing the week
+      const rescheduleRequest = parseRescheduleRequest(message);
+      if (rescheduleRequest || isWeekScheduleRequest(message)) {
+        let scheduleMessage: string;
+        if (rescheduleRequest) {
+          const rescheduleResult = await this.scheduleService.rescheduleWorkout(actualUserId, rescheduleRequest);
+          scheduleMessage = rescheduleResult.success
+            ? `Done! 📅 Your ${rescheduleResult.data!.muscleGroups.join(', ')} workout is now on ` +
+              `${formatScheduleDay(rescheduleResult.data!.date)} at ${rescheduleResult.data!.startTime}.`
+            : rescheduleResult.error!.userMessage || rescheduleResult.error!.message;
+        } else {
+          const scheduleResult = await this.scheduleService.getWeekSchedule(actualUserId);
+          scheduleMessage = scheduleResult.success
+            ? this.scheduleService.formatWeekSchedule(scheduleResult.data!)
+            : scheduleResult.error!.userMessage || scheduleResult.error!.message;
+        }
+        if (database.isConnected()) {
+          await this.saveConversation(conversation);
+        }
+        return {
+          success: true,
+          data: {
+            message: scheduleMessage,
+            context: conversation.context,
+          },
+        };
+      }
+
       const isStartingWorkout = lowerMessage.includes('at the gym') || lowerMessage.includes("i'm at the gym") || 
                                 (lowerMessage.includes('gym') && !isWorkoutActivity);
       
@@ -188,12 +416,16 @@ export class ConversationalAIService {
         const workoutResponse = await this.handleWorkoutSession(actualUserId, sessionId, message);
         if (workoutResponse.success) {
           // Update conversation context with workout session
+          const sessionComplete = workoutResponse.data?.sessionComplete;
           conversation.context = {
             ...conversation.context,
-            currentActivity: 'workout',
+            currentActivity: sessionComplete ? undefined : 'workout',
             sessionData: {
               ...conversation.context.sessionData,
-              sessionId,
+              sessionId: sessionComplete ? undefined : sessionId,
+              workoutSessionId: sessionComplete ? undefined : workoutResponse.data?.workoutSessionId,
+              pendingExerciseMatch: sessionComplete ? undefined : workoutResponse.data?.pendingExerciseMatch,
+              ...(workoutResponse.data?.deloadProposed && { deloadConfirmation: { pending: true } }),
               exercisesLogged: workoutResponse.data?.exerciseLogged ? 
                 [...(conversation.context.sessionData?.exercisesLogged || []), workoutResponse.data] : 
                 conversation.context.sessionData?.exercisesLogged || [],
@@ -210,14 +442,56 @@ export class ConversationalAIService {
               message: workoutResponse.data!.message,
               context: conversation.context,
               metadata: {
-                workoutSessionActive: true,
+                workoutSessionActive: !sessionComplete,
                 exerciseLogged: workoutResponse.data?.exerciseLogged,
+                workoutSessionId: workoutResponse.data?.workoutSessionId,
+                overloadSuggestions: workoutResponse.data?.overloadSuggestions,
+                restTimer: workoutResponse.data?.restTimer,
+                limitationConflicts: workoutResponse.data?.limitationConflicts,
+                exerciseGroup: workoutResponse.data?.exerciseGroup,
               },
             },
           };
         }
       }
       
+      // Answer a proposed deload week, either when asked or by name at any time
+      const deloadPending = !!conversation.context.sessionData?.deloadConfirmation?.pending;
+      const deloadReply = this.parseDeloadReply(message, deloadPending);
+      if (deloadReply !== null) {
+        const deloadResult = await this.fatigueService.respondToDeload(actualUserId, deloadReply);
+        conversation.context.sessionData = {
+          ...conversation.context.sessionData,
+          deloadConfirmation: undefined,
+        };
+        await this.saveConversation(conversation);
+
+        if (!deloadResult.success) {
+          return {
+            success: true,
+            data: {
+              message: deloadResult.error!.userMessage || deloadResult.error!.message,
+              context: conversation.context,
+            },
+          };
+        }
+
+        const deload = deloadResult.data!;
+        const startDate = deload.startDate.toDateString();
+        return {
+          success: true,
+          data: {
+            message: deloadReply
+              ? `Deload week locked in from ${startDate}. I'll halve your sets and lighten the weights so you come back stronger. 🔋`
+              : `No problem, I've moved your deload week to start ${startDate}. Listen to your body until then! 👍`,
+            context: conversation.context,
+            metadata: {
+              deload,
+            },
+          },
+        };
+      }
+
       // Check for schedule change confirmation first
       const scheduleChangeState = conversation.context.sessionData?.scheduleChangeConfirmation;
       if (scheduleChangeState && scheduleChangeState.pending) {
@@ -343,7 +617,7 @@ export class ConversationalAIService {
       }
 
       // Generate suggestions based on context
-      const suggestions = this.generateSuggestions(updatedContext, user);
+      const suggestions = await this.generateSuggestions(updatedContext, user);
 
       return {
         success: true,
@@ -455,10 +729,32 @@ export class ConversationalAIService {
         },
       });
 
-      // Check if user is confirming they're at the gym
-      if (userMessage && (userMessage.toLowerCase().includes('at the gym') || userMessage.toLowerCase().includes('gym'))) {
+      // Check if user is wrapping up their workout
+      if (userMessage && this.isFinishingWorkout(userMessage)) {
+        return await this.finishWorkout(actualUserId);
+      }
+
+      // Check if user is taking a break or coming back from one
+      if (userMessage && (this.isPausingWorkout(userMessage) || this.isResumingWorkout(userMessage))) {
+        return await this.pauseOrResumeWorkout(actualUserId, this.isPausingWorkout(userMessage));
+      }
+
+      // Check if user is confirming they're at the gym, or started a workout without a message
+      if (!userMessage || userMessage.toLowerCase().includes('gym')) {
+        const sessionResult = await this.workoutSessionService.startSession(actualUserId);
+        const targetsResult = await this.progressionService.getSessionTargets(
+          actualUserId,
+          sessionResult.data?._id?.toString()
+        );
+        const overloadSuggestions = targetsResult.success ? targetsResult.data! : [];
+        const volumeResult = await this.muscleVolumeService.getWeeklyMuscleVolume(actualUserId);
+        const neglectedWarning = volumeResult.success
+          ? this.muscleVolumeService.describeNeglected(volumeResult.data!)
+          : undefined;
+
         const welcomeMessage = await this.openRouterClient.generateResponse(
-          'User just confirmed they are at the gym. Welcome them and ask what exercise they are starting with or just finished.',
+          'User just confirmed they are at the gym. Welcome them and ask what exercise they are starting with or just finished.' +
+            (overloadSuggestions.length > 0 ? ' Their targets for today follow your message, so do not list exercises yourself.' : ''),
           {
             systemPrompt: `You are a supportive fitness partner. The user just told you they're at the gym. 
             
@@ -475,86 +771,68 @@ export class ConversationalAIService {
         return {
           success: true,
           data: {
-            message: welcomeMessage,
+            message: [
+              welcomeMessage,
+              overloadSuggestions.length > 0 ? this.describeTargets(overloadSuggestions) : undefined,
+              neglectedWarning,
+            ].filter(Boolean).join('\n\n'),
             sessionActive: true,
             exerciseLogged: false,
             sessionComplete: false,
+            workoutSessionId: sessionResult.data?._id?.toString(),
+            overloadSuggestions,
           },
         };
       }
 
-      // If user provided exercise info, extract and ask for sets/reps
-      const exerciseInfo = this.extractExerciseInfo(userMessage || '');
-      if (exerciseInfo.exercise) {
-        // Update conversation context with current exercise
-        conversation.context.sessionData = {
-          ...conversation.context.sessionData,
-          currentExercise: exerciseInfo.exercise,
-        };
-        await this.saveConversation(conversation);
+      // Answer to a "did you mean...?" question about the last exercise
+      const pendingMatch = conversation.context.sessionData?.pendingExerciseMatch as PendingExerciseMatch | undefined;
+      const confirmedMatch = pendingMatch && userMessage ? this.parseYesNo(userMessage) : null;
+      if (pendingMatch && confirmedMatch !== null) {
+        return await this.recordExercise(actualUserId, conversation, userResult.data!, {
+          exercise: confirmedMatch ? pendingMatch.exerciseName : pendingMatch.input,
+          exerciseId: confirmedMatch ? pendingMatch.exerciseId : undefined,
+          sets: pendingMatch.sets,
+        });
+      }
 
-        if (!exerciseInfo.sets || !exerciseInfo.reps) {
-          // Ask for sets and reps
-          const askForSetsReps = await this.openRouterClient.generateResponse(
-            `User just told you they did ${exerciseInfo.exercise}. Ask them how many sets and reps they did.`,
-            {
-              systemPrompt: `The user just completed or is doing: ${exerciseInfo.exercise}
-              
-              Ask them conversationally:
-              - How many sets did they do?
-              - How many reps per set?
-              - What weight did they use? (optional)
-              
-              Be encouraging and brief.`,
-              userProfile: userResult.data!.profile,
-              currentActivity: 'workout',
-            }
-          );
+      // Supersets, circuits and EMOMs logged in one message
+      const exerciseGroup = userMessage ? parseExerciseGroup(userMessage) : null;
+      if (exerciseGroup) {
+        return await this.recordExerciseGroup(actualUserId, conversation, userResult.data!, exerciseGroup);
+      }
 
-          return {
-            success: true,
-            data: {
-              message: askForSetsReps,
-              sessionActive: true,
-              exerciseLogged: false,
-              sessionComplete: false,
-            },
+      // If user provided exercise info, resolve it against the library and log it
+      const exerciseInfo = this.extractExerciseInfo(userMessage || '');
+      if (exerciseInfo.exercise) {
+        const match = await this.exerciseService.matchExercise(exerciseInfo.exercise);
+
+        if (match.success && match.data!.confidence < CONFIDENT_MATCH) {
+          const pendingExerciseMatch: PendingExerciseMatch = {
+            input: exerciseInfo.exercise,
+            exerciseId: match.data!.exercise._id!.toString(),
+            exerciseName: match.data!.exercise.name,
+            confidence: match.data!.confidence,
+            sets: exerciseInfo.sets,
           };
-        } else {
-          // Log the exercise with sets and reps
-          conversation.context.sessionData.exercisesLogged = [
-            ...(conversation.context.sessionData.exercisesLogged || []),
-            {
-              exercise: exerciseInfo.exercise,
-              sets: exerciseInfo.sets,
-              reps: exerciseInfo.reps,
-              weight: exerciseInfo.weight,
-            },
-          ];
-          conversation.context.sessionData.currentExercise = null;
-          await this.saveConversation(conversation);
-
-          const confirmMessage = await this.openRouterClient.generateResponse(
-            `User just logged: ${exerciseInfo.exercise} - ${exerciseInfo.sets} sets x ${exerciseInfo.reps} reps${exerciseInfo.weight ? ` @ ${exerciseInfo.weight}kg` : ''}. Acknowledge and ask what exercise they're doing next.`,
-            {
-              systemPrompt: `The user just logged their exercise. Acknowledge it briefly and ask what they're doing next.
-              
-              Keep it short and motivating.`,
-              userProfile: userResult.data!.profile,
-              currentActivity: 'workout',
-            }
-          );
 
           return {
             success: true,
             data: {
-              message: confirmMessage,
+              message: `Did you mean "${pendingExerciseMatch.exerciseName}"? Reply yes or no.`,
               sessionActive: true,
-              exerciseLogged: true,
+              exerciseLogged: false,
               sessionComplete: false,
+              pendingExerciseMatch,
             },
           };
         }
+
+        return await this.recordExercise(actualUserId, conversation, userResult.data!, {
+          exercise: match.success ? match.data!.exercise.name : exerciseInfo.exercise,
+          sets: exerciseInfo.sets,
+          exerciseId: match.success ? match.data!.exercise._id!.toString() : undefined,
+        });
       }
 
       // Default check-in message
@@ -596,70 +874,777 @@ export class ConversationalAIService {
   }
 
   /**
-   * Extract exercise information from user message
+   * Close the user's open workout, send a summary and check whether a
+   * deload is due. Used for "I'm done" messages and the /finish command.
    */
-  private extractExerciseInfo(message: string): {
-    exercise?: string;
-    sets?: number;
-    reps?: number;
-    weight?: number;
-  } {
-    const lower = message.toLowerCase();
-    const result: any = {};
+  async finishWorkout(userId: string): Promise<ApiResponse<WorkoutSessionResponse>> {
+    try {
+      const userResult = ObjectId.isValid(userId)
+        ? await this.userService.getUserById(userId)
+        : await this.userService.getUserByTelegramId(userId);
+      if (!userResult.success || !userResult.data?._id) {
+        throw createError('User not found', 404);
+      }
+
+      const user = userResult.data;
+      const actualUserId = user._id!.toString();
+      const activeSession = await this.workoutSessionService.getActiveSession(actualUserId);
+      let summary: WorkoutSummary | undefined;
+      if (activeSession.success && activeSession.data?._id) {
+        const endResult = await this.workoutSessionService.endSession(activeSession.data._id.toString());
+        summary = endResult.metadata?.summary;
+      }
 
-    // Try to extract sets and reps patterns
-    // e.g., "3 sets of 10 reps", "3x10", "3 sets x 10 reps"
-    const setsRepsPattern = /(\d+)\s*(?:sets?|x)\s*(?:of\s*)?(\d+)\s*(?:reps?|repetitions?)/i;
-    const setsRepsMatch = message.match(setsRepsPattern);
-    if (setsRepsMatch) {
-      result.sets = parseInt(setsRepsMatch[1]);
-      result.reps = parseInt(setsRepsMatch[2]);
+      // How the week is going so far, counting this workout
+      const reportResult = summary ? await this.reportService.getWeeklyReport(actualUserId) : undefined;
+
+      // A finished workout is when fatigue is worth checking
+      const deloadResult = await this.fatigueService.scheduleDeloadIfNeeded(actualUserId);
+      const deload = deloadResult.success ? deloadResult.data : null;
+
+      const goodbyeMessage = await this.openRouterClient.generateResponse(
+        `User just finished their workout after logging ${summary?.totalSets || 0} sets` +
+          `${summary ? ` in ${summary.durationMinutes} minutes` : ''}. Congratulate them briefly.` +
+          `${summary ? ' A summary of the workout follows your message, so do not repeat the numbers.' : ''}`,
+        {
+          systemPrompt: `You are a supportive fitness partner. The user just finished their workout.
+          
+          Congratulate them, remind them to recover well, and keep it short.`,
+          userProfile: user.profile,
+          currentActivity: 'workout',
+        }
+      );
+
+      const conversation = await this.getOrCreateConversation(actualUserId);
+      conversation.context = {
+        ...conversation.context,
+        currentActivity: undefined,
+        sessionData: {
+          ...conversation.context.sessionData,
+          sessionId: undefined,
+          workoutSessionId: undefined,
+          pendingExerciseMatch: undefined,
+          ...(deload && { deloadConfirmation: { pending: true } }),
+        },
+      };
+      await this.saveConversation(conversation);
+
+      const message = [
+        goodbyeMessage,
+        ...(summary ? [this.describeSummary(summary)] : []),
+        ...(reportResult?.success ? [this.reportService.formatWeekToDate(reportResult.data!)] : []),
+        ...(deload ? [this.describeDeload(deload)] : []),
+      ].join('\n\n');
+
+      return {
+        success: true,
+        data: {
+          message,
+          sessionActive: false,
+          exerciseLogged: false,
+          sessionComplete: true,
+          workoutSessionId: activeSession.data?._id?.toString(),
+          deloadProposed: !!deload,
+          summary,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error finishing workout:', error);
+      return {
+        success: false,
+        error: {
+          code: 'WORKOUT_SESSION_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t close your workout. Please try again.',
+        },
+      };
     }
+  }
+
+  /**
+   * Close workouts left open past the idle limit and build the summary to
+   * send each user
+   */
+  async closeIdleWorkouts(now: Date = new Date()): Promise<ApiResponse<{ telegramId: string; message: string }[]>> {
+    try {
+      const closeResult = await this.workoutSessionService.closeIdleSessions(config.workouts.idleHoursBeforeAutoClose, now);
+      if (!closeResult.success) {
+        return {
+          success: false,
+          error: closeResult.error,
+        };
+      }
 
-    // Try to extract weight
-    const weightPattern = /(\d+(?:\.\d+)?)\s*(?:kg|kilos?|lbs?|pounds?)/i;
-    const weightMatch = message.match(weightPattern);
-    if (weightMatch) {
-      let weight = parseFloat(weightMatch[1]);
-      if (lower.includes('lb') || lower.includes('pound')) {
-        weight = weight * 0.453592; // Convert to kg
+      const notifications: { telegramId: string; message: string }[] = [];
+      for (const session of closeResult.data!) {
+        const userResult = await this.userService.getUserById(session.userId.toString());
+        const telegramId = userResult.success ? userResult.data?.telegramId : undefined;
+        if (!telegramId) continue;
+
+        const summary: WorkoutSummary = closeResult.metadata!.summaries[session._id!.toString()];
+        notifications.push({
+          telegramId,
+          message: `I closed your workout since it's been quiet for a while. Great work! 💪\n\n${this.describeSummary(summary)}`,
+        });
       }
-      result.weight = Math.round(weight);
+
+      return {
+        success: true,
+        data: notifications,
+      };
+    } catch (error: any) {
+      console.error('Error closing idle workouts:', error);
+      return {
+        success: false,
+        error: {
+          code: 'WORKOUT_SESSION_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t close idle workouts.',
+        },
+      };
     }
+  }
 
-    // Extract exercise name (everything before sets/reps/weight info)
-    let exerciseText = message;
-    if (setsRepsMatch) {
-      exerciseText = message.substring(0, setsRepsMatch.index).trim();
+  private async pauseOrResumeWorkout(userId: string, pause: boolean): Promise<ApiResponse<WorkoutSessionResponse>> {
+    const activeSession = await this.workoutSessionService.getActiveSession(userId);
+    if (!activeSession.success || !activeSession.data?._id) {
+      return {
+        success: true,
+        data: {
+          message: 'You don\'t have a workout in progress. Tell me when you\'re at the gym!',
+          sessionActive: false,
+          sessionComplete: true,
+        },
+      };
     }
-    if (weightMatch && (!setsRepsMatch || (weightMatch.index && weightMatch.index < setsRepsMatch.index!))) {
-      exerciseText = message.substring(0, weightMatch.index).trim();
+
+    const sessionId = activeSession.data._id.toString();
+    if (pause) {
+      const pauseResult = await this.workoutSessionService.pauseSession(sessionId);
+      if (!pauseResult.success) {
+        throw createError(pauseResult.error?.message || 'Failed to pause workout', 500);
+      }
+      return {
+        success: true,
+        data: {
+          message: pauseResult.metadata?.alreadyPaused
+            ? 'Your workout is already paused. Say "resume" when you\'re ready to go again.'
+            : '⏸️ Workout paused. Take your time, and say "resume" when you\'re back.',
+          sessionActive: true,
+          workoutSessionId: sessionId,
+        },
+      };
+    }
+
+    const resumeResult = await this.workoutSessionService.resumeSession(sessionId);
+    if (!resumeResult.success) {
+      throw createError(resumeResult.error?.message || 'Failed to resume workout', 500);
     }
+    const pausedMinutes = resumeResult.metadata?.pausedMinutes || 0;
+    return {
+      success: true,
+      data: {
+        message: pausedMinutes > 0
+          ? `▶️ Welcome back! You were away ${pausedMinutes} min. What are you doing next?`
+          : '▶️ We\'re rolling! What are you doing next?',
+        sessionActive: true,
+        workoutSessionId: sessionId,
+      },
+    };
+  }
 
-    // Common exercise names
-    const exerciseKeywords = [
-      'bench press', 'squat', 'deadlift', 'bicep curl', 'tricep extension',
-      'shoulder press', 'lat pulldown', 'row', 'pull up', 'push up',
-      'leg press', 'leg curl', 'leg extension', 'chest press', 'fly',
+  /**
+   * Log an exercise to the open workout session, or ask for the sets and
+   * reps when the user only named the exercise
+   */
+  private async recordExercise(
+    userId: string,
+    conversation: Conversation,
+    user: User,
+    exerciseInfo: { exercise: string; exerciseId?: string; sets: SetLog[] }
+  ): Promise<ApiResponse<WorkoutSessionResponse>> {
+    // Update conversation context with current exercise
+    conversation.context.sessionData = {
+      ...conversation.context.sessionData,
+      currentExercise: exerciseInfo.exercise,
+      pendingExerciseMatch: undefined,
+    };
+    await this.saveConversation(conversation);
+
+    const limitationConflicts = findLimitationConflicts(exerciseInfo.exercise, user.profile.limitations);
+    const limitationWarning = limitationConflicts.length > 0
+      ? `⚠️ Careful: ${exerciseInfo.exercise} can aggravate your ${describeLimitationAreas(limitationConflicts)}. ` +
+        'Keep it light and stop if it hurts, or tell me and I\'ll find a swap.'
+      : undefined;
+
+    if (exerciseInfo.sets.length === 0) {
+      // Ask for sets and reps
+      const askForSetsReps = await this.openRouterClient.generateResponse(
+        `User just told you they did ${exerciseInfo.exercise}. Ask them how many sets and reps they did.`,
+        {
+          systemPrompt: `The user just completed or is doing: ${exerciseInfo.exercise}
+          
+          Ask them conversationally:
+          - How many sets did they do?
+          - How many reps per set?
+          - What weight did they use? (optional)
+          
+          Be encouraging and brief.`,
+          userProfile: user.profile,
+          currentActivity: 'workout',
+        }
+      );
+
+      return {
+        success: true,
+        data: {
+          message: limitationWarning ? `${limitationWarning}\n\n${askForSetsReps}` : askForSetsReps,
+          sessionActive: true,
+          exerciseLogged: false,
+          sessionComplete: false,
+          limitationConflicts,
+        },
+      };
+    }
+
+    // Persist the sets to the user's open workout session
+    const sessionResult = await this.workoutSessionService.startSession(userId);
+    if (!sessionResult.success || !sessionResult.data?._id) {
+      throw createError('Failed to open workout session', 500);
+    }
+    const logResult = await this.workoutSessionService.logSets(
+      sessionResult.data._id.toString(),
+      exerciseInfo.exercise,
+      exerciseInfo.sets,
+      exerciseInfo.exerciseId ? new ObjectId(exerciseInfo.exerciseId) : undefined
+    );
+    if (!logResult.success) {
+      throw createError(logResult.error?.message || 'Failed to log sets', 500);
+    }
+    const personalRecords: PersonalRecord[] = logResult.metadata?.personalRecords || [];
+
+    // Count down the planned rest unless the user already said how long they
+    // rested or goes straight into the rest of a superset
+    const lastSet = exerciseInfo.sets[exerciseInfo.sets.length - 1];
+    const restSeconds = lastSet.restTime === undefined
+      ? await this.getPlannedRestTime(
+          userId,
+          exerciseInfo.exercise,
+          logResult.data!.exercises[logResult.metadata?.exerciseIndex]?.exerciseId?.toString()
+        )
+      : 0;
+    const restTimer: RestTimer | undefined = restSeconds > 0
+      ? {
+          userId,
+          sessionId: sessionResult.data._id.toString(),
+          exerciseName: exerciseInfo.exercise,
+          exerciseIndex: logResult.metadata?.exerciseIndex,
+          setIndex: logResult.metadata?.setIndex,
+          seconds: restSeconds,
+        }
+      : undefined;
+
+    conversation.context.sessionData.exercisesLogged = [
+      ...(conversation.context.sessionData.exercisesLogged || []),
+      {
+        exercise: exerciseInfo.exercise,
+        sets: exerciseInfo.sets,
+      },
     ];
+    conversation.context.sessionData.currentExercise = null;
+    await this.saveConversation(conversation);
+
+    const confirmMessage = await this.openRouterClient.generateResponse(
+      `User just logged: ${exerciseInfo.exercise} - ${this.describeSets(exerciseInfo.sets)}.` +
+        `${personalRecords.length > 0 ? ' That is a new personal record, hype them up!' : ''} Acknowledge and ask what exercise they're doing next.`,
+      {
+        systemPrompt: `The user just logged their exercise. Acknowledge it briefly and ask what they're doing next.
+        
+        Keep it short and motivating.`,
+        userProfile: user.profile,
+        currentActivity: 'workout',
+      }
+    );
 
-    for (const keyword of exerciseKeywords) {
-      if (lower.includes(keyword)) {
-        result.exercise = keyword;
-        break;
+    return {
+      success: true,
+      data: {
+        message: [
+          personalRecords.length > 0 ? this.celebratePersonalRecords(exerciseInfo.exercise, personalRecords, user) : undefined,
+          confirmMessage,
+          limitationWarning,
+        ].filter(Boolean).join('\n\n'),
+        sessionActive: true,
+        exerciseLogged: true,
+        sessionComplete: false,
+        workoutSessionId: sessionResult.data._id.toString(),
+        personalRecords,
+        restTimer,
+        limitationConflicts,
+      },
+    };
+  }
+
+  /**
+   * Log a superset, giant set, circuit or EMOM from one message as one log per
+   * exercise, resting after the whole group
+   */
+  private async recordExerciseGroup(
+    userId: string,
+    conversation: Conversation,
+    user: User,
+    group: ParsedExerciseGroup
+  ): Promise<ApiResponse<WorkoutSessionResponse>> {
+    const groupName = describeGroupType(group.type);
+    if (group.exercises.some(exercise => exercise.sets.length === 0)) {
+      return {
+        success: true,
+        data: {
+          message: `Nice ${groupName}! How many reps did you do of each? Send it again with them, e.g. "superset curls and pushdowns 3x12".`,
+          sessionActive: true,
+          exerciseLogged: false,
+          sessionComplete: false,
+        },
+      };
+    }
+
+    // Unclear names are logged as typed rather than asking about each one mid-set
+    const exercises: Array<{ exerciseName: string; sets: SetLog[]; exerciseId?: ObjectId }> = [];
+    for (const exercise of group.exercises) {
+      const match = await this.exerciseService.matchExercise(exercise.exerciseText);
+      const confident = match.success && match.data!.confidence >= CONFIDENT_MATCH;
+      exercises.push({
+        exerciseName: confident ? match.data!.exercise.name : exercise.exerciseText,
+        sets: exercise.sets,
+        ...(confident && { exerciseId: match.data!.exercise._id }),
+      });
+    }
+
+    const sessionResult = await this.workoutSessionService.startSession(userId);
+    if (!sessionResult.success || !sessionResult.data?._id) {
+      throw createError('Failed to open workout session', 500);
+    }
+    const logResult = await this.workoutSessionService.logGroupSets(
+      sessionResult.data._id.toString(),
+      {
+        type: group.type,
+        ...(group.rounds !== undefined && { rounds: group.rounds }),
+        ...(group.intervalSeconds !== undefined && { intervalSeconds: group.intervalSeconds }),
+      },
+      exercises
+    );
+    if (!logResult.success) {
+      throw createError(logResult.error?.message || 'Failed to log sets', 500);
+    }
+    const personalRecords: PersonalRecord[] = logResult.metadata?.personalRecords || [];
+
+    // EMOMs rest on the clock; otherwise rest as long as the longest planned rest in the group
+    const lastExercise = exercises[exercises.length - 1];
+    const plannedRests = await Promise.all(
+      exercises.map(exercise => this.getPlannedRestTime(userId, exercise.exerciseName, exercise.exerciseId?.toString()))
+    );
+    const restSeconds = group.type !== 'emom' && lastExercise.sets[lastExercise.sets.length - 1].restTime === undefined
+      ? Math.max(...plannedRests)
+      : 0;
+    const restTimer: RestTimer | undefined = restSeconds > 0
+      ? {
+          userId,
+          sessionId: sessionResult.data._id.toString(),
+          exerciseName: lastExercise.exerciseName,
+          exerciseIndex: logResult.metadata?.exerciseIndex,
+          setIndex: logResult.metadata?.setIndex,
+          seconds: restSeconds,
+        }
+      : undefined;
+
+    conversation.context.sessionData = {
+      ...conversation.context.sessionData,
+      currentExercise: null,
+      pendingExerciseMatch: undefined,
+      exercisesLogged: [
+        ...(conversation.context.sessionData?.exercisesLogged || []),
+        ...exercises.map(exercise => ({ exercise: exercise.exerciseName, sets: exercise.sets })),
+      ],
+    };
+    await this.saveConversation(conversation);
+
+    const limitationConflicts = [...new Set(
+      exercises.flatMap(exercise => findLimitationConflicts(exercise.exerciseName, user.profile.limitations))
+    )];
+    const celebrations = exercises
+      .map(exercise => {
+        const records = personalRecords.filter(record => record.exerciseName === exercise.exerciseName);
+        return records.length > 0 ? this.celebratePersonalRecords(exercise.exerciseName, records, user) : undefined;
+      })
+      .filter(Boolean);
+
+    return {
+      success: true,
+      data: {
+        message: [
+          ...celebrations,
+          `💪 ${groupName.charAt(0).toUpperCase()}${groupName.slice(1)} logged:\n` +
+            exercises.map(exercise => `• ${exercise.exerciseName}: ${this.describeSets(exercise.sets)}`).join('\n') +
+            '\n\nWhat\'s next?',
+          limitationConflicts.length > 0
+            ? `⚠️ Careful: some of these can aggravate your ${describeLimitationAreas(limitationConflicts)}. Keep it light and stop if it hurts.`
+            : undefined,
+        ].filter(Boolean).join('\n\n'),
+        sessionActive: true,
+        exerciseLogged: true,
+        sessionComplete: false,
+        workoutSessionId: sessionResult.data._id.toString(),
+        personalRecords,
+        restTimer,
+        limitationConflicts,
+        exerciseGroup: logResult.metadata?.group,
+      },
+    };
+  }
+
+  /**
+   * Add or clear limitations from a chat report and adapt the plan around
+   * new ones
+   */
+  private async recordLimitationReport(
+    user: User,
+    report: { areas: LimitationArea[]; recovered: boolean }
+  ): Promise<{ message: string; limitations: Limitation[] }> {
+    const current = user.profile.limitations || [];
+    const areas = describeLimitationAreas(report.areas);
+
+    if (report.recovered) {
+      const remaining = current.filter(limitation => !report.areas.includes(limitation.area));
+      if (remaining.length === current.length) {
+        return { message: `Glad your ${areas} is feeling good! 💪`, limitations: current };
+      }
+
+      const result = await this.userService.setLimitations(user._id!.toString(), remaining);
+      return {
+        message: result.success
+          ? `Great news about your ${areas}! I'll stop training around it. Ask me to regenerate your plan if you want the exercises I took out back.`
+          : result.error!.userMessage || result.error!.message,
+        limitations: result.success ? remaining : current,
+      };
+    }
+
+    const newAreas = report.areas.filter(area => !current.some(limitation => limitation.area === area));
+    if (newAreas.length === 0) {
+      return { message: `I already have your ${areas} on record, so your plan stays easy on it. Take care! 🙏`, limitations: current };
+    }
+
+    const limitations = [...current, ...newAreas.map(area => ({ area, since: new Date() }))];
+    const result = await this.userService.setLimitations(user._id!.toString(), limitations);
+    if (!result.success) {
+      return { message: result.error!.userMessage || result.error!.message, limitations: current };
+    }
+
+    const substitutions = result.metadata?.substitutions || [];
+    const removed = result.metadata?.removedExercises || [];
+    const planChanges = substitutions.length > 0 || removed.length > 0
+      ? `\n\n${this.substitutionService.describeSubstitutions({ substitutions, unavailable: [], removed })}`
+      : '';
+    return {
+      message: `Sorry to hear about your ${describeLimitationAreas(newAreas)}. I've noted it and I'll keep your training around it.` +
+        `${planChanges}\n\nIf the pain is sharp or doesn't settle, please see a physio or doctor.`,
+      limitations,
+    };
+  }
+
+  /**
+   * Log cardio from chat and say how it leaves the day's calorie balance.
+   * Asks for the duration when only a distance was given.
+   */
+  private async recordCardio(
+    userId: string,
+    activity: ParsedCardioActivity
+  ): Promise<{ message: string; cardioLog?: CardioLog }> {
+    if (!activity.durationMinutes) {
+      return { message: 'Nice one! 🏃 How long did it take? e.g. "ran 5k in 28 mins"' };
+    }
+
+    const result = await this.cardioService.logCardio(userId, {
+      activity: activity.activity,
+      durationMinutes: activity.durationMinutes,
+      ...(activity.distanceKm && { distanceKm: activity.distanceKm }),
+      ...(activity.averageHeartRate && { averageHeartRate: activity.averageHeartRate }),
+      ...(activity.caloriesBurned && { caloriesBurned: activity.caloriesBurned }),
+    });
+    if (!result.success) {
+      return { message: result.error!.userMessage || result.error!.message };
+    }
+
+    const balance = await this.nutritionService.getDailyBalance(userId);
+    const remaining = balance.data?.remainingCalories;
+    const balanceLine = remaining === undefined
+      ? ''
+      : remaining >= 0
+        ? `\n\nThat leaves you ${remaining} kcal to eat today.`
+        : `\n\nYou're still ${-remaining} kcal over today's target.`;
+    return {
+      message: `🏃 Logged your ${describeCardioLog(result.data!)}.${balanceLine}`,
+      cardioLog: result.data,
+    };
+  }
+
+  /**
+   * Save, discard or correct the food log from a photo. Corrections rebuild
+   * the draft and keep it waiting for "save".
+   */
+  private async correctPendingFoodLog(
+    userId: string,
+    conversation: Conversation,
+    pendingFoodLog: PendingFoodLog,
+    correction: FoodLogCorrection
+  ): Promise<{ message: string; foodLog?: FoodLog; saved?: boolean }> {
+    const setPendingFoodLog = (pending: PendingFoodLog | undefined) => {
+      conversation.context = {
+        ...conversation.context,
+        sessionData: {
+          ...conversation.context.sessionData,
+          pendingFoodLog: pending,
+        },
+      };
+    };
+
+    if (correction.action === 'discard') {
+      setPendingFoodLog(undefined);
+      return { message: 'No problem, I haven\'t logged that meal.' };
+    }
+
+    if (correction.action === 'save') {
+      const result = await this.foodLogService.saveFoodLog(userId, pendingFoodLog.items, {
+        timestamp: new Date(pendingFoodLog.createdAt),
+      });
+      if (!result.success) {
+        if (result.error?.code === 'FOOD_NOT_FOUND') {
+          setPendingFoodLog(undefined);
+        }
+        return { message: result.error!.userMessage || result.error!.message };
+      }
+      setPendingFoodLog(undefined);
+
+      const balance = await this.nutritionService.getDailyBalance(userId);
+      const remaining = balance.data?.remainingCalories;
+      const balanceLine = remaining === undefined
+        ? ''
+        : remaining >= 0
+          ? `\n\nThat leaves you ${remaining} kcal to eat today.`
+          : `\n\nYou're ${-remaining} kcal over today's target.`;
+      return {
+        message: `✅ Logged your meal: ${result.data!.totalCalories} kcal, ${result.data!.totalMacros.protein}g protein.${balanceLine}`,
+        foodLog: result.data,
+        saved: true,
+      };
+    }
+
+    const items = applyFoodLogCorrection(pendingFoodLog.items, correction);
+    if (items.length === 0) {
+      setPendingFoodLog(undefined);
+      return { message: 'That\'s everything removed, so there\'s nothing to log.' };
+    }
+
+    const draft = await this.foodLogService.buildFoodLog(userId, items);
+    if (!draft.success) {
+      return { message: draft.error!.userMessage || draft.error!.message };
+    }
+    setPendingFoodLog({ ...pendingFoodLog, items });
+
+    return {
+      message: `Updated:\n${this.describePendingFoodLog(draft.data!.foodLog, draft.data!.unmatchedItems)}`,
+      foodLog: draft.data!.foodLog,
+    };
+  }
+
+  private describePendingFoodLog(foodLog: FoodLog, unmatchedItems: string[]): string {
+    if (foodLog.items.length === 0) {
+      return `${this.foodLogService.formatFoodLog(foodLog, unmatchedItems).trim()}\n\n` +
+        'Tell me what you ate with a portion, e.g. "jollof rice 300g", or say "discard".';
+    }
+
+    const lowConfidence = foodLog.analysisConfidence !== undefined && foodLog.analysisConfidence < CONFIDENT_FOOD_ANALYSIS;
+    return [
+      this.foodLogService.formatFoodLog(foodLog, unmatchedItems),
+      lowConfidence ? 'I\'m not too sure about this one, so please check the portions.' : undefined,
+      'Reply "save" to log it, correct a portion ("rice 250g"), "remove dodo", or "discard".',
+    ].filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * One line per new record, e.g. "🏆 New PR on Bench Press: heaviest weight 100kg (was 95kg)",
+   * plus the new strength level when a better 1RM moves the user up one
+   */
+  private celebratePersonalRecords(exerciseName: string, records: PersonalRecord[], user: User): string {
+    const describe = (record: PersonalRecord): string => {
+      switch (record.type) {
+        case 'max_weight':
+          return `heaviest weight ${record.value}kg (was ${record.previousValue}kg)`;
+        case 'reps_at_weight':
+          return `${record.value} reps at ${record.weight ? `${record.weight}kg` : 'bodyweight'} (was ${record.previousValue})`;
+        case 'estimated_1rm':
+          return `estimated 1RM ${record.value}kg (was ${record.previousValue}kg)`;
+        case 'session_volume':
+          return `most volume in a session, ${record.value}kg (was ${record.previousValue}kg)`;
       }
+    };
+
+    const lines = records.map(record => `🏆 New PR on ${record.exerciseName}: ${describe(record)}`);
+
+    const oneRepMaxRecord = records.find(record => record.type === 'estimated_1rm');
+    if (oneRepMaxRecord) {
+      const before = rateStrength(exerciseName, oneRepMaxRecord.previousValue, user.profile.weight);
+      const after = rateStrength(exerciseName, oneRepMaxRecord.value, user.profile.weight);
+      if (before && after && compareStrengthLevels(after.level, before.level) > 0) {
+        lines.push(`💪 Your ${exerciseName.toLowerCase()} is now ${after.level} level!`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Detect that the user is taking a break mid-workout
+   */
+  private isPausingWorkout(message: string): boolean {
+    // Not "pause squat", which is an exercise
+    const lower = message.toLowerCase().trim();
+    return /\b(pause|pausing)\b.*\b(workout|session|training)\b/.test(lower) ||
+      /\b(taking|take) a (quick |short )?(break|breather)\b/.test(lower) ||
+      /^(pause|brb)\W*$/.test(lower);
+  }
+
+  /**
+   * Detect that the user is back from a break
+   */
+  private isResumingWorkout(message: string): boolean {
+    // Not "back squat"
+    const lower = message.toLowerCase().trim();
+    return /\b(resume|resuming|unpause)\b/.test(lower) ||
+      /^(i'?m back|i am back|back now|let'?s (continue|go again))\b/.test(lower);
+  }
+
+  /**
+   * Detect that the user is wrapping up their workout
+   */
+  private isFinishingWorkout(message: string): boolean {
+    // "I'm done with squats 3x5 100kg" logs sets, it doesn't end the workout
+    if (parseSetNotation(message).sets.length > 0) {
+      return false;
+    }
+    const normalizedText = ` ${normalizeExerciseText(message)} `;
+    if (EXERCISE_KEYWORDS.some(name => normalizedText.includes(` ${name} `))) {
+      return false;
+    }
+
+    const lower = message.toLowerCase().trim();
+    return /\b(done|finished|finish|ending|end|wrapping up)\b.*\b(workout|session|training|gym)\b/.test(lower) ||
+      /^(that'?s all( for today)?|i'?m done|all done)\W*$/.test(lower);
+  }
+
+  /**
+   * Extract the exercise name and one SetLog per set from a user message
+   */
+  private extractExerciseInfo(message: string): {
+    exercise?: string;
+    sets: SetLog[];
+  } {
+    const { exerciseText, sets } = parseSetNotation(message);
+
+    // Known exercise names, matched on whole words
+    const normalizedText = ` ${normalizeExerciseText(exerciseText)} `;
+    const keyword = EXERCISE_KEYWORDS.find(name => normalizedText.includes(` ${name} `));
+
+    // Otherwise whatever is left once the set notation is removed, unless
+    // that is only chat filler ("did 3x10")
+    const hasExerciseWords = tokenizeExerciseName(exerciseText, true).length > 0;
+
+    return {
+      exercise: keyword || (hasExerciseWords ? exerciseText : undefined),
+      sets,
+    };
+  }
+
+  /**
+   * Today's targets as a plain-text list, e.g.
+   * "Barbell Bench Press: 4 x 10 @ 62.5kg (Stay at 62.5kg and ...)"
+   */
+  private describeTargets(targets: ExerciseTarget[]): string {
+    const lines = targets.map(target => {
+      const weight = target.targetWeight !== undefined ? ` @ ${target.targetWeight}kg` : '';
+      const failure = target.toFailure ? ' to failure' : '';
+      return `- ${target.exerciseName}: ${target.sets} x ${target.targetReps}${weight}${failure}. ${target.note}`;
+    });
+    return `Today's targets:\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Rest time for an exercise from the active plan, or the default when
+   * the exercise isn't planned
+   */
+  private async getPlannedRestTime(userId: string, exerciseName: string, exerciseId?: string): Promise<number> {
+    const planResult = await this.workoutPlanService.getActivePlan(userId);
+    if (!planResult.success) {
+      return DEFAULT_REST_SECONDS;
     }
 
-    // If no keyword found, use the text before numbers as exercise name
-    if (!result.exercise && exerciseText) {
-      result.exercise = exerciseText.split(/\d/)[0].trim() || exerciseText;
+    const plannedExercise = planResult.data!.schedule
+      .flatMap(day => day.exercises)
+      .find(exercise =>
+        exerciseId && exercise.exerciseId
+          ? exercise.exerciseId.toString() === exerciseId
+          : exercise.exerciseName.toLowerCase() === exerciseName.toLowerCase()
+      );
+    // Zero for the first exercise of a planned superset
+    return plannedExercise ? plannedExercise.restTime : DEFAULT_REST_SECONDS;
+  }
+
+  /**
+   * Summary of a finished workout: duration, volume, exercises and PRs
+   */
+  private describeSummary(summary: WorkoutSummary): string {
+    const lines = [
+      '📋 Workout summary',
+      `⏱️ ${summary.durationMinutes} min · ${summary.totalSets} sets · ${Math.round(summary.totalVolume)}kg total volume`,
+      ...summary.exercises.map(exercise =>
+        `- ${exercise.exerciseName}: ${exercise.sets} ${exercise.sets === 1 ? 'set' : 'sets'}` +
+          (exercise.volume > 0 ? ` (${Math.round(exercise.volume)}kg)` : '')
+      ),
+    ];
+    if (summary.personalRecords.length > 0) {
+      lines.push(`🏆 ${summary.personalRecords.length} new ${summary.personalRecords.length === 1 ? 'PR' : 'PRs'}: ` +
+        [...new Set(summary.personalRecords.map(record => record.exerciseName))].join(', '));
     }
+    return lines.join('\n');
+  }
 
-    return result;
+  private describeDeload(deload: DeloadWeek): string {
+    const reasons = deload.reasons.map(reason => `- ${reason}`).join('\n');
+    return `I think you're carrying some fatigue:\n${reasons}\n\n` +
+      `I've pencilled in a deload week from ${deload.startDate.toDateString()}: half the sets at lighter weights. ` +
+      'Reply "accept deload" to take it, or "postpone deload" to push it back a week.';
   }
 
   /**
-   * Analyze an image (for food recognition)
+   * Summarize logged sets for a prompt, e.g. "3 sets x 10 reps @ 60kg" or
+   * "60kg x 8, 65kg x 6"
+   */
+  private describeSets(sets: SetLog[]): string {
+    const describeSet = (set: SetLog) =>
+      `${set.weight !== undefined ? `${set.weight}kg x ` : ''}${set.reps}${set.rpe !== undefined ? ` @ RPE ${set.rpe}` : ''}`;
+    const descriptions = sets.map(describeSet);
+
+    if (new Set(descriptions).size === 1) {
+      const [set] = sets;
+      return `${sets.length} sets x ${set.reps} reps${set.weight !== undefined ? ` @ ${set.weight}kg` : ''}` +
+        `${set.rpe !== undefined ? `, RPE ${set.rpe}` : ''}`;
+    }
+    return descriptions.join(', ');
+  }
+
+  /**
+   * Analyze a food photo. The vision model lists each food with its portion
+   * and confidence, and the foods are matched against the food database into
+   * a draft food log that waits for the user to save or correct it.
    */
   async analyzeImage(
     userId: string,
@@ -667,33 +1652,89 @@ export class ConversationalAIService {
     _context: string = 'food_analysis'
   ): Promise<ApiResponse<ImageAnalysisResponse>> {
     try {
-      const imageBase64 = imageData.toString('base64');
-      
-      const analysisPrompt = `Analyze this food image for a Nigerian fitness app user. 
+      const image = await prepareVisionImage(imageData);
       
-      Please identify:
-      1. All food items visible
-      2. Estimated portion sizes
-      3. Approximate calories for each item
-      4. Total estimated calories
-      5. Any Nigerian/local food names if applicable
-      
-      Respond in a conversational way as if talking to the user directly.
-      Be encouraging about their food tracking efforts.`;
+      const analysisPrompt = `Identify the foods in this photo for a Nigerian fitness app user.
+
+      For each food, estimate the portion in grams and how confident you are (0 to 1).
+      Use these names where a food matches one: ${NIGERIAN_FOODS.map(food => food.name).join(', ')}.
+      Name stews, soups and proteins separately from the rice or swallow they are served with.
+
+      Respond with JSON only, in this format:
+      {"items": [{"name": "Jollof Rice", "portionGrams": 250, "confidence": 0.9}]}
+      Return {"items": []} if there is no food in the photo.`;
 
       const response = await this.openRouterClient.analyzeImage(
-        imageBase64,
-        analysisPrompt
+        image.data.toString('base64'),
+        analysisPrompt,
+        { mimeType: image.mimeType }
       );
 
-      const analysisMessage = response.choices[0]?.message?.content || 
-        'I can see your food, but I\'m having trouble analyzing it right now. Could you tell me what you\'re eating?';
+      const content = response.choices[0]?.message?.content || '';
+      const detectedItems = parseFoodAnalysis(content);
+
+      if (!detectedItems) {
+        // Not the JSON asked for, so pass the model's description on as it is
+        return {
+          success: true,
+          data: {
+            message: content ||
+              'I can see your food, but I\'m having trouble analyzing it right now. Could you tell me what you\'re eating?',
+          },
+        };
+      }
+      if (detectedItems.length === 0) {
+        return {
+          success: true,
+          data: {
+            message: 'I couldn\'t spot any food in that photo. Could you tell me what you\'re eating?',
+            detectedItems,
+          },
+        };
+      }
+
+      const userResult = ObjectId.isValid(userId)
+        ? await this.userService.getUserById(userId)
+        : await this.userService.getUserByTelegramId(userId);
+      if (!userResult.success || !userResult.data?._id) {
+        return {
+          success: true,
+          data: {
+            message: `I can see ${detectedItems.map(item => `${item.name} (about ${item.portionGrams}g)`).join(', ')}. ` +
+              'Finish setting up your profile and I\'ll log your meals for you!',
+            detectedItems,
+          },
+        };
+      }
+
+      const actualUserId = userResult.data._id.toString();
+      const draft = await this.foodLogService.buildFoodLog(actualUserId, detectedItems);
+      if (!draft.success) {
+        throw createError(draft.error!.message, 500);
+      }
+
+      const { foodLog, unmatchedItems } = draft.data!;
+      if (database.isConnected()) {
+        const conversation = await this.getOrCreateConversation(actualUserId);
+        conversation.context = {
+          ...conversation.context,
+          sessionData: {
+            ...conversation.context.sessionData,
+            pendingFoodLog: { items: detectedItems, createdAt: new Date() } as PendingFoodLog,
+          },
+        };
+        await this.saveConversation(conversation);
+      }
 
       return {
         success: true,
         data: {
-          message: analysisMessage,
-          confidence: 0.8, // Placeholder - would be calculated based on AI confidence
+          message: `📸 Here's what I can see:\n${this.describePendingFoodLog(foodLog, unmatchedItems)}`,
+          detectedItems,
+          foodLog,
+          unmatchedItems,
+          totalCalories: foodLog.totalCalories,
+          confidence: foodLog.analysisConfidence,
         },
       };
     } catch (error: any) {
@@ -701,7 +1742,7 @@ export class ConversationalAIService {
       return {
         success: false,
         error: {
-          code: 'IMAGE_ANALYSIS_ERROR',
+          code: error.statusCode === 400 ? 'INVALID_IMAGE' : 'IMAGE_ANALYSIS_ERROR',
           message: error.message,
           userMessage: 'I\'m having trouble analyzing that image. Could you describe what you\'re eating instead?',
         },
@@ -842,7 +1883,7 @@ export class ConversationalAIService {
     };
   }
 
-  private generateSuggestions(context: ConversationContext, _user: User): string[] {
+  private async generateSuggestions(context: ConversationContext, user: User): Promise<string[]> {
     const suggestions: string[] = [];
 
     switch (context.currentActivity) {
@@ -853,6 +1894,7 @@ export class ConversationalAIService {
         break;
       
       case 'workout':
+        suggestions.push(...(await this.suggestUndertrainedMuscleGroups(user)));
         suggestions.push('I\'m at the gym');
         suggestions.push('Log my workout');
         suggestions.push('What exercise should I do next?');
@@ -877,7 +1919,29 @@ export class ConversationalAIService {
         suggestions.push('Track my progress');
     }
 
-    return suggestions;
+    return suggestions.slice(0, 4);
+  }
+
+  /**
+   * Exercise suggestions for neglected muscle groups, then those below their
+   * recommended weekly sets
+   */
+  private async suggestUndertrainedMuscleGroups(user: User): Promise<string[]> {
+    if (!user._id) {
+      return [];
+    }
+
+    const volumeResult = await this.muscleVolumeService.getWeeklyMuscleVolume(user._id.toString());
+    if (!volumeResult.success) {
+      return [];
+    }
+
+    const { neglected, muscleGroups } = volumeResult.data!;
+    const undertrained = [
+      ...neglected,
+      ...muscleGroups.filter(group => group.status === 'below' && !neglected.includes(group)),
+    ];
+    return undertrained.slice(0, 2).map(group => `Suggest a ${group.muscleGroup} exercise`);
   }
 
   /**
@@ -993,6 +2057,27 @@ export class ConversationalAIService {
     return input.trim(); // Accept any input as time for now
   }
 
+  /**
+   * Read an answer to a proposed deload week: true to accept, false to
+   * postpone. Plain yes/no only counts while a deload is waiting for one.
+   */
+  private parseDeloadReply(input: string, pending: boolean): boolean | null {
+    const lower = input.toLowerCase().trim();
+    if (/\b(accept|take|start)\b.*\bdeload\b/.test(lower)) {
+      return true;
+    }
+    if (/\b(postpone|delay|push|skip)\b.*\bdeload\b/.test(lower)) {
+      return false;
+    }
+    if (!pending) {
+      return null;
+    }
+    if (/^(postpone|later|next week|not yet)\b/.test(lower)) {
+      return false;
+    }
+    return this.parseYesNo(lower);
+  }
+
   /**
    * Parse yes/no response
    */
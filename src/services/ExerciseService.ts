@@ -0,0 +1,237 @@
+import { ObjectId, Filter } from 'mongodb';
+import { database } from '../database/connection';
+import { Exercise, ExerciseLog, ApiResponse } from '../types';
+import { sanitizeString, escapeRegex } from '../utils/validation';
+import { createError } from '../middleware/errorHandler';
+import { ExerciseMatch, matchExercises } from '../utils/exerciseMatcher';
+
+export interface ExerciseSearchFilters {
+  query?: string;
+  muscleGroup?: string;
+  equipment?: string;
+  difficulty?: Exercise['difficulty'];
+  category?: string;
+}
+
+export class ExerciseService {
+  private libraryCache: Exercise[] | null = null;
+
+  private get exercisesCollection() {
+    return database.getSchemas().getExercisesCollection();
+  }
+
+  /**
+   * Search the exercise library by name and attributes
+   */
+  async searchExercises(
+    filters: ExerciseSearchFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<ApiResponse<Exercise[]>> {
+    try {
+      const safePage = Math.max(1, Math.floor(page));
+      const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 100);
+      const filter: Filter<Exercise> = {};
+
+      if (filters.query) {
+        const pattern = new RegExp(escapeRegex(sanitizeString(filters.query)), 'i');
+        filter.$or = [{ name: pattern }, { localNames: pattern }];
+      }
+      if (filters.muscleGroup) {
+        filter.muscleGroups = filters.muscleGroup.toLowerCase();
+      }
+      if (filters.equipment) {
+        filter.equipment = filters.equipment.toLowerCase();
+      }
+      if (filters.difficulty) {
+        filter.difficulty = filters.difficulty;
+      }
+      if (filters.category) {
+        filter.category = filters.category.toLowerCase();
+      }
+
+      const [exercises, total] = await Promise.all([
+        this.exercisesCollection
+          .find(filter)
+          .sort({ name: 1 })
+          .skip((safePage - 1) * safeLimit)
+          .limit(safeLimit)
+          .toArray(),
+        this.exercisesCollection.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        data: exercises,
+        metadata: {
+          page: safePage,
+          limit: safeLimit,
+          total,
+          totalPages: Math.ceil(total / safeLimit),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error searching exercises:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'EXERCISE_SEARCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to search exercises.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Get an exercise by ID
+   */
+  async getExerciseById(exerciseId: string): Promise<ApiResponse<Exercise>> {
+    try {
+      if (!ObjectId.isValid(exerciseId)) {
+        throw createError('Invalid exercise ID format', 400);
+      }
+
+      const exercise = await this.exercisesCollection.findOne({ _id: new ObjectId(exerciseId) });
+
+      if (!exercise) {
+        return {
+          success: false,
+          error: {
+            code: 'EXERCISE_NOT_FOUND',
+            message: 'Exercise not found',
+            userMessage: 'I couldn\'t find that exercise.',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: exercise,
+      };
+    } catch (error: any) {
+      console.error('Error getting exercise:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'EXERCISE_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve that exercise.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Resolve a free-text exercise name to a library exercise by its name or
+   * one of its local names
+   */
+  async resolveExercise(exerciseName: string): Promise<ApiResponse<Exercise>> {
+    try {
+      const name = sanitizeString(exerciseName);
+      if (!name) {
+        throw createError('Exercise name is required', 400);
+      }
+
+      const pattern = new RegExp(`^${escapeRegex(name)}$`, 'i');
+      const exercise = await this.exercisesCollection.findOne({
+        $or: [{ name: pattern }, { localNames: pattern }],
+      });
+
+      if (!exercise) {
+        return {
+          success: false,
+          error: {
+            code: 'EXERCISE_NOT_FOUND',
+            message: `No exercise matches "${name}"`,
+            userMessage: `I don't know "${name}" yet, but I've logged it as you said it.`,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: exercise,
+      };
+    } catch (error: any) {
+      console.error('Error resolving exercise:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'EXERCISE_RESOLVE_ERROR',
+          message: error.message,
+          userMessage: 'Failed to look up that exercise.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Library exercise for a logged exercise, by its ID when it has one and
+   * by the logged name otherwise
+   */
+  async resolveLoggedExercise(log: ExerciseLog): Promise<ApiResponse<Exercise>> {
+    return log.exerciseId
+      ? this.getExerciseById(log.exerciseId.toString())
+      : this.resolveExercise(log.exerciseName);
+  }
+
+  /**
+   * Fuzzy-match free text (typos, abbreviations, plurals, local names) to a
+   * library exercise. The caller decides what to do with a low confidence.
+   */
+  async matchExercise(text: string): Promise<ApiResponse<ExerciseMatch>> {
+    try {
+      const library = await this.getLibrary();
+      const [bestMatch, ...alternatives] = matchExercises(sanitizeString(text), library);
+
+      if (!bestMatch) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_EXERCISE_MATCH',
+            message: `No exercise matches "${text}"`,
+            userMessage: `I don't know "${text}" yet, but I've logged it as you said it.`,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: bestMatch,
+        metadata: {
+          alternatives: alternatives.map(match => ({
+            exerciseId: match.exercise._id,
+            name: match.exercise.name,
+            confidence: match.confidence,
+          })),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error matching exercise:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'EXERCISE_MATCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to look up that exercise.',
+        },
+      };
+    }
+  }
+
+  // Helper methods
+
+  private async getLibrary(): Promise<Exercise[]> {
+    if (this.libraryCache) {
+      return this.libraryCache;
+    }
+
+    const library = await this.exercisesCollection.find({}).toArray();
+    // Only cache once the library has been seeded
+    if (library.length > 0) {
+      this.libraryCache = library;
+    }
+    return library;
+  }
+}
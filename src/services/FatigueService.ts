@@ -0,0 +1,356 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { WorkoutPlan, WorkoutSession, ExerciseLog, DeloadWeek, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { estimateOneRepMax } from '../utils/oneRepMax';
+
+export interface FatigueSignal {
+  type: 'high_rpe' | 'stalled_lifts' | 'missed_reps' | 'volume_drop';
+  reason: string; // shown to the user
+}
+
+export interface FatigueAssessment {
+  signals: FatigueSignal[];
+  needsDeload: boolean;
+  sessionsAnalyzed: number;
+}
+
+const DAY_MS = 86400000;
+// Weeks of history the assessment looks at
+const ASSESSMENT_WEEKS = 6;
+// Independent signals needed before a deload is scheduled
+const SIGNALS_FOR_DELOAD = 2;
+// Minimum weeks of training between deloads
+const WEEKS_BETWEEN_DELOADS = 4;
+
+const HIGH_AVERAGE_RPE = 9;
+const MIN_RPE_SETS = 6;
+const MIN_STALLED_LIFTS = 2;
+const SESSIONS_FOR_STALL = 3; // recent sessions that failed to beat the earlier best
+const MISSED_REPS_SHARE = 0.3;
+const MIN_PLANNED_SETS = 6;
+const VOLUME_DROP_SHARE = 0.75; // last week below this share of the weeks before
+
+export class FatigueService {
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  private get workoutPlansCollection() {
+    return database.getSchemas().getWorkoutPlansCollection();
+  }
+
+  /**
+   * Look for accumulated fatigue in recent workouts: RPE creeping up,
+   * lifts that stopped improving, sets short of the plan's reps and
+   * weekly volume falling away
+   */
+  async assessFatigue(userId: string, now: Date = new Date()): Promise<ApiResponse<FatigueAssessment>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const userObjectId = new ObjectId(userId);
+      const sessions = await this.workoutSessionsCollection
+        .find({
+          userId: userObjectId,
+          startTime: { $gte: new Date(now.getTime() - ASSESSMENT_WEEKS * 7 * DAY_MS), $lte: now },
+        })
+        .sort({ startTime: 1 })
+        .toArray();
+      const plan = await this.workoutPlansCollection.findOne({ userId: userObjectId, isActive: true });
+
+      const signals = [
+        this.checkRpe(sessions, now),
+        this.checkStalledLifts(sessions),
+        plan ? this.checkMissedReps(sessions, plan, now) : undefined,
+        this.checkVolume(sessions, now),
+      ].filter((signal): signal is FatigueSignal => !!signal);
+
+      return {
+        success: true,
+        data: {
+          signals,
+          needsDeload: signals.length >= SIGNALS_FOR_DELOAD,
+          sessionsAnalyzed: sessions.length,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error assessing fatigue:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'FATIGUE_ASSESSMENT_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t check how recovered you are.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Schedule a deload week, starting next Monday, in the user's active plan
+   * when fatigue has built up. Returns null when no deload is needed or one
+   * is already scheduled or recent.
+   */
+  async scheduleDeloadIfNeeded(userId: string, now: Date = new Date()): Promise<ApiResponse<DeloadWeek | null>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const plan = await this.workoutPlansCollection.findOne({ userId: new ObjectId(userId), isActive: true });
+      if (!plan || !this.canScheduleDeload(plan, now)) {
+        return {
+          success: true,
+          data: null,
+        };
+      }
+
+      const assessment = await this.assessFatigue(userId, now);
+      if (!assessment.success) {
+        return {
+          success: false,
+          error: assessment.error,
+        };
+      }
+      if (!assessment.data!.needsDeload) {
+        return {
+          success: true,
+          data: null,
+        };
+      }
+
+      const startDate = this.nextMonday(now);
+      const deload: DeloadWeek = {
+        status: 'pending',
+        startDate,
+        endDate: new Date(startDate.getTime() + 7 * DAY_MS),
+        reasons: assessment.data!.signals.map(signal => signal.reason),
+        scheduledAt: now,
+      };
+
+      await this.workoutPlansCollection.updateOne({ _id: plan._id }, { $set: { deload } });
+
+      return {
+        success: true,
+        data: deload,
+        metadata: {
+          signals: assessment.data!.signals,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error scheduling deload:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'DELOAD_SCHEDULE_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t schedule your deload week.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Accept the pending deload, or postpone it by a week. A postponed deload
+   * can still be accepted, or pushed back again, until it is accepted or its
+   * week has passed.
+   */
+  async respondToDeload(userId: string, accept: boolean, now: Date = new Date()): Promise<ApiResponse<DeloadWeek>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const plan = await this.workoutPlansCollection.findOne({ userId: new ObjectId(userId), isActive: true });
+      if (!plan?.deload || plan.deload.status === 'accepted') {
+        return {
+          success: false,
+          error: {
+            code: 'NO_PENDING_DELOAD',
+            message: 'No deload week is waiting for an answer',
+            userMessage: 'You don\'t have a deload week waiting for an answer.',
+          },
+        };
+      }
+      if (plan.deload.endDate <= now) {
+        return {
+          success: false,
+          error: {
+            code: 'DELOAD_PASSED',
+            message: 'The deload week has already passed',
+            userMessage: 'That deload week has already passed. I\'ll suggest another one if you need it.',
+          },
+        };
+      }
+
+      const deload: DeloadWeek = accept
+        ? { ...plan.deload, status: 'accepted' }
+        : {
+            ...plan.deload,
+            status: 'postponed',
+            startDate: new Date(plan.deload.startDate.getTime() + 7 * DAY_MS),
+            endDate: new Date(plan.deload.endDate.getTime() + 7 * DAY_MS),
+          };
+
+      await this.workoutPlansCollection.updateOne({ _id: plan._id }, { $set: { deload } });
+
+      return {
+        success: true,
+        data: deload,
+      };
+    } catch (error: any) {
+      console.error('Error answering deload:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'DELOAD_UPDATE_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t update your deload week.',
+        },
+      };
+    }
+  }
+
+  // Helper methods
+
+  private canScheduleDeload(plan: WorkoutPlan, now: Date): boolean {
+    if (!plan.deload) {
+      return true;
+    }
+    // Leave room to train between deloads, and never stack a second one
+    const earliestNext = plan.deload.endDate.getTime() + WEEKS_BETWEEN_DELOADS * 7 * DAY_MS;
+    return now.getTime() >= earliestNext;
+  }
+
+  private nextMonday(now: Date): Date {
+    const date = new Date(now);
+    date.setHours(0, 0, 0, 0);
+    const daysUntilMonday = ((8 - date.getDay()) % 7) || 7;
+    date.setDate(date.getDate() + daysUntilMonday);
+    return date;
+  }
+
+  private checkRpe(sessions: WorkoutSession[], now: Date): FatigueSignal | undefined {
+    const rpes = this.since(sessions, now, 14)
+      .flatMap(session => session.exercises.flatMap(log => log.sets))
+      .filter(set => set.rpe !== undefined)
+      .map(set => set.rpe!);
+    if (rpes.length < MIN_RPE_SETS) {
+      return undefined;
+    }
+
+    const average = rpes.reduce((total, rpe) => total + rpe, 0) / rpes.length;
+    if (average < HIGH_AVERAGE_RPE) {
+      return undefined;
+    }
+    return {
+      type: 'high_rpe',
+      reason: `Your sets have averaged RPE ${average.toFixed(1)} over the last two weeks`,
+    };
+  }
+
+  private checkStalledLifts(sessions: WorkoutSession[]): FatigueSignal | undefined {
+    // Best estimated 1RM per session for each exercise, oldest first
+    const bestByExercise = new Map<string, { name: string; estimates: number[] }>();
+    for (const session of sessions) {
+      const sessionBest = new Map<string, { name: string; estimate: number }>();
+      for (const log of session.exercises) {
+        const key = this.exerciseKey(log);
+        for (const set of log.sets) {
+          const estimate = estimateOneRepMax(set.weight, set.reps, set.rpe);
+          if (estimate && estimate > (sessionBest.get(key)?.estimate || 0)) {
+            sessionBest.set(key, { name: log.exerciseName, estimate });
+          }
+        }
+      }
+      for (const [key, { name, estimate }] of sessionBest) {
+        const history = bestByExercise.get(key) || { name, estimates: [] };
+        history.estimates.push(estimate);
+        bestByExercise.set(key, history);
+      }
+    }
+
+    const stalled = [...bestByExercise.values()]
+      .filter(({ estimates }) => {
+        if (estimates.length <= SESSIONS_FOR_STALL) return false;
+        const earlierBest = Math.max(...estimates.slice(0, -SESSIONS_FOR_STALL));
+        const recentBest = Math.max(...estimates.slice(-SESSIONS_FOR_STALL));
+        return recentBest <= earlierBest;
+      })
+      .map(({ name }) => name);
+
+    if (stalled.length < MIN_STALLED_LIFTS) {
+      return undefined;
+    }
+    return {
+      type: 'stalled_lifts',
+      reason: `${stalled.join(', ')} haven't gone up in your last ${SESSIONS_FOR_STALL} sessions`,
+    };
+  }
+
+  private checkMissedReps(sessions: WorkoutSession[], plan: WorkoutPlan, now: Date): FatigueSignal | undefined {
+    // Lowest planned reps for each planned exercise
+    const minimumReps = new Map<string, number>();
+    for (const exercise of plan.schedule.flatMap(day => day.exercises)) {
+      const reps = exercise.reps.match(/\d+/);
+      if (reps) {
+        minimumReps.set(exercise.exerciseId?.toString() || exercise.exerciseName.toLowerCase(), parseInt(reps[0]));
+      }
+    }
+
+    const plannedSets = this.since(sessions, now, 14)
+      .flatMap(session => session.exercises)
+      .flatMap(log => {
+        const minimum = minimumReps.get(this.exerciseKey(log));
+        return minimum === undefined ? [] : log.sets.filter(set => !set.dropSet).map(set => set.reps < minimum);
+      });
+    if (plannedSets.length < MIN_PLANNED_SETS) {
+      return undefined;
+    }
+
+    const missedShare = plannedSets.filter(missed => missed).length / plannedSets.length;
+    if (missedShare < MISSED_REPS_SHARE) {
+      return undefined;
+    }
+    return {
+      type: 'missed_reps',
+      reason: `${Math.round(missedShare * 100)}% of your sets in the last two weeks fell short of the planned reps`,
+    };
+  }
+
+  private checkVolume(sessions: WorkoutSession[], now: Date): FatigueSignal | undefined {
+    const weeklyVolume = [0, 1, 2, 3].map(weeksAgo => {
+      const end = now.getTime() - weeksAgo * 7 * DAY_MS;
+      return sessions
+        .filter(session => session.startTime.getTime() > end - 7 * DAY_MS && session.startTime.getTime() <= end)
+        .flatMap(session => session.exercises.flatMap(log => log.sets))
+        .reduce((total, set) => total + (set.weight || 0) * set.reps, 0);
+    });
+
+    const [lastWeek, ...earlierWeeks] = weeklyVolume;
+    // A week off is rest, not fatigue, and every earlier week needs data to compare
+    if (lastWeek === 0 || earlierWeeks.some(volume => volume === 0)) {
+      return undefined;
+    }
+
+    const earlierAverage = earlierWeeks.reduce((total, volume) => total + volume, 0) / earlierWeeks.length;
+    if (lastWeek >= earlierAverage * VOLUME_DROP_SHARE) {
+      return undefined;
+    }
+    return {
+      type: 'volume_drop',
+      reason: `Your training volume this week is down ${Math.round((1 - lastWeek / earlierAverage) * 100)}% on the weeks before`,
+    };
+  }
+
+  private since(sessions: WorkoutSession[], now: Date, days: number): WorkoutSession[] {
+    return sessions.filter(session => session.startTime.getTime() > now.getTime() - days * DAY_MS);
+  }
+
+  private exerciseKey(log: ExerciseLog): string {
+    return log.exerciseId?.toString() || log.exerciseName.toLowerCase();
+  }
+}
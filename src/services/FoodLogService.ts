@@ -0,0 +1,201 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { FoodLog, LoggedFood, MacroTargets, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { FoodService } from './FoodService';
+import { DetectedFoodItem } from '../utils/foodAnalysis';
+import { portionNutrition } from '../utils/mealPlanner';
+
+export interface FoodLogDraft {
+  foodLog: FoodLog; // not saved yet
+  unmatchedItems: string[]; // names not in the food database
+}
+
+export interface FoodLogOptions {
+  timestamp?: Date;
+  imageUrl?: string;
+}
+
+export class FoodLogService {
+  private foodService: FoodService;
+
+  constructor() {
+    this.foodService = new FoodService();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get foodLogsCollection() {
+    return database.getSchemas().getFoodLogsCollection();
+  }
+
+  /**
+   * Match detected food items against the food database and work out their
+   * nutrition, without saving, so the user can confirm or correct them first
+   */
+  async buildFoodLog(
+    userId: string,
+    items: DetectedFoodItem[],
+    options: FoodLogOptions = {}
+  ): Promise<ApiResponse<FoodLogDraft>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (items.length === 0) {
+        throw createError('At least one food item is required', 400);
+      }
+      const invalidItem = items.find(item => !item.name || !(item.portionGrams > 0));
+      if (invalidItem) {
+        throw createError(`Invalid portion for ${invalidItem.name || 'food item'}`, 400);
+      }
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+
+      const loggedFoods: LoggedFood[] = [];
+      const confidences: number[] = [];
+      const unmatchedItems: string[] = [];
+
+      for (const item of items) {
+        const food = await this.foodService.resolveFood(item.name);
+        if (!food.success) {
+          unmatchedItems.push(item.name);
+          continue;
+        }
+
+        const nutrition = portionNutrition(food.data!, item.portionGrams);
+        loggedFoods.push({
+          foodId: food.data!._id!,
+          foodName: food.data!.name,
+          quantity: item.portionGrams,
+          calories: Math.round(nutrition.calories),
+          macros: this.roundMacros(nutrition.macros),
+        });
+        confidences.push(item.confidence);
+      }
+
+      const foodLog: FoodLog = {
+        userId: user._id!,
+        timestamp: options.timestamp || new Date(),
+        items: loggedFoods,
+        ...(options.imageUrl && { imageUrl: options.imageUrl }),
+        ...(confidences.length > 0 && {
+          analysisConfidence: Math.round((confidences.reduce((total, value) => total + value, 0) / confidences.length) * 100) / 100,
+        }),
+        totalCalories: loggedFoods.reduce((total, food) => total + food.calories, 0),
+        totalMacros: this.roundMacros({
+          protein: loggedFoods.reduce((total, food) => total + food.macros.protein, 0),
+          carbs: loggedFoods.reduce((total, food) => total + food.macros.carbs, 0),
+          fats: loggedFoods.reduce((total, food) => total + food.macros.fats, 0),
+        }),
+      };
+
+      return {
+        success: true,
+        data: { foodLog, unmatchedItems },
+      };
+    } catch (error: any) {
+      console.error('Error building food log:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'FOOD_LOG_BUILD_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t work out the nutrition for that meal.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Save confirmed food items as a food log. Nutrition is worked out again
+   * from the food database, so corrected portions are counted properly.
+   */
+  async saveFoodLog(
+    userId: string,
+    items: DetectedFoodItem[],
+    options: FoodLogOptions = {}
+  ): Promise<ApiResponse<FoodLog>> {
+    try {
+      const draft = await this.buildFoodLog(userId, items, options);
+      if (!draft.success) {
+        return {
+          success: false,
+          error: draft.error,
+        };
+      }
+
+      const { foodLog, unmatchedItems } = draft.data!;
+      if (foodLog.items.length === 0) {
+        return {
+          success: false,
+          error: {
+            code: 'FOOD_NOT_FOUND',
+            message: `No foods match ${unmatchedItems.join(', ')}`,
+            userMessage: 'I don\'t know any of those foods yet, so there\'s nothing to log.',
+          },
+        };
+      }
+
+      const result = await this.foodLogsCollection.insertOne(foodLog);
+
+      return {
+        success: true,
+        data: { ...foodLog, _id: result.insertedId },
+        metadata: {
+          foodLogId: result.insertedId,
+          unmatchedItems,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error saving food log:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'FOOD_LOG_SAVE_ERROR',
+          message: error.message,
+          userMessage: 'Failed to log your meal. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * The logged foods as chat text, one line per food with the total
+   */
+  formatFoodLog(foodLog: FoodLog, unmatchedItems: string[] = []): string {
+    const lines = foodLog.items.map(food => `• ${food.foodName}: ${food.quantity}g, ${food.calories} kcal`);
+
+    if (foodLog.items.length > 0) {
+      lines.push(
+        '',
+        `Total: ${foodLog.totalCalories} kcal · ${foodLog.totalMacros.protein}g protein · ` +
+          `${foodLog.totalMacros.carbs}g carbs · ${foodLog.totalMacros.fats}g fat`
+      );
+    }
+    if (unmatchedItems.length > 0) {
+      lines.push('', `I don't know ${unmatchedItems.join(', ')} yet, so ${unmatchedItems.length === 1 ? 'it isn\'t' : 'they aren\'t'} counted.`);
+    }
+    return lines.join('\n');
+  }
+
+  private roundMacros(macros: MacroTargets): MacroTargets {
+    return {
+      protein: Math.round(macros.protein * 10) / 10,
+      carbs: Math.round(macros.carbs * 10) / 10,
+      fats: Math.round(macros.fats * 10) / 10,
+    };
+  }
+}
@@ -0,0 +1,164 @@
+import { ObjectId, Filter } from 'mongodb';
+import { database } from '../database/connection';
+import { FoodItem, ApiResponse } from '../types';
+import { sanitizeString, escapeRegex } from '../utils/validation';
+import { createError } from '../middleware/errorHandler';
+
+export interface FoodSearchFilters {
+  query?: string;
+  category?: string;
+  availability?: FoodItem['availability'];
+  maxPrice?: number; // per kg in Naira
+}
+
+export class FoodService {
+  private get foodItemsCollection() {
+    return database.getSchemas().getFoodItemsCollection();
+  }
+
+  /**
+   * Search the food database by English or local name and attributes
+   */
+  async searchFoods(
+    filters: FoodSearchFilters,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<ApiResponse<FoodItem[]>> {
+    try {
+      const safePage = Math.max(1, Math.floor(page));
+      const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 100);
+      const filter: Filter<FoodItem> = {};
+
+      if (filters.query) {
+        const pattern = new RegExp(escapeRegex(sanitizeString(filters.query)), 'i');
+        filter.$or = [{ name: pattern }, { localNames: pattern }];
+      }
+      if (filters.category) {
+        filter.category = filters.category.toLowerCase();
+      }
+      if (filters.availability) {
+        filter.availability = filters.availability;
+      }
+      if (filters.maxPrice !== undefined) {
+        if (isNaN(filters.maxPrice) || filters.maxPrice <= 0) {
+          throw createError('Maximum price must be a positive number', 400);
+        }
+        filter.averagePrice = { $lte: filters.maxPrice };
+      }
+
+      const [foods, total] = await Promise.all([
+        this.foodItemsCollection
+          .find(filter)
+          .sort({ name: 1 })
+          .skip((safePage - 1) * safeLimit)
+          .limit(safeLimit)
+          .toArray(),
+        this.foodItemsCollection.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        data: foods,
+        metadata: {
+          page: safePage,
+          limit: safeLimit,
+          total,
+          totalPages: Math.ceil(total / safeLimit),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error searching foods:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'FOOD_SEARCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to search foods.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Get a food by ID
+   */
+  async getFoodById(foodId: string): Promise<ApiResponse<FoodItem>> {
+    try {
+      if (!ObjectId.isValid(foodId)) {
+        throw createError('Invalid food ID format', 400);
+      }
+
+      const food = await this.foodItemsCollection.findOne({ _id: new ObjectId(foodId) });
+
+      if (!food) {
+        return {
+          success: false,
+          error: {
+            code: 'FOOD_NOT_FOUND',
+            message: 'Food not found',
+            userMessage: 'I couldn\'t find that food.',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: food,
+      };
+    } catch (error: any) {
+      console.error('Error getting food:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'FOOD_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve that food.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Resolve a free-text food name, e.g. "iyan" or "jollof", to a food in the
+   * database by its name or one of its local names
+   */
+  async resolveFood(foodName: string): Promise<ApiResponse<FoodItem>> {
+    try {
+      const name = sanitizeString(foodName);
+      if (!name) {
+        throw createError('Food name is required', 400);
+      }
+
+      const pattern = new RegExp(`^${escapeRegex(name)}$`, 'i');
+      const food = await this.foodItemsCollection.findOne({
+        $or: [{ name: pattern }, { localNames: pattern }],
+      });
+
+      if (!food) {
+        return {
+          success: false,
+          error: {
+            code: 'FOOD_NOT_FOUND',
+            message: `No food matches "${name}"`,
+            userMessage: `I don't know "${name}" yet.`,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: food,
+      };
+    } catch (error: any) {
+      console.error('Error resolving food:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'FOOD_RESOLVE_ERROR',
+          message: error.message,
+          userMessage: 'Failed to look up that food.',
+        },
+      };
+    }
+  }
+}
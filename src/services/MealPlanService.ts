@@ -0,0 +1,195 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { MealPlan, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { calculateNutritionTargets } from '../utils/validation';
+import {
+  BudgetTier,
+  DAILY_BUDGETS,
+  CULTURAL_PREFERENCES,
+  buildMeals,
+  calculateMealPlanTargets,
+} from '../utils/mealPlanner';
+
+export interface MealPlanOptions {
+  budgetTier?: BudgetTier;
+  culturalPreferences?: string[]; // keys of CULTURAL_PREFERENCES, e.g. 'no_pork'
+}
+
+const MEAL_ICONS: { [type in MealPlan['meals'][number]['type']]: string } = {
+  breakfast: '🌅',
+  lunch: '☀️',
+  dinner: '🌙',
+  snack: '🍌',
+};
+
+export class MealPlanService {
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get mealPlansCollection() {
+    return database.getSchemas().getMealPlansCollection();
+  }
+
+  private get foodItemsCollection() {
+    return database.getSchemas().getFoodItemsCollection();
+  }
+
+  /**
+   * Generate a day of meals from the food database for the user's calorie
+   * and macro targets and daily budget, and make it the user's only active
+   * meal plan. The budget tier and preferences default to the previous
+   * plan's, and the previous plan's foods are varied where possible.
+   */
+  async generateMealPlan(userId: string, options: MealPlanOptions = {}): Promise<ApiResponse<MealPlan>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (options.budgetTier && !(options.budgetTier in DAILY_BUDGETS)) {
+        throw createError('Budget tier must be low, medium or high', 400);
+      }
+      const unknownPreference = (options.culturalPreferences || []).find(preference => !(preference in CULTURAL_PREFERENCES));
+      if (unknownPreference) {
+        throw createError(`Unknown cultural preference: ${unknownPreference}`, 400);
+      }
+
+      const userObjectId = new ObjectId(userId);
+      const [user, previousPlan] = await Promise.all([
+        this.usersCollection.findOne({ _id: userObjectId }),
+        this.mealPlansCollection.findOne({ userId: userObjectId, isActive: true }),
+      ]);
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+
+      const budgetTier = options.budgetTier || previousPlan?.budgetTier || 'medium';
+      const culturalPreferences = options.culturalPreferences || previousPlan?.culturalPreferences || [];
+      const nutrition = user.nutritionTargets || calculateNutritionTargets(user.profile, user.schedule.workoutDaysPerWeek);
+      const targets = calculateMealPlanTargets(nutrition, budgetTier);
+
+      const foods = await this.foodItemsCollection.find({}).toArray();
+      const meals = buildMeals(foods, targets, {
+        culturalPreferences,
+        avoidFoodIds: previousPlan?.meals.flatMap(meal => meal.foods.map(food => food.foodId.toString())),
+      });
+      if (meals.length === 0) {
+        throw createError('No foods available to plan meals from', 500);
+      }
+
+      const plan: MealPlan = {
+        userId: userObjectId,
+        dailyCalories: targets.dailyCalories,
+        macroTargets: targets.macroTargets,
+        meals,
+        culturalPreferences,
+        budgetTier,
+        createdAt: new Date(),
+        isActive: true,
+      };
+
+      await this.mealPlansCollection.updateMany(
+        { userId: userObjectId, isActive: true },
+        { $set: { isActive: false } }
+      );
+
+      const result = await this.mealPlansCollection.insertOne(plan);
+
+      return {
+        success: true,
+        data: { ...plan, _id: result.insertedId },
+        metadata: {
+          planId: result.insertedId,
+          dailyBudget: targets.dailyBudget,
+          totalCost: meals.reduce((total, meal) => total + meal.cost, 0),
+          previousPlanId: previousPlan?._id,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error generating meal plan:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'MEAL_PLAN_GENERATION_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t create your meal plan right now. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Get the user's active meal plan
+   */
+  async getActiveMealPlan(userId: string): Promise<ApiResponse<MealPlan>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const plan = await this.mealPlansCollection.findOne({
+        userId: new ObjectId(userId),
+        isActive: true,
+      });
+
+      if (!plan) {
+        return {
+          success: false,
+          error: {
+            code: 'MEAL_PLAN_NOT_FOUND',
+            message: 'No active meal plan',
+            userMessage: 'You don\'t have a meal plan yet. Ask me to create one!',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: plan,
+      };
+    } catch (error: any) {
+      console.error('Error getting active meal plan:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'MEAL_PLAN_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your meal plan.',
+        },
+      };
+    }
+  }
+
+  /**
+   * The plan as chat text, one block per meal with portions and cost
+   */
+  formatMealPlan(plan: MealPlan): string {
+    const totalCost = plan.meals.reduce((total, meal) => total + meal.cost, 0);
+    const lines = [
+      `🍽️ Your meal plan (${plan.dailyCalories} kcal, ${plan.macroTargets.protein}g protein)`,
+    ];
+
+    for (const meal of plan.meals) {
+      lines.push(
+        '',
+        `${MEAL_ICONS[meal.type]} ${meal.type.charAt(0).toUpperCase() + meal.type.slice(1)}: ${meal.name}`,
+        ...meal.foods.map(food => `• ${food.foodName}: ${food.quantity}g`),
+        `${meal.totalCalories} kcal · ${meal.macros.protein}g protein · about ₦${meal.cost.toLocaleString('en-NG')}`
+      );
+    }
+
+    lines.push(
+      '',
+      `💰 About ₦${totalCost.toLocaleString('en-NG')} for the day (${plan.budgetTier} budget)`
+    );
+    return lines.join('\n');
+  }
+}
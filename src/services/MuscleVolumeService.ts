@@ -0,0 +1,190 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { UserProfile, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { countMuscleGroupSets } from '../utils/exerciseGroups';
+import { ExerciseService } from './ExerciseService';
+
+export interface SetRange {
+  min: number;
+  max: number;
+}
+
+export interface MuscleGroupVolumeStatus {
+  muscleGroup: string;
+  hardSets: number;
+  recommended: SetRange;
+  status: 'below' | 'within' | 'above';
+  lastTrainedAt?: Date;
+  daysSinceTrained?: number; // unset when not trained in the lookback window
+}
+
+export interface MuscleVolumeReport {
+  from: Date; // the last seven days
+  to: Date;
+  philosophy: UserProfile['trainingPhilosophy'];
+  muscleGroups: MuscleGroupVolumeStatus[]; // fewest hard sets first
+  neglected: MuscleGroupVolumeStatus[]; // not trained for NEGLECTED_AFTER_DAYS or more
+}
+
+const DAY_MS = 86400000;
+
+// Recommended hard sets per muscle group per week
+const RECOMMENDED_WEEKLY_SETS: { [philosophy in UserProfile['trainingPhilosophy']]: SetRange } = {
+  // Heavy Duty: one or two all-out sets per exercise, trained infrequently
+  mentzer: { min: 2, max: 6 },
+  // High volume: many sets for every muscle group
+  arnold: { min: 15, max: 25 },
+  custom: { min: 10, max: 20 },
+};
+
+// Muscle groups every user is checked for, matching the plan templates
+const TRACKED_MUSCLE_GROUPS = [
+  'chest', 'back', 'shoulders', 'biceps', 'triceps',
+  'quads', 'hamstrings', 'glutes', 'calves', 'core',
+];
+// Library groups that aren't muscles to build
+const UNTRACKED_MUSCLE_GROUPS = ['cardio'];
+
+const NEGLECTED_AFTER_DAYS = 7;
+// How far back last-trained dates are looked up
+const LOOKBACK_DAYS = 28;
+
+export class MuscleVolumeService {
+  private exerciseService: ExerciseService;
+
+  constructor() {
+    this.exerciseService = new ExerciseService();
+  }
+
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  /**
+   * Hard sets per muscle group over the last seven days, compared with the
+   * range recommended for the user's training philosophy, and the muscle
+   * groups that haven't been trained in a while
+   */
+  async getWeeklyMuscleVolume(userId: string, date: Date = new Date()): Promise<ApiResponse<MuscleVolumeReport>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (isNaN(date.getTime())) {
+        throw createError('Invalid date', 400);
+      }
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+
+      const from = new Date(date.getTime() - 7 * DAY_MS);
+      const sessions = await this.workoutSessionsCollection
+        .find({
+          userId: user._id!,
+          startTime: { $gte: new Date(date.getTime() - LOOKBACK_DAYS * DAY_MS), $lte: date },
+        })
+        .sort({ startTime: 1 })
+        .toArray();
+
+      const hardSets = new Map<string, number>(TRACKED_MUSCLE_GROUPS.map(group => [group, 0]));
+      const lastTrained = new Map<string, Date>();
+      const muscleGroupsByLog = new Map<string, string[]>();
+
+      for (const session of sessions) {
+        for (const log of session.exercises) {
+          const key = log.exerciseId?.toString() || log.exerciseName.toLowerCase();
+          if (!muscleGroupsByLog.has(key)) {
+            const result = await this.exerciseService.resolveLoggedExercise(log);
+            muscleGroupsByLog.set(
+              key,
+              result.success ? result.data!.muscleGroups.filter(group => !UNTRACKED_MUSCLE_GROUPS.includes(group)) : []
+            );
+          }
+
+          const counts = countMuscleGroupSets(log.sets, muscleGroupsByLog.get(key)!);
+          Object.entries(counts).forEach(([muscleGroup, sets]) => {
+            if (sets === 0) return;
+            lastTrained.set(muscleGroup, session.startTime);
+            if (session.startTime >= from) {
+              hardSets.set(muscleGroup, (hardSets.get(muscleGroup) || 0) + sets);
+            }
+          });
+        }
+      }
+
+      const philosophy = user.profile.trainingPhilosophy;
+      const recommended = RECOMMENDED_WEEKLY_SETS[philosophy] || RECOMMENDED_WEEKLY_SETS.custom;
+      const muscleGroups: MuscleGroupVolumeStatus[] = [...hardSets.entries()]
+        .map(([muscleGroup, sets]) => {
+          const lastTrainedAt = lastTrained.get(muscleGroup);
+          return {
+            muscleGroup,
+            hardSets: sets,
+            recommended,
+            status: sets < recommended.min ? 'below' : sets > recommended.max ? 'above' : 'within',
+            ...(lastTrainedAt && {
+              lastTrainedAt,
+              daysSinceTrained: Math.floor((date.getTime() - lastTrainedAt.getTime()) / DAY_MS),
+            }),
+          } as MuscleGroupVolumeStatus;
+        })
+        .sort((a, b) => a.hardSets - b.hardSets);
+
+      return {
+        success: true,
+        data: {
+          from,
+          to: date,
+          philosophy,
+          muscleGroups,
+          neglected: muscleGroups
+            .filter(group => TRACKED_MUSCLE_GROUPS.includes(group.muscleGroup))
+            .filter(group => group.daysSinceTrained === undefined || group.daysSinceTrained >= NEGLECTED_AFTER_DAYS)
+            // Longest neglected first
+            .sort((a, b) => (b.daysSinceTrained ?? Infinity) - (a.daysSinceTrained ?? Infinity)),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error computing muscle volume:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'MUSCLE_VOLUME_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t work out your training volume.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Chat warning about neglected muscle groups, or undefined when every
+   * group has been trained recently
+   */
+  describeNeglected(report: MuscleVolumeReport, limit: number = 3): string | undefined {
+    if (report.neglected.length === 0) {
+      return undefined;
+    }
+
+    const lines = report.neglected.slice(0, limit).map(group =>
+      group.daysSinceTrained !== undefined
+        ? `⚠️ You haven't trained ${group.muscleGroup} in ${group.daysSinceTrained} days.`
+        : `⚠️ You haven't trained ${group.muscleGroup} in over ${LOOKBACK_DAYS / 7} weeks.`
+    );
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,101 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+
+export interface DailyNutritionBalance {
+  date: Date; // start of the day
+  calorieTarget?: number; // from the active meal plan, otherwise the user's targets
+  caloriesConsumed: number;
+  caloriesBurned: number; // from cardio
+  netCalories: number;
+  remainingCalories?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class NutritionService {
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get mealPlansCollection() {
+    return database.getSchemas().getMealPlansCollection();
+  }
+
+  private get foodLogsCollection() {
+    return database.getSchemas().getFoodLogsCollection();
+  }
+
+  private get cardioLogsCollection() {
+    return database.getSchemas().getCardioLogsCollection();
+  }
+
+  /**
+   * Calories eaten against calories burned for a day. Cardio burned is added
+   * back to the day's allowance, so the remainder is the calorie target less
+   * the net calories.
+   */
+  async getDailyBalance(userId: string, date: Date = new Date()): Promise<ApiResponse<DailyNutritionBalance>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (isNaN(date.getTime())) {
+        throw createError('Invalid date', 400);
+      }
+
+      const userObjectId = new ObjectId(userId);
+      const user = await this.usersCollection.findOne({ _id: userObjectId });
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+
+      const start = new Date(date);
+      start.setHours(0, 0, 0, 0);
+      const end = new Date(start.getTime() + DAY_MS);
+
+      const [mealPlan, foodLogs, cardioLogs] = await Promise.all([
+        this.mealPlansCollection.findOne({ userId: userObjectId, isActive: true }),
+        this.foodLogsCollection.find({ userId: userObjectId, timestamp: { $gte: start, $lt: end } }).toArray(),
+        this.cardioLogsCollection.find({ userId: userObjectId, performedAt: { $gte: start, $lt: end } }).toArray(),
+      ]);
+
+      const calorieTarget = mealPlan?.dailyCalories ?? user.nutritionTargets?.targetCalories;
+      const caloriesConsumed = foodLogs.reduce((total, log) => total + log.totalCalories, 0);
+      const caloriesBurned = cardioLogs.reduce((total, log) => total + log.caloriesBurned, 0);
+      const netCalories = caloriesConsumed - caloriesBurned;
+
+      return {
+        success: true,
+        data: {
+          date: start,
+          ...(calorieTarget !== undefined && {
+            calorieTarget,
+            remainingCalories: calorieTarget - netCalories,
+          }),
+          caloriesConsumed,
+          caloriesBurned,
+          netCalories,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error getting nutrition balance:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'NUTRITION_BALANCE_ERROR',
+          message: error.message,
+          userMessage: 'Failed to work out your calorie balance for the day.',
+        },
+      };
+    }
+  }
+}
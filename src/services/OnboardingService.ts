@@ -1,7 +1,9 @@
 import { UserService } from './UserService';
 import { OpenRouterClient } from './OpenRouterClient';
-import { User, UserProfile, UserSchedule } from '../types';
+import { WorkoutPlanService } from './WorkoutPlanService';
+import { User, UserProfile, UserSchedule, LimitationArea, Gender, ActivityLevel } from '../types';
 import { calculateBMI } from '../utils/validation';
+import { parseLimitationAreas, describeLimitationAreas } from '../utils/limitations';
 
 export type OnboardingStep = 
   | 'welcome'
@@ -11,6 +13,9 @@ export type OnboardingStep =
   | 'gym_time'
   | 'height'
   | 'weight'
+  | 'gender'
+  | 'activity_level'
+  | 'limitations'
   | 'training_philosophy'
   | 'suggest_timetable'
   | 'confirm_schedule'
@@ -26,19 +31,28 @@ export interface OnboardingState {
     height?: number;
     weight?: number;
     bmi?: number;
+    gender?: Gender;
+    age?: number;
+    activityLevel?: ActivityLevel;
+    limitations?: LimitationArea[];
     trainingPhilosophy?: 'mentzer' | 'arnold' | 'custom';
     suggestedTimetable?: string;
     workoutDaysPerWeek?: number;
   };
 }
 
+// In the order of the activity question's menu
+const ACTIVITY_LEVEL_OPTIONS: ActivityLevel[] = ['sedentary', 'light', 'moderate', 'active', 'very_active'];
+
 export class OnboardingService {
   private userService: UserService;
   private openRouterClient: OpenRouterClient;
+  private workoutPlanService: WorkoutPlanService;
 
   constructor() {
     this.userService = new UserService();
     this.openRouterClient = new OpenRouterClient();
+    this.workoutPlanService = new WorkoutPlanService();
   }
 
   /**
@@ -137,8 +151,56 @@ export class OnboardingService {
           }
           newState.data.weight = weight;
           newState.data.bmi = calculateBMI(weight, newState.data.height!);
+          nextStep = 'gender';
+          message = `Perfect! Your BMI is ${newState.data.bmi.toFixed(1)}.\n\nTo work out how many calories you need, are you male or female? Add your age too if you don't mind (e.g., "female, 28")`;
+          break;
+
+        case 'gender':
+          const gender = this.extractGender(userInput);
+          if (!gender) {
+            return {
+              success: false,
+              message: 'Men and women burn calories at different rates, so I need this for your targets. Are you male or female? (e.g., "male, 32")',
+              state: newState,
+            };
+          }
+          newState.data.gender = gender;
+          const age = this.extractAge(userInput);
+          if (age) {
+            newState.data.age = age;
+          }
+          nextStep = 'activity_level';
+          message = 'Got it! How active are you day to day, including your training?\n1. **Sedentary** - desk job, little exercise\n2. **Light** - exercise 1-3 days a week\n3. **Moderate** - exercise 3-5 days a week\n4. **Active** - hard exercise 6-7 days a week\n5. **Very active** - physical job plus training\n\nJust tell me the number!';
+          break;
+
+        case 'activity_level':
+          const activityLevel = this.extractActivityLevel(userInput);
+          if (!activityLevel) {
+            return {
+              success: false,
+              message: 'Please pick how active you are:\n1. Sedentary\n2. Light\n3. Moderate\n4. Active\n5. Very active',
+              state: newState,
+            };
+          }
+          newState.data.activityLevel = activityLevel;
+          nextStep = 'limitations';
+          message = 'Thanks! Do you have any injuries I should train around? (e.g., "lower back", "bad knee", "shoulder impingement" - or just say "none")';
+          break;
+
+        case 'limitations':
+          const noLimitations = /^\s*(none|no|nope|nah|nothing|no injuries)\b/i.test(userInput);
+          const limitationAreas = noLimitations ? [] : parseLimitationAreas(userInput);
+          if (!noLimitations && limitationAreas.length === 0) {
+            return {
+              success: true,
+              message: 'I didn\'t catch which area is injured. Is it your lower back, knee, shoulder, wrist, elbow, hip, ankle or neck? Say "none" if you don\'t have any injuries.',
+              state: newState,
+            };
+          }
+
+          newState.data.limitations = limitationAreas;
           nextStep = 'training_philosophy';
-          message = `Perfect! Your BMI is ${newState.data.bmi.toFixed(1)}.\n\nNow, I'd like to know your training philosophy. Do you prefer:\n1. **Arnold's approach** - High volume, multiple sets and exercises per muscle group\n2. **Mike Mentzer's approach** - High intensity, low volume, training to failure\n3. **Not sure / Balanced** - A mix of both approaches\n\nJust tell me which number or the name!`;
+          message = `${limitationAreas.length > 0 ? `Got it, I'll keep your ${describeLimitationAreas(limitationAreas)} safe.` : 'Great, no injuries!'}\n\nNow, I'd like to know your training philosophy. Do you prefer:\n1. **Arnold's approach** - High volume, multiple sets and exercises per muscle group\n2. **Mike Mentzer's approach** - High intensity, low volume, training to failure\n3. **Not sure / Balanced** - A mix of both approaches\n\nJust tell me which number or the name!`;
           break;
 
         case 'training_philosophy':
@@ -157,7 +219,7 @@ export class OnboardingService {
             message = `Great choice! ${philosophy === 'arnold' ? 'Arnold\'s high-volume approach' : philosophy === 'mentzer' ? 'Mike Mentzer\'s high-intensity approach' : 'A balanced approach'} it is! 💪\n\nSince you don't have a current timetable, would you like me to suggest a 3-day plan or a full week plan? Just say "3 days" or "1 week".`;
           } else {
             nextStep = 'confirm_schedule';
-            message = `Perfect! I've got all your information. Let me confirm what I have:\n\n• Name: ${newState.data.name}\n• Current Schedule: ${newState.data.currentTimetable}\n• Gym Time: ${newState.data.gymTime}\n• Training Philosophy: ${philosophy === 'arnold' ? 'Arnold (High Volume)' : philosophy === 'mentzer' ? 'Mentzer (High Intensity)' : 'Balanced'}\n\nDoes this look correct? Say "yes" to continue or "no" to make changes.`;
+            message = `Perfect! I've got all your information. Let me confirm what I have:\n\n• Name: ${newState.data.name}\n• Current Schedule: ${newState.data.currentTimetable}\n• Gym Time: ${newState.data.gymTime}\n• Training Philosophy: ${philosophy === 'arnold' ? 'Arnold (High Volume)' : philosophy === 'mentzer' ? 'Mentzer (High Intensity)' : 'Balanced'}\n• Injuries: ${this.describeOnboardingLimitations(newState)}\n\nDoes this look correct? Say "yes" to continue or "no" to make changes.`;
           }
           break;
 
@@ -175,7 +237,7 @@ export class OnboardingService {
             ? '3-day split (e.g., Monday, Wednesday, Friday)'
             : '6-day split (e.g., Monday-Saturday)';
           nextStep = 'confirm_schedule';
-          message = `Excellent! I'll create a ${planType === '3' ? '3-day' : '6-day'} workout plan for you.\n\nLet me confirm what I have:\n\n• Name: ${newState.data.name}\n• Gym Time: ${newState.data.gymTime}\n• Training Philosophy: ${newState.data.trainingPhilosophy === 'arnold' ? 'Arnold (High Volume)' : newState.data.trainingPhilosophy === 'mentzer' ? 'Mentzer (High Intensity)' : 'Balanced'}\n• Workout Plan: ${newState.data.suggestedTimetable}\n\nDoes this look correct? Say "yes" to finish setup or "no" to make changes.`;
+          message = `Excellent! I'll create a ${planType === '3' ? '3-day' : '6-day'} workout plan for you.\n\nLet me confirm what I have:\n\n• Name: ${newState.data.name}\n• Gym Time: ${newState.data.gymTime}\n• Training Philosophy: ${newState.data.trainingPhilosophy === 'arnold' ? 'Arnold (High Volume)' : newState.data.trainingPhilosophy === 'mentzer' ? 'Mentzer (High Intensity)' : 'Balanced'}\n• Injuries: ${this.describeOnboardingLimitations(newState)}\n• Workout Plan: ${newState.data.suggestedTimetable}\n\nDoes this look correct? Say "yes" to finish setup or "no" to make changes.`;
           break;
 
         case 'confirm_schedule':
@@ -192,8 +254,14 @@ export class OnboardingService {
             // Create user profile
             const userResult = await this.createUserFromOnboarding(telegramId, newState);
             if (userResult.success) {
+              // Build a starting plan from the onboarding answers; the profile is saved either way
+              const planResult = userResult.user?._id
+                ? await this.workoutPlanService.generatePlan(userResult.user._id.toString())
+                : undefined;
+              const planDays = planResult?.success ? planResult.data!.schedule.map(day => day.dayOfWeek).join(', ') : '';
+
               nextStep = 'complete';
-              message = `Perfect! 🎉 Your profile is all set up!\n\nI'll be your fitness partner and check in with you at ${newState.data.gymTime}. When you're at the gym, just let me know and I'll help you track your workouts!\n\nYou can start by saying "I'm at the gym" when you're ready to work out, or ask me anything about fitness! 💪`;
+              message = `Perfect! 🎉 Your profile is all set up!\n\n${planDays ? `I've created your workout plan for ${planDays}.\n\n` : ''}I'll be your fitness partner and check in with you at ${newState.data.gymTime}. When you're at the gym, just let me know and I'll help you track your workouts!\n\nYou can start by saying "I'm at the gym" when you're ready to work out, or ask me anything about fitness! 💪`;
               return {
                 success: true,
                 message,
@@ -280,13 +348,16 @@ export class OnboardingService {
         telegramId,
         profile: {
           name: state.data.name || 'User',
-          age: 25, // Default, can be updated later
+          age: state.data.age || 25, // Default when not given, can be updated later
           height: state.data.height!,
           weight: state.data.weight!,
           bmi: state.data.bmi!,
           fitnessGoal: 'maintain', // Default, can be updated later
           trainingPhilosophy: state.data.trainingPhilosophy || 'custom',
           experienceLevel: 'beginner', // Default, can be updated later
+          gender: state.data.gender,
+          activityLevel: state.data.activityLevel,
+          limitations: (state.data.limitations || []).map(area => ({ area, since: new Date() })),
         },
         schedule: {
           workDays: workoutDays,
@@ -406,6 +477,46 @@ export class OnboardingService {
     return null;
   }
 
+  private extractGender(input: string): Gender | null {
+    const lower = input.toLowerCase().trim();
+    // "m" and "f" only count at the start of the answer ("f, 28"), so "I'm 30" isn't read as male
+    if (/\b(female|woman|lady|girl)\b/.test(lower) || /^f\b/.test(lower)) return 'female';
+    if (/\b(male|man|guy|boy)\b/.test(lower) || /^m\b/.test(lower)) return 'male';
+    return null;
+  }
+
+  private extractAge(input: string): number | null {
+    const match = input.match(/\b(\d{2})\b/);
+    if (!match) return null;
+    const age = parseInt(match[1]);
+    return age >= 13 && age <= 100 ? age : null;
+  }
+
+  private extractActivityLevel(input: string): ActivityLevel | null {
+    const lower = input.toLowerCase().trim();
+
+    // A bare menu number; digits elsewhere are day ranges like "1-3 days"
+    const option = lower.match(/^([1-5])\W*$/);
+    if (option) {
+      return ACTIVITY_LEVEL_OPTIONS[parseInt(option[1]) - 1];
+    }
+
+    // Most specific wording first, so "not very active" isn't read as "very active"
+    if (/\bnot (very|that|really|too) active\b/.test(lower)) return 'light';
+    if (/\b(not active|inactive|sedentary|desk)\b/.test(lower)) return 'sedentary';
+    if (/\b(very active|physical job)\b/.test(lower)) return 'very_active';
+    if (/\bmoderate(ly)?\b/.test(lower)) return 'moderate';
+    if (/\blight(ly)?\b/.test(lower)) return 'light';
+    if (/\bactive\b/.test(lower)) return 'active';
+
+    return null;
+  }
+
+  private describeOnboardingLimitations(state: OnboardingState): string {
+    const areas = state.data.limitations || [];
+    return areas.length > 0 ? describeLimitationAreas(areas) : 'None';
+  }
+
   private extractTrainingPhilosophy(input: string): 'mentzer' | 'arnold' | 'custom' | null {
     const lower = input.toLowerCase().trim();
     
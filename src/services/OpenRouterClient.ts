@@ -1,9 +1,16 @@
 import { config } from '../config';
 import { createError } from '../middleware/errorHandler';
+import { Limitation } from '../types';
+import { describeLimitationAreas } from '../utils/limitations';
+
+// Multimodal message content, e.g. a prompt with a photo
+export type OpenRouterContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
 
 export interface OpenRouterMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string;
+  content: string | OpenRouterContentPart[];
 }
 
 export interface OpenRouterResponse {
@@ -13,7 +20,10 @@ export interface OpenRouterResponse {
   model: string;
   choices: {
     index: number;
-    message: OpenRouterMessage;
+    message: {
+      role: OpenRouterMessage['role'];
+      content: string;
+    };
     finish_reason: string;
   }[];
   usage: {
@@ -149,7 +159,8 @@ export class OpenRouterClient {
   }
 
   /**
-   * Analyze an image using OpenRouter vision models
+   * Analyze an image using OpenRouter vision models. The image is sent as an
+   * image content part alongside the prompt, as a data URL of its MIME type.
    */
   async analyzeImage(
     imageBase64: string,
@@ -158,6 +169,7 @@ export class OpenRouterClient {
       model?: string;
       temperature?: number;
       maxTokens?: number;
+      mimeType?: string;
     } = {}
   ): Promise<OpenRouterResponse> {
     try {
@@ -165,14 +177,16 @@ export class OpenRouterClient {
         model = 'anthropic/claude-3.5-sonnet',
         temperature = 0.3,
         maxTokens = 1000,
+        mimeType = 'image/jpeg',
       } = options;
 
       const messages: OpenRouterMessage[] = [
         {
           role: 'user',
-          content: `${prompt}
-
-Image data: data:image/jpeg;base64,${imageBase64}`,
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${imageBase64}` } },
+          ],
         },
       ];
 
@@ -279,6 +293,11 @@ Remember: You're not just answering questions, you're having a conversation with
 - BMI Category: ${this.getBMICategory(userProfile.bmi)}
 - Conversation Style: ${userProfile.conversationStyle || 'casual'}
 - Humor Enabled: ${userProfile.humorEnabled ? 'Yes' : 'No'}`;
+
+      if (userProfile.limitations?.length) {
+        const areas = describeLimitationAreas(userProfile.limitations.map((limitation: Limitation) => limitation.area));
+        enhancedPrompt += `\n- Injuries/Limitations: ${areas}. Never suggest exercises that load these areas.`;
+      }
     }
 
     if (currentActivity) {
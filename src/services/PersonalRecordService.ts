@@ -0,0 +1,260 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { PersonalRecord, WorkoutSession, ExerciseLog, SetLog, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { escapeRegex } from '../utils/validation';
+import { estimateOneRepMax } from '../utils/oneRepMax';
+
+interface ExerciseHistory {
+  sets: SetLog[]; // every earlier set of the exercise, this session included
+  bestSessionVolume: number; // best volume in an earlier session
+  hasEarlierSessions: boolean;
+}
+
+export class PersonalRecordService {
+  private get personalRecordsCollection() {
+    return database.getSchemas().getPersonalRecordsCollection();
+  }
+
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  /**
+   * Compare newly logged sets against the user's history for the same
+   * exercise and store any new records: heaviest weight, most reps at a
+   * weight, estimated 1RM and session volume. The first session of an
+   * exercise only sets the baseline.
+   *
+   * `exerciseLog` is the session's log after the new sets were appended.
+   */
+  async checkForRecords(
+    session: WorkoutSession,
+    exerciseLog: ExerciseLog,
+    newSets: SetLog[]
+  ): Promise<ApiResponse<PersonalRecord[]>> {
+    try {
+      if (!session._id) {
+        throw createError('Workout session must be saved before checking records', 400);
+      }
+
+      const history = await this.getHistory(session, exerciseLog, newSets.length);
+      if (!history.hasEarlierSessions) {
+        return {
+          success: true,
+          data: [],
+        };
+      }
+
+      const records: PersonalRecord[] = [];
+      const newRecord = (
+        type: PersonalRecord['type'],
+        value: number,
+        previousValue: number,
+        set?: SetLog
+      ): PersonalRecord => ({
+        userId: session.userId,
+        ...(exerciseLog.exerciseId && { exerciseId: exerciseLog.exerciseId }),
+        exerciseName: exerciseLog.exerciseName,
+        type,
+        value,
+        ...(set?.weight !== undefined && { weight: set.weight }),
+        ...(set && { reps: set.reps }),
+        previousValue,
+        sessionId: session._id!,
+        achievedAt: new Date(),
+      });
+
+      // Heaviest weight
+      const previousMaxWeight = Math.max(0, ...history.sets.map(set => set.weight || 0));
+      const heaviestSet = this.bestSet(newSets, set => set.weight || 0);
+      if (previousMaxWeight > 0 && heaviestSet && heaviestSet.weight! > previousMaxWeight) {
+        records.push(newRecord('max_weight', heaviestSet.weight!, previousMaxWeight, heaviestSet));
+      }
+
+      // Most reps at a weight, compared with earlier sets at that weight or
+      // heavier. A new heaviest weight has nothing to compare with.
+      let repsRecord: { set: SetLog; previousReps: number } | undefined;
+      for (const set of newSets) {
+        const weight = set.weight || 0;
+        const comparable = history.sets.filter(earlier => (earlier.weight || 0) >= weight);
+        if (comparable.length === 0) continue;
+
+        const previousReps = Math.max(...comparable.map(earlier => earlier.reps));
+        if (set.reps > previousReps && (!repsRecord || weight > (repsRecord.set.weight || 0))) {
+          repsRecord = { set, previousReps };
+        }
+      }
+      if (repsRecord) {
+        records.push(newRecord('reps_at_weight', repsRecord.set.reps, repsRecord.previousReps, repsRecord.set));
+      }
+
+      // Estimated 1RM
+      const previousBestEstimate = Math.max(0, ...history.sets.map(set => estimateOneRepMax(set.weight, set.reps, set.rpe) || 0));
+      const bestEstimateSet = this.bestSet(newSets, set => estimateOneRepMax(set.weight, set.reps, set.rpe) || 0);
+      const bestEstimate = bestEstimateSet ? estimateOneRepMax(bestEstimateSet.weight, bestEstimateSet.reps, bestEstimateSet.rpe) : undefined;
+      if (previousBestEstimate > 0 && bestEstimate && bestEstimate > previousBestEstimate) {
+        records.push(newRecord('estimated_1rm', bestEstimate, previousBestEstimate, bestEstimateSet));
+      }
+
+      // Session volume, reported once when this session first passes the best
+      const volumeAfter = this.volume(exerciseLog.sets);
+      const volumeBefore = this.volume(exerciseLog.sets.slice(0, exerciseLog.sets.length - newSets.length));
+      if (history.bestSessionVolume > 0 && volumeBefore <= history.bestSessionVolume && volumeAfter > history.bestSessionVolume) {
+        records.push(newRecord('session_volume', volumeAfter, history.bestSessionVolume));
+      }
+
+      if (records.length > 0) {
+        const result = await this.personalRecordsCollection.insertMany(records);
+        records.forEach((record, index) => {
+          record._id = result.insertedIds[index];
+        });
+      }
+
+      return {
+        success: true,
+        data: records,
+      };
+    } catch (error: any) {
+      console.error('Error checking personal records:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'PERSONAL_RECORD_CHECK_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t check your personal records.',
+        },
+      };
+    }
+  }
+
+  /**
+   * List a user's personal records, newest first
+   */
+  async getRecordsForUser(userId: string, exerciseName?: string): Promise<ApiResponse<PersonalRecord[]>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const filter: any = { userId: new ObjectId(userId) };
+      if (exerciseName) {
+        filter.exerciseName = { $regex: `^${escapeRegex(exerciseName)}$`, $options: 'i' };
+      }
+
+      const records = await this.personalRecordsCollection
+        .find(filter)
+        .sort({ achievedAt: -1 })
+        .toArray();
+
+      return {
+        success: true,
+        data: records,
+      };
+    } catch (error: any) {
+      console.error('Error listing personal records:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'PERSONAL_RECORD_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your personal records.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Records set during one workout session, in the order they were set
+   */
+  async getRecordsForSession(sessionId: string): Promise<ApiResponse<PersonalRecord[]>> {
+    try {
+      if (!ObjectId.isValid(sessionId)) {
+        throw createError('Invalid session ID format', 400);
+      }
+
+      const records = await this.personalRecordsCollection
+        .find({ sessionId: new ObjectId(sessionId) })
+        .sort({ achievedAt: 1 })
+        .toArray();
+
+      return {
+        success: true,
+        data: records,
+      };
+    } catch (error: any) {
+      console.error('Error listing session personal records:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'PERSONAL_RECORD_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your personal records.',
+        },
+      };
+    }
+  }
+
+  // Helper methods
+
+  private async getHistory(
+    session: WorkoutSession,
+    exerciseLog: ExerciseLog,
+    newSetCount: number
+  ): Promise<ExerciseHistory> {
+    const earlierSessions = await this.workoutSessionsCollection
+      .find({
+        userId: session.userId,
+        _id: { $ne: session._id },
+        startTime: { $lt: session.startTime },
+        $or: [
+          ...(exerciseLog.exerciseId ? [{ 'exercises.exerciseId': exerciseLog.exerciseId }] : []),
+          { 'exercises.exerciseName': { $regex: `^${escapeRegex(exerciseLog.exerciseName)}$`, $options: 'i' } },
+        ],
+      })
+      .toArray();
+
+    const sets: SetLog[] = [];
+    let bestSessionVolume = 0;
+    let hasEarlierSessions = false;
+
+    for (const earlierSession of earlierSessions) {
+      const logs = earlierSession.exercises.filter(log => this.isSameExercise(log, exerciseLog));
+      if (logs.length === 0) continue;
+
+      hasEarlierSessions = true;
+      const sessionSets = logs.flatMap(log => log.sets);
+      sets.push(...sessionSets);
+      bestSessionVolume = Math.max(bestSessionVolume, this.volume(sessionSets));
+    }
+
+    // Sets logged earlier in this session count too
+    for (const log of session.exercises) {
+      if (log === exerciseLog) {
+        sets.push(...log.sets.slice(0, log.sets.length - newSetCount));
+      } else if (this.isSameExercise(log, exerciseLog)) {
+        sets.push(...log.sets);
+      }
+    }
+
+    return { sets, bestSessionVolume, hasEarlierSessions };
+  }
+
+  private bestSet(sets: SetLog[], score: (set: SetLog) => number): SetLog | undefined {
+    return sets.reduce<SetLog | undefined>(
+      (best, set) => (score(set) > 0 && (!best || score(set) > score(best)) ? set : best),
+      undefined
+    );
+  }
+
+  private volume(sets: SetLog[]): number {
+    return sets.reduce((total, set) => total + (set.weight || 0) * set.reps, 0);
+  }
+
+  private isSameExercise(log: ExerciseLog, other: ExerciseLog): boolean {
+    if (log.exerciseId && other.exerciseId) {
+      return log.exerciseId.equals(other.exerciseId);
+    }
+    return log.exerciseName.toLowerCase() === other.exerciseName.toLowerCase();
+  }
+}
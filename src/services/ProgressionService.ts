@@ -0,0 +1,264 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { WorkoutPlan, WorkoutDay, PlannedExercise, ExerciseLog, SetLog, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { escapeRegex } from '../utils/validation';
+import { WorkoutPlanService } from './WorkoutPlanService';
+
+export interface ExerciseTarget {
+  exerciseName: string;
+  exerciseId?: ObjectId;
+  sets: number;
+  targetReps: number;
+  targetWeight?: number; // kg, unset for bodyweight or a first attempt
+  toFailure: boolean;
+  lastSession?: {
+    date: Date;
+    weight?: number;
+    reps: number[]; // reps of each set at that weight
+  };
+  note: string;
+}
+
+interface RepRange {
+  min: number;
+  max: number;
+}
+
+const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DEFAULT_REP_RANGE: RepRange = { min: 8, max: 12 };
+
+// Smallest jump most gyms can load, in kg
+const PLATE_INCREMENT = 2.5;
+// Weight jump once the top of the rep range is reached, as a share of the weight
+const PROGRESSION_RATE = 0.025;
+// Share of the usual weight lifted during a deload week
+const DELOAD_WEIGHT_SHARE = 0.9;
+
+export class ProgressionService {
+  private workoutPlanService: WorkoutPlanService;
+
+  constructor() {
+    this.workoutPlanService = new WorkoutPlanService();
+  }
+
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  /**
+   * Suggest target weight and reps for each exercise in today's planned
+   * workout (or the next planned one on a rest day) from the last session
+   * that included it. Mentzer plans aim to beat last time's reps to
+   * failure; other plans use double progression. The session being
+   * started is left out of the history.
+   */
+  async getSessionTargets(
+    userId: string,
+    currentSessionId?: string,
+    date: Date = new Date()
+  ): Promise<ApiResponse<ExerciseTarget[]>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const planResult = await this.workoutPlanService.getActivePlan(userId);
+      if (!planResult.success) {
+        return {
+          success: false,
+          error: planResult.error,
+        };
+      }
+      const plan = planResult.data!;
+
+      const workoutDay = this.findWorkoutDay(plan, date);
+      if (!workoutDay) {
+        return {
+          success: true,
+          data: [],
+        };
+      }
+
+      const deloadWeek = this.isDeloadWeek(plan, date);
+      const targets: ExerciseTarget[] = [];
+      for (const plannedExercise of workoutDay.exercises) {
+        const lastLog = await this.findLastLog(new ObjectId(userId), plannedExercise, currentSessionId);
+        const target = this.buildTarget(plan.philosophy, plannedExercise, lastLog);
+        targets.push(deloadWeek ? this.deloadTarget(target) : target);
+      }
+
+      return {
+        success: true,
+        data: targets,
+        metadata: {
+          dayOfWeek: workoutDay.dayOfWeek,
+          muscleGroups: workoutDay.muscleGroups,
+          philosophy: plan.philosophy,
+          deloadWeek,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error building session targets:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SESSION_TARGETS_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t work out today\'s targets.',
+        },
+      };
+    }
+  }
+
+  // Helper methods
+
+  private findWorkoutDay(plan: WorkoutPlan, date: Date): WorkoutDay | undefined {
+    for (let offset = 0; offset < WEEK_DAYS.length; offset++) {
+      const dayOfWeek = WEEK_DAYS[(date.getDay() + offset) % WEEK_DAYS.length];
+      const workoutDay = plan.schedule.find(day => day.dayOfWeek === dayOfWeek);
+      if (workoutDay) {
+        return workoutDay;
+      }
+    }
+    return undefined;
+  }
+
+  private async findLastLog(
+    userId: ObjectId,
+    plannedExercise: PlannedExercise,
+    currentSessionId?: string
+  ): Promise<{ date: Date; sets: SetLog[] } | undefined> {
+    const namePattern = new RegExp(`^${escapeRegex(plannedExercise.exerciseName)}$`, 'i');
+    const matchesExercise = (log: ExerciseLog) =>
+      plannedExercise.exerciseId && log.exerciseId
+        ? log.exerciseId.equals(plannedExercise.exerciseId)
+        : namePattern.test(log.exerciseName);
+
+    const session = await this.workoutSessionsCollection.findOne(
+      {
+        userId,
+        ...(currentSessionId && ObjectId.isValid(currentSessionId) && { _id: { $ne: new ObjectId(currentSessionId) } }),
+        $or: [
+          ...(plannedExercise.exerciseId ? [{ 'exercises.exerciseId': plannedExercise.exerciseId }] : []),
+          { 'exercises.exerciseName': namePattern },
+        ],
+      },
+      { sort: { startTime: -1 } }
+    );
+    if (!session) {
+      return undefined;
+    }
+
+    // Drop sets are back-off work, not what progression is measured on
+    const sets = session.exercises
+      .filter(matchesExercise)
+      .flatMap(log => log.sets)
+      .filter(set => !set.dropSet);
+    return sets.length > 0 ? { date: session.startTime, sets } : undefined;
+  }
+
+  private buildTarget(
+    philosophy: WorkoutPlan['philosophy'],
+    plannedExercise: PlannedExercise,
+    lastLog?: { date: Date; sets: SetLog[] }
+  ): ExerciseTarget {
+    const range = this.parseRepRange(plannedExercise.reps);
+    const toFailure = philosophy === 'mentzer' || /failure/i.test(plannedExercise.reps);
+    const target: ExerciseTarget = {
+      exerciseName: plannedExercise.exerciseName,
+      ...(plannedExercise.exerciseId && { exerciseId: plannedExercise.exerciseId }),
+      sets: plannedExercise.sets,
+      targetReps: range.min,
+      toFailure,
+      note: `First time on the plan: pick a weight you can lift for ${range.min}-${range.max} good reps.`,
+    };
+
+    if (!lastLog) {
+      return target;
+    }
+
+    // Progress from the heaviest weight used last time
+    const topWeight = Math.max(0, ...lastLog.sets.map(set => set.weight || 0));
+    const topSets = lastLog.sets.filter(set => (set.weight || 0) === topWeight);
+    const reps = topSets.map(set => set.reps);
+    target.lastSession = {
+      date: lastLog.date,
+      ...(topWeight > 0 && { weight: topWeight }),
+      reps,
+    };
+
+    const lastWeight = topWeight > 0 ? `${topWeight}kg` : 'bodyweight';
+    if (philosophy === 'mentzer') {
+      const bestReps = Math.max(...reps);
+      if (topWeight > 0 && bestReps >= range.max) {
+        target.targetWeight = this.increaseWeight(topWeight);
+        target.targetReps = range.min;
+        target.note = `You hit ${bestReps} reps at ${lastWeight}. Go up to ${target.targetWeight}kg and take it to failure.`;
+      } else {
+        if (topWeight > 0) target.targetWeight = topWeight;
+        target.targetReps = bestReps + 1;
+        target.note = `Beat last time's ${bestReps} reps at ${lastWeight}: aim for ${target.targetReps}+ to failure.`;
+      }
+      return target;
+    }
+
+    // Double progression: add reps at the same weight until every set
+    // reaches the top of the range, then add weight
+    const lowestReps = Math.min(...reps);
+    const allSetsAtTop = topSets.length >= plannedExercise.sets && lowestReps >= range.max;
+    if (topWeight > 0 && allSetsAtTop) {
+      target.targetWeight = this.increaseWeight(topWeight);
+      target.targetReps = range.min;
+      target.note = `All sets hit ${range.max} at ${lastWeight}. Move up to ${target.targetWeight}kg for ${range.min}+ reps.`;
+    } else {
+      if (topWeight > 0) target.targetWeight = topWeight;
+      target.targetReps = topWeight > 0
+        ? Math.min(range.max, Math.max(range.min, lowestReps + 1))
+        : lowestReps + 1;
+      target.note = `Stay at ${lastWeight} and get ${target.targetReps} reps on every set (last time: ${reps.join(', ')}).`;
+    }
+    return target;
+  }
+
+  private isDeloadWeek(plan: WorkoutPlan, date: Date): boolean {
+    const deload = plan.deload;
+    return !!deload
+      && deload.status !== 'pending' // postponed weeks go ahead on their new dates
+      && date >= deload.startDate
+      && date < deload.endDate;
+  }
+
+  /**
+   * Halve the sets and back off the weight so the week is for recovery
+   */
+  private deloadTarget(target: ExerciseTarget): ExerciseTarget {
+    const targetWeight = target.targetWeight
+      ? Math.max(PLATE_INCREMENT, Math.round((target.targetWeight * DELOAD_WEIGHT_SHARE) / PLATE_INCREMENT) * PLATE_INCREMENT)
+      : undefined;
+    return {
+      ...target,
+      sets: Math.ceil(target.sets / 2),
+      targetWeight,
+      toFailure: false,
+      note: `Deload week: ${Math.ceil(target.sets / 2)} easy sets${targetWeight ? ` at ${targetWeight}kg` : ''}, stop well short of failure.`,
+    };
+  }
+
+  private parseRepRange(reps: string): RepRange {
+    const range = reps.match(/(\d+)\s*-\s*(\d+)/);
+    if (range) {
+      return { min: parseInt(range[1]), max: parseInt(range[2]) };
+    }
+    const single = reps.match(/\d+/);
+    if (single) {
+      return { min: parseInt(single[0]), max: parseInt(single[0]) };
+    }
+    return DEFAULT_REP_RANGE;
+  }
+
+  private increaseWeight(weight: number): number {
+    const increment = Math.max(PLATE_INCREMENT, Math.round((weight * PROGRESSION_RATE) / PLATE_INCREMENT) * PLATE_INCREMENT);
+    return weight + increment;
+  }
+}
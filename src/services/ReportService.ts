@@ -0,0 +1,363 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { ExerciseLog, WorkoutSession, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { estimateOneRepMax } from '../utils/oneRepMax';
+import { countWorkingSets, countMuscleGroupSets } from '../utils/exerciseGroups';
+import { ExerciseService } from './ExerciseService';
+
+export interface WeeklyTotals {
+  sessionsCompleted: number;
+  totalSets: number; // drop sets count with the set they continue
+  totalVolume: number; // kg, weight x reps over every set
+}
+
+export interface MuscleGroupVolume {
+  muscleGroup: string;
+  sets: number; // hard sets, as counted for the muscle volume check
+  volume: number; // kg
+}
+
+export interface TopLift {
+  exerciseName: string;
+  weight: number;
+  reps: number;
+  estimatedOneRepMax: number;
+}
+
+export interface WeeklyReport extends WeeklyTotals {
+  userId: ObjectId;
+  weekStart: Date; // Monday 00:00
+  weekEnd: Date; // the following Monday 00:00
+  targetSessions: number; // the user's workoutDaysPerWeek
+  muscleGroups: MuscleGroupVolume[]; // most sets first
+  topLifts: TopLift[]; // best estimated one-rep maxes of the week
+  streakWeeks: number; // consecutive weeks, up to this one, that hit the target
+  previousWeek: WeeklyTotals;
+  change: {
+    sessions: number;
+    volumePercent?: number; // unset when there was no volume the week before
+  };
+}
+
+const DAY_MS = 86400000;
+const TOP_LIFT_COUNT = 3;
+// How far back the consistency streak is counted
+const STREAK_LOOKBACK_WEEKS = 52;
+// Weekly reports go out on Sunday from this hour
+const WEEKLY_REPORT_DAY = 0;
+const WEEKLY_REPORT_HOUR = 18;
+
+export class ReportService {
+  private exerciseService: ExerciseService;
+
+  constructor() {
+    this.exerciseService = new ExerciseService();
+  }
+
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get weeklyReportsCollection() {
+    return database.getSchemas().getWeeklyReportsCollection();
+  }
+
+  /**
+   * Training report for the Monday-to-Sunday week containing date, from
+   * completed workout sessions
+   */
+  async getWeeklyReport(userId: string, date: Date = new Date()): Promise<ApiResponse<WeeklyReport>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (isNaN(date.getTime())) {
+        throw createError('Invalid report date', 400);
+      }
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        return {
+          success: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            userMessage: 'I couldn\'t find that user.',
+          },
+        };
+      }
+
+      const weekStart = this.startOfWeek(date);
+      const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+      const previousWeekStart = new Date(weekStart.getTime() - 7 * DAY_MS);
+
+      const sessions = await this.workoutSessionsCollection
+        .find({
+          userId: user._id!,
+          isCompleted: true,
+          startTime: { $gte: previousWeekStart, $lt: weekEnd },
+        })
+        .sort({ startTime: 1 })
+        .toArray();
+      const thisWeek = sessions.filter(session => session.startTime >= weekStart);
+      const lastWeek = sessions.filter(session => session.startTime < weekStart);
+
+      const totals = this.totals(thisWeek);
+      const previousWeek = this.totals(lastWeek);
+      const targetSessions = user.schedule.workoutDaysPerWeek;
+
+      const report: WeeklyReport = {
+        userId: user._id!,
+        weekStart,
+        weekEnd,
+        targetSessions,
+        ...totals,
+        muscleGroups: await this.muscleGroupVolume(thisWeek),
+        topLifts: this.topLifts(thisWeek),
+        streakWeeks: await this.streakWeeks(user._id!, weekStart, targetSessions, totals.sessionsCompleted),
+        previousWeek,
+        change: {
+          sessions: totals.sessionsCompleted - previousWeek.sessionsCompleted,
+          ...(previousWeek.totalVolume > 0 && {
+            volumePercent: Math.round(((totals.totalVolume - previousWeek.totalVolume) / previousWeek.totalVolume) * 100),
+          }),
+        },
+      };
+
+      return {
+        success: true,
+        data: report,
+      };
+    } catch (error: any) {
+      console.error('Error building weekly report:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WEEKLY_REPORT_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t put together your weekly report.',
+        },
+      };
+    }
+  }
+
+  /**
+   * On Sunday evenings, build this week's report for every Telegram user
+   * who hasn't been sent one yet and mark it as sent. Returns nothing at
+   * other times, so it is safe to call on a timer.
+   */
+  async claimDueWeeklyReports(now: Date = new Date()): Promise<ApiResponse<{ telegramId: string; report: WeeklyReport }[]>> {
+    try {
+      if (now.getDay() !== WEEKLY_REPORT_DAY || now.getHours() < WEEKLY_REPORT_HOUR) {
+        return {
+          success: true,
+          data: [],
+        };
+      }
+
+      const weekStart = this.startOfWeek(now);
+      const sentTo = new Set(
+        (await this.weeklyReportsCollection.find({ weekStart }).toArray()).map(sent => sent.userId.toString())
+      );
+      const users = await this.usersCollection.find({ telegramId: { $exists: true, $ne: '' } }).toArray();
+
+      const dueReports: { telegramId: string; report: WeeklyReport }[] = [];
+      for (const user of users) {
+        if (sentTo.has(user._id!.toString())) continue;
+
+        const reportResult = await this.getWeeklyReport(user._id!.toString(), now);
+        if (!reportResult.success) continue;
+
+        try {
+          await this.weeklyReportsCollection.insertOne({ userId: user._id!, weekStart, sentAt: now });
+        } catch (error: any) {
+          // Another instance claimed it first
+          if (error.code === 11000) continue;
+          throw error;
+        }
+        dueReports.push({ telegramId: user.telegramId!, report: reportResult.data! });
+      }
+
+      return {
+        success: true,
+        data: dueReports,
+      };
+    } catch (error: any) {
+      console.error('Error claiming weekly reports:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WEEKLY_REPORT_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t send the weekly reports.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Chat message for a full weekly report
+   */
+  formatWeeklyReport(report: WeeklyReport): string {
+    const lines = [
+      `📊 Your week (${this.formatDay(report.weekStart)} - ${this.formatDay(new Date(report.weekEnd.getTime() - DAY_MS))})`,
+      `🗓️ Workouts: ${report.sessionsCompleted}/${report.targetSessions}${this.formatChange(report.change.sessions, ' vs last week')}`,
+      `🏋️ ${report.totalSets} sets · ${Math.round(report.totalVolume)}kg volume` +
+        (report.change.volumePercent !== undefined
+          ? ` (${report.change.volumePercent >= 0 ? '+' : ''}${report.change.volumePercent}% vs last week)`
+          : ''),
+    ];
+
+    if (report.muscleGroups.length > 0) {
+      lines.push('', '💪 Sets per muscle group:');
+      lines.push(...report.muscleGroups.map(group => `- ${group.muscleGroup}: ${group.sets}`));
+    }
+
+    if (report.topLifts.length > 0) {
+      lines.push('', '🏆 Top lifts:');
+      lines.push(...report.topLifts.map(lift =>
+        `- ${lift.exerciseName}: ${lift.weight}kg x ${lift.reps} (est. 1RM ${lift.estimatedOneRepMax}kg)`
+      ));
+    }
+
+    lines.push('', report.streakWeeks > 0
+      ? `🔥 ${report.streakWeeks}-week streak of hitting your target!`
+      : `🎯 Hit ${report.targetSessions} workouts in a week to start a streak.`);
+    return lines.join('\n');
+  }
+
+  /**
+   * One-line progress for the week so far, for after a workout
+   */
+  formatWeekToDate(report: WeeklyReport): string {
+    const volume = report.change.volumePercent !== undefined
+      ? ` · volume ${report.change.volumePercent >= 0 ? '+' : ''}${report.change.volumePercent}% vs last week`
+      : '';
+    const streak = report.streakWeeks > 0 ? ` · 🔥 ${report.streakWeeks}-week streak` : '';
+    return `📅 This week: ${report.sessionsCompleted}/${report.targetSessions} workouts${volume}${streak}`;
+  }
+
+  // Helper methods
+
+  private startOfWeek(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    // Weeks start on Monday
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+  }
+
+  private totals(sessions: WorkoutSession[]): WeeklyTotals {
+    const sets = sessions.flatMap(session => session.exercises.flatMap(log => log.sets));
+    return {
+      sessionsCompleted: sessions.length,
+      totalSets: countWorkingSets(sets),
+      totalVolume: sets.reduce((total, set) => total + (set.weight || 0) * set.reps, 0),
+    };
+  }
+
+  private async muscleGroupVolume(sessions: WorkoutSession[]): Promise<MuscleGroupVolume[]> {
+    const muscleGroupsByLog = new Map<string, string[]>();
+    const volumeByGroup = new Map<string, MuscleGroupVolume>();
+
+    for (const log of sessions.flatMap(session => session.exercises)) {
+      const key = log.exerciseId?.toString() || log.exerciseName.toLowerCase();
+      if (!muscleGroupsByLog.has(key)) {
+        muscleGroupsByLog.set(key, await this.findMuscleGroups(log));
+      }
+
+      const volume = log.sets.reduce((total, set) => total + (set.weight || 0) * set.reps, 0);
+      const counts = countMuscleGroupSets(log.sets, muscleGroupsByLog.get(key)!);
+      for (const muscleGroup of muscleGroupsByLog.get(key)!) {
+        const group = volumeByGroup.get(muscleGroup) || { muscleGroup, sets: 0, volume: 0 };
+        group.sets += counts[muscleGroup];
+        group.volume += volume;
+        volumeByGroup.set(muscleGroup, group);
+      }
+    }
+
+    return [...volumeByGroup.values()].sort((a, b) => b.sets - a.sets || b.volume - a.volume);
+  }
+
+  /**
+   * Muscle groups of a logged exercise from the library, or none for
+   * exercises the library doesn't know
+   */
+  private async findMuscleGroups(log: ExerciseLog): Promise<string[]> {
+    const result = await this.exerciseService.resolveLoggedExercise(log);
+    return result.success ? result.data!.muscleGroups : [];
+  }
+
+  private topLifts(sessions: WorkoutSession[]): TopLift[] {
+    const bestByExercise = new Map<string, TopLift>();
+    for (const log of sessions.flatMap(session => session.exercises)) {
+      const key = log.exerciseId?.toString() || log.exerciseName.toLowerCase();
+      for (const set of log.sets) {
+        const estimatedOneRepMax = estimateOneRepMax(set.weight, set.reps, set.rpe);
+        if (!estimatedOneRepMax) continue;
+
+        if (estimatedOneRepMax > (bestByExercise.get(key)?.estimatedOneRepMax || 0)) {
+          bestByExercise.set(key, {
+            exerciseName: log.exerciseName,
+            weight: set.weight!,
+            reps: set.reps,
+            estimatedOneRepMax,
+          });
+        }
+      }
+    }
+
+    return [...bestByExercise.values()]
+      .sort((a, b) => b.estimatedOneRepMax - a.estimatedOneRepMax)
+      .slice(0, TOP_LIFT_COUNT);
+  }
+
+  /**
+   * Consecutive weeks that hit the session target, counting back from this
+   * week. A week still in progress only counts once it hits the target.
+   */
+  private async streakWeeks(
+    userId: ObjectId,
+    weekStart: Date,
+    targetSessions: number,
+    sessionsThisWeek: number
+  ): Promise<number> {
+    const sessions = await this.workoutSessionsCollection
+      .find(
+        {
+          userId,
+          isCompleted: true,
+          startTime: { $gte: new Date(weekStart.getTime() - STREAK_LOOKBACK_WEEKS * 7 * DAY_MS), $lt: weekStart },
+        },
+        { projection: { startTime: 1 } }
+      )
+      .toArray();
+
+    const sessionsPerWeek = new Map<number, number>();
+    for (const session of sessions) {
+      const weeksAgo = Math.round((weekStart.getTime() - this.startOfWeek(session.startTime).getTime()) / (7 * DAY_MS));
+      sessionsPerWeek.set(weeksAgo, (sessionsPerWeek.get(weeksAgo) || 0) + 1);
+    }
+
+    let streak = sessionsThisWeek >= targetSessions ? 1 : 0;
+    for (let weeksAgo = 1; weeksAgo <= STREAK_LOOKBACK_WEEKS; weeksAgo++) {
+      if ((sessionsPerWeek.get(weeksAgo) || 0) < targetSessions) break;
+      streak++;
+    }
+    return streak;
+  }
+
+  private formatChange(change: number, suffix: string): string {
+    if (change === 0) return ' (same as last week)';
+    return ` (${change > 0 ? '+' : ''}${change}${suffix})`;
+  }
+
+  private formatDay(date: Date): string {
+    return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+  }
+}
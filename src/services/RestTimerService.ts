@@ -0,0 +1,139 @@
+import { WorkoutSessionService } from './WorkoutSessionService';
+
+export interface RestTimer {
+  userId: string;
+  sessionId: string;
+  exerciseName: string;
+  exerciseIndex: number; // position of the set the rest follows
+  setIndex: number;
+  seconds: number; // planned rest
+}
+
+interface ActiveRest {
+  timer: RestTimer;
+  startedAt: number;
+  endsAt: number;
+  timeout?: NodeJS.Timeout;
+}
+
+export const DEFAULT_REST_SECONDS = 90;
+// Longest rest a set can record
+const MAX_REST_SECONDS = 3600;
+
+export class RestTimerService {
+  private workoutSessionService: WorkoutSessionService;
+  private activeRests = new Map<string, ActiveRest>();
+
+  constructor() {
+    this.workoutSessionService = new WorkoutSessionService();
+  }
+
+  /**
+   * Start a rest timer for a chat and call onComplete when it runs out.
+   * Starting a new rest ends the previous one, since the user has just
+   * logged their next set.
+   */
+  async start(key: string, timer: RestTimer, onComplete: (timer: RestTimer) => Promise<void>): Promise<void> {
+    await this.finish(key);
+
+    const now = Date.now();
+    const rest: ActiveRest = {
+      timer,
+      startedAt: now,
+      endsAt: now + timer.seconds * 1000,
+    };
+    this.activeRests.set(key, rest);
+    this.schedule(key, rest, onComplete);
+  }
+
+  /**
+   * Add time to a running rest. Returns the seconds left, or undefined
+   * when there is no rest running.
+   */
+  extend(key: string, seconds: number, onComplete: (timer: RestTimer) => Promise<void>): number | undefined {
+    const rest = this.activeRests.get(key);
+    if (!rest) {
+      return undefined;
+    }
+
+    // A rest that already ran out starts counting again from now
+    rest.endsAt = Math.max(rest.endsAt, Date.now()) + seconds * 1000;
+    this.schedule(key, rest, onComplete);
+    return Math.round((rest.endsAt - Date.now()) / 1000);
+  }
+
+  /**
+   * End the rest and record how long it actually took on the set it
+   * follows. Returns the seconds rested, or undefined without a rest.
+   */
+  async finish(key: string): Promise<number | undefined> {
+    const rest = this.activeRests.get(key);
+    if (!rest) {
+      return undefined;
+    }
+
+    this.clear(key);
+    return this.recordRest(rest);
+  }
+
+  /**
+   * Drop a rest without recording it, e.g. when the workout is over
+   */
+  cancel(key: string): void {
+    this.clear(key);
+  }
+
+  /**
+   * Stop every running timer
+   */
+  stopAll(): void {
+    for (const key of [...this.activeRests.keys()]) {
+      this.clear(key);
+    }
+  }
+
+  isResting(key: string): boolean {
+    return this.activeRests.has(key);
+  }
+
+  // Helper methods
+
+  private schedule(key: string, rest: ActiveRest, onComplete: (timer: RestTimer) => Promise<void>): void {
+    if (rest.timeout) {
+      clearTimeout(rest.timeout);
+    }
+
+    rest.timeout = setTimeout(async () => {
+      rest.timeout = undefined;
+      // Record the planned rest now in case no further set is logged;
+      // the rest stays open so a later set or skip can correct it
+      await this.recordRest(rest);
+      try {
+        await onComplete(rest.timer);
+      } catch (error) {
+        console.error('Error notifying end of rest:', error);
+      }
+    }, Math.max(0, rest.endsAt - Date.now()));
+  }
+
+  private clear(key: string): void {
+    const rest = this.activeRests.get(key);
+    if (rest?.timeout) {
+      clearTimeout(rest.timeout);
+    }
+    this.activeRests.delete(key);
+  }
+
+  private async recordRest(rest: ActiveRest): Promise<number> {
+    const seconds = Math.min(MAX_REST_SECONDS, Math.round((Date.now() - rest.startedAt) / 1000));
+    const { userId, sessionId, exerciseIndex, setIndex } = rest.timer;
+
+    const result = await this.workoutSessionService.updateSet(userId, sessionId, exerciseIndex, setIndex, {
+      restTime: seconds,
+    });
+    if (!result.success) {
+      console.error('Error recording rest time:', result.error?.message);
+    }
+    return seconds;
+  }
+}
@@ -0,0 +1,321 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { User, WorkoutPlan, ScheduledWorkout, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import {
+  RescheduleRequest,
+  WEEK_DAYS,
+  startOfWeek,
+  addDays,
+  timeToMinutes,
+  minutesToTime,
+  findTimeSlot,
+  formatScheduleDay,
+} from '../utils/schedule';
+
+export type ScheduledWorkoutStatus = 'upcoming' | 'completed' | 'missed';
+
+export interface ScheduledWorkoutView extends ScheduledWorkout {
+  status: ScheduledWorkoutStatus;
+}
+
+export interface WeekSchedule {
+  weekStart: Date; // Monday 00:00
+  weekEnd: Date; // the following Monday 00:00
+  workouts: ScheduledWorkoutView[]; // in date order
+}
+
+const TIME_FORMAT = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ScheduleService {
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get workoutPlansCollection() {
+    return database.getSchemas().getWorkoutPlansCollection();
+  }
+
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  private get scheduledWorkoutsCollection() {
+    return database.getSchemas().getScheduledWorkoutsCollection();
+  }
+
+  /**
+   * The active plan's workouts on the calendar for the Monday-to-Sunday week
+   * containing date, placed in the user's available hours the first time the
+   * week is looked at. Past workouts are completed when a workout session was
+   * finished that day, otherwise missed.
+   */
+  async getWeekSchedule(userId: string, date: Date = new Date(), now: Date = new Date()): Promise<ApiResponse<WeekSchedule>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (isNaN(date.getTime())) {
+        throw createError('Invalid date', 400);
+      }
+
+      const context = await this.loadUserAndPlan(userId);
+      if (!context.success) {
+        return { success: false, error: context.error };
+      }
+      const { user, plan } = context.data!;
+
+      const weekStart = startOfWeek(date);
+      const weekEnd = addDays(weekStart, 7);
+      await this.ensureWeekScheduled(user, plan, weekStart);
+
+      const [workouts, sessions] = await Promise.all([
+        this.scheduledWorkoutsCollection
+          .find({ userId: user._id!, planId: plan._id!, date: { $gte: weekStart, $lt: weekEnd } })
+          .toArray(),
+        this.workoutSessionsCollection
+          .find({ userId: user._id!, isCompleted: true, startTime: { $gte: weekStart, $lt: weekEnd } })
+          .toArray(),
+      ]);
+
+      const trainedDays = new Set(sessions.map(session => addDays(session.startTime, 0).getTime()));
+      const today = addDays(now, 0).getTime();
+
+      return {
+        success: true,
+        data: {
+          weekStart,
+          weekEnd,
+          workouts: workouts
+            .sort((a, b) => a.date.getTime() - b.date.getTime() || timeToMinutes(a.startTime) - timeToMinutes(b.startTime))
+            .map(workout => ({
+              ...workout,
+              status: trainedDays.has(workout.date.getTime())
+                ? 'completed'
+                : workout.date.getTime() < today ? 'missed' : 'upcoming',
+            })),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error getting week schedule:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SCHEDULE_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your workout schedule.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Move the workout on one day to another, e.g. after missing it. It keeps
+   * to the user's available hours unless a start time is given.
+   */
+  async rescheduleWorkout(userId: string, request: RescheduleRequest, now: Date = new Date()): Promise<ApiResponse<ScheduledWorkout>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (isNaN(request.from.getTime()) || isNaN(request.to.getTime())) {
+        throw createError('Invalid date', 400);
+      }
+      if (request.startTime && !TIME_FORMAT.test(request.startTime)) {
+        throw createError('Start time must be in HH:MM format', 400);
+      }
+
+      const from = addDays(request.from, 0);
+      const to = addDays(request.to, 0);
+      if (to.getTime() === from.getTime()) {
+        throw createError('The workout is already on that day', 400);
+      }
+      if (to < addDays(now, 0)) {
+        throw createError('Workouts can\'t be moved to a day that has passed', 400);
+      }
+
+      const context = await this.loadUserAndPlan(userId);
+      if (!context.success) {
+        return { success: false, error: context.error };
+      }
+      const { user, plan } = context.data!;
+      await this.ensureWeekScheduled(user, plan, startOfWeek(from));
+      await this.ensureWeekScheduled(user, plan, startOfWeek(to));
+
+      const workout = await this.scheduledWorkoutsCollection.findOne({ userId: user._id!, planId: plan._id!, date: from });
+      if (!workout) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_WORKOUT_SCHEDULED',
+            message: 'No workout scheduled on that day',
+            userMessage: `You don't have a workout on ${formatScheduleDay(from)}.`,
+          },
+        };
+      }
+
+      const clash = await this.scheduledWorkoutsCollection.findOne({ userId: user._id!, planId: plan._id!, date: to });
+      if (clash) {
+        return {
+          success: false,
+          error: {
+            code: 'DAY_ALREADY_SCHEDULED',
+            message: 'A workout is already scheduled on that day',
+            userMessage: `You already have ${clash.muscleGroups.join(', ')} on ${formatScheduleDay(to)}. Pick another day?`,
+          },
+        };
+      }
+
+      const duration = plan.schedule[workout.workoutDayIndex]?.estimatedDuration || user.schedule.preferredWorkoutDuration;
+      const slot = request.startTime
+        ? { startTime: request.startTime, endTime: minutesToTime(timeToMinutes(request.startTime) + duration) }
+        : findTimeSlot(user.schedule.availableHours, duration);
+
+      // A workout moved into another week takes the place of that week's own
+      // workout for the same plan day
+      const weekStart = startOfWeek(to);
+      if (weekStart.getTime() !== workout.weekStart.getTime()) {
+        await this.scheduledWorkoutsCollection.deleteOne({
+          userId: user._id!,
+          planId: plan._id!,
+          weekStart,
+          workoutDayIndex: workout.workoutDayIndex,
+        });
+      }
+
+      const update = {
+        weekStart,
+        date: to,
+        ...slot,
+        rescheduledFrom: workout.rescheduledFrom || workout.date,
+        updatedAt: new Date(),
+      };
+      await this.scheduledWorkoutsCollection.updateOne({ _id: workout._id }, { $set: update });
+
+      return {
+        success: true,
+        data: { ...workout, ...update },
+      };
+    } catch (error: any) {
+      console.error('Error rescheduling workout:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'RESCHEDULE_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t move that workout. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * The week as chat text, one line per workout
+   */
+  formatWeekSchedule(schedule: WeekSchedule): string {
+    const statusIcons: { [status in ScheduledWorkoutStatus]: string } = {
+      upcoming: '⏳',
+      completed: '✅',
+      missed: '❌',
+    };
+
+    const lines = [`🗓️ Your week (${formatScheduleDay(schedule.weekStart)} - ${formatScheduleDay(addDays(schedule.weekEnd, -1))})`];
+    if (schedule.workouts.length === 0) {
+      lines.push('', 'No workouts scheduled this week.');
+      return lines.join('\n');
+    }
+
+    lines.push('', ...schedule.workouts.map(workout =>
+      `${statusIcons[workout.status]} ${formatScheduleDay(workout.date)} · ${workout.muscleGroups.join(', ')} · ${workout.startTime}-${workout.endTime}` +
+      (workout.rescheduledFrom ? ` (moved from ${formatScheduleDay(workout.rescheduledFrom)})` : '')
+    ));
+    lines.push('', 'Can\'t make one? Say "move today\'s workout to tomorrow".');
+    return lines.join('\n');
+  }
+
+  // Helper methods
+
+  private async loadUserAndPlan(userId: string): Promise<ApiResponse<{ user: User; plan: WorkoutPlan }>> {
+    const userObjectId = new ObjectId(userId);
+    const [user, plan] = await Promise.all([
+      this.usersCollection.findOne({ _id: userObjectId }),
+      this.workoutPlansCollection.findOne({ userId: userObjectId, isActive: true }),
+    ]);
+
+    if (!user) {
+      return {
+        success: false,
+        error: {
+          code: 'USER_NOT_FOUND',
+          message: 'User not found',
+          userMessage: 'I couldn\'t find that user.',
+        },
+      };
+    }
+    if (!plan) {
+      return {
+        success: false,
+        error: {
+          code: 'PLAN_NOT_FOUND',
+          message: 'No active workout plan',
+          userMessage: 'You don\'t have a workout plan yet. Ask me to create one!',
+        },
+      };
+    }
+
+    return { success: true, data: { user, plan } };
+  }
+
+  /**
+   * Put each plan day on its weekday in the user's available hours. Days
+   * already scheduled for the week are left alone, including ones that were
+   * moved, and days before the plan was made or moved to another week are
+   * skipped.
+   */
+  private async ensureWeekScheduled(user: User, plan: WorkoutPlan, weekStart: Date): Promise<void> {
+    const planStart = addDays(plan.createdAt, 0);
+    const now = new Date();
+    const movedOut = await this.scheduledWorkoutsCollection
+      .find({
+        userId: user._id!,
+        planId: plan._id!,
+        weekStart: { $ne: weekStart },
+        rescheduledFrom: { $gte: weekStart, $lt: addDays(weekStart, 7) },
+      })
+      .toArray();
+    const movedOutDays = new Set(movedOut.map(workout => workout.workoutDayIndex));
+
+    const operations = plan.schedule
+      .map((day, workoutDayIndex) => {
+        const weekdayIndex = WEEK_DAYS.findIndex(weekDay => weekDay.toLowerCase() === day.dayOfWeek.toLowerCase());
+        const date = addDays(weekStart, weekdayIndex >= 0 ? weekdayIndex : workoutDayIndex);
+        const duration = day.estimatedDuration || user.schedule.preferredWorkoutDuration;
+        return { day, workoutDayIndex, date, slot: findTimeSlot(user.schedule.availableHours, duration) };
+      })
+      .filter(({ workoutDayIndex, date }) => date >= planStart && !movedOutDays.has(workoutDayIndex))
+      .map(({ day, workoutDayIndex, date, slot }) => ({
+        updateOne: {
+          filter: { userId: user._id!, planId: plan._id!, weekStart, workoutDayIndex },
+          update: {
+            $setOnInsert: {
+              userId: user._id!,
+              planId: plan._id!,
+              weekStart,
+              workoutDayIndex,
+              dayOfWeek: day.dayOfWeek,
+              muscleGroups: day.muscleGroups,
+              date,
+              ...slot,
+              createdAt: now,
+              updatedAt: now,
+            },
+          },
+          upsert: true,
+        },
+      }));
+
+    if (operations.length > 0) {
+      await this.scheduledWorkoutsCollection.bulkWrite(operations, { ordered: false });
+    }
+  }
+}
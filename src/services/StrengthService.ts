@@ -0,0 +1,235 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { ExerciseLog, SetLog, UserProfile, ApiResponse } from '../types';
+import { sanitizeString, escapeRegex } from '../utils/validation';
+import { createError } from '../middleware/errorHandler';
+import { OneRepMaxEstimates, estimateOneRepMax, estimateOneRepMaxes } from '../utils/oneRepMax';
+import {
+  StrengthLevel,
+  StrengthRating,
+  rateStrength,
+  expectedStrengthLevel,
+  compareStrengthLevels,
+} from '../utils/strengthStandards';
+import { ExerciseService } from './ExerciseService';
+
+export interface OneRepMaxPoint {
+  sessionId: ObjectId;
+  date: Date;
+  set: SetLog; // the session's best set
+  estimates: OneRepMaxEstimates;
+  estimatedOneRepMax: number;
+}
+
+export interface StrengthLevelReport extends StrengthRating {
+  exerciseName: string;
+  estimatedOneRepMax: number;
+  bodyweight: number;
+  expectedLevel: StrengthLevel; // for the user's experience level
+  comparedToExpected: 'behind' | 'on_track' | 'ahead';
+}
+
+interface ResolvedExercise {
+  name: string;
+  exerciseId?: ObjectId;
+  loggedNames: string[]; // names the exercise may have been logged under
+}
+
+export class StrengthService {
+  private exerciseService: ExerciseService;
+
+  constructor() {
+    this.exerciseService = new ExerciseService();
+  }
+
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  /**
+   * Estimated one-rep max for an exercise per session, oldest first, from
+   * each session's best set
+   */
+  async getOneRepMaxHistory(userId: string, exerciseName: string): Promise<ApiResponse<OneRepMaxPoint[]>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const exercise = await this.resolveExercise(exerciseName);
+      const history = await this.buildHistory(new ObjectId(userId), exercise);
+
+      return {
+        success: true,
+        data: history,
+        metadata: {
+          exerciseName: exercise.name,
+          bestOneRepMax: Math.max(0, ...history.map(point => point.estimatedOneRepMax)),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error getting one-rep max history:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'ONE_REP_MAX_ERROR',
+          message: error.message,
+          userMessage: 'Failed to work out your one-rep max history.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Rate the user's best estimated one-rep max for an exercise against
+   * bodyweight-relative strength standards and their experience level
+   */
+  async getStrengthLevel(userId: string, exerciseName: string): Promise<ApiResponse<StrengthLevelReport>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const exercise = await this.resolveExercise(exerciseName);
+      const history = await this.buildHistory(user._id!, exercise);
+      const { name } = exercise;
+      if (history.length === 0) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_LIFT_HISTORY',
+            message: `No weighted sets logged for ${name}`,
+            userMessage: `Log a few weighted sets of ${name} and I'll tell you how strong you are.`,
+          },
+        };
+      }
+
+      const estimatedOneRepMax = Math.max(...history.map(point => point.estimatedOneRepMax));
+      const report = this.rateLift(name, estimatedOneRepMax, user.profile);
+      if (!report) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_STRENGTH_STANDARD',
+            message: `No strength standard for ${name}`,
+            userMessage: `I don't have strength standards for ${name} yet.`,
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: report,
+      };
+    } catch (error: any) {
+      console.error('Error getting strength level:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'STRENGTH_LEVEL_ERROR',
+          message: error.message,
+          userMessage: 'Failed to work out your strength level.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Rate a one-rep max for a user without touching the database. Returns
+   * undefined for lifts without a standard.
+   */
+  rateLift(exerciseName: string, estimatedOneRepMax: number, profile: UserProfile): StrengthLevelReport | undefined {
+    const rating = rateStrength(exerciseName, estimatedOneRepMax, profile.weight);
+    if (!rating) {
+      return undefined;
+    }
+
+    const expectedLevel = expectedStrengthLevel(profile.experienceLevel);
+    const comparison = compareStrengthLevels(rating.level, expectedLevel);
+
+    return {
+      ...rating,
+      exerciseName,
+      estimatedOneRepMax,
+      bodyweight: profile.weight,
+      expectedLevel,
+      comparedToExpected: comparison < 0 ? 'behind' : comparison > 0 ? 'ahead' : 'on_track',
+    };
+  }
+
+  // Helper methods
+
+  /**
+   * Use the library name when the exercise is known, so standards line up
+   * and logs under any of its local names are included
+   */
+  private async resolveExercise(exerciseName: string): Promise<ResolvedExercise> {
+    const name = sanitizeString(exerciseName);
+    if (!name) {
+      throw createError('Exercise name is required', 400);
+    }
+
+    const result = await this.exerciseService.resolveExercise(name);
+    if (!result.success) {
+      return { name, loggedNames: [name] };
+    }
+
+    const exercise = result.data!;
+    return {
+      name: exercise.name,
+      exerciseId: exercise._id,
+      loggedNames: [exercise.name, ...exercise.localNames],
+    };
+  }
+
+  private async buildHistory(userId: ObjectId, exercise: ResolvedExercise): Promise<OneRepMaxPoint[]> {
+    const namePatterns = exercise.loggedNames.map(
+      name => new RegExp(`^${escapeRegex(name)}$`, 'i')
+    );
+    const matchesExercise = (log: ExerciseLog) =>
+      exercise.exerciseId && log.exerciseId
+        ? log.exerciseId.equals(exercise.exerciseId)
+        : namePatterns.some(pattern => pattern.test(log.exerciseName));
+
+    const sessions = await this.workoutSessionsCollection
+      .find({
+        userId,
+        $or: [
+          ...(exercise.exerciseId ? [{ 'exercises.exerciseId': exercise.exerciseId }] : []),
+          { 'exercises.exerciseName': { $in: namePatterns } },
+        ],
+      })
+      .sort({ startTime: 1 })
+      .toArray();
+
+    const history: OneRepMaxPoint[] = [];
+    for (const session of sessions) {
+      let best: OneRepMaxPoint | undefined;
+
+      for (const set of session.exercises.filter(matchesExercise).flatMap(log => log.sets)) {
+        const estimates = estimateOneRepMaxes(set.weight, set.reps, set.rpe);
+        const estimatedOneRepMax = estimateOneRepMax(set.weight, set.reps, set.rpe);
+        if (!estimates || !estimatedOneRepMax) continue;
+
+        if (!best || estimatedOneRepMax > best.estimatedOneRepMax) {
+          best = { sessionId: session._id, date: session.startTime, set, estimates, estimatedOneRepMax };
+        }
+      }
+
+      if (best) {
+        history.push(best);
+      }
+    }
+
+    return history;
+  }
+}
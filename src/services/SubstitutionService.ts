@@ -0,0 +1,280 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { User, WorkoutPlan, Exercise, Limitation, LimitationArea, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import {
+  equipmentFromAmenities,
+  findMissingEquipment,
+  findSubstitutes,
+  hasEquipment,
+} from '../utils/exerciseSubstitution';
+import { findLimitationConflicts, describeLimitationAreas } from '../utils/limitations';
+
+export interface ExerciseSubstitution {
+  dayOfWeek: string;
+  original: string;
+  substitute: string;
+  missingEquipment: string[];
+  limitations: LimitationArea[]; // injuries the original would aggravate
+}
+
+export interface PlanAdaptation {
+  planId?: ObjectId;
+  substitutions: ExerciseSubstitution[];
+  // Exercises left in place because nothing else works the same muscles
+  unavailable: Array<{ dayOfWeek: string; exerciseName: string; missingEquipment: string[] }>;
+  // Exercises taken out because nothing else works the same muscles safely
+  removed: Array<{ dayOfWeek: string; exerciseName: string; limitations: LimitationArea[] }>;
+}
+
+export class SubstitutionService {
+  private get workoutPlansCollection() {
+    return database.getSchemas().getWorkoutPlansCollection();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get gymsCollection() {
+    return database.getSchemas().getGymsCollection();
+  }
+
+  private get exercisesCollection() {
+    return database.getSchemas().getExercisesCollection();
+  }
+
+  /**
+   * Swap exercises in the active plan that need equipment the user says they
+   * don't have, e.g. "no cable machine here"
+   */
+  async substituteMissingEquipment(userId: string, missingEquipment: string[]): Promise<ApiResponse<PlanAdaptation>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (missingEquipment.length === 0) {
+        throw createError('Missing equipment is required', 400);
+      }
+
+      const [user, plan] = await Promise.all([
+        this.usersCollection.findOne({ _id: new ObjectId(userId) }),
+        this.workoutPlansCollection.findOne({ userId: new ObjectId(userId), isActive: true }),
+      ]);
+      if (!plan) {
+        return this.planNotFound();
+      }
+
+      const library = await this.exercisesCollection.find({}).toArray();
+      // Substitutes still have to fit the home gym when its equipment is known
+      const gymEquipment = user ? await this.getHomeGymEquipment(user) : undefined;
+      const availableEquipment = (gymEquipment || this.allEquipment(library))
+        .filter(item => !missingEquipment.includes(item));
+
+      const adaptation = this.substituteExercises(plan, library, availableEquipment, user?.profile.limitations);
+      await this.saveSchedule(plan, adaptation);
+
+      return {
+        success: true,
+        data: adaptation,
+      };
+    } catch (error: any) {
+      console.error('Error substituting exercises:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SUBSTITUTION_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t swap your exercises right now. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Swap exercises in the active plan that the user's home gym doesn't have
+   * the equipment for or that would aggravate a recorded limitation
+   */
+  async adaptPlanToUser(userId: string): Promise<ApiResponse<PlanAdaptation>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const [user, plan] = await Promise.all([
+        this.usersCollection.findOne({ _id: new ObjectId(userId) }),
+        this.workoutPlansCollection.findOne({ userId: new ObjectId(userId), isActive: true }),
+      ]);
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+      if (!plan) {
+        return this.planNotFound();
+      }
+
+      const adaptation = await this.adaptToUser(plan, user);
+      await this.saveSchedule(plan, adaptation);
+
+      return {
+        success: true,
+        data: adaptation,
+      };
+    } catch (error: any) {
+      console.error('Error adapting plan:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SUBSTITUTION_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t adapt your plan right now.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Swap exercises in a plan that isn't saved yet for ones that fit the user's
+   * home gym equipment and limitations. Equipment is only checked when the
+   * home gym's amenities list it.
+   */
+  async adaptToUser(plan: WorkoutPlan, user: User): Promise<PlanAdaptation> {
+    const gymEquipment = await this.getHomeGymEquipment(user);
+    const limitations = user.profile.limitations || [];
+    if (!gymEquipment && limitations.length === 0) {
+      return { planId: plan._id, substitutions: [], unavailable: [], removed: [] };
+    }
+
+    const library = await this.exercisesCollection.find({}).toArray();
+    return this.substituteExercises(plan, library, gymEquipment || this.allEquipment(library), limitations);
+  }
+
+  /**
+   * Chat summary of the changes made to a plan
+   */
+  describeSubstitutions(adaptation: PlanAdaptation): string {
+    const { substitutions, unavailable, removed } = adaptation;
+    if (substitutions.length === 0 && unavailable.length === 0 && removed.length === 0) {
+      return 'Nothing in your plan needs that, so you\'re good to go! 👍';
+    }
+
+    const lines: string[] = [];
+    if (substitutions.length > 0) {
+      lines.push('No problem, I\'ve swapped these in your plan:');
+      substitutions.forEach(substitution => {
+        lines.push(`• ${substitution.dayOfWeek}: ${substitution.original} → ${substitution.substitute}`);
+      });
+    }
+    if (removed.length > 0) {
+      const names = [...new Set(removed.map(exercise => exercise.exerciseName))];
+      const areas = [...new Set(removed.flatMap(exercise => exercise.limitations))];
+      lines.push(`I've taken ${names.join(', ')} out of your plan to protect your ${describeLimitationAreas(areas)}.`);
+    }
+    if (unavailable.length > 0) {
+      const names = [...new Set(unavailable.map(exercise => exercise.exerciseName))];
+      lines.push(`I couldn't find a swap that works the same muscles for ${names.join(', ')}, so I've left ${names.length === 1 ? 'it' : 'them'} in.`);
+    }
+    return lines.join('\n');
+  }
+
+  // Helper methods
+
+  private substituteExercises(
+    plan: WorkoutPlan,
+    library: Exercise[],
+    availableEquipment: string[],
+    limitations: Limitation[] = []
+  ): PlanAdaptation {
+    const byId = new Map(library.map(exercise => [exercise._id?.toString(), exercise]));
+    const byName = new Map(library.map(exercise => [exercise.name.toLowerCase(), exercise]));
+    const adaptation: PlanAdaptation = { planId: plan._id, substitutions: [], unavailable: [], removed: [] };
+    const isSuitable = (exercise: Exercise): boolean =>
+      hasEquipment(exercise, availableEquipment) && findLimitationConflicts(exercise.name, limitations).length === 0;
+
+    for (const day of plan.schedule) {
+      // Don't swap in an exercise the day already has
+      const dayNames = new Set(day.exercises.map(planned => planned.exerciseName));
+      // Rest of removed superset exercises, for the partner left behind
+      const removedGroupRest = new Map<string, number>();
+
+      day.exercises = day.exercises.flatMap(planned => {
+        const exercise = (planned.exerciseId && byId.get(planned.exerciseId.toString()))
+          || byName.get(planned.exerciseName.toLowerCase());
+        // Exercises outside the library can't be checked
+        if (!exercise || isSuitable(exercise)) {
+          return [planned];
+        }
+
+        const missingEquipment = findMissingEquipment(exercise, availableEquipment);
+        const conflicts = findLimitationConflicts(exercise.name, limitations);
+        const [substitute] = findSubstitutes(exercise, library, candidate =>
+          isSuitable(candidate) && !dayNames.has(candidate.name)
+        );
+
+        if (!substitute) {
+          // Better to skip an exercise than to train through an injury
+          if (conflicts.length > 0) {
+            adaptation.removed.push({ dayOfWeek: day.dayOfWeek, exerciseName: planned.exerciseName, limitations: conflicts });
+            if (planned.group) {
+              removedGroupRest.set(planned.group.label, planned.restTime);
+            }
+            return [];
+          }
+          adaptation.unavailable.push({ dayOfWeek: day.dayOfWeek, exerciseName: planned.exerciseName, missingEquipment });
+          return [planned];
+        }
+
+        dayNames.add(substitute.name);
+        adaptation.substitutions.push({
+          dayOfWeek: day.dayOfWeek,
+          original: planned.exerciseName,
+          substitute: substitute.name,
+          missingEquipment,
+          limitations: conflicts,
+        });
+        return [{ ...planned, exerciseId: substitute._id, exerciseName: substitute.name }];
+      });
+
+      // An exercise left alone in its group is done as straight sets
+      for (const planned of day.exercises) {
+        const label = planned.group?.label;
+        if (label && removedGroupRest.has(label) && day.exercises.filter(other => other.group?.label === label).length === 1) {
+          planned.restTime = Math.max(planned.restTime, removedGroupRest.get(label)!);
+          delete planned.group;
+        }
+      }
+    }
+
+    return adaptation;
+  }
+
+  private async saveSchedule(plan: WorkoutPlan, adaptation: PlanAdaptation): Promise<void> {
+    if (adaptation.substitutions.length > 0 || adaptation.removed.length > 0) {
+      await this.workoutPlansCollection.updateOne({ _id: plan._id }, { $set: { schedule: plan.schedule } });
+    }
+  }
+
+  private async getHomeGymEquipment(user: User): Promise<string[] | undefined> {
+    if (!user.homeGymId) {
+      return undefined;
+    }
+
+    const gym = await this.gymsCollection.findOne({ _id: user.homeGymId });
+    const equipment = gym ? equipmentFromAmenities(gym.amenities || []) : [];
+    return equipment.length > 0 ? equipment : undefined;
+  }
+
+  private allEquipment(library: Exercise[]): string[] {
+    return [...new Set(library.flatMap(exercise => exercise.equipment))];
+  }
+
+  private planNotFound(): ApiResponse<PlanAdaptation> {
+    return {
+      success: false,
+      error: {
+        code: 'PLAN_NOT_FOUND',
+        message: 'No active workout plan',
+        userMessage: 'You don\'t have a workout plan yet. Ask me to create one!',
+      },
+    };
+  }
+}
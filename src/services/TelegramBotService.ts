@@ -2,13 +2,27 @@ import TelegramBot from 'node-telegram-bot-api';
 import { config } from '../config';
 import { ConversationalAIService } from './ConversationalAIService';
 import { UserService } from './UserService';
+import { RestTimerService, RestTimer } from './RestTimerService';
+import { ReportService } from './ReportService';
+import { ScheduleService } from './ScheduleService';
+import { CalendarService } from './CalendarService';
+import { MealPlanService } from './MealPlanService';
 import { createError } from '../middleware/errorHandler';
 
+// How often idle workouts and due weekly reports are checked for
+const SCHEDULED_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
 export class TelegramBotService {
   private bot: TelegramBot;
   private aiService: ConversationalAIService;
   private userService: UserService;
+  private restTimerService: RestTimerService;
+  private reportService: ReportService;
+  private scheduleService: ScheduleService;
+  private calendarService: CalendarService;
+  private mealPlanService: MealPlanService;
   private isRunning: boolean = false;
+  private scheduledChecks?: NodeJS.Timeout;
 
   constructor() {
     // Disable polling by default to avoid conflicts
@@ -16,6 +30,11 @@ export class TelegramBotService {
     this.bot = new TelegramBot(config.telegram.botToken, { polling: false });
     this.aiService = new ConversationalAIService();
     this.userService = new UserService();
+    this.restTimerService = new RestTimerService();
+    this.reportService = new ReportService();
+    this.scheduleService = new ScheduleService();
+    this.calendarService = new CalendarService();
+    this.mealPlanService = new MealPlanService();
   }
 
   /**
@@ -60,6 +79,10 @@ export class TelegramBotService {
       }
 
       this.setupMessageHandlers();
+      this.scheduledChecks = setInterval(async () => {
+        await this.closeIdleWorkouts();
+        await this.sendWeeklyReports();
+      }, SCHEDULED_CHECK_INTERVAL_MS);
       this.isRunning = true;
       
       console.log('✅ Telegram bot is ready to receive messages');
@@ -84,6 +107,11 @@ export class TelegramBotService {
         this.bot.stopPolling();
       }
 
+      this.restTimerService.stopAll();
+      if (this.scheduledChecks) {
+        clearInterval(this.scheduledChecks);
+        this.scheduledChecks = undefined;
+      }
       this.isRunning = false;
       console.log('🛑 Telegram bot stopped');
     } catch (error) {
@@ -126,6 +154,21 @@ export class TelegramBotService {
       await this.handleWorkoutCommand(msg);
     });
 
+    // Handle /finish command
+    this.bot.onText(/\/finish/, async (msg) => {
+      await this.handleFinishCommand(msg);
+    });
+
+    // Handle /report command
+    this.bot.onText(/\/report/, async (msg) => {
+      await this.handleReportCommand(msg);
+    });
+
+    // Handle /week command
+    this.bot.onText(/\/week/, async (msg) => {
+      await this.handleWeekCommand(msg);
+    });
+
     // Handle /nutrition command
     this.bot.onText(/\/nutrition/, async (msg) => {
       await this.handleNutritionCommand(msg);
@@ -274,6 +317,9 @@ I'm your AI fitness companion! Here's what I can help you with:
 /start - Get started or return to main menu
 /profile - View or update your profile
 /workout - Plan workouts and log exercises
+/finish - Finish your workout and get a summary
+/report - See your training report for this week
+/week - See this week's workouts on the calendar
 /nutrition - Get meal plans and track food
 /help - Show this help message
 
@@ -289,6 +335,8 @@ I'm your AI fitness companion! Here's what I can help you with:
 **Tips:**
 - Send me photos of your meals for calorie analysis
 - Tell me when you're at the gym for workout guidance
+- Say "pause workout" for a break and "resume" when you're back
+- Missed a workout? Say "move it to tomorrow"
 - Ask me anything about fitness, nutrition, or health
 - I adapt to your goals: lean, bulk, or maintain
 
@@ -358,6 +406,9 @@ Just start chatting with me naturally! 😊`;
         [
           { text: '📊 Log Exercise', callback_data: 'log_exercise' },
           { text: '📈 View Progress', callback_data: 'workout_progress' }
+        ],
+        [
+          { text: '📅 Add to Calendar', callback_data: 'calendar_feed' }
         ]
       ]
     };
@@ -371,6 +422,174 @@ Just start chatting with me naturally! 😊`;
     );
   }
 
+  /**
+   * Handle /finish command
+   */
+  private async handleFinishCommand(msg: TelegramBot.Message): Promise<void> {
+    try {
+      const telegramId = msg.from?.id.toString();
+      if (!telegramId) return;
+
+      this.restTimerService.cancel(msg.chat.id.toString());
+      const result = await this.aiService.finishWorkout(telegramId);
+
+      await this.bot.sendMessage(msg.chat.id, result.success
+        ? result.data!.message
+        : result.error?.userMessage || 'I couldn\'t close your workout. Please try again.');
+    } catch (error) {
+      console.error('Error handling finish command:', error);
+      await this.bot.sendMessage(msg.chat.id, 'I couldn\'t close your workout. Please try again.');
+    }
+  }
+
+  /**
+   * Close workouts that have sat idle and send each user their summary
+   */
+  private async closeIdleWorkouts(): Promise<void> {
+    try {
+      const result = await this.aiService.closeIdleWorkouts();
+      if (!result.success) {
+        console.error('Error closing idle workouts:', result.error?.message);
+        return;
+      }
+
+      for (const { telegramId, message } of result.data!) {
+        // Private chats share the user's ID
+        this.restTimerService.cancel(telegramId);
+        await this.bot.sendMessage(telegramId, message);
+      }
+    } catch (error) {
+      console.error('Error closing idle workouts:', error);
+    }
+  }
+
+  /**
+   * Handle /report command
+   */
+  private async handleReportCommand(msg: TelegramBot.Message): Promise<void> {
+    try {
+      const telegramId = msg.from?.id.toString();
+      if (!telegramId) return;
+
+      const userResult = await this.userService.getUserByTelegramId(telegramId);
+      if (!userResult.success || !userResult.data?._id) {
+        await this.bot.sendMessage(msg.chat.id, 'You don\'t have a profile yet. Send /start to get started with your fitness journey!');
+        return;
+      }
+
+      const reportResult = await this.reportService.getWeeklyReport(userResult.data._id.toString());
+      await this.bot.sendMessage(msg.chat.id, reportResult.success
+        ? this.reportService.formatWeeklyReport(reportResult.data!)
+        : reportResult.error?.userMessage || 'I couldn\'t put together your weekly report.');
+    } catch (error) {
+      console.error('Error handling report command:', error);
+      await this.bot.sendMessage(msg.chat.id, 'I couldn\'t put together your weekly report. Please try again.');
+    }
+  }
+
+  /**
+   * Handle /week command
+   */
+  private async handleWeekCommand(msg: TelegramBot.Message): Promise<void> {
+    try {
+      const telegramId = msg.from?.id.toString();
+      if (!telegramId) return;
+
+      const userResult = await this.userService.getUserByTelegramId(telegramId);
+      if (!userResult.success || !userResult.data?._id) {
+        await this.bot.sendMessage(msg.chat.id, 'You don\'t have a profile yet. Send /start to get started with your fitness journey!');
+        return;
+      }
+
+      const scheduleResult = await this.scheduleService.getWeekSchedule(userResult.data._id.toString());
+      await this.bot.sendMessage(msg.chat.id, scheduleResult.success
+        ? this.scheduleService.formatWeekSchedule(scheduleResult.data!)
+        : scheduleResult.error?.userMessage || 'I couldn\'t put together your week.');
+    } catch (error) {
+      console.error('Error handling week command:', error);
+      await this.bot.sendMessage(msg.chat.id, 'I couldn\'t put together your week. Please try again.');
+    }
+  }
+
+  /**
+   * Send the user's private calendar feed link with how to subscribe
+   */
+  private async sendCalendarLink(chatId: number, telegramId: string): Promise<void> {
+    const userResult = await this.userService.getUserByTelegramId(telegramId);
+    if (!userResult.success || !userResult.data?._id) {
+      await this.bot.sendMessage(chatId, 'You don\'t have a profile yet. Send /start to get started with your fitness journey!');
+      return;
+    }
+
+    const linkResult = await this.calendarService.getCalendarLink(userResult.data._id.toString());
+    if (!linkResult.success) {
+      await this.bot.sendMessage(chatId, linkResult.error?.userMessage || 'I couldn\'t create your calendar link.');
+      return;
+    }
+
+    await this.bot.sendMessage(chatId, [
+      '📅 Your workouts, in your phone calendar:',
+      '',
+      linkResult.data!.url,
+      '',
+      '🍏 iPhone: Settings > Calendar > Accounts > Add Account > Other > Add Subscribed Calendar, then paste the link.',
+      '🤖 Google Calendar: on the web, Other calendars > + > From URL, then paste the link.',
+      '',
+      'Moved workouts update automatically. Keep the link private, as anyone with it can see your schedule.',
+    ].join('\n'));
+  }
+
+  /**
+   * Send this week's report to every user on Sunday evening
+   */
+  private async sendWeeklyReports(): Promise<void> {
+    try {
+      const result = await this.reportService.claimDueWeeklyReports();
+      if (!result.success) {
+        console.error('Error claiming weekly reports:', result.error?.message);
+        return;
+      }
+
+      for (const { telegramId, report } of result.data!) {
+        await this.bot.sendMessage(telegramId, this.reportService.formatWeeklyReport(report));
+      }
+    } catch (error) {
+      console.error('Error sending weekly reports:', error);
+    }
+  }
+
+  /**
+   * Generate a meal plan and send it, with buttons to redo it for another budget
+   */
+  private async sendMealPlan(chatId: number, telegramId: string, budgetTier?: 'low' | 'medium' | 'high'): Promise<void> {
+    const userResult = await this.userService.getUserByTelegramId(telegramId);
+    if (!userResult.success || !userResult.data?._id) {
+      await this.bot.sendMessage(chatId, 'You don\'t have a profile yet. Send /start to get started with your fitness journey!');
+      return;
+    }
+
+    await this.bot.sendMessage(chatId, '🍽️ Putting together your meals...');
+    const planResult = await this.mealPlanService.generateMealPlan(userResult.data._id.toString(), { budgetTier });
+    if (!planResult.success) {
+      await this.bot.sendMessage(chatId, planResult.error?.userMessage || 'I couldn\'t create your meal plan.');
+      return;
+    }
+
+    const keyboard = {
+      inline_keyboard: [
+        [
+          { text: '💸 Low budget', callback_data: 'meal_plan_low' },
+          { text: '💰 Medium', callback_data: 'meal_plan_medium' },
+          { text: '💎 High', callback_data: 'meal_plan_high' },
+        ],
+      ],
+    };
+
+    await this.bot.sendMessage(chatId, this.mealPlanService.formatMealPlan(planResult.data!), {
+      reply_markup: keyboard
+    });
+  }
+
   /**
    * Handle /nutrition command
    */
@@ -418,7 +637,17 @@ Just start chatting with me naturally! 😊`;
       // Analyze the image
       const analysisResult = await this.aiService.analyzeImage(telegramId, imageBuffer, 'food_analysis');
 
-      if (analysisResult.success) {
+      if (analysisResult.success && analysisResult.data!.foodLog?.items.length) {
+        // The foods wait for the user to save them or type a correction
+        await this.bot.sendMessage(msg.chat.id, analysisResult.data!.message, {
+          reply_markup: {
+            inline_keyboard: [[
+              { text: '✅ Save', callback_data: 'food_log_save' },
+              { text: '🗑️ Discard', callback_data: 'food_log_discard' },
+            ]],
+          },
+        });
+      } else if (analysisResult.success) {
         await this.bot.sendMessage(msg.chat.id, analysisResult.data!.message);
       } else {
         await this.bot.sendMessage(msg.chat.id, 
@@ -463,6 +692,13 @@ Just start chatting with me naturally! 😊`;
         // Send the AI response
         await this.bot.sendMessage(msg.chat.id, response.message);
 
+        // Count down the rest after a logged set, and stop it when the workout ends
+        if (response.metadata?.restTimer) {
+          await this.startRestTimer(msg.chat.id, response.metadata.restTimer);
+        } else if (response.metadata?.workoutSessionActive === false) {
+          this.restTimerService.cancel(msg.chat.id.toString());
+        }
+
         // Check if onboarding was completed
         if (response.metadata?.userCreated) {
           console.log(`✅ User ${telegramId} completed onboarding`);
@@ -547,10 +783,48 @@ Just start chatting with me naturally! 😊`;
           }
           break;
 
+        case 'rest_skip':
+          const restedSeconds = await this.restTimerService.finish(chatId.toString());
+          await this.bot.sendMessage(chatId, restedSeconds !== undefined
+            ? `⏭️ Rest over after ${this.formatRest(restedSeconds)}. Go get that next set! 💪`
+            : 'You\'re not resting right now. Log a set and I\'ll start the timer.');
+          break;
+
+        case 'rest_add_30':
+          const secondsLeft = this.restTimerService.extend(chatId.toString(), 30, timer => this.notifyRestOver(chatId, timer));
+          await this.bot.sendMessage(chatId, secondsLeft !== undefined
+            ? `➕ Added 30s. ${this.formatRest(secondsLeft)} of rest left.`
+            : 'You\'re not resting right now. Log a set and I\'ll start the timer.');
+          break;
+
+        case 'calendar_feed':
+          await this.sendCalendarLink(chatId, telegramId);
+          break;
+
+        case 'meal_plan':
+          await this.sendMealPlan(chatId, telegramId);
+          break;
+
+        case 'meal_plan_low':
+        case 'meal_plan_medium':
+        case 'meal_plan_high':
+          await this.sendMealPlan(chatId, telegramId, data.replace('meal_plan_', '') as 'low' | 'medium' | 'high');
+          break;
+
         case 'analyze_food':
           await this.bot.sendMessage(chatId, '📸 Send me a photo of your food and I\'ll analyze the calories and nutrients for you!');
           break;
 
+        case 'food_log_save':
+        case 'food_log_discard':
+          // Same as typing "save" or "discard" in reply to the photo analysis
+          await this.handleTextMessage({
+            ...query.message!,
+            text: data.replace('food_log_', ''),
+            from: query.from
+          } as TelegramBot.Message);
+          break;
+
         default:
           // Handle suggestion callbacks
           if (data.startsWith('suggest_')) {
@@ -571,6 +845,42 @@ Just start chatting with me naturally! 😊`;
     }
   }
 
+  /**
+   * Start the rest countdown after a logged set, with buttons to skip it or add time
+   */
+  private async startRestTimer(chatId: number, timer: RestTimer): Promise<void> {
+    await this.restTimerService.start(chatId.toString(), timer, restTimer => this.notifyRestOver(chatId, restTimer));
+
+    const keyboard = {
+      inline_keyboard: [
+        [
+          { text: '⏭️ Skip rest', callback_data: 'rest_skip' },
+          { text: '➕ 30s', callback_data: 'rest_add_30' },
+        ],
+      ],
+    };
+
+    await this.bot.sendMessage(chatId, `⏱️ Rest ${this.formatRest(timer.seconds)}. I'll ping you when it's time for the next set.`, {
+      reply_markup: keyboard
+    });
+  }
+
+  private async notifyRestOver(chatId: number, timer: RestTimer): Promise<void> {
+    await this.bot.sendMessage(chatId, `🔔 Rest over! Time for your next set of ${timer.exerciseName}.`);
+  }
+
+  /**
+   * Format seconds as "90s" or "2m 30s"
+   */
+  private formatRest(seconds: number): string {
+    if (seconds < 60) {
+      return `${seconds}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    const remainder = seconds % 60;
+    return remainder > 0 ? `${minutes}m ${remainder}s` : `${minutes}m`;
+  }
+
   /**
    * Get BMI category helper
    */
@@ -1,20 +1,32 @@
 import { ObjectId } from 'mongodb';
 import { database } from '../database/connection';
-import { User, UserProfile, UserSchedule, UserPreferences, ApiResponse } from '../types';
+import { User, UserProfile, UserSchedule, UserPreferences, Limitation, ApiResponse } from '../types';
 import { 
   calculateBMI, 
+  calculateNutritionTargets,
   validateUserProfile, 
   validateUserSchedule, 
   validateUserPreferences,
   sanitizeString
 } from '../utils/validation';
 import { createError } from '../middleware/errorHandler';
+import { SubstitutionService } from './SubstitutionService';
 
 export class UserService {
+  private substitutionService: SubstitutionService;
+
+  constructor() {
+    this.substitutionService = new SubstitutionService();
+  }
+
   private get usersCollection() {
     return database.getSchemas().getUsersCollection();
   }
 
+  private get gymsCollection() {
+    return database.getSchemas().getGymsCollection();
+  }
+
   /**
    * Create a new user profile
    */
@@ -54,20 +66,22 @@ export class UserService {
 
       // Set default values
       const now = new Date();
+      const schedule = userData.schedule || {
+        workDays: [],
+        availableHours: [],
+        preferredWorkoutDuration: 60,
+        workoutDaysPerWeek: 3,
+      };
       const newUser: User = {
         telegramId: userData.telegramId,
         profile: profileValidation.value!,
-        schedule: userData.schedule || {
-          workDays: [],
-          availableHours: [],
-          preferredWorkoutDuration: 60,
-          workoutDaysPerWeek: 3,
-        },
+        schedule,
         preferences: userData.preferences || {
           reminderFrequency: 'daily',
           humorEnabled: true,
           conversationStyle: 'casual',
         },
+        nutritionTargets: calculateNutritionTargets(profileValidation.value!, schedule.workoutDaysPerWeek),
         createdAt: now,
         updatedAt: now,
       };
@@ -208,6 +222,8 @@ export class UserService {
         { 
           $set: { 
             profile: validation.value!,
+            // Weight, goal and activity all move the calorie targets
+            nutritionTargets: calculateNutritionTargets(validation.value!, user.schedule.workoutDaysPerWeek),
             updatedAt: new Date(),
           },
         }
@@ -225,6 +241,7 @@ export class UserService {
         metadata: {
           bmiCategory: this.getBMICategory(updatedUser!.profile.bmi),
           bmiChanged: user.profile.bmi !== updatedUser!.profile.bmi,
+          calorieTargetChanged: user.nutritionTargets?.targetCalories !== updatedUser!.nutritionTargets?.targetCalories,
         },
       };
     } catch (error: any) {
@@ -268,6 +285,8 @@ export class UserService {
         { 
           $set: { 
             schedule: validation.value!,
+            // Training days set the activity level when the user hasn't given one
+            nutritionTargets: calculateNutritionTargets(user.profile, validation.value!.workoutDaysPerWeek),
             updatedAt: new Date(),
           },
         }
@@ -372,6 +391,7 @@ export class UserService {
           metadata: {
             ...result.metadata,
             goalChanged: true,
+            nutritionTargets: result.data.nutritionTargets,
             recommendations: this.getGoalRecommendations(goal, result.data.profile.bmi),
           },
         };
@@ -423,6 +443,102 @@ export class UserService {
     }
   }
 
+  /**
+   * Record the injuries and limitations the user trains around and adapt
+   * their plan to them
+   */
+  async setLimitations(userId: string, limitations: Limitation[]): Promise<ApiResponse<User>> {
+    try {
+      const result = await this.updateUserProfile(userId, { limitations });
+
+      if (result.success && result.data) {
+        const adaptation = await this.substitutionService.adaptPlanToUser(userId);
+        return {
+          ...result,
+          metadata: {
+            ...result.metadata,
+            substitutions: adaptation.data?.substitutions || [],
+            removedExercises: adaptation.data?.removed || [],
+          },
+        };
+      }
+
+      return result;
+    } catch (error: any) {
+      console.error('Error setting limitations:', error);
+      return {
+        success: false,
+        error: {
+          code: 'LIMITATIONS_UPDATE_ERROR',
+          message: error.message,
+          userMessage: 'Failed to update your injuries and limitations.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Set the gym the user trains at and adapt their plan to its equipment
+   */
+  async setHomeGym(userId: string, gymId: string): Promise<ApiResponse<User>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+      if (!ObjectId.isValid(gymId)) {
+        throw createError('Invalid gym ID format', 400);
+      }
+
+      const gym = await this.gymsCollection.findOne({ _id: new ObjectId(gymId) });
+      if (!gym) {
+        return {
+          success: false,
+          error: {
+            code: 'GYM_NOT_FOUND',
+            message: 'Gym not found',
+            userMessage: 'I couldn\'t find that gym.',
+          },
+        };
+      }
+
+      const result = await this.usersCollection.updateOne(
+        { _id: new ObjectId(userId) },
+        {
+          $set: {
+            homeGymId: gym._id,
+            updatedAt: new Date(),
+          },
+        }
+      );
+
+      if (result.matchedCount === 0) {
+        throw createError('User not found', 404);
+      }
+
+      const updatedUser = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      const adaptation = await this.substitutionService.adaptPlanToUser(userId);
+
+      return {
+        success: true,
+        data: updatedUser!,
+        metadata: {
+          substitutions: adaptation.data?.substitutions || [],
+          removedExercises: adaptation.data?.removed || [],
+        },
+      };
+    } catch (error: any) {
+      console.error('Error setting home gym:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'HOME_GYM_UPDATE_ERROR',
+          message: error.message,
+          userMessage: 'Failed to update your gym.',
+        },
+      };
+    }
+  }
+
   /**
    * Delete user account
    */
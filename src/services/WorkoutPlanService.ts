@@ -0,0 +1,471 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { User, WorkoutPlan, WorkoutDay, PlannedExercise, ExerciseGroup, ApiResponse } from '../types';
+import { createError } from '../middleware/errorHandler';
+import { nextGroupLabel } from '../utils/exerciseGroups';
+import { WEEK_DAYS } from '../utils/schedule';
+import { SubstitutionService } from './SubstitutionService';
+
+type PlanType = WorkoutPlan['planType'];
+type Philosophy = WorkoutPlan['philosophy'];
+
+interface ExerciseTemplate {
+  name: string;
+  compound: boolean;
+}
+
+interface VolumeRules {
+  sets: number;
+  reps: string;
+  compoundRest: number; // in seconds
+  isolationRest: number; // in seconds
+  exercisesPerSession: number;
+  notes?: string;
+  supersetAntagonists?: boolean; // pair opposing muscle groups back to back
+  isolationDropSets?: number; // drops after the last set of isolation exercises
+}
+
+// Default training days for each weekly frequency, spread to leave recovery days
+const DEFAULT_TRAINING_DAYS: { [daysPerWeek: number]: string[] } = {
+  1: ['Wednesday'],
+  2: ['Monday', 'Thursday'],
+  3: ['Monday', 'Wednesday', 'Friday'],
+  4: ['Monday', 'Tuesday', 'Thursday', 'Friday'],
+  5: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'],
+  6: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  7: WEEK_DAYS,
+};
+
+// Exercises per muscle group, compounds first
+const EXERCISE_TEMPLATES: { [muscleGroup: string]: ExerciseTemplate[] } = {
+  chest: [
+    { name: 'Barbell Bench Press', compound: true },
+    { name: 'Incline Dumbbell Press', compound: true },
+    { name: 'Push Up', compound: true },
+    { name: 'Dumbbell Fly', compound: false },
+  ],
+  back: [
+    { name: 'Barbell Row', compound: true },
+    { name: 'Lat Pulldown', compound: true },
+    { name: 'Pull Up', compound: true },
+    { name: 'Seated Cable Row', compound: true },
+  ],
+  shoulders: [
+    { name: 'Overhead Press', compound: true },
+    { name: 'Dumbbell Shoulder Press', compound: true },
+    { name: 'Lateral Raise', compound: false },
+    { name: 'Rear Delt Fly', compound: false },
+  ],
+  biceps: [
+    { name: 'Barbell Curl', compound: false },
+    { name: 'Dumbbell Hammer Curl', compound: false },
+    { name: 'Incline Dumbbell Curl', compound: false },
+  ],
+  triceps: [
+    { name: 'Close Grip Bench Press', compound: true },
+    { name: 'Tricep Pushdown', compound: false },
+    { name: 'Overhead Tricep Extension', compound: false },
+  ],
+  quads: [
+    { name: 'Barbell Back Squat', compound: true },
+    { name: 'Leg Press', compound: true },
+    { name: 'Walking Lunge', compound: true },
+    { name: 'Leg Extension', compound: false },
+  ],
+  hamstrings: [
+    { name: 'Romanian Deadlift', compound: true },
+    { name: 'Lying Leg Curl', compound: false },
+    { name: 'Good Morning', compound: true },
+  ],
+  glutes: [
+    { name: 'Hip Thrust', compound: true },
+    { name: 'Bulgarian Split Squat', compound: true },
+    { name: 'Glute Bridge', compound: false },
+  ],
+  calves: [
+    { name: 'Standing Calf Raise', compound: false },
+    { name: 'Seated Calf Raise', compound: false },
+  ],
+  core: [
+    { name: 'Plank', compound: false },
+    { name: 'Hanging Leg Raise', compound: false },
+    { name: 'Cable Crunch', compound: false },
+  ],
+};
+
+// Muscle group rotation for each plan type
+const PLAN_DAY_TEMPLATES: { [planType in PlanType]: string[][] } = {
+  full_body: [
+    ['quads', 'chest', 'back', 'shoulders', 'hamstrings', 'core'],
+  ],
+  upper_lower: [
+    ['chest', 'back', 'shoulders', 'biceps', 'triceps'],
+    ['quads', 'hamstrings', 'glutes', 'calves', 'core'],
+  ],
+  push_pull_legs: [
+    ['chest', 'shoulders', 'triceps'],
+    ['back', 'biceps', 'core'],
+    ['quads', 'hamstrings', 'glutes', 'calves'],
+  ],
+  body_part_split: [
+    ['chest'],
+    ['back'],
+    ['shoulders', 'core'],
+    ['quads', 'hamstrings', 'calves'],
+    ['biceps', 'triceps'],
+  ],
+};
+
+// Opposing muscle groups that can be supersetted without tiring each other,
+// as in Arnold's chest and back and arm supersets
+const ANTAGONIST_MUSCLE_GROUPS: { [muscleGroup: string]: string } = {
+  chest: 'back',
+  back: 'chest',
+  biceps: 'triceps',
+  triceps: 'biceps',
+};
+
+const WARM_UP_MINUTES = 10;
+const SECONDS_PER_SET = 45;
+
+export class WorkoutPlanService {
+  private substitutionService: SubstitutionService;
+
+  constructor() {
+    this.substitutionService = new SubstitutionService();
+  }
+
+  private get workoutPlansCollection() {
+    return database.getSchemas().getWorkoutPlansCollection();
+  }
+
+  private get usersCollection() {
+    return database.getSchemas().getUsersCollection();
+  }
+
+  private get exercisesCollection() {
+    return database.getSchemas().getExercisesCollection();
+  }
+
+  /**
+   * Generate a workout plan from the user's profile and schedule and make it
+   * the user's only active plan
+   */
+  async generatePlan(userId: string, planType?: PlanType): Promise<ApiResponse<WorkoutPlan>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const user = await this.usersCollection.findOne({ _id: new ObjectId(userId) });
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const plan = this.buildPlan(user, planType);
+      await this.linkLibraryExercises(plan);
+      // Swap out exercises the home gym has no equipment for or that clash with an injury
+      const adaptation = await this.substitutionService.adaptToUser(plan, user);
+
+      // Save the new plan before touching the old one, so a failed insert
+      // leaves the user's current plan active. It starts inactive because
+      // only one active plan per user is allowed.
+      const result = await this.workoutPlansCollection.insertOne({ ...plan, isActive: false });
+
+      try {
+        await this.workoutPlansCollection.updateMany(
+          { userId: plan.userId, isActive: true, _id: { $ne: result.insertedId } },
+          { $set: { isActive: false } }
+        );
+        await this.workoutPlansCollection.updateOne(
+          { _id: result.insertedId },
+          { $set: { isActive: true } }
+        );
+      } catch (error) {
+        // Another plan generated at the same time got activated first
+        await this.workoutPlansCollection.deleteOne({ _id: result.insertedId });
+        throw error;
+      }
+
+      return {
+        success: true,
+        data: { ...plan, _id: result.insertedId },
+        metadata: {
+          planId: result.insertedId,
+          trainingDays: plan.schedule.map(day => day.dayOfWeek),
+          substitutions: adaptation.substitutions,
+          removedExercises: adaptation.removed,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error generating workout plan:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'PLAN_GENERATION_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t create your workout plan right now. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Rebuild the user's plan from their current profile, keeping the active
+   * plan's split unless a new one is requested
+   */
+  async regeneratePlan(userId: string, planType?: PlanType): Promise<ApiResponse<WorkoutPlan>> {
+    const activePlan = await this.getActivePlan(userId);
+    const result = await this.generatePlan(userId, planType || activePlan.data?.planType);
+
+    if (result.success) {
+      return {
+        ...result,
+        metadata: {
+          ...result.metadata,
+          previousPlanId: activePlan.data?._id,
+        },
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the user's active workout plan
+   */
+  async getActivePlan(userId: string): Promise<ApiResponse<WorkoutPlan>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const plan = await this.workoutPlansCollection.findOne({
+        userId: new ObjectId(userId),
+        isActive: true,
+      });
+
+      if (!plan) {
+        return {
+          success: false,
+          error: {
+            code: 'PLAN_NOT_FOUND',
+            message: 'No active workout plan',
+            userMessage: 'You don\'t have a workout plan yet. Ask me to create one!',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: plan,
+      };
+    } catch (error: any) {
+      console.error('Error getting active workout plan:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'PLAN_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your workout plan.',
+        },
+      };
+    }
+  }
+
+  // Helper methods
+
+  private buildPlan(user: User, requestedPlanType?: PlanType): WorkoutPlan {
+    const daysPerWeek = Math.min(Math.max(user.schedule.workoutDaysPerWeek || 3, 1), 7);
+    const planType = requestedPlanType || this.selectPlanType(daysPerWeek, user.profile.experienceLevel);
+    const philosophy = user.profile.trainingPhilosophy;
+    const rules = this.getVolumeRules(philosophy, user.profile.experienceLevel);
+    const trainingDays = this.getTrainingDays(user, daysPerWeek);
+    const dayTemplates = PLAN_DAY_TEMPLATES[planType];
+
+    const schedule: WorkoutDay[] = trainingDays.map((dayOfWeek, index) => {
+      const muscleGroups = dayTemplates[index % dayTemplates.length];
+      // Rotate exercise variations when the same template repeats in a week
+      const variation = Math.floor(index / dayTemplates.length);
+      return this.buildDay(dayOfWeek, muscleGroups, variation, rules, user.schedule.preferredWorkoutDuration);
+    });
+
+    return {
+      userId: user._id!,
+      planType,
+      schedule,
+      philosophy,
+      createdAt: new Date(),
+      isActive: true,
+    };
+  }
+
+  private async linkLibraryExercises(plan: WorkoutPlan): Promise<void> {
+    const plannedExercises = plan.schedule.flatMap(day => day.exercises);
+    const names = [...new Set(plannedExercises.map(exercise => exercise.exerciseName))];
+    const libraryExercises = await this.exercisesCollection
+      .find({ name: { $in: names } }, { projection: { name: 1 } })
+      .toArray();
+    const idsByName = new Map(libraryExercises.map(exercise => [exercise.name, exercise._id]));
+
+    for (const exercise of plannedExercises) {
+      const exerciseId = idsByName.get(exercise.exerciseName);
+      if (exerciseId) {
+        exercise.exerciseId = exerciseId;
+      }
+    }
+  }
+
+  private selectPlanType(daysPerWeek: number, experienceLevel: User['profile']['experienceLevel']): PlanType {
+    if (daysPerWeek <= 3) {
+      return 'full_body';
+    }
+    if (daysPerWeek === 4 || experienceLevel === 'beginner') {
+      return 'upper_lower';
+    }
+    if (daysPerWeek === 5) {
+      return 'body_part_split';
+    }
+    return 'push_pull_legs';
+  }
+
+  private getVolumeRules(philosophy: Philosophy, experienceLevel: User['profile']['experienceLevel']): VolumeRules {
+    switch (philosophy) {
+      case 'mentzer':
+        // Heavy Duty: one or two all-out work sets, long rests, few exercises
+        return {
+          sets: experienceLevel === 'beginner' ? 2 : 1,
+          reps: '6-10 to failure',
+          compoundRest: 180,
+          isolationRest: 120,
+          exercisesPerSession: 4,
+          notes: 'Take the working set to complete failure',
+          // Heavy Duty extends the set past failure once the lifter can handle it
+          ...(experienceLevel !== 'beginner' && { isolationDropSets: 1 }),
+        };
+      case 'arnold':
+        // High volume: many sets and several exercises per muscle group
+        return {
+          sets: experienceLevel === 'beginner' ? 3 : 4,
+          reps: '8-12',
+          compoundRest: 90,
+          isolationRest: 60,
+          exercisesPerSession: experienceLevel === 'beginner' ? 6 : 8,
+          supersetAntagonists: experienceLevel !== 'beginner',
+        };
+      case 'custom':
+      default:
+        return {
+          sets: 3,
+          reps: '8-12',
+          compoundRest: 120,
+          isolationRest: 90,
+          exercisesPerSession: 6,
+        };
+    }
+  }
+
+  private getTrainingDays(user: User, daysPerWeek: number): string[] {
+    const preferredDays = (user.schedule.workDays || [])
+      .map(day => WEEK_DAYS.find(weekDay => weekDay.toLowerCase() === day.toLowerCase()))
+      .filter((day): day is string => !!day);
+
+    if (preferredDays.length === daysPerWeek) {
+      return WEEK_DAYS.filter(day => preferredDays.includes(day));
+    }
+
+    return DEFAULT_TRAINING_DAYS[daysPerWeek];
+  }
+
+  private buildDay(
+    dayOfWeek: string,
+    muscleGroups: string[],
+    variation: number,
+    rules: VolumeRules,
+    preferredDuration: number
+  ): WorkoutDay {
+    const perGroup = Math.max(1, Math.round(rules.exercisesPerSession / muscleGroups.length));
+    const exercises: PlannedExercise[] = [];
+
+    // Take one exercise per group per round so trimming drops accessories last-first
+    for (let round = 0; round < perGroup; round++) {
+      for (const muscleGroup of muscleGroups) {
+        const templates = EXERCISE_TEMPLATES[muscleGroup];
+        if (round >= templates.length) continue;
+
+        const template = templates[(round + variation) % templates.length];
+        exercises.push({
+          exerciseName: template.name,
+          sets: rules.sets,
+          reps: rules.reps,
+          restTime: template.compound ? rules.compoundRest : rules.isolationRest,
+          ...(rules.notes && { notes: rules.notes }),
+          // Core work is mostly bodyweight, with no load to drop
+          ...(!template.compound && muscleGroup !== 'core' && rules.isolationDropSets && { dropSets: rules.isolationDropSets }),
+        });
+      }
+    }
+
+    while (exercises.length > muscleGroups.length && this.estimateDuration(exercises) > preferredDuration) {
+      exercises.pop();
+    }
+
+    const dayExercises = rules.supersetAntagonists ? this.supersetAntagonists(exercises) : exercises;
+
+    return {
+      dayOfWeek,
+      muscleGroups,
+      exercises: dayExercises,
+      estimatedDuration: this.estimateDuration(dayExercises),
+    };
+  }
+
+  /**
+   * Pair each exercise with the next one for the opposing muscle group that
+   * has the same sets. The pair is done back to back, resting after both.
+   */
+  private supersetAntagonists(exercises: PlannedExercise[]): PlannedExercise[] {
+    const remaining = [...exercises];
+    const paired: PlannedExercise[] = [];
+    const labels: string[] = [];
+
+    while (remaining.length > 0) {
+      const exercise = remaining.shift()!;
+      const antagonist = ANTAGONIST_MUSCLE_GROUPS[this.getTemplateMuscleGroup(exercise.exerciseName) || ''];
+      const partnerIndex = antagonist
+        ? remaining.findIndex(other =>
+            other.sets === exercise.sets && this.getTemplateMuscleGroup(other.exerciseName) === antagonist
+          )
+        : -1;
+      if (partnerIndex === -1) {
+        paired.push(exercise);
+        continue;
+      }
+
+      const [partner] = remaining.splice(partnerIndex, 1);
+      const group: ExerciseGroup = { label: nextGroupLabel(labels), type: 'superset' };
+      labels.push(group.label);
+      paired.push(
+        { ...exercise, group, restTime: 0 },
+        { ...partner, group, restTime: Math.max(exercise.restTime, partner.restTime) }
+      );
+    }
+
+    return paired;
+  }
+
+  private getTemplateMuscleGroup(exerciseName: string): string | undefined {
+    return Object.keys(EXERCISE_TEMPLATES).find(muscleGroup =>
+      EXERCISE_TEMPLATES[muscleGroup].some(template => template.name === exerciseName)
+    );
+  }
+
+  private estimateDuration(exercises: PlannedExercise[]): number {
+    const seconds = exercises.reduce(
+      (total, exercise) =>
+        total + exercise.sets * (SECONDS_PER_SET + exercise.restTime) + (exercise.dropSets || 0) * SECONDS_PER_SET,
+      0
+    );
+    return WARM_UP_MINUTES + Math.round(seconds / 60);
+  }
+}
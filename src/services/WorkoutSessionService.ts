@@ -0,0 +1,808 @@
+import { ObjectId } from 'mongodb';
+import { database } from '../database/connection';
+import { WorkoutSession, ExerciseLog, ExerciseGroup, SetLog, PersonalRecord, ApiResponse } from '../types';
+import { sanitizeString, validateSetLog } from '../utils/validation';
+import { createError } from '../middleware/errorHandler';
+import { countWorkingSets, nextGroupLabel } from '../utils/exerciseGroups';
+import { ExerciseService } from './ExerciseService';
+import { PersonalRecordService } from './PersonalRecordService';
+
+export interface WorkoutSummary {
+  durationMinutes: number; // time spent paused is left out
+  totalSets: number; // drop sets count with the set they continue
+  totalVolume: number; // kg, weight x reps over every set
+  exercises: {
+    exerciseName: string;
+    sets: number;
+    volume: number;
+  }[];
+  personalRecords: PersonalRecord[];
+}
+
+export class WorkoutSessionService {
+  private exerciseService: ExerciseService;
+  private personalRecordService: PersonalRecordService;
+
+  constructor() {
+    this.exerciseService = new ExerciseService();
+    this.personalRecordService = new PersonalRecordService();
+  }
+
+  private get workoutSessionsCollection() {
+    return database.getSchemas().getWorkoutSessionsCollection();
+  }
+
+  /**
+   * Start a workout session, or return the user's session that is still open
+   */
+  async startSession(userId: string, plannedWorkout?: string): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const existingSession = await this.workoutSessionsCollection.findOne(
+        { userId: new ObjectId(userId), isCompleted: false },
+        { sort: { startTime: -1 } }
+      );
+
+      if (existingSession) {
+        return {
+          success: true,
+          data: existingSession,
+          metadata: {
+            resumed: true,
+          },
+        };
+      }
+
+      const startTime = new Date();
+      const newSession: WorkoutSession = {
+        userId: new ObjectId(userId),
+        startTime,
+        exercises: [],
+        isCompleted: false,
+        lastActivityAt: startTime,
+      };
+
+      if (plannedWorkout && ObjectId.isValid(plannedWorkout)) {
+        newSession.plannedWorkout = new ObjectId(plannedWorkout);
+      }
+
+      const result = await this.workoutSessionsCollection.insertOne(newSession);
+
+      return {
+        success: true,
+        data: { ...newSession, _id: result.insertedId },
+        metadata: {
+          resumed: false,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error starting workout session:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_START_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t start your workout session. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Get the user's open (not completed) workout session
+   */
+  async getActiveSession(userId: string): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const session = await this.workoutSessionsCollection.findOne(
+        { userId: new ObjectId(userId), isCompleted: false },
+        { sort: { startTime: -1 } }
+      );
+
+      if (!session) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_ACTIVE_SESSION',
+            message: 'No active workout session',
+            userMessage: 'You don\'t have a workout in progress. Tell me when you\'re at the gym!',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: session,
+      };
+    } catch (error: any) {
+      console.error('Error getting active workout session:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your workout session.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Append sets for an exercise to a session. Sets are added to the latest
+   * log of the same exercise so that "bench 3x10" followed by "1 more set"
+   * stays one ExerciseLog. Any personal records the new sets set are
+   * returned in metadata.personalRecords.
+   */
+  async logSets(
+    sessionId: string,
+    exerciseName: string,
+    sets: SetLog[],
+    exerciseId?: ObjectId
+  ): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      if (!ObjectId.isValid(sessionId)) {
+        throw createError('Invalid session ID format', 400);
+      }
+
+      if (sets.length === 0) {
+        throw createError('At least one set is required', 400);
+      }
+
+      const session = await this.workoutSessionsCollection.findOne({ _id: new ObjectId(sessionId) });
+      if (!session) {
+        throw createError('Workout session not found', 404);
+      }
+
+      if (session.isCompleted) {
+        throw createError('Workout session is already completed', 400);
+      }
+
+      const { name, resolvedId } = await this.resolveExercise(exerciseName, exerciseId);
+      const exercises: ExerciseLog[] = [...session.exercises];
+      const lastLog = exercises[exercises.length - 1];
+      let loggedExercise: ExerciseLog;
+
+      // Straight sets never join a superset or circuit logged before them
+      if (lastLog && !lastLog.group && this.isSameExercise(lastLog, name, resolvedId)) {
+        lastLog.sets = [...lastLog.sets, ...sets];
+        loggedExercise = lastLog;
+      } else {
+        loggedExercise = {
+          ...(resolvedId && { exerciseId: resolvedId }),
+          exerciseName: name,
+          sets,
+        };
+        exercises.push(loggedExercise);
+      }
+
+      // Logging a set ends a pause
+      const now = new Date();
+      const resumed = this.resumeUpdates(session, now);
+      await this.workoutSessionsCollection.updateOne(
+        { _id: session._id },
+        {
+          $set: { exercises, lastActivityAt: now, ...resumed.$set },
+          ...(resumed.$unset && { $unset: resumed.$unset }),
+        }
+      );
+
+      const updatedSession: WorkoutSession = { ...session, ...resumed.$set, exercises, lastActivityAt: now };
+      delete updatedSession.pausedAt;
+      // A failed record check should not lose the sets that were just saved
+      const recordsResult = await this.personalRecordService.checkForRecords(updatedSession, loggedExercise, sets);
+
+      return {
+        success: true,
+        data: updatedSession,
+        metadata: {
+          exerciseCount: exercises.length,
+          setsLogged: sets.length,
+          // Position of the last set logged, for recording the rest after it
+          exerciseIndex: exercises.indexOf(loggedExercise),
+          setIndex: loggedExercise.sets.length - 1,
+          personalRecords: recordsResult.success ? recordsResult.data : [],
+        },
+      };
+    } catch (error: any) {
+      console.error('Error logging sets:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SET_LOG_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t save those sets. Could you tell me again?',
+        },
+      };
+    }
+  }
+
+  /**
+   * Log a superset, giant set, circuit or EMOM as one ExerciseLog per
+   * exercise sharing a group. The group gets the next free label in the
+   * session. Any personal records are returned in metadata.personalRecords.
+   */
+  async logGroupSets(
+    sessionId: string,
+    group: Omit<ExerciseGroup, 'label'>,
+    groupExercises: Array<{ exerciseName: string; sets: SetLog[]; exerciseId?: ObjectId }>
+  ): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      if (!ObjectId.isValid(sessionId)) {
+        throw createError('Invalid session ID format', 400);
+      }
+
+      if (groupExercises.length === 0 || groupExercises.some(exercise => exercise.sets.length === 0)) {
+        throw createError('Every exercise in the group needs at least one set', 400);
+      }
+
+      const session = await this.workoutSessionsCollection.findOne({ _id: new ObjectId(sessionId) });
+      if (!session) {
+        throw createError('Workout session not found', 404);
+      }
+
+      if (session.isCompleted) {
+        throw createError('Workout session is already completed', 400);
+      }
+
+      const usedLabels = session.exercises.map(log => log.group?.label).filter((label): label is string => !!label);
+      const loggedGroup: ExerciseGroup = { label: nextGroupLabel(usedLabels), ...group };
+      const loggedExercises: ExerciseLog[] = [];
+      for (const exercise of groupExercises) {
+        const { name, resolvedId } = await this.resolveExercise(exercise.exerciseName, exercise.exerciseId);
+        loggedExercises.push({
+          ...(resolvedId && { exerciseId: resolvedId }),
+          exerciseName: name,
+          sets: exercise.sets,
+          group: loggedGroup,
+        });
+      }
+      const exercises: ExerciseLog[] = [...session.exercises, ...loggedExercises];
+
+      // Logging a set ends a pause
+      const now = new Date();
+      const resumed = this.resumeUpdates(session, now);
+      await this.workoutSessionsCollection.updateOne(
+        { _id: session._id },
+        {
+          $set: { exercises, lastActivityAt: now, ...resumed.$set },
+          ...(resumed.$unset && { $unset: resumed.$unset }),
+        }
+      );
+
+      const updatedSession: WorkoutSession = { ...session, ...resumed.$set, exercises, lastActivityAt: now };
+      delete updatedSession.pausedAt;
+      const personalRecords: PersonalRecord[] = [];
+      for (const loggedExercise of loggedExercises) {
+        const recordsResult = await this.personalRecordService.checkForRecords(updatedSession, loggedExercise, loggedExercise.sets);
+        if (recordsResult.success) {
+          personalRecords.push(...recordsResult.data!);
+        }
+      }
+
+      const lastLog = loggedExercises[loggedExercises.length - 1];
+      return {
+        success: true,
+        data: updatedSession,
+        metadata: {
+          exerciseCount: exercises.length,
+          setsLogged: loggedExercises.reduce((total, log) => total + log.sets.length, 0),
+          group: loggedGroup,
+          // Rest comes after the round, so it is recorded against the group's last exercise
+          exerciseIndex: exercises.indexOf(lastLog),
+          setIndex: lastLog.sets.length - 1,
+          personalRecords,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error logging exercise group:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SET_LOG_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t save that superset. Could you tell me again?',
+        },
+      };
+    }
+  }
+
+  /**
+   * Close a workout session. A summary of the workout is returned in
+   * metadata.summary.
+   */
+  async endSession(sessionId: string, notes?: string): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      if (!ObjectId.isValid(sessionId)) {
+        throw createError('Invalid session ID format', 400);
+      }
+
+      const session = await this.workoutSessionsCollection.findOne({
+        _id: new ObjectId(sessionId),
+        isCompleted: false,
+      });
+      if (!session) {
+        throw createError('Active workout session not found', 404);
+      }
+
+      return await this.closeSession(session, new Date(), notes ? { notes: sanitizeString(notes) } : {});
+    } catch (error: any) {
+      console.error('Error ending workout session:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_END_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t close your workout session. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Pause an open workout session, e.g. for a long break between exercises
+   */
+  async pauseSession(sessionId: string): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      const session = await this.findOpenSession(sessionId);
+      if (session.pausedAt) {
+        return {
+          success: true,
+          data: session,
+          metadata: {
+            alreadyPaused: true,
+          },
+        };
+      }
+
+      const now = new Date();
+      await this.workoutSessionsCollection.updateOne(
+        { _id: session._id },
+        { $set: { pausedAt: now, lastActivityAt: now } }
+      );
+
+      return {
+        success: true,
+        data: { ...session, pausedAt: now, lastActivityAt: now },
+        metadata: {
+          alreadyPaused: false,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error pausing workout session:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_PAUSE_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t pause your workout. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Resume a paused workout session. The length of the pause is returned
+   * in metadata.pausedMinutes.
+   */
+  async resumeSession(sessionId: string): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      const session = await this.findOpenSession(sessionId);
+      if (!session.pausedAt) {
+        return {
+          success: true,
+          data: session,
+          metadata: {
+            pausedMinutes: 0,
+          },
+        };
+      }
+
+      const now = new Date();
+      const resumed = this.resumeUpdates(session, now);
+      await this.workoutSessionsCollection.updateOne(
+        { _id: session._id },
+        { $set: { ...resumed.$set, lastActivityAt: now }, $unset: resumed.$unset! }
+      );
+
+      const updatedSession: WorkoutSession = { ...session, ...resumed.$set, lastActivityAt: now };
+      delete updatedSession.pausedAt;
+
+      return {
+        success: true,
+        data: updatedSession,
+        metadata: {
+          pausedMinutes: Math.round((now.getTime() - session.pausedAt.getTime()) / 60000),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error resuming workout session:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_RESUME_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t resume your workout. Please try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Close every open session with no activity for idleHours. Sessions end
+   * at their last activity so the idle time doesn't count as training.
+   * Each closed session's summary is returned in metadata.summaries, keyed
+   * by session ID.
+   */
+  async closeIdleSessions(idleHours: number, now: Date = new Date()): Promise<ApiResponse<WorkoutSession[]>> {
+    try {
+      const cutoff = new Date(now.getTime() - idleHours * 3600000);
+      const idleSessions = await this.workoutSessionsCollection
+        .find({
+          isCompleted: false,
+          $or: [
+            { lastActivityAt: { $lt: cutoff } },
+            { lastActivityAt: { $exists: false }, startTime: { $lt: cutoff } },
+          ],
+        })
+        .toArray();
+
+      const closedSessions: WorkoutSession[] = [];
+      const summaries: Record<string, WorkoutSummary> = {};
+      for (const session of idleSessions) {
+        const result = await this.closeSession(session, session.lastActivityAt || session.startTime, { autoClosed: true });
+        if (result.success) {
+          closedSessions.push(result.data!);
+          summaries[session._id!.toString()] = result.metadata!.summary;
+        }
+      }
+
+      return {
+        success: true,
+        data: closedSessions,
+        metadata: {
+          summaries,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error closing idle workout sessions:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_END_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t close idle workout sessions.',
+        },
+      };
+    }
+  }
+
+  /**
+   * List a user's workout sessions, newest first
+   */
+  async getSessionsForUser(
+    userId: string,
+    page: number = 1,
+    limit: number = 20
+  ): Promise<ApiResponse<WorkoutSession[]>> {
+    try {
+      if (!ObjectId.isValid(userId)) {
+        throw createError('Invalid user ID format', 400);
+      }
+
+      const safePage = Math.max(1, Math.floor(page));
+      const safeLimit = Math.min(Math.max(1, Math.floor(limit)), 100);
+      const filter = { userId: new ObjectId(userId) };
+
+      const [sessions, total] = await Promise.all([
+        this.workoutSessionsCollection
+          .find(filter)
+          .sort({ startTime: -1 })
+          .skip((safePage - 1) * safeLimit)
+          .limit(safeLimit)
+          .toArray(),
+        this.workoutSessionsCollection.countDocuments(filter),
+      ]);
+
+      return {
+        success: true,
+        data: sessions,
+        metadata: {
+          page: safePage,
+          limit: safeLimit,
+          total,
+          totalPages: Math.ceil(total / safeLimit),
+        },
+      };
+    } catch (error: any) {
+      console.error('Error listing workout sessions:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve your workout history.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Get one of a user's workout sessions
+   */
+  async getSessionById(userId: string, sessionId: string): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      if (!ObjectId.isValid(userId) || !ObjectId.isValid(sessionId)) {
+        throw createError('Invalid ID format', 400);
+      }
+
+      const session = await this.workoutSessionsCollection.findOne({
+        _id: new ObjectId(sessionId),
+        userId: new ObjectId(userId),
+      });
+
+      if (!session) {
+        return {
+          success: false,
+          error: {
+            code: 'SESSION_NOT_FOUND',
+            message: 'Workout session not found',
+            userMessage: 'I couldn\'t find that workout session.',
+          },
+        };
+      }
+
+      return {
+        success: true,
+        data: session,
+      };
+    } catch (error: any) {
+      console.error('Error getting workout session:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'WORKOUT_SESSION_FETCH_ERROR',
+          message: error.message,
+          userMessage: 'Failed to retrieve that workout session.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Add sets to any of a user's sessions, including completed ones, for
+   * corrections after the workout
+   */
+  async addSets(
+    userId: string,
+    sessionId: string,
+    exerciseName: string,
+    sets: SetLog[],
+    exerciseId?: ObjectId
+  ): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      if (!exerciseName || sets.length === 0) {
+        throw createError('Exercise name and at least one set are required', 400);
+      }
+      const validatedSets = sets.map(set => this.validateSet(set));
+
+      const sessionResult = await this.getSessionById(userId, sessionId);
+      if (!sessionResult.success) {
+        return sessionResult;
+      }
+      const session = sessionResult.data!;
+
+      const { name, resolvedId } = await this.resolveExercise(exerciseName, exerciseId);
+      const exercises: ExerciseLog[] = [...session.exercises];
+      const existingLog = exercises.find(log => this.isSameExercise(log, name, resolvedId));
+
+      if (existingLog) {
+        existingLog.sets = [...existingLog.sets, ...validatedSets];
+      } else {
+        exercises.push({
+          ...(resolvedId && { exerciseId: resolvedId }),
+          exerciseName: name,
+          sets: validatedSets,
+        });
+      }
+
+      await this.workoutSessionsCollection.updateOne(
+        { _id: session._id },
+        { $set: { exercises } }
+      );
+
+      return {
+        success: true,
+        data: { ...session, exercises },
+      };
+    } catch (error: any) {
+      console.error('Error adding sets:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SET_LOG_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t add those sets. Please check the values and try again.',
+        },
+      };
+    }
+  }
+
+  /**
+   * Edit a logged set
+   */
+  async updateSet(
+    userId: string,
+    sessionId: string,
+    exerciseIndex: number,
+    setIndex: number,
+    setUpdates: Partial<SetLog>
+  ): Promise<ApiResponse<WorkoutSession>> {
+    try {
+      const sessionResult = await this.getSessionById(userId, sessionId);
+      if (!sessionResult.success) {
+        return sessionResult;
+      }
+      const session = sessionResult.data!;
+
+      const exerciseLog = session.exercises[exerciseIndex];
+      if (!exerciseLog || !exerciseLog.sets[setIndex]) {
+        return {
+          success: false,
+          error: {
+            code: 'SET_NOT_FOUND',
+            message: 'Set not found',
+            userMessage: 'I couldn\'t find that set in your workout.',
+          },
+        };
+      }
+
+      const updatedSet = this.validateSet({ ...exerciseLog.sets[setIndex], ...setUpdates });
+      exerciseLog.sets[setIndex] = updatedSet;
+
+      await this.workoutSessionsCollection.updateOne(
+        { _id: session._id },
+        { $set: { [`exercises.${exerciseIndex}.sets.${setIndex}`]: updatedSet } }
+      );
+
+      return {
+        success: true,
+        data: session,
+      };
+    } catch (error: any) {
+      console.error('Error updating set:', error);
+      return {
+        success: false,
+        error: {
+          code: error.name || 'SET_UPDATE_ERROR',
+          message: error.message,
+          userMessage: 'I couldn\'t update that set. Please check the values and try again.',
+        },
+      };
+    }
+  }
+
+  // Helper methods
+
+  private async findOpenSession(sessionId: string): Promise<WorkoutSession> {
+    if (!ObjectId.isValid(sessionId)) {
+      throw createError('Invalid session ID format', 400);
+    }
+
+    const session = await this.workoutSessionsCollection.findOne({
+      _id: new ObjectId(sessionId),
+      isCompleted: false,
+    });
+    if (!session) {
+      throw createError('Active workout session not found', 404);
+    }
+    return session;
+  }
+
+  /**
+   * Updates that end a pause, adding its length to the paused total
+   */
+  private resumeUpdates(
+    session: WorkoutSession,
+    now: Date
+  ): { $set: Partial<WorkoutSession>; $unset?: { pausedAt: '' } } {
+    if (!session.pausedAt) {
+      return { $set: {} };
+    }
+    const pausedSeconds = (session.pausedSeconds || 0) + Math.round((now.getTime() - session.pausedAt.getTime()) / 1000);
+    return { $set: { pausedSeconds }, $unset: { pausedAt: '' } };
+  }
+
+  private async closeSession(
+    session: WorkoutSession,
+    endTime: Date,
+    updates: Partial<WorkoutSession>
+  ): Promise<ApiResponse<WorkoutSession>> {
+    // Time after a pause that was never resumed doesn't count either
+    const activeUntil = session.pausedAt && session.pausedAt < endTime ? session.pausedAt : endTime;
+    const pausedSeconds = session.pausedSeconds || 0;
+
+    const result = await this.workoutSessionsCollection.findOneAndUpdate(
+      { _id: session._id, isCompleted: false },
+      {
+        $set: { ...updates, endTime, isCompleted: true },
+        $unset: { pausedAt: '' },
+      },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw createError('Active workout session not found', 404);
+    }
+
+    const durationMinutes = Math.max(
+      0,
+      Math.round((activeUntil.getTime() - result.startTime.getTime() - pausedSeconds * 1000) / 60000)
+    );
+    const summary = await this.summarizeSession(result, durationMinutes);
+
+    return {
+      success: true,
+      data: result,
+      metadata: {
+        durationMinutes,
+        totalSets: summary.totalSets,
+        summary,
+      },
+    };
+  }
+
+  private async summarizeSession(session: WorkoutSession, durationMinutes: number): Promise<WorkoutSummary> {
+    const exercises = session.exercises.map(log => ({
+      exerciseName: log.exerciseName,
+      sets: countWorkingSets(log.sets),
+      volume: log.sets.reduce((total, set) => total + (set.weight || 0) * set.reps, 0),
+    }));
+    const recordsResult = await this.personalRecordService.getRecordsForSession(session._id!.toString());
+
+    return {
+      durationMinutes,
+      totalSets: exercises.reduce((total, exercise) => total + exercise.sets, 0),
+      totalVolume: exercises.reduce((total, exercise) => total + exercise.volume, 0),
+      exercises,
+      personalRecords: recordsResult.success ? recordsResult.data! : [],
+    };
+  }
+
+  private validateSet(set: SetLog): SetLog {
+    const validation = validateSetLog(set);
+    if (validation.error) {
+      throw createError(`Set validation failed: ${validation.error}`, 400);
+    }
+    return validation.value!;
+  }
+
+  /**
+   * Look the logged name up in the exercise library. The user's wording is
+   * kept as the log name; unknown exercises are logged without an ID.
+   */
+  private async resolveExercise(
+    exerciseName: string,
+    exerciseId?: ObjectId
+  ): Promise<{ name: string; resolvedId?: ObjectId }> {
+    const name = sanitizeString(exerciseName);
+    if (exerciseId) {
+      return { name, resolvedId: exerciseId };
+    }
+
+    const result = await this.exerciseService.resolveExercise(name);
+    return { name, resolvedId: result.success ? result.data?._id : undefined };
+  }
+
+  private isSameExercise(log: ExerciseLog, exerciseName: string, exerciseId?: ObjectId): boolean {
+    if (exerciseId && log.exerciseId) {
+      return log.exerciseId.equals(exerciseId);
+    }
+    return log.exerciseName.toLowerCase() === exerciseName.toLowerCase();
+  }
+}
@@ -7,6 +7,9 @@ export interface User {
   profile: UserProfile;
   schedule: UserSchedule;
   preferences: UserPreferences;
+  homeGymId?: ObjectId; // the plan is adapted to this gym's equipment
+  calendarToken?: string; // secret in the calendar feed URL
+  nutritionTargets?: NutritionTargets; // recomputed whenever the profile changes
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,6 +23,29 @@ export interface UserProfile {
   fitnessGoal: 'lean' | 'bulk' | 'maintain';
   trainingPhilosophy: 'mentzer' | 'arnold' | 'custom';
   experienceLevel: 'beginner' | 'intermediate' | 'advanced';
+  gender?: Gender;
+  activityLevel?: ActivityLevel; // day-to-day activity including training
+  limitations?: Limitation[]; // injuries to train around
+}
+
+export type Gender = 'male' | 'female';
+
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+
+export interface NutritionTargets {
+  bmr: number; // kcal burned a day at rest
+  tdee: number; // kcal burned a day with activity
+  targetCalories: number; // TDEE adjusted for the fitness goal
+  macroTargets: MacroTargets;
+  calculatedAt: Date;
+}
+
+export type LimitationArea = 'lower_back' | 'knee' | 'shoulder' | 'wrist' | 'elbow' | 'hip' | 'ankle' | 'neck';
+
+export interface Limitation {
+  area: LimitationArea;
+  notes?: string; // in the user's words, e.g. "shoulder impingement"
+  since?: Date;
 }
 
 export interface UserSchedule {
@@ -49,6 +75,15 @@ export interface WorkoutPlan {
   philosophy: 'mentzer' | 'arnold' | 'custom';
   createdAt: Date;
   isActive: boolean;
+  deload?: DeloadWeek;
+}
+
+export interface DeloadWeek {
+  status: 'pending' | 'accepted' | 'postponed'; // pending until the user answers; a postponed week still goes ahead
+  startDate: Date;
+  endDate: Date;
+  reasons: string[];
+  scheduledAt: Date;
 }
 
 export interface WorkoutDay {
@@ -58,12 +93,43 @@ export interface WorkoutDay {
   estimatedDuration: number;
 }
 
+// A plan day placed on a calendar date in one of the user's available slots
+export interface ScheduledWorkout {
+  _id?: ObjectId;
+  userId: ObjectId;
+  planId: ObjectId;
+  weekStart: Date; // Monday 00:00 of the week the workout is in
+  workoutDayIndex: number; // into the plan's schedule
+  dayOfWeek: string; // the plan day's name
+  muscleGroups: string[];
+  date: Date; // 00:00 on the day it's on
+  startTime: string; // HH:MM format
+  endTime: string;   // HH:MM format
+  rescheduledFrom?: Date; // the day it was first planned for
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface PlannedExercise {
-  exerciseId: ObjectId;
+  exerciseId?: ObjectId;
+  exerciseName: string;
   sets: number;
   reps: string; // e.g., "8-12", "to failure"
   restTime: number; // in seconds
   notes?: string;
+  group?: ExerciseGroup; // done back to back with the other exercises in the group
+  dropSets?: number; // drops to take straight after the last set
+}
+
+export type ExerciseGroupType = 'superset' | 'giant_set' | 'circuit' | 'emom';
+
+// Exercises sharing a group label are done back to back, one set of each per
+// round, and rest is only taken after the round
+export interface ExerciseGroup {
+  label: string; // e.g. "A", shared by every exercise in the group
+  type: ExerciseGroupType;
+  rounds?: number; // for circuits and EMOMs, otherwise each exercise's sets
+  intervalSeconds?: number; // EMOM clock, 60 for every minute on the minute
 }
 
 export interface WorkoutSession {
@@ -75,12 +141,18 @@ export interface WorkoutSession {
   exercises: ExerciseLog[];
   notes?: string;
   isCompleted: boolean;
+  lastActivityAt?: Date; // last start, set, pause or resume
+  pausedAt?: Date; // set while the workout is paused
+  pausedSeconds?: number; // total time spent paused
+  autoClosed?: boolean; // closed after sitting idle
 }
 
 export interface ExerciseLog {
-  exerciseId: ObjectId;
+  exerciseId?: ObjectId;
+  exerciseName: string; // as logged by the user
   sets: SetLog[];
   notes?: string;
+  group?: ExerciseGroup; // logged as part of a superset, circuit or EMOM
 }
 
 export interface SetLog {
@@ -88,8 +160,41 @@ export interface SetLog {
   weight?: number;
   rpe?: number; // Rate of Perceived Exertion (1-10)
   restTime?: number;
+  toFailure?: boolean;
+  dropSet?: boolean; // continues the previous set at a lower weight
 }
 
+export type CardioActivity =
+  | 'running'
+  | 'walking'
+  | 'cycling'
+  | 'swimming'
+  | 'football'
+  | 'basketball'
+  | 'skipping'
+  | 'rowing'
+  | 'dancing'
+  | 'hiit'
+  | 'other';
+
+export interface CardioLog {
+  _id?: ObjectId;
+  userId: ObjectId;
+  activity: CardioActivity;
+  performedAt: Date;
+  durationMinutes: number;
+  distanceKm?: number;
+  paceMinPerKm?: number; // from duration and distance
+  averageHeartRate?: number; // bpm
+  caloriesBurned: number; // kcal, estimated unless the user's watch gave it
+  notes?: string;
+  createdAt: Date;
+}
+
+// What a user or the chat logger sends; pace and calories are worked out
+export type CardioLogInput = Pick<CardioLog, 'activity' | 'durationMinutes'> &
+  Partial<Pick<CardioLog, 'distanceKm' | 'averageHeartRate' | 'caloriesBurned' | 'performedAt' | 'notes'>>;
+
 export interface Exercise {
   _id?: ObjectId;
   name: string;
@@ -134,6 +239,7 @@ export interface Meal {
 
 export interface MealFood {
   foodId: ObjectId;
+  foodName: string;
   quantity: number; // in grams
   calories: number;
   macros: MacroTargets;
@@ -148,6 +254,14 @@ export interface FoodItem {
   availability: 'common' | 'seasonal' | 'rare';
   averagePrice: number; // per kg in Naira
   category: string;
+  dietaryTags?: string[]; // what the dish usually contains, e.g. 'meat', 'fish', 'pork', 'alcohol'
+  typicalServing?: FoodServing;
+  seedVersion?: number; // version of the seed dataset the item came from
+}
+
+export interface FoodServing {
+  grams: number;
+  description: string; // e.g. "1 medium wrap"
 }
 
 export interface FoodLog {
@@ -163,7 +277,8 @@ export interface FoodLog {
 
 export interface LoggedFood {
   foodId: ObjectId;
-  quantity: number;
+  foodName: string;
+  quantity: number; // in grams
   calories: number;
   macros: MacroTargets;
 }
@@ -253,6 +368,27 @@ export interface BodyMeasurements {
   thigh?: number;
 }
 
+export interface PersonalRecord {
+  _id?: ObjectId;
+  userId: ObjectId;
+  exerciseId?: ObjectId;
+  exerciseName: string;
+  type: 'max_weight' | 'reps_at_weight' | 'estimated_1rm' | 'session_volume';
+  value: number; // kg, reps for reps_at_weight
+  weight?: number;
+  reps?: number;
+  previousValue: number;
+  sessionId: ObjectId;
+  achievedAt: Date;
+}
+
+export interface WeeklyReportDelivery {
+  _id?: ObjectId;
+  userId: ObjectId;
+  weekStart: Date;
+  sentAt: Date;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -0,0 +1,212 @@
+import { CardioActivity, CardioLog, Gender } from '../types';
+import { consumeMatches } from './setNotationParser';
+
+export interface ParsedCardioActivity {
+  activity: CardioActivity;
+  durationMinutes?: number;
+  distanceKm?: number;
+  averageHeartRate?: number;
+  caloriesBurned?: number; // when the user read it off a watch
+}
+
+export const CARDIO_ACTIVITIES: CardioActivity[] = [
+  'running', 'walking', 'cycling', 'swimming', 'football', 'basketball',
+  'skipping', 'rowing', 'dancing', 'hiit', 'other',
+];
+
+// How people say they did each activity
+const ACTIVITY_PATTERNS: Array<{ activity: CardioActivity; pattern: RegExp }> = [
+  { activity: 'running', pattern: /\b(ran|run|runs|running|jog|jogs|jogged|jogging|treadmill)\b/ },
+  { activity: 'walking', pattern: /\b(walk|walks|walked|walking|hike|hiked|hiking|trek|trekked)\b/ },
+  { activity: 'cycling', pattern: /\b(cycle|cycled|cycling|bike|biked|biking|rode|spin class|spinning)\b/ },
+  { activity: 'swimming', pattern: /\b(swim|swam|swimming)\b/ },
+  { activity: 'football', pattern: /\b(football|soccer|played ball|play ball|five a side|5 a side)\b/ },
+  { activity: 'basketball', pattern: /\b(basketball|hoops)\b/ },
+  { activity: 'skipping', pattern: /\b(skipping|skip rope|skipping rope|jump rope|jumping rope)\b/ },
+  { activity: 'rowing', pattern: /\b(rowing machine|rowed|rower|erg)\b/ },
+  { activity: 'dancing', pattern: /\b(dance|danced|dancing|zumba|aerobics)\b/ },
+  { activity: 'hiit', pattern: /\b(hiit|tabata)\b/ },
+];
+
+// Metabolic equivalents from the Compendium of Physical Activities, for a
+// moderate effort when the speed isn't known
+const ACTIVITY_METS: { [activity in CardioActivity]: number } = {
+  running: 9.8,
+  walking: 3.5,
+  cycling: 7.5,
+  swimming: 7.0,
+  football: 7.0,
+  basketball: 6.5,
+  skipping: 11.8,
+  rowing: 7.0,
+  dancing: 5.0,
+  hiit: 8.0,
+  other: 6.0,
+};
+
+// METs by speed in km/h, as [up to speed, MET]
+const SPEED_METS: { [activity in CardioActivity]?: Array<[number, number]> } = {
+  running: [[7, 6.0], [8.5, 8.3], [10, 9.8], [11.5, 11.0], [13, 11.8], [15, 12.8], [Infinity, 14.5]],
+  walking: [[3.5, 2.8], [4.5, 3.5], [5.5, 4.3], [6.5, 5.0], [Infinity, 7.0]],
+  cycling: [[16, 4.0], [19, 6.8], [22, 8.0], [25, 10.0], [Infinity, 12.0]],
+};
+
+const ACTIVITY_NOUNS: { [activity in CardioActivity]: string } = {
+  running: 'run',
+  walking: 'walk',
+  cycling: 'ride',
+  swimming: 'swim',
+  football: 'football',
+  basketball: 'basketball',
+  skipping: 'skipping',
+  rowing: 'row',
+  dancing: 'dance session',
+  hiit: 'HIIT session',
+  other: 'cardio session',
+};
+
+// Plans and questions about cardio rather than cardio done
+const NOT_DONE_PATTERN = /\b(want|wanna|going to|gonna|plan|planning|should|will|tomorrow|how)\b|\?\s*$/;
+
+const KM_PER_MILE = 1.609;
+
+/**
+ * Parse a cardio activity from chat, e.g. "ran 5k in 28 mins", "played
+ * football for 90 minutes" or "cycled 20km in 1h 5m avg hr 142". Null when no
+ * activity is named or neither a duration nor a distance is given.
+ */
+export const parseCardioActivity = (message: string): ParsedCardioActivity | null => {
+  let text = message.toLowerCase().replace(/-/g, ' ');
+  const matched = ACTIVITY_PATTERNS.find(({ pattern }) => pattern.test(text));
+  if (!matched || NOT_DONE_PATTERN.test(text)) {
+    return null;
+  }
+
+  const consume = (pattern: RegExp, handler: (groups: string[]) => void): void => {
+    text = consumeMatches(text, pattern, handler);
+  };
+
+  let minutes = 0;
+  let caloriesBurned: number | undefined;
+  let averageHeartRate: number | undefined;
+  let distanceKm: number | undefined;
+
+  consume(/\b(?:avg|average)?\s*(?:hr|heart rate)\s*(?:of|was|:)?\s*(\d{2,3})\b(?:\s*bpm)?|\b(\d{2,3})\s*bpm\b/g, ([, before, after]) => {
+    averageHeartRate = parseInt(before ?? after);
+  });
+  consume(/\b(\d+)\s*(?:kcals?|cals?|calories)\b/g, ([, value]) => {
+    caloriesBurned = parseInt(value);
+  });
+
+  // "28:30" is minutes and seconds, "1:05:00" hours too
+  consume(/\b(\d{1,2}):(\d{2})(?::(\d{2}))?\b/g, ([, first, second, third]) => {
+    minutes += third !== undefined
+      ? parseInt(first) * 60 + parseInt(second) + parseInt(third) / 60
+      : parseInt(first) + parseInt(second) / 60;
+  });
+  consume(/\b(\d+)\s*h(?:rs?|ours?)?\s*(\d+)\s*m(?:ins?|inutes?)?\b/g, ([, hours, mins]) => {
+    minutes += parseInt(hours) * 60 + parseInt(mins);
+  });
+  consume(/\bhalf an? hour\b/g, () => {
+    minutes += 30;
+  });
+  consume(/\b(?:an|one) hour\b/g, () => {
+    minutes += 60;
+  });
+  consume(/\b(\d+(?:\.\d+)?)\s*(?:h|hrs?|hours?)\b/g, ([, value]) => {
+    minutes += parseFloat(value) * 60;
+  });
+  consume(/\b(\d+(?:\.\d+)?)\s*(?:mins?|minutes?)\b/g, ([, value]) => {
+    minutes += parseFloat(value);
+  });
+  consume(/\b(\d+)\s*(?:secs?|seconds?)\b/g, ([, value]) => {
+    minutes += parseInt(value) / 60;
+  });
+
+  consume(/\b(\d+(?:\.\d+)?)\s*(?:k|km|kms|kilometers?|kilometres?)\b/g, ([, value]) => {
+    distanceKm = parseFloat(value);
+  });
+  consume(/\b(\d+(?:\.\d+)?)\s*(?:mi|miles?)\b/g, ([, value]) => {
+    distanceKm = Math.round(parseFloat(value) * KM_PER_MILE * 100) / 100;
+  });
+  // Minutes are read above, so a bare "m" is metres ("ran 800m")
+  consume(/\b(\d+)\s*(?:m|metres?|meters?)\b/g, ([, value]) => {
+    distanceKm = parseInt(value) / 1000;
+  });
+
+  if (minutes === 0 && distanceKm === undefined) {
+    return null;
+  }
+
+  return {
+    activity: matched.activity,
+    ...(minutes > 0 && { durationMinutes: Math.round(minutes * 10) / 10 }),
+    ...(distanceKm !== undefined && { distanceKm }),
+    ...(averageHeartRate !== undefined && { averageHeartRate }),
+    ...(caloriesBurned !== undefined && { caloriesBurned }),
+  };
+};
+
+/**
+ * Minutes per km, e.g. 5.6 for 5km in 28 minutes
+ */
+export const calculatePace = (durationMinutes: number, distanceKm: number): number => {
+  return Math.round((durationMinutes / distanceKm) * 100) / 100;
+};
+
+/**
+ * "5:36/km"
+ */
+export const formatPace = (paceMinPerKm: number): string => {
+  let minutes = Math.floor(paceMinPerKm);
+  let seconds = Math.round((paceMinPerKm - minutes) * 60);
+  if (seconds === 60) {
+    minutes++;
+    seconds = 0;
+  }
+  return `${minutes}:${String(seconds).padStart(2, '0')}/km`;
+};
+
+/**
+ * Estimated kcal burned. Uses the Keytel heart rate equations when the
+ * average heart rate and age are known, averaged across the male and female
+ * forms unless the gender is known, otherwise METs for the activity (by
+ * speed where the distance is known) x body weight x hours.
+ */
+export const estimateCaloriesBurned = (input: {
+  activity: CardioActivity;
+  durationMinutes: number;
+  distanceKm?: number;
+  averageHeartRate?: number;
+  weightKg: number;
+  age?: number;
+  gender?: Gender;
+}): number => {
+  const { activity, durationMinutes, distanceKm, averageHeartRate, weightKg, age, gender } = input;
+
+  if (averageHeartRate && age) {
+    const male = (-55.0969 + 0.6309 * averageHeartRate + 0.1988 * weightKg + 0.2017 * age) / 4.184;
+    const female = (-20.4022 + 0.4472 * averageHeartRate - 0.1263 * weightKg + 0.074 * age) / 4.184;
+    const perMinute = gender === 'male' ? male : gender === 'female' ? female : (male + female) / 2;
+    if (perMinute > 0) {
+      return Math.round(perMinute * durationMinutes);
+    }
+  }
+
+  let met = ACTIVITY_METS[activity];
+  const speedMets = SPEED_METS[activity];
+  if (speedMets && distanceKm) {
+    const speed = distanceKm / (durationMinutes / 60);
+    met = speedMets.find(([maxSpeed]) => speed <= maxSpeed)![1];
+  }
+  return Math.round(met * weightKg * (durationMinutes / 60));
+};
+
+/**
+ * "5 km run in 28 min (5:36/km), about 375 kcal burned"
+ */
+export const describeCardioLog = (log: Pick<CardioLog, 'activity' | 'durationMinutes' | 'distanceKm' | 'paceMinPerKm' | 'caloriesBurned'>): string => {
+  const distance = log.distanceKm ? `${log.distanceKm} km ` : '';
+  const pace = log.paceMinPerKm ? ` (${formatPace(log.paceMinPerKm)})` : '';
+  return `${distance}${ACTIVITY_NOUNS[log.activity]} in ${Math.round(log.durationMinutes)} min${pace}, about ${log.caloriesBurned} kcal burned`;
+};
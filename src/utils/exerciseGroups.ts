@@ -0,0 +1,200 @@
+import { ExerciseGroupType, SetLog } from '../types';
+import { parseSetNotation } from './setNotationParser';
+
+export interface ParsedExerciseGroup {
+  type: ExerciseGroupType;
+  rounds?: number;
+  intervalSeconds?: number;
+  exercises: Array<{ exerciseText: string; sets: SetLog[] }>; // in the order they were done
+}
+
+// Most specific first so "giant set" isn't read as a plain set
+const GROUP_TYPE_PATTERNS: Array<{ type: ExerciseGroupType; pattern: RegExp }> = [
+  { type: 'emom', pattern: /\be(\d)?mom\b/ },
+  { type: 'circuit', pattern: /\bcircuits?\b/ },
+  { type: 'giant_set', pattern: /\b(?:giant\s*sets?|tri\s*sets?|trisets?)\b/ },
+  { type: 'superset', pattern: /\bsuper\s*set(?:s|ted|ting)?\b/ },
+];
+
+// "3 rounds", "x3 rounds", "3 rounds of 12"
+const ROUNDS_PATTERN = /\b(?:x\s*)?(\d+)\s*(?:rounds?|circuits?)\b(?:\s*of\s*(\d+)(?:\s*reps?)?\b)?/;
+const EMOM_MINUTES_PATTERN = /\b(?:for\s*)?(\d+)\s*(?:mins?|minutes?)\b/;
+const LEADING_FILLER = /^(?:\s*(?:i|just|did|do|doing|done|a|an|my|of|then)\b)*/;
+// "with" only separates exercises when it isn't introducing a weight
+const EXERCISE_SEPARATOR = /\s*(?:,|\+|&|;|\band\b|\bthen\b|\binto\b|\bwith\b(?!\s*\d))\s*/;
+
+const MAX_GROUP_SIZE = 10;
+
+// Sets easier than this are warm-ups rather than hard sets
+const HARD_SET_MIN_RPE = 7;
+// Muscle groups listed after the first are worked less, so count for less
+const SECONDARY_MUSCLE_SHARE = 0.5;
+
+const normalize = (message: string): string => {
+  return message
+    .toLowerCase()
+    .replace(/(\w)-(\w)/g, '$1 $2')
+    // "circuit: ..." but not "rest 1:30"
+    .replace(/:(?=\s|$)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Parse one exercise of a group. Circuits are often written as "10 burpees"
+ * or "burpees x10", which plain set notation doesn't read as reps.
+ */
+const parseGroupExercise = (segment: string): { exerciseText: string; sets: SetLog[] } => {
+  const parsed = parseSetNotation(segment);
+  if (parsed.sets.length > 0) {
+    return parsed;
+  }
+
+  const leadingReps = segment.match(/^(\d+)\s+(?!(?:kgs?|kilos?|lbs?|pounds?|sets?|reps?|x)\b)([a-z].*)$/);
+  if (leadingReps) {
+    return parseSetNotation(`${leadingReps[2]} ${leadingReps[1]} reps`);
+  }
+  const trailingReps = segment.match(/^(.*[a-z].*?)\s*\bx\s*(\d+)$/);
+  if (trailingReps) {
+    return parseSetNotation(`${trailingReps[1]} ${trailingReps[2]} reps`);
+  }
+  return parsed;
+};
+
+/**
+ * Parse a superset, giant set, circuit or EMOM logged in one message, e.g.
+ * "superset curls and pushdowns 3x12", "circuit: 10 burpees, 15 squats x 3
+ * rounds" or "EMOM 10 min 5 pull ups". Exercises without their own sets share
+ * the sets given for another exercise, with their own weight if they name
+ * one. Null when the message isn't a group.
+ */
+export const parseExerciseGroup = (message: string): ParsedExerciseGroup | null => {
+  let text = normalize(message);
+  // "should I superset curls and pushdowns?" is a question, not a log
+  if (text.endsWith('?')) {
+    return null;
+  }
+
+  const matched = GROUP_TYPE_PATTERNS.find(({ pattern }) => pattern.test(text));
+  if (!matched) {
+    return null;
+  }
+  let type = matched.type;
+  let intervalSeconds: number | undefined;
+  let rounds: number | undefined;
+  let roundReps: number | undefined;
+
+  if (type === 'emom') {
+    const everyMinutes = parseInt(text.match(matched.pattern)![1] || '1');
+    intervalSeconds = everyMinutes * 60;
+    const minutes = text.match(EMOM_MINUTES_PATTERN);
+    if (minutes) {
+      rounds = Math.max(1, Math.floor(parseInt(minutes[1]) / everyMinutes));
+      text = text.replace(EMOM_MINUTES_PATTERN, ' ');
+    }
+  }
+  text = text.replace(matched.pattern, ' ');
+
+  const roundsMatch = text.match(ROUNDS_PATTERN);
+  if (roundsMatch) {
+    rounds = parseInt(roundsMatch[1]);
+    roundReps = roundsMatch[2] ? parseInt(roundsMatch[2]) : undefined;
+    text = text.replace(ROUNDS_PATTERN, ' ');
+  }
+
+  // Pure set notation ("60x8, 65x6") belongs to the exercise before it
+  const segments: string[] = [];
+  for (const segment of text.replace(LEADING_FILLER, '').split(EXERCISE_SEPARATOR)) {
+    const trimmed = segment.trim();
+    if (!trimmed) continue;
+    if (segments.length > 0 && !parseSetNotation(trimmed).exerciseText) {
+      segments[segments.length - 1] = `${segments[segments.length - 1]}, ${trimmed}`;
+    } else {
+      segments.push(trimmed);
+    }
+  }
+
+  const parsed = segments
+    .map(segment => ({ segment, ...parseGroupExercise(segment) }))
+    .filter(exercise => exercise.exerciseText)
+    .slice(0, MAX_GROUP_SIZE);
+  const sharedSets = parsed.find(exercise => exercise.sets.length > 0)?.sets
+    || (roundReps !== undefined ? [{ reps: roundReps }] : []);
+
+  const exercises = parsed.map(({ segment, exerciseText, sets }) => {
+    if (sets.length > 0) {
+      return { exerciseText, sets };
+    }
+    // A weight named next to the exercise still applies to the shared sets
+    const ownWeight = parseSetNotation(`${segment} 1 rep`).sets[0]?.weight;
+    return {
+      exerciseText,
+      sets: sharedSets.map(set => ({ ...set, ...(ownWeight !== undefined && { weight: ownWeight }) })),
+    };
+  }).map(exercise => ({
+    ...exercise,
+    // One set per round when the exercise was given as a single set of reps
+    sets: rounds && exercise.sets.length === 1
+      ? Array.from({ length: rounds }, () => ({ ...exercise.sets[0] }))
+      : exercise.sets,
+  }));
+
+  const isPairing = type === 'superset' || type === 'giant_set';
+  if (exercises.length === 0 || (isPairing && exercises.length < 2)) {
+    return null;
+  }
+  if (type === 'superset' && exercises.length > 2) {
+    type = 'giant_set';
+  }
+
+  return {
+    type,
+    ...(rounds !== undefined && { rounds }),
+    ...(intervalSeconds !== undefined && { intervalSeconds }),
+    exercises,
+  };
+};
+
+/**
+ * Sets that count towards volume. A drop set continues the set before it, so
+ * the whole drop chain counts once.
+ */
+export const countWorkingSets = (sets: SetLog[]): number => {
+  return sets.filter(set => !set.dropSet).length;
+};
+
+/**
+ * Hard sets an exercise adds to each of its muscle groups, the main one
+ * first. Warm-ups don't count and drop sets count with the set they continue.
+ */
+export const countMuscleGroupSets = (sets: SetLog[], muscleGroups: string[]): { [muscleGroup: string]: number } => {
+  const hardSets = sets.filter(set =>
+    !set.dropSet && (set.toFailure || set.rpe === undefined || set.rpe >= HARD_SET_MIN_RPE)
+  ).length;
+
+  const counts: { [muscleGroup: string]: number } = {};
+  muscleGroups.forEach((muscleGroup, index) => {
+    counts[muscleGroup] = (counts[muscleGroup] || 0) + hardSets * (index === 0 ? 1 : SECONDARY_MUSCLE_SHARE);
+  });
+  return counts;
+};
+
+/**
+ * The first letter not yet used to label a group, e.g. "C" after "A" and "B"
+ */
+export const nextGroupLabel = (usedLabels: string[]): string => {
+  for (let code = 65; code <= 90; code++) {
+    const label = String.fromCharCode(code);
+    if (!usedLabels.includes(label)) {
+      return label;
+    }
+  }
+  return `${usedLabels.length + 1}`;
+};
+
+/**
+ * "superset", "giant set", "EMOM"
+ */
+export const describeGroupType = (type: ExerciseGroupType): string => {
+  return type === 'emom' ? 'EMOM' : type.replace(/_/g, ' ');
+};
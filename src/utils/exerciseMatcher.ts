@@ -0,0 +1,130 @@
+import { Exercise } from '../types';
+
+export interface ExerciseMatch {
+  exercise: Exercise;
+  confidence: number; // 0-1
+  matchedName: string; // the library name or local name that matched
+}
+
+// At or above this the match is used without asking
+export const CONFIDENT_MATCH = 0.8;
+// Below this the text is not treated as a library exercise at all
+export const MINIMUM_MATCH = 0.6;
+
+// Gym shorthand expanded before comparing
+const ABBREVIATIONS: { [abbreviation: string]: string } = {
+  db: 'dumbbell',
+  dbs: 'dumbbell',
+  bb: 'barbell',
+  kb: 'kettlebell',
+  bw: 'bodyweight',
+  ext: 'extension',
+  tri: 'tricep',
+  tris: 'tricep',
+  bi: 'bicep',
+  bis: 'bicep',
+  sq: 'squat',
+};
+
+// Chat filler that never names an exercise
+const FILLER_WORDS = new Set([
+  'i', 'im', 'ive', 'did', 'do', 'doing', 'done', 'just', 'some', 'my', 'the', 'a', 'an',
+  'few', 'then', 'now', 'was', 'were', 'also', 'and', 'more', 'finished', 'started', 'starting',
+]);
+
+// Loose singular form so "rows", "presses" and "lunges" compare equal to the library
+const singularize = (word: string): string => {
+  if (word.length <= 2 || word.endsWith('ss')) return word;
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenizeExerciseName = (text: string, dropFiller: boolean = false): string[] => {
+  return text
+    .toLowerCase()
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .split(' ')
+    .filter(token => token && !(dropFiller && FILLER_WORDS.has(token)))
+    .map(token => ABBREVIATIONS[token] || token)
+    .flatMap(token => token.split(' '))
+    .map(singularize);
+};
+
+export const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Edit distance says little about very short words ("isit" vs "lsit"), so
+// those have to match exactly
+const MIN_FUZZY_LENGTH = 5;
+
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) < MIN_FUZZY_LENGTH) return 0;
+  return 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length);
+};
+
+/**
+ * Score how well the user's words name a candidate. Spaces are ignored so
+ * "benchpress" matches "bench press", and a candidate found inside a longer
+ * message ("heavy squat") is scored on the words that cover it, discounted
+ * by how much of the message it leaves unexplained.
+ */
+const scoreCandidate = (queryTokens: string[], candidateTokens: string[]): number => {
+  const query = queryTokens.join('');
+  const candidate = candidateTokens.join('');
+  let best = similarity(query, candidate);
+
+  const minWindow = Math.max(1, candidateTokens.length - 1);
+  const maxWindow = Math.min(queryTokens.length - 1, candidateTokens.length + 1);
+  for (let size = minWindow; size <= maxWindow; size++) {
+    for (let start = 0; start + size <= queryTokens.length; start++) {
+      const window = queryTokens.slice(start, start + size).join('');
+      const coverage = window.length / query.length;
+      best = Math.max(best, similarity(window, candidate) * (0.7 + 0.3 * coverage));
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Rank library exercises against free text, best first. Each exercise
+ * appears at most once, scored by its best-matching name.
+ */
+export const matchExercises = (text: string, exercises: Exercise[], limit: number = 3): ExerciseMatch[] => {
+  const queryTokens = tokenizeExerciseName(text, true);
+  if (queryTokens.length === 0) {
+    return [];
+  }
+
+  const matches: ExerciseMatch[] = [];
+  for (const exercise of exercises) {
+    let best: ExerciseMatch | null = null;
+    for (const name of [exercise.name, ...exercise.localNames]) {
+      const confidence = scoreCandidate(queryTokens, tokenizeExerciseName(name));
+      if (!best || confidence > best.confidence) {
+        best = { exercise, confidence, matchedName: name };
+      }
+    }
+    if (best && best.confidence >= MINIMUM_MATCH) {
+      matches.push({ ...best, confidence: Math.round(best.confidence * 100) / 100 });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.confidence - a.confidence || a.exercise.name.length - b.exercise.name.length)
+    .slice(0, limit);
+};
@@ -0,0 +1,170 @@
+import { Exercise } from '../types';
+
+// What people and gym listings call equipment, mapped to the library's
+// equipment keys. Machines share one key in the library, so "no leg press"
+// rules out every plate-loaded and pin machine.
+const EQUIPMENT_ALIASES: { [alias: string]: string[] } = {
+  'cable machine': ['cable'],
+  'cable station': ['cable'],
+  'cable crossover': ['cable'],
+  cables: ['cable'],
+  cable: ['cable'],
+  pulley: ['cable'],
+  'smith machine': ['smith_machine'],
+  smith: ['smith_machine'],
+  'rowing machine': ['rowing_machine'],
+  rower: ['rowing_machine'],
+  'stationary bike': ['stationary_bike'],
+  'exercise bike': ['stationary_bike'],
+  'spin bike': ['stationary_bike'],
+  treadmill: ['treadmill'],
+  'leg press': ['machine'],
+  'leg curl': ['machine'],
+  'leg extension': ['machine'],
+  'pec deck': ['machine'],
+  'hack squat': ['machine'],
+  machines: ['machine'],
+  machine: ['machine'],
+  'free weights': ['barbell', 'dumbbell', 'weight_plate'],
+  barbells: ['barbell'],
+  barbell: ['barbell'],
+  'olympic bar': ['barbell'],
+  'trap bar': ['trap_bar'],
+  'hex bar': ['trap_bar'],
+  dumbbells: ['dumbbell'],
+  dumbbell: ['dumbbell'],
+  dumbells: ['dumbbell'],
+  'weight plates': ['weight_plate'],
+  plates: ['weight_plate'],
+  benches: ['bench'],
+  bench: ['bench'],
+  'squat rack': ['rack'],
+  'power rack': ['rack'],
+  rack: ['rack'],
+  cage: ['rack'],
+  kettlebells: ['kettlebell'],
+  kettlebell: ['kettlebell'],
+  'pull up bar': ['pull_up_bar'],
+  'pullup bar': ['pull_up_bar'],
+  'chin up bar': ['pull_up_bar'],
+  'dip bars': ['dip_bars'],
+  'dip station': ['dip_bars'],
+  'resistance bands': ['resistance_band'],
+  'resistance band': ['resistance_band'],
+  bands: ['resistance_band'],
+  landmine: ['landmine'],
+};
+
+// Longest first so "smith machine" wins over "machine"
+const ALIASES_BY_LENGTH = Object.keys(EQUIPMENT_ALIASES).sort((a, b) => b.length - a.length);
+const ALIAS_PATTERN = ALIASES_BY_LENGTH.join('|');
+
+// Equipment every gym (and every living room) has
+const ALWAYS_AVAILABLE = ['bodyweight'];
+
+const MISSING_EQUIPMENT_PATTERNS = [
+  new RegExp(
+    `\\b(?:no|without|don'?t have|doesn'?t have|there'?s no|there is no|lacks?|missing)\\s+(?:(?:a|an|any|the|working)\\s+)?(${ALIAS_PATTERN})\\b`,
+    'g'
+  ),
+  new RegExp(`\\b(${ALIAS_PATTERN})\\s+(?:is|are|is all|are all)\\s+(?:broken|taken|busy|out of order|not working)\\b`, 'g'),
+];
+
+const normalize = (text: string): string => {
+  return text.toLowerCase().replace(/-/g, ' ').replace(/\s+/g, ' ');
+};
+
+/**
+ * Library equipment keys named anywhere in the text
+ */
+export const parseEquipment = (text: string): string[] => {
+  let remaining = normalize(text);
+  const equipment = new Set<string>();
+
+  for (const alias of ALIASES_BY_LENGTH) {
+    const pattern = new RegExp(`\\b${alias}\\b`, 'g');
+    if (pattern.test(remaining)) {
+      EQUIPMENT_ALIASES[alias].forEach(item => equipment.add(item));
+      remaining = remaining.replace(pattern, ' ');
+    }
+  }
+
+  return [...equipment];
+};
+
+/**
+ * Equipment the user says they don't have, e.g. "no cable machine here" or
+ * "the smith machine is broken". Empty when the message isn't about missing gear.
+ */
+export const parseMissingEquipment = (message: string): string[] => {
+  const text = normalize(message);
+  const equipment = new Set<string>();
+
+  for (const pattern of MISSING_EQUIPMENT_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      parseEquipment(match[1]).forEach(item => equipment.add(item));
+    }
+  }
+
+  return [...equipment];
+};
+
+/**
+ * Equipment a gym has according to its amenities. Empty when the amenities
+ * don't mention equipment at all, meaning the gym's gear is unknown.
+ */
+export const equipmentFromAmenities = (amenities: string[]): string[] => {
+  return [...new Set(amenities.flatMap(amenity => parseEquipment(amenity)))];
+};
+
+export const findMissingEquipment = (exercise: Exercise, availableEquipment: string[]): string[] => {
+  return exercise.equipment.filter(item => !ALWAYS_AVAILABLE.includes(item) && !availableEquipment.includes(item));
+};
+
+export const hasEquipment = (exercise: Exercise, availableEquipment: string[]): boolean => {
+  return findMissingEquipment(exercise, availableEquipment).length === 0;
+};
+
+const DIFFICULTY_ORDER: Exercise['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+
+// Stretches can't stand in for a lift
+const NON_SUBSTITUTE_CATEGORIES = ['mobility'];
+
+const isBodyweightOnly = (exercise: Exercise): boolean => {
+  return exercise.equipment.every(item => ALWAYS_AVAILABLE.includes(item));
+};
+
+/**
+ * Exercises that can replace the given one, best first. A substitute must
+ * share the primary muscle group and work every muscle group the original
+ * does; closer matches in category, extra muscle groups, difficulty and
+ * loading rank higher.
+ */
+export const findSubstitutes = (
+  exercise: Exercise,
+  library: Exercise[],
+  isAvailable: (candidate: Exercise) => boolean
+): Exercise[] => {
+  const score = (candidate: Exercise): number => {
+    const extraMuscleGroups = candidate.muscleGroups.filter(group => !exercise.muscleGroups.includes(group)).length;
+    const difficultyGap = Math.abs(
+      DIFFICULTY_ORDER.indexOf(candidate.difficulty) - DIFFICULTY_ORDER.indexOf(exercise.difficulty)
+    );
+    // Keep loaded exercises loaded where the gym allows it
+    const losesLoad = isBodyweightOnly(candidate) && !isBodyweightOnly(exercise);
+    return (candidate.category === exercise.category ? 2 : 0)
+      - extraMuscleGroups * 0.5
+      - difficultyGap * 0.5
+      - (losesLoad ? 0.5 : 0);
+  };
+
+  return library
+    .filter(candidate => candidate.name !== exercise.name)
+    .filter(candidate => candidate.category === exercise.category || !NON_SUBSTITUTE_CATEGORIES.includes(candidate.category))
+    .filter(candidate => candidate.muscleGroups[0] === exercise.muscleGroups[0])
+    .filter(candidate => exercise.muscleGroups.every(group => candidate.muscleGroups.includes(group)))
+    .filter(isAvailable)
+    .map(candidate => ({ candidate, score: score(candidate) }))
+    .sort((a, b) => b.score - a.score || a.candidate.name.localeCompare(b.candidate.name))
+    .map(({ candidate }) => candidate);
+};
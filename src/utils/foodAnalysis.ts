@@ -0,0 +1,122 @@
+export interface DetectedFoodItem {
+  name: string;
+  portionGrams: number;
+  confidence: number; // 0-1, how sure the vision model is of the food
+}
+
+export type FoodLogCorrection =
+  | { action: 'save' }
+  | { action: 'discard' }
+  | { action: 'remove'; name: string }
+  | { action: 'portion'; name: string; portionGrams: number };
+
+// Portions outside this range are misreads rather than meals
+const MIN_PORTION_GRAMS = 5;
+const MAX_PORTION_GRAMS = 2000;
+
+// Only explicit replies, so a yes or no meant for another question
+// (an exercise match, a deload) doesn't save or discard the meal
+const SAVE_WORDS = ['save', 'save it', 'log it', 'save meal', 'log meal'];
+const DISCARD_WORDS = ['discard', 'discard it', 'don\'t save', 'dont save', 'don\'t log it', 'dont log it'];
+
+/**
+ * The food items from a vision model reply. The model is asked for
+ * {"items": [{"name", "portionGrams", "confidence"}]}, but a bare array or
+ * JSON wrapped in prose or a code fence is accepted too. Returns null when
+ * the reply has no usable JSON.
+ */
+export const parseFoodAnalysis = (content: string): DetectedFoodItem[] | null => {
+  const json = extractJson(content);
+  if (json === undefined) return null;
+
+  const rawItems = Array.isArray(json) ? json : json?.items;
+  if (!Array.isArray(rawItems)) return null;
+
+  return rawItems.flatMap((item: any): DetectedFoodItem[] => {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    const portionGrams = Number(item?.portionGrams ?? item?.grams);
+    if (!name || !isFinite(portionGrams) || portionGrams < MIN_PORTION_GRAMS || portionGrams > MAX_PORTION_GRAMS) {
+      return [];
+    }
+
+    const confidence = Number(item.confidence);
+    return [{
+      name,
+      portionGrams: Math.round(portionGrams),
+      confidence: isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    }];
+  });
+};
+
+/**
+ * A reply to a food log awaiting confirmation, e.g. "save", "remove dodo",
+ * "rice 250g" or "discard". Returns null for anything else, including a bare
+ * "yes" or "no".
+ */
+export const parseFoodLogCorrection = (message: string): FoodLogCorrection | null => {
+  const lower = message.toLowerCase().trim().replace(/[.!]+$/, '');
+
+  if (SAVE_WORDS.includes(lower)) return { action: 'save' };
+  if (DISCARD_WORDS.includes(lower)) return { action: 'discard' };
+
+  const removal = lower.match(/^(?:remove|delete|take out|without)\s+(?:the\s+)?(.+)$/);
+  if (removal) return { action: 'remove', name: removal[1].trim() };
+
+  const portion = lower.match(/^(?:(?:the|add)\s+)?(.+?)\s+(?:is\s+|was\s+|=\s*)?(?:about\s+)?(\d+(?:\.\d+)?)\s*(?:g|grams?)$/);
+  if (portion) {
+    const portionGrams = Math.round(parseFloat(portion[2]));
+    if (portionGrams >= MIN_PORTION_GRAMS && portionGrams <= MAX_PORTION_GRAMS) {
+      return { action: 'portion', name: portion[1].trim(), portionGrams };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Apply a removal or portion change to the detected items. A portion for a
+ * food not in the list adds it, as the user knows what they ate.
+ */
+export const applyFoodLogCorrection = (
+  items: DetectedFoodItem[],
+  correction: Extract<FoodLogCorrection, { action: 'remove' | 'portion' }>
+): DetectedFoodItem[] => {
+  const index = findItemIndex(items, correction.name);
+
+  if (correction.action === 'remove') {
+    return index === -1 ? items : items.filter((_, itemIndex) => itemIndex !== index);
+  }
+  if (index === -1) {
+    return [...items, { name: correction.name, portionGrams: correction.portionGrams, confidence: 1 }];
+  }
+  return items.map((item, itemIndex) =>
+    itemIndex === index ? { ...item, portionGrams: correction.portionGrams, confidence: 1 } : item
+  );
+};
+
+// Helper functions
+
+const extractJson = (content: string): any => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = fenced ? fenced[1] : content;
+  const start = text.search(/[[{]/);
+  if (start === -1) return undefined;
+
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+};
+
+// "rice" finds "Jollof Rice", and "jollof rice" finds "Rice"
+const findItemIndex = (items: DetectedFoodItem[], name: string): number => {
+  const wanted = name.toLowerCase();
+  const exact = items.findIndex(item => item.name.toLowerCase() === wanted);
+  if (exact !== -1) return exact;
+  return items.findIndex(item => {
+    const itemName = item.name.toLowerCase();
+    return itemName.includes(wanted) || wanted.includes(itemName);
+  });
+};
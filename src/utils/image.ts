@@ -0,0 +1,72 @@
+import sharp from 'sharp';
+import { createError } from '../middleware/errorHandler';
+
+export interface VisionImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+// Vision models scale anything larger down to about this on the long edge,
+// so bigger images only cost upload time and tokens
+export const MAX_VISION_IMAGE_SIZE = 1568;
+const MAX_VISION_IMAGE_BYTES = 1024 * 1024;
+
+// Formats the vision models accept as they are, by sharp's format name
+export const VISION_MIME_TYPES: { [format: string]: string } = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+/**
+ * Downscale an image to fit the vision model, keeping its format where the
+ * model accepts it. Other formats (HEIC, TIFF...) are converted to JPEG.
+ * Images already small enough are sent as they are. The format is read from
+ * the image itself, as uploads are often labelled with the wrong type.
+ */
+export const prepareVisionImage = async (image: Buffer): Promise<VisionImage> => {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(image).metadata();
+  } catch (error: any) {
+    throw createError(`Unreadable image: ${error.message}`, 400);
+  }
+
+  const format = metadata.format;
+  if (!format || !sharp.format[format]?.input.buffer) {
+    throw createError(`Unreadable image: unsupported format ${format || 'unknown'}`, 400);
+  }
+
+  const mimeType = VISION_MIME_TYPES[format];
+  const fits = (metadata.width || 0) <= MAX_VISION_IMAGE_SIZE &&
+    (metadata.height || 0) <= MAX_VISION_IMAGE_SIZE &&
+    image.length <= MAX_VISION_IMAGE_BYTES;
+  if (fits && mimeType) {
+    return { data: image, mimeType };
+  }
+
+  // rotate() applies the EXIF orientation, which re-encoding drops
+  const resized = sharp(image)
+    .rotate()
+    .resize({
+      width: MAX_VISION_IMAGE_SIZE,
+      height: MAX_VISION_IMAGE_SIZE,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+
+  try {
+    switch (format) {
+      case 'png':
+        return { data: await resized.png().toBuffer(), mimeType: 'image/png' };
+      case 'webp':
+        return { data: await resized.webp({ quality: 80 }).toBuffer(), mimeType: 'image/webp' };
+      default:
+        return { data: await resized.jpeg({ quality: 80 }).toBuffer(), mimeType: 'image/jpeg' };
+    }
+  } catch (error: any) {
+    // The header was readable but the image data isn't, e.g. HEIC without its codec
+    throw createError(`Unreadable image: ${error.message}`, 400);
+  }
+};
@@ -0,0 +1,85 @@
+import { Limitation, LimitationArea } from '../types';
+
+export const LIMITATION_AREAS: LimitationArea[] = [
+  'lower_back', 'knee', 'shoulder', 'wrist', 'elbow', 'hip', 'ankle', 'neck',
+];
+
+// How people describe an injured area
+const LIMITATION_ALIASES: { [area in LimitationArea]: string[] } = {
+  lower_back: ['herniated disc', 'slipped disc', 'lower back', 'back pain', 'sciatica', 'lumbar', 'bad back', 'my back'],
+  knee: ['meniscus', 'patellar', 'patella', 'knees', 'knee', 'acl', 'mcl'],
+  shoulder: ['rotator cuff', 'impingement', 'shoulders', 'shoulder'],
+  wrist: ['carpal tunnel', 'wrists', 'wrist'],
+  elbow: ['tennis elbow', 'golfers elbow', 'elbows', 'elbow'],
+  hip: ['hips', 'hip'],
+  ankle: ['achilles', 'ankles', 'ankle'],
+  neck: ['neck'],
+};
+
+// Exercise names that load or stress each area
+const CONFLICTING_EXERCISES: { [area in LimitationArea]: RegExp } = {
+  lower_back: /\b(deadlift|good morning|barbell row|pendlay row|t bar row|yates row|meadows row|back squat|zercher|back extension|hyperextension|clean|snatch|jerk|thruster|superman)/,
+  knee: /\b(squat|lunge|leg press|leg extension|step up|jump|pistol|burpee|thruster)/,
+  shoulder: /\b(overhead|military|shoulder press|push press|arnold press|seated barbell press|behind the neck|upright row|dip|snatch|jerk|handstand|pike push up|z press|kettlebell press|clean and press)/,
+  wrist: /\b(push up|front squat|clean|snatch|handstand|wrist curl)/,
+  elbow: /\b(skull crusher|tricep extension|close grip|dip|jm press|tate press|preacher curl)/,
+  hip: /\b(sumo|cossack|deep squat|lateral lunge|curtsy lunge|pistol)/,
+  ankle: /\b(jump|sprint|run|skipping|calf raise|burpee|pistol|stair)/,
+  neck: /\b(shrug|neck|upright row)/,
+};
+
+const INJURY_PATTERN = /\b(injur(?:y|ies|ed)|hurt(?:s|ing)?|pain(?:ful)?|strain(?:ed)?|sprain(?:ed)?|torn|tore|pulled|impingement|tendonitis|tendinitis|sciatica|slipped disc|herniated)\b/;
+const RECOVERY_PATTERN = /\b(healed|recovered|better now|(?:is|are) better|fine now|no longer hurts?|(?:doesn'?t|don'?t) hurt(?: anymore)?|cleared)\b/;
+
+const normalize = (text: string): string => {
+  return text.toLowerCase().replace(/[-']/g, ' ').replace(/\s+/g, ' ');
+};
+
+/**
+ * Injured areas named in the text, e.g. "shoulder impingement" → shoulder
+ */
+export const parseLimitationAreas = (text: string): LimitationArea[] => {
+  const normalized = normalize(text);
+  return LIMITATION_AREAS.filter(area =>
+    LIMITATION_ALIASES[area].some(alias => new RegExp(`\\b${alias}\\b`).test(normalized))
+  );
+};
+
+/**
+ * A chat message reporting an injury ("I hurt my knee") or a recovery ("my
+ * knee is better now"), or null when the message isn't about one
+ */
+export const parseLimitationReport = (message: string): { areas: LimitationArea[]; recovered: boolean } | null => {
+  const text = message.toLowerCase();
+  const areas = parseLimitationAreas(text);
+  if (areas.length === 0) {
+    return null;
+  }
+
+  if (RECOVERY_PATTERN.test(text)) {
+    return { areas, recovered: true };
+  }
+  if (INJURY_PATTERN.test(text) || /\b(bad|dodgy|weak|busted)\s+(knee|back|shoulder|wrist|elbow|hip|ankle|neck)s?\b/.test(text)) {
+    return { areas, recovered: false };
+  }
+  return null;
+};
+
+/**
+ * Recorded limitations an exercise is likely to aggravate
+ */
+export const findLimitationConflicts = (exerciseName: string, limitations: Limitation[] = []): LimitationArea[] => {
+  const name = normalize(exerciseName);
+  return [...new Set(limitations.map(limitation => limitation.area))]
+    .filter(area => CONFLICTING_EXERCISES[area]?.test(name));
+};
+
+/**
+ * "lower back and knee"
+ */
+export const describeLimitationAreas = (areas: LimitationArea[]): string => {
+  const names = areas.map(area => area.replace(/_/g, ' '));
+  return names.length <= 1
+    ? names.join('')
+    : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+};
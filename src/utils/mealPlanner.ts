@@ -0,0 +1,304 @@
+import { FoodItem, Meal, MealFood, MealPlan, MacroTargets, NutritionTargets } from '../types';
+
+export type BudgetTier = MealPlan['budgetTier'];
+
+export interface MealPlanTargets {
+  dailyCalories: number;
+  macroTargets: MacroTargets;
+  dailyBudget: number; // in Naira
+}
+
+export interface MealPlanningOptions {
+  culturalPreferences: string[];
+  avoidFoodIds?: string[]; // e.g. the previous plan's foods, to vary the new one
+}
+
+type MealType = Meal['type'];
+
+interface MealSlot {
+  categories: string[];
+  withoutTags?: string[];
+}
+
+interface MealTemplate {
+  type: MealType;
+  calorieShare: number; // of the day's calories and budget
+  // Ways to make up the meal. The first slot is the starch and is portioned
+  // to fill the meal's calories; protein slots are portioned for protein.
+  options: MealSlot[][];
+}
+
+interface Portion {
+  food: FoodItem;
+  grams: number;
+}
+
+// Daily food spend for each budget tier in Naira
+export const DAILY_BUDGETS: { [tier in BudgetTier]: number } = {
+  low: 3500,
+  medium: 7000,
+  high: 15000,
+};
+
+// Dietary tags each preference rules out. Halal here only means no pork or
+// alcohol, as how meat was slaughtered isn't known.
+export const CULTURAL_PREFERENCES: { [preference: string]: string[] } = {
+  no_pork: ['pork'],
+  halal: ['pork', 'alcohol'],
+  no_alcohol: ['alcohol'],
+  vegetarian: ['meat', 'fish'],
+  pescatarian: ['meat'],
+};
+
+// Never planned, though they can still be logged
+const EXCLUDED_TAGS = ['alcohol'];
+
+const LUNCH_AND_DINNER: MealSlot[][] = [
+  [{ categories: ['swallow'] }, { categories: ['soup'] }, { categories: ['protein'] }],
+  [{ categories: ['rice_dish'] }, { categories: ['protein'] }],
+  [{ categories: ['staple'] }, { categories: ['protein'] }],
+];
+
+const MEAL_TEMPLATES: MealTemplate[] = [
+  {
+    type: 'breakfast',
+    calorieShare: 0.25,
+    options: [
+      // Yam and egg, bread and fried fish, pap and akara
+      [{ categories: ['staple'] }, { categories: ['protein'], withoutTags: ['meat'] }],
+      [{ categories: ['staple'] }, { categories: ['street_food'], withoutTags: ['meat'] }],
+    ],
+  },
+  { type: 'lunch', calorieShare: 0.35, options: LUNCH_AND_DINNER },
+  { type: 'dinner', calorieShare: 0.3, options: LUNCH_AND_DINNER },
+  {
+    type: 'snack',
+    calorieShare: 0.1,
+    options: [[{ categories: ['fruit'] }], [{ categories: ['snack'] }], [{ categories: ['drink'] }]],
+  },
+];
+
+// Protein portions tried, as multiples of the typical serving
+const PROTEIN_SCALES = [0.5, 1, 1.5, 2];
+const MIN_STARCH_SCALE = 0.5;
+const MAX_STARCH_SCALE = 2;
+
+// Minutes to make each kind of dish at home; street food is bought ready
+const PREPARATION_MINUTES: { [category: string]: number } = {
+  swallow: 15,
+  soup: 60,
+  rice_dish: 45,
+  staple: 30,
+  protein: 30,
+  street_food: 0,
+  snack: 0,
+  fruit: 5,
+  drink: 0,
+};
+
+// Score penalties that steer the choice between meals that fit
+const SEASONAL_PENALTY = 0.3;
+const RARE_PENALTY = 0.6;
+const REPEAT_PENALTY = 0.5; // food already in another meal that day
+const PREVIOUS_PLAN_PENALTY = 0.15;
+
+/**
+ * The user's calorie and macro targets with the budget for the tier
+ */
+export const calculateMealPlanTargets = (
+  nutrition: Pick<NutritionTargets, 'targetCalories' | 'macroTargets'>,
+  budgetTier: BudgetTier
+): MealPlanTargets => {
+  return {
+    dailyCalories: nutrition.targetCalories,
+    macroTargets: nutrition.macroTargets,
+    dailyBudget: DAILY_BUDGETS[budgetTier],
+  };
+};
+
+/**
+ * Whether a food suits all of the user's cultural and religious preferences
+ */
+export const isFoodAllowed = (food: FoodItem, culturalPreferences: string[]): boolean => {
+  const excludedTags = culturalPreferences.flatMap(preference => CULTURAL_PREFERENCES[preference] || []);
+  return !(food.dietaryTags || []).some(tag => excludedTags.includes(tag));
+};
+
+/**
+ * A day of meals from the food database that comes closest to each meal's
+ * share of the calorie and protein targets within its share of the budget.
+ * Common foods are preferred over seasonal ones, and foods aren't repeated
+ * within the day where something else fits.
+ */
+export const buildMeals = (foods: FoodItem[], targets: MealPlanTargets, options: MealPlanningOptions): Meal[] => {
+  const candidates = foods.filter(food =>
+    food._id &&
+    !(food.dietaryTags || []).some(tag => EXCLUDED_TAGS.includes(tag)) &&
+    isFoodAllowed(food, options.culturalPreferences)
+  );
+  const avoid = new Set(options.avoidFoodIds || []);
+  const usedToday = new Set<string>();
+  const meals: Meal[] = [];
+
+  for (const template of MEAL_TEMPLATES) {
+    const mealTargets = {
+      calories: targets.dailyCalories * template.calorieShare,
+      protein: targets.macroTargets.protein * template.calorieShare,
+      budget: targets.dailyBudget * template.calorieShare,
+    };
+
+    let best: { portions: Portion[]; score: number } | undefined;
+    for (const slots of template.options) {
+      const choices = slots.map(slot => candidates.filter(food =>
+        slot.categories.includes(food.category) &&
+        !(food.dietaryTags || []).some(tag => (slot.withoutTags || []).includes(tag))
+      ));
+      if (choices.some(choice => choice.length === 0)) {
+        continue;
+      }
+
+      for (const combination of combinations(choices)) {
+        for (const portions of portionCombination(combination, slots, mealTargets.calories, mealTargets.protein)) {
+          const score = scoreMeal(portions, mealTargets, usedToday, avoid);
+          if (!best || score < best.score) {
+            best = { portions, score };
+          }
+        }
+      }
+    }
+
+    if (best) {
+      best.portions.forEach(portion => usedToday.add(portion.food._id!.toString()));
+      meals.push(toMeal(template.type, best.portions));
+    }
+  }
+
+  return meals;
+};
+
+/**
+ * Nutrition and cost of a portion of food
+ */
+export const portionNutrition = (food: FoodItem, grams: number): { calories: number; macros: MacroTargets; cost: number } => {
+  return {
+    calories: food.caloriesPerGram * grams,
+    macros: {
+      protein: (food.macros.protein * grams) / 100,
+      carbs: (food.macros.carbs * grams) / 100,
+      fats: (food.macros.fats * grams) / 100,
+    },
+    cost: (food.averagePrice * grams) / 1000,
+  };
+};
+
+// Helper functions
+
+const combinations = <T>(choices: T[][]): T[][] => {
+  return choices.reduce<T[][]>(
+    (partial, choice) => partial.flatMap(combination => choice.map(item => [...combination, item])),
+    [[]]
+  );
+};
+
+const servingGrams = (food: FoodItem): number => food.typicalServing?.grams || 100;
+
+const roundGrams = (grams: number): number => Math.max(10, Math.round(grams / 10) * 10);
+
+/**
+ * The portions to try for a set of foods: each protein scale, with the
+ * starch sized to fill the calories the other foods leave
+ */
+const portionCombination = (foods: FoodItem[], slots: MealSlot[], calories: number, protein: number): Portion[][] => {
+  const proteinIndexes = slots
+    .map((slot, index) => (slot.categories.includes('protein') ? index : -1))
+    .filter(index => index > 0);
+  const scales = proteinIndexes.length > 0 && protein > 0 ? PROTEIN_SCALES : [1];
+
+  return scales.map(scale => {
+    const grams = foods.map((food, index) => servingGrams(food) * (proteinIndexes.includes(index) ? scale : 1));
+    const otherCalories = foods.slice(1).reduce((total, food, index) => total + food.caloriesPerGram * grams[index + 1], 0);
+    const starchCalories = foods[0].caloriesPerGram * grams[0];
+    if (starchCalories > 0) {
+      const starchScale = Math.min(Math.max((calories - otherCalories) / starchCalories, MIN_STARCH_SCALE), MAX_STARCH_SCALE);
+      grams[0] *= starchScale;
+    }
+    return foods.map((food, index) => ({ food, grams: roundGrams(grams[index]) }));
+  });
+};
+
+/**
+ * Lower is better: how far the meal is off its calorie target, how short of
+ * protein and how far over budget, plus penalties for foods that are harder
+ * to find or already eaten
+ */
+const scoreMeal = (
+  portions: Portion[],
+  targets: { calories: number; protein: number; budget: number },
+  usedToday: Set<string>,
+  avoid: Set<string>
+): number => {
+  const totals = portions.reduce(
+    (sum, { food, grams }) => {
+      const nutrition = portionNutrition(food, grams);
+      return {
+        calories: sum.calories + nutrition.calories,
+        protein: sum.protein + nutrition.macros.protein,
+        cost: sum.cost + nutrition.cost,
+      };
+    },
+    { calories: 0, protein: 0, cost: 0 }
+  );
+
+  let score = Math.abs(totals.calories - targets.calories) / targets.calories;
+  if (targets.protein > 0) {
+    score += Math.max(0, targets.protein - totals.protein) / targets.protein;
+  }
+  if (totals.cost > targets.budget) {
+    score += (2 * (totals.cost - targets.budget)) / targets.budget;
+  }
+
+  for (const { food } of portions) {
+    const id = food._id!.toString();
+    if (food.availability === 'seasonal') score += SEASONAL_PENALTY;
+    if (food.availability === 'rare') score += RARE_PENALTY;
+    if (usedToday.has(id)) score += REPEAT_PENALTY;
+    if (avoid.has(id)) score += PREVIOUS_PLAN_PENALTY;
+  }
+
+  return score;
+};
+
+const toMeal = (type: MealType, portions: Portion[]): Meal => {
+  const foods: MealFood[] = portions.map(({ food, grams }) => {
+    const nutrition = portionNutrition(food, grams);
+    return {
+      foodId: food._id!,
+      foodName: food.name,
+      quantity: grams,
+      calories: Math.round(nutrition.calories),
+      macros: roundMacros(nutrition.macros),
+    };
+  });
+  const cost = portions.reduce((total, { food, grams }) => total + portionNutrition(food, grams).cost, 0);
+  const names = portions.map(({ food }) => food.name);
+
+  return {
+    name: names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0],
+    type,
+    foods,
+    totalCalories: foods.reduce((total, food) => total + food.calories, 0),
+    macros: roundMacros({
+      protein: foods.reduce((total, food) => total + food.macros.protein, 0),
+      carbs: foods.reduce((total, food) => total + food.macros.carbs, 0),
+      fats: foods.reduce((total, food) => total + food.macros.fats, 0),
+    }),
+    preparationTime: Math.max(...portions.map(({ food }) => PREPARATION_MINUTES[food.category] ?? 0)),
+    cost: Math.round(cost / 10) * 10,
+  };
+};
+
+const roundMacros = (macros: MacroTargets): MacroTargets => ({
+  protein: Math.round(macros.protein * 10) / 10,
+  carbs: Math.round(macros.carbs * 10) / 10,
+  fats: Math.round(macros.fats * 10) / 10,
+});
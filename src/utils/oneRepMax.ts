@@ -0,0 +1,77 @@
+// Rep-max formulas lose accuracy quickly past this many reps
+export const MAX_REPS_FOR_ESTIMATE = 12;
+
+export interface OneRepMaxEstimates {
+  epley: number;
+  brzycki: number;
+  rpe?: number; // only when the set has an RPE
+}
+
+// Percentage of 1RM that can be lifted for N reps to failure (RPE 10), from
+// the RTS RPE chart. A set of R reps at RPE X is treated as R + (10 - X)
+// reps to failure.
+const PERCENT_OF_MAX_AT_FAILURE = [100, 95.5, 92.2, 89.2, 86.3, 83.7, 81.1, 78.6, 76.2, 73.9, 70.7, 68.0];
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const isEstimable = (weight: number | undefined, reps: number): weight is number => {
+  return !!weight && weight > 0 && reps >= 1 && reps <= MAX_REPS_FOR_ESTIMATE;
+};
+
+export const epleyOneRepMax = (weight: number, reps: number): number => {
+  return reps === 1 ? weight : round(weight * (1 + reps / 30));
+};
+
+export const brzyckiOneRepMax = (weight: number, reps: number): number => {
+  return round(weight * 36 / (37 - reps));
+};
+
+/**
+ * 1RM from the RPE chart, interpolating half-point RPEs. Returns undefined
+ * when the reps left in reserve put the set past the chart.
+ */
+export const rpeOneRepMax = (weight: number, reps: number, rpe: number): number | undefined => {
+  const repsToFailure = reps + (10 - rpe);
+  if (rpe < 6 || rpe > 10 || repsToFailure < 1 || repsToFailure > PERCENT_OF_MAX_AT_FAILURE.length) {
+    return undefined;
+  }
+
+  const lower = Math.floor(repsToFailure);
+  const upper = Math.min(Math.ceil(repsToFailure), PERCENT_OF_MAX_AT_FAILURE.length);
+  const fraction = repsToFailure - lower;
+  const percent = PERCENT_OF_MAX_AT_FAILURE[lower - 1] * (1 - fraction) + PERCENT_OF_MAX_AT_FAILURE[upper - 1] * fraction;
+  return round(weight / (percent / 100));
+};
+
+/**
+ * Every formula's estimate for a set, or undefined for bodyweight sets and
+ * sets too long to say much about maximal strength
+ */
+export const estimateOneRepMaxes = (
+  weight: number | undefined,
+  reps: number,
+  rpe?: number
+): OneRepMaxEstimates | undefined => {
+  if (!isEstimable(weight, reps)) {
+    return undefined;
+  }
+
+  const estimates: OneRepMaxEstimates = {
+    epley: epleyOneRepMax(weight, reps),
+    brzycki: brzyckiOneRepMax(weight, reps),
+  };
+  const fromRpe = rpe !== undefined ? rpeOneRepMax(weight, reps, rpe) : undefined;
+  if (fromRpe !== undefined) {
+    estimates.rpe = fromRpe;
+  }
+  return estimates;
+};
+
+/**
+ * Best single estimate of a one-rep max from a set: the RPE chart when the
+ * set has an RPE, otherwise the Epley formula
+ */
+export const estimateOneRepMax = (weight: number | undefined, reps: number, rpe?: number): number | undefined => {
+  const estimates = estimateOneRepMaxes(weight, reps, rpe);
+  return estimates && (estimates.rpe ?? estimates.epley);
+};
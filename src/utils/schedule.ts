@@ -0,0 +1,133 @@
+import { TimeSlot } from '../types';
+
+export interface RescheduleRequest {
+  from: Date; // 00:00 on the day the workout is on
+  to: Date; // 00:00 on the day to move it to
+  startTime?: string; // HH:MM, when a time was named
+}
+
+export const WEEK_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Used when the user hasn't given any available hours
+const DEFAULT_START_TIME = '18:00';
+
+const DAY_WORDS = 'today|tonight|tomorrow|yesterday|monday|tuesday|wednesday|thursday|friday|saturday|sunday|mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun';
+// "push ups on Sat" is a log, "push it to Sat" a move
+const RESCHEDULE_PATTERN = /\b(?:move|reschedule|shift|postpone)\b|\bpush\s+(?:it|back|my|today'?s?|the)\b|\b(?:couldn'?t|could not|can'?t|cannot|didn'?t|did not|won'?t)\s+(?:go|make it|train|get to the gym)\b/;
+// Only "to Friday" is where it goes: "couldn't train on Friday" is the day missed
+const TARGET_PATTERN = new RegExp(`\\b(?:to|till|until)\\s+(?:next\\s+)?(${DAY_WORDS})\\b`, 'g');
+const SOURCE_PATTERN = new RegExp(`\\b(${DAY_WORDS})(?:'s)?\\b`);
+const TIME_PATTERN = /\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b|\b(?:at\s+)?(\d{1,2}):(\d{2})\b/;
+const WEEK_VIEW_PATTERN = /\b(?:what'?s|what is|show(?: me)?|see|view|check)\b.*\b(?:schedule|calendar|week)\b|\bwhen(?:'s| is| are)\b.*\b(?:next )?(?:workouts?|sessions?|training)\b/;
+
+/**
+ * Monday 00:00 of the week containing date
+ */
+export const startOfWeek = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+/**
+ * 00:00 on date, days later
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number): string => {
+  const wrapped = ((Math.round(minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+/**
+ * The start and end of a workout in the user's available hours: the start of
+ * the first slot long enough, otherwise the start of the longest slot
+ */
+export const findTimeSlot = (slots: TimeSlot[], durationMinutes: number): { startTime: string; endTime: string } => {
+  const length = (slot: TimeSlot) => timeToMinutes(slot.end) - timeToMinutes(slot.start);
+  const slot = slots.find(candidate => length(candidate) >= durationMinutes)
+    || [...slots].sort((a, b) => length(b) - length(a))[0];
+  const start = slot ? timeToMinutes(slot.start) : timeToMinutes(DEFAULT_START_TIME);
+  return { startTime: minutesToTime(start), endTime: minutesToTime(start + durationMinutes) };
+};
+
+/**
+ * The date a day word refers to. Days the workout is moved to are the next
+ * one to come; days it's moved from are in the current week.
+ */
+const resolveDay = (word: string, now: Date, upcoming: boolean): Date => {
+  const today = addDays(now, 0);
+  if (word === 'today' || word === 'tonight') return today;
+  if (word === 'tomorrow') return addDays(today, 1);
+  if (word === 'yesterday') return addDays(today, -1);
+
+  const dayIndex = WEEK_DAYS.findIndex(day => day.toLowerCase().startsWith(word.slice(0, 3)));
+  const todayIndex = (today.getDay() + 6) % 7;
+  if (upcoming) {
+    return addDays(today, ((dayIndex - todayIndex + 6) % 7) + 1);
+  }
+  return addDays(startOfWeek(today), dayIndex);
+};
+
+/**
+ * Parse a request to move a workout, e.g. "I couldn't go today, move it to
+ * tomorrow" or "move Wednesday's workout to Friday at 7pm". The workout
+ * being moved defaults to today's. Null when no day to move it to is named.
+ */
+export const parseRescheduleRequest = (message: string, now: Date = new Date()): RescheduleRequest | null => {
+  const text = message.toLowerCase().replace(/[’‘]/g, '\'');
+  if (!RESCHEDULE_PATTERN.test(text)) {
+    return null;
+  }
+
+  // The last day named is where it goes: "can't make it on Wednesday, move it to Friday"
+  const target = [...text.matchAll(TARGET_PATTERN)].pop();
+  if (!target) {
+    return null;
+  }
+  const to = resolveDay(target[1], now, true);
+
+  const beforeTarget = text.slice(0, target.index);
+  const source = beforeTarget.match(SOURCE_PATTERN);
+  const from = resolveDay(source ? source[1] : 'today', now, false);
+
+  let startTime: string | undefined;
+  const time = text.slice(target.index!).match(TIME_PATTERN);
+  if (time) {
+    const hours = parseInt(time[1] ?? time[4]);
+    const minutes = parseInt(time[2] ?? time[5] ?? '0');
+    const meridiem = time[3];
+    const hours24 = meridiem === 'pm' && hours < 12 ? hours + 12 : meridiem === 'am' && hours === 12 ? 0 : hours;
+    if (hours24 < 24 && minutes < 60) {
+      startTime = minutesToTime(hours24 * 60 + minutes);
+    }
+  }
+
+  return { from, to, ...(startTime && { startTime }) };
+};
+
+/**
+ * Whether the user is asking to see their week of workouts
+ */
+export const isWeekScheduleRequest = (message: string): boolean => {
+  const text = message.toLowerCase();
+  return WEEK_VIEW_PATTERN.test(text) && !/\b(?:report|summary|progress|meal|food)\b/.test(text);
+};
+
+/**
+ * "Wed 15 Oct"
+ */
+export const formatScheduleDay = (date: Date): string => {
+  return date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+};
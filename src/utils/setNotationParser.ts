@@ -0,0 +1,301 @@
+import { SetLog } from '../types';
+
+export interface ParsedSetNotation {
+  exerciseText: string; // what is left of the message once the set notation is removed
+  sets: SetLog[];
+}
+
+interface SetGroup {
+  count: number;
+  set: SetLog;
+}
+
+const WEIGHT_UNIT = '(kgs?|kilos?|kilograms?|lbs?|pounds?)';
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+const KG_PER_LB = 0.453592;
+// Words after a number that make it something other than reps ("5 min plank")
+const NOT_REPS_UNIT = '(?:s|secs?|seconds?|m|mins?|minutes?|h|hrs?|hours?|days?|weeks?|k|km|kms|miles?|times?|am|pm|kgs?|kilos?|lbs?|pounds?)';
+
+// Most people will not do more than this many sets of one exercise, so a
+// bare "AxB" with A above it is read as weight x reps ("60x8")
+const MAX_SETS_IN_NOTATION = 10;
+
+const NUMBER_WORDS: { [word: string]: number } = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20,
+};
+
+const NUMBER_WORD = `(?:${Object.keys(NUMBER_WORDS).join('|')})`;
+const NUMBER_WORD_IN_SET_CONTEXT = new RegExp(
+  `\\b${NUMBER_WORD}\\b(?=\\s*(?:sets?|reps?|x)\\b)|(?<=\\b(?:of|x)\\s*)\\b${NUMBER_WORD}\\b`,
+  'g'
+);
+
+// Words that describe the sets rather than the exercise
+const NOTATION_WORDS = new Set([
+  'set', 'sets', 'rep', 'reps', 'repetition', 'repetitions', 'of', 'x', 'pyramid', 'each', 'per', 'at', 'with', 'between',
+]);
+
+const toKg = (value: number, unit?: string): number => {
+  const kg = unit && /^(lb|pound)/.test(unit) ? value * KG_PER_LB : value;
+  return Math.round(kg * 10) / 10;
+};
+
+const toSeconds = (value: string, unit?: string): number => {
+  if (value.includes(':')) {
+    const [minutes, seconds] = value.split(':').map(Number);
+    return minutes * 60 + seconds;
+  }
+  const amount = parseFloat(value);
+  if (unit) {
+    return Math.round(unit.startsWith('m') ? amount * 60 : amount);
+  }
+  // "rest 2" means minutes, "rest 90" means seconds
+  return Math.round(amount <= 10 ? amount * 60 : amount);
+};
+
+const normalize = (message: string): string => {
+  return message
+    .toLowerCase()
+    .replace(/[×*]/g, 'x')
+    .replace(/→/g, '->')
+    .replace(/\ba\s+set\b/g, '1 set')
+    // only in set context, so "one arm row" keeps its name
+    .replace(NUMBER_WORD_IN_SET_CONTEXT, word => String(NUMBER_WORDS[word]))
+    // split "3x10" style tokens the user typed without spaces from surrounding words
+    .replace(/(\d)(x)(\d)/g, '$1 $2 $3');
+};
+
+/**
+ * Replace each match of pattern in text, handing its groups (the whole match
+ * first) to handler. Parsers take out what they have read this way, so later
+ * patterns don't read it again.
+ */
+export const consumeMatches = (
+  text: string,
+  pattern: RegExp,
+  handler: (groups: string[]) => void,
+  replacement: string = ' '
+): string => {
+  // The replacer gets the groups, then the offset and the whole string
+  return text.replace(pattern, (...match: string[]) => {
+    handler(match.slice(0, -2));
+    return replacement;
+  });
+};
+
+const cleanExerciseText = (text: string): string => {
+  return text
+    .split(/\s+/)
+    .map(token => token.replace(/^[^a-z0-9']+|[^a-z0-9']+$/g, ''))
+    .filter(token => token && !/^\d+(\.\d+)?$/.test(token) && !NOTATION_WORDS.has(token))
+    .join(' ');
+};
+
+/**
+ * Parse the set notation people type in chat into one SetLog per set.
+ *
+ * Understands "3 sets of 10 reps", "3x10", "60x8, 65x6, 70x5", "60kg x 8 x 3",
+ * "bench 3x10 @ RPE 8", "pyramid 12/10/8", "60/65/70kg x 8", "AMRAP 15",
+ * "to failure", "RIR 2", rest times ("rest 90s", "2 min rest") and drop sets
+ * ("100x8 -> 80x6", "drop set 60x10, 40x8"). Bare "AxB" is sets x reps when A
+ * is at most 10, otherwise weight x reps; a unit always marks the weight.
+ * A number after "with" is the weight ("3x10 with 60") and a lone number
+ * before the exercise is one set of reps ("10 pull ups"). Failure without a
+ * rep count ("squats to failure", "3 sets to failure") gives no sets, as a set
+ * can't be logged without its reps.
+ */
+export const parseSetNotation = (message: string): ParsedSetNotation => {
+  let text = normalize(message);
+
+  const consume = (pattern: RegExp, handler: (groups: string[]) => void, replacement?: string): void => {
+    text = consumeMatches(text, pattern, handler, replacement);
+  };
+
+  let restTime: number | undefined;
+  let rpe: number | undefined;
+  let weight: number | undefined;
+  let toFailure = false;
+  let dropChain = false;
+  let bareSetCount: number | undefined;
+  const groups: SetGroup[] = [];
+
+  // Rest between sets
+  consume(/\b(\d+:\d{2})\s*(?:of\s*)?rest\b/g, ([, value]) => {
+    restTime = toSeconds(value);
+  });
+  consume(/\b(\d+(?::\d{2})?)\s*(s|secs?|seconds?|m|mins?|minutes?)\s*(?:of\s*)?rest\b/g, ([, value, unit]) => {
+    restTime = toSeconds(value, unit);
+  });
+  // "rest 3x10" is a rest followed by sets, not a three minute rest
+  consume(/\brest(?:ed|ing)?\s*(?:for\s*)?(\d+(?::\d{2})?)\s*(s|secs?|seconds?|m|mins?|minutes?)?\b(?!\s*x\b)/g, ([, value, unit]) => {
+    restTime = toSeconds(value, unit);
+  });
+
+  // AMRAP with a rep count is a single set taken to failure
+  consume(/\bamrap\s*:?\s*(?:of\s*)?(\d+)(?:\s*reps?)?\b/g, ([, reps]) => {
+    groups.push({ count: 1, set: { reps: parseInt(reps), toFailure: true } });
+  });
+  consume(/\b(\d+)\s*(?:reps?\s*)?\(?\s*amrap\s*\)?/g, ([, reps]) => {
+    groups.push({ count: 1, set: { reps: parseInt(reps), toFailure: true } });
+  });
+  consume(/\b(?:(?:to|till|til|until)\s*(?:muscle\s*)?fail(?:ure)?|failure|amrap)\b/g, () => {
+    toFailure = true;
+  });
+
+  // Drop sets: "drop set" marks the chain, arrows and "dropped to" separate its sets
+  consume(/\bdrop\s*-?\s*sets?\b|\bdropsets?\b/g, () => {
+    dropChain = true;
+  });
+  consume(/\s*(?:->|=>|>|\bdrop(?:ped|ping)?\s*(?:down\s*)?to\b|\bdropped\b)\s*/g, () => {
+    dropChain = true;
+  }, ' , ');
+
+  // Slash lists: reps per set ("12/10/8"), or weights per set ("60/65/70kg x 8")
+  consume(new RegExp(`\\b(\\d+(?:\\.\\d+)?(?:\\s*\\/\\s*\\d+(?:\\.\\d+)?)+)\\s*${WEIGHT_UNIT}(?:\\s*x\\s*(\\d+))?(?:\\s*reps?)?`, 'g'), ([, list, unit, reps]) => {
+    for (const value of list.split('/')) {
+      groups.push({ count: 1, set: { reps: reps ? parseInt(reps) : 0, weight: toKg(parseFloat(value), unit) } });
+    }
+  });
+  consume(/\b(\d+(?:\s*\/\s*\d+)+)(?:\s*reps?)?\b/g, ([, list]) => {
+    for (const reps of list.split('/')) {
+      groups.push({ count: 1, set: { reps: parseInt(reps) } });
+    }
+  });
+  consume(/\b(\d+(?:\s*,\s*\d+)+)\s*reps?\b/g, ([, list]) => {
+    for (const reps of list.split(',')) {
+      groups.push({ count: 1, set: { reps: parseInt(reps) } });
+    }
+  });
+
+  // "AxB", "AxBxC" with optional units and a per-set "@ RPE"
+  const setToken = new RegExp(
+    `${NUMBER}\\s*${WEIGHT_UNIT}?\\s*x\\s*${NUMBER}\\s*${WEIGHT_UNIT}?` +
+    `(?:\\s*x\\s*${NUMBER}\\s*${WEIGHT_UNIT}?)?(?:\\s*reps?)?` +
+    `(?:\\s*@\\s*(?:rpe\\s*)?${NUMBER}(?!\\s*(?:\\d|${WEIGHT_UNIT})))?`,
+    'g'
+  );
+  consume(setToken, ([, a, unitA, b, unitB, c, unitC, at]) => {
+    const first = parseFloat(a);
+    const second = parseFloat(b);
+    const group: SetGroup = { count: 1, set: { reps: Math.round(second) } };
+
+    if (c !== undefined) {
+      const third = parseFloat(c);
+      if (unitB) {
+        // reps x weight x sets
+        group.count = Math.round(third);
+        group.set.reps = Math.round(first);
+        group.set.weight = toKg(second, unitB);
+      } else if (unitC || (!unitA && first <= MAX_SETS_IN_NOTATION && third > MAX_SETS_IN_NOTATION)) {
+        // sets x reps x weight
+        group.count = first;
+        group.set.weight = toKg(third, unitC);
+      } else {
+        // weight x reps x sets
+        group.count = Math.round(third);
+        group.set.weight = toKg(first, unitA);
+      }
+    } else if (unitA) {
+      group.set.weight = toKg(first, unitA);
+    } else if (unitB) {
+      // reps x weight
+      group.set.reps = Math.round(first);
+      group.set.weight = toKg(second, unitB);
+    } else if (Number.isInteger(first) && first <= MAX_SETS_IN_NOTATION) {
+      group.count = first;
+    } else {
+      group.set.weight = toKg(first);
+    }
+
+    if (at !== undefined) {
+      const value = parseFloat(at);
+      if (value <= 10) {
+        group.set.rpe = value;
+      } else if (group.set.weight === undefined) {
+        group.set.weight = toKg(value);
+      }
+    }
+
+    groups.push(group);
+  });
+
+  // Sets and reps spelled out
+  consume(/\b(\d+)\s*sets?\s*(?:of|x|for|,)?\s*(\d+)\s*(?:reps?|repetitions?)?\b/g, ([, count, reps]) => {
+    groups.push({ count: parseInt(count), set: { reps: parseInt(reps) } });
+  });
+  consume(/\b(\d+)\s*(?:reps?|repetitions?)\s*(?:x|for|of|,)?\s*(\d+)\s*sets?\b/g, ([, reps, count]) => {
+    groups.push({ count: parseInt(count), set: { reps: parseInt(reps) } });
+  });
+  consume(/\b(\d+)\s*(?:reps?|repetitions?)\b/g, ([, reps]) => {
+    groups.push({ count: 0, set: { reps: parseInt(reps) } }); // count filled from a bare "N sets"
+  });
+  consume(/\b(\d+)\s*sets?\b/g, ([, count]) => {
+    bareSetCount = parseInt(count);
+  });
+
+  // Effort, in either RPE or reps in reserve
+  consume(/@?\s*\brpe\s*:?\s*(\d+(?:\.\d+)?)/g, ([, value]) => {
+    rpe = parseFloat(value);
+  });
+  consume(/\b(?:rir\s*:?\s*(\d+)|(\d+)\s*rir)\b/g, ([, before, after]) => {
+    rpe = 10 - parseInt(before ?? after);
+  });
+
+  // One weight for every set
+  consume(new RegExp(`(?:@|\\bat\\b|\\bwith\\b)?\\s*${NUMBER}\\s*${WEIGHT_UNIT}\\b`, 'g'), ([, value, unit]) => {
+    weight = weight ?? toKg(parseFloat(value), unit);
+  });
+  // "with 60" is a weight, whatever the number
+  consume(/\bwith\s*(\d+(?:\.\d+)?)(?![\d.:]|\s*[a-z])/g, ([, value]) => {
+    weight = weight ?? parseFloat(value);
+  });
+  // A number after "@" or "at" without a unit: RPE up to 10, otherwise kg
+  consume(/(?:@|\bat\b)\s*(\d+(?:\.\d+)?)(?![\d.:]|\s*(?:am|pm)\b)/g, ([, value]) => {
+    const number = parseFloat(value);
+    if (number <= 10) {
+      rpe = rpe ?? number;
+    } else {
+      weight = weight ?? number;
+    }
+  });
+
+  // "10 pull ups": a lone number before the exercise is one set of that many
+  // reps, when nothing else follows ("2 dumbbells, no barbell" isn't a set)
+  if (groups.length === 0 && bareSetCount === undefined) {
+    consume(new RegExp(`(?<=^\\s*(?:(?:i|just|did|done)\\s+)*)(\\d+)\\s+(?=[a-z' ]+[.!]*\\s*$)(?!${NOT_REPS_UNIT}\\b)`), ([, reps]) => {
+      groups.push({ count: 1, set: { reps: parseInt(reps) } });
+    });
+  }
+
+  // Pair a weight list with a rep list: "12/10/8 with 60/65/70kg"
+  const weightOnly = groups.filter(group => group.set.reps === 0);
+  const repsOnly = groups.filter(group => group.set.reps > 0 && group.set.weight === undefined);
+  if (weightOnly.length > 0 && weightOnly.length === repsOnly.length) {
+    repsOnly.forEach((group, index) => {
+      group.set.weight = weightOnly[index].set.weight;
+    });
+  }
+
+  const sets: SetLog[] = [];
+  for (const group of groups) {
+    const count = group.count || bareSetCount || 1;
+    for (let i = 0; i < count; i++) {
+      sets.push({ ...group.set });
+    }
+  }
+
+  sets.forEach((set, index) => {
+    if (set.weight === undefined && weight !== undefined) set.weight = weight;
+    if (set.rpe === undefined && rpe !== undefined) set.rpe = rpe;
+    if (restTime !== undefined) set.restTime = restTime;
+    if (toFailure) set.toFailure = true;
+    if (dropChain && index > 0) set.dropSet = true;
+  });
+
+  return {
+    exerciseText: cleanExerciseText(text),
+    // A weight list without reps ("60/65/70kg") is not a complete set
+    sets: sets.filter(set => set.reps > 0),
+  };
+};
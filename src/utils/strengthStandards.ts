@@ -0,0 +1,76 @@
+import { UserProfile } from '../types';
+
+export type StrengthLevel = 'beginner' | 'novice' | 'intermediate' | 'advanced' | 'elite';
+
+export const STRENGTH_LEVELS: StrengthLevel[] = ['beginner', 'novice', 'intermediate', 'advanced', 'elite'];
+
+// 1RM as a multiple of bodyweight needed to reach each level, keyed by
+// library exercise name. Lifts without a standard are not rated.
+const STRENGTH_STANDARDS: { [exerciseName: string]: Record<StrengthLevel, number> } = {
+  'Barbell Back Squat': { beginner: 0.75, novice: 1.25, intermediate: 1.5, advanced: 2.25, elite: 2.75 },
+  'Front Squat': { beginner: 0.6, novice: 1.0, intermediate: 1.25, advanced: 1.75, elite: 2.25 },
+  'Barbell Bench Press': { beginner: 0.5, novice: 0.75, intermediate: 1.0, advanced: 1.5, elite: 2.0 },
+  'Incline Barbell Bench Press': { beginner: 0.4, novice: 0.65, intermediate: 0.9, advanced: 1.25, elite: 1.6 },
+  'Conventional Deadlift': { beginner: 1.0, novice: 1.5, intermediate: 2.0, advanced: 2.5, elite: 3.0 },
+  'Romanian Deadlift': { beginner: 0.75, novice: 1.0, intermediate: 1.5, advanced: 2.0, elite: 2.5 },
+  'Overhead Press': { beginner: 0.35, novice: 0.55, intermediate: 0.75, advanced: 1.0, elite: 1.25 },
+  'Barbell Row': { beginner: 0.5, novice: 0.75, intermediate: 1.0, advanced: 1.5, elite: 1.75 },
+  'Hip Thrust': { beginner: 0.75, novice: 1.25, intermediate: 1.75, advanced: 2.5, elite: 3.0 },
+  'Barbell Curl': { beginner: 0.2, novice: 0.4, intermediate: 0.6, advanced: 0.85, elite: 1.1 },
+};
+
+// The level someone with this much training can be expected to lift at
+const EXPECTED_LEVEL: Record<UserProfile['experienceLevel'], StrengthLevel> = {
+  beginner: 'novice',
+  intermediate: 'intermediate',
+  advanced: 'advanced',
+};
+
+export interface StrengthRating {
+  level: StrengthLevel;
+  bodyweightRatio: number;
+  nextLevel?: StrengthLevel;
+  nextLevelOneRepMax?: number; // kg needed for the next level
+}
+
+/**
+ * Rate a one-rep max against bodyweight-relative standards. Returns
+ * undefined for lifts without a standard or without a bodyweight.
+ */
+export const rateStrength = (
+  exerciseName: string,
+  oneRepMax: number,
+  bodyweight: number
+): StrengthRating | undefined => {
+  const standard = STRENGTH_STANDARDS[exerciseName];
+  if (!standard || !bodyweight || bodyweight <= 0) {
+    return undefined;
+  }
+
+  const bodyweightRatio = Math.round((oneRepMax / bodyweight) * 100) / 100;
+  // Everyone starts at beginner, even below the beginner standard
+  const reached = STRENGTH_LEVELS.filter(level => bodyweightRatio >= standard[level]);
+  const level = reached.length > 0 ? reached[reached.length - 1] : 'beginner';
+  const nextLevel = STRENGTH_LEVELS.slice(STRENGTH_LEVELS.indexOf(level) + 1)
+    .find(candidate => standard[candidate] > bodyweightRatio);
+
+  return {
+    level,
+    bodyweightRatio,
+    ...(nextLevel && {
+      nextLevel,
+      nextLevelOneRepMax: Math.round(standard[nextLevel] * bodyweight * 10) / 10,
+    }),
+  };
+};
+
+export const expectedStrengthLevel = (experienceLevel: UserProfile['experienceLevel']): StrengthLevel => {
+  return EXPECTED_LEVEL[experienceLevel];
+};
+
+/**
+ * Compare two levels: negative when `level` is below `other`
+ */
+export const compareStrengthLevels = (level: StrengthLevel, other: StrengthLevel): number => {
+  return STRENGTH_LEVELS.indexOf(level) - STRENGTH_LEVELS.indexOf(other);
+};
@@ -1,5 +1,7 @@
 import Joi from 'joi';
-import { UserProfile, UserSchedule, UserPreferences } from '../types';
+import { UserProfile, UserSchedule, UserPreferences, SetLog, CardioLogInput, Gender, ActivityLevel, NutritionTargets } from '../types';
+import { LIMITATION_AREAS } from './limitations';
+import { CARDIO_ACTIVITIES } from './cardio';
 
 // BMI calculation utility
 export const calculateBMI = (weight: number, height: number): number => {
@@ -8,33 +10,31 @@ export const calculateBMI = (weight: number, height: number): number => {
   return Math.round((weight / (heightInMeters * heightInMeters)) * 10) / 10;
 };
 
+// Mifflin-St Jeor basal metabolic rate in kcal a day
+export const calculateBMR = (weight: number, height: number, age: number, gender: Gender): number => {
+  const bmr = 10 * weight + 6.25 * height - 5 * age;
+  return gender === 'male' ? bmr + 5 : bmr - 161;
+};
+
+// Activity multipliers
+export const ACTIVITY_MULTIPLIERS: { [level in ActivityLevel]: number } = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9
+};
+
 // Calorie calculation based on BMI and goals
 export const calculateDailyCalories = (
   weight: number, 
   height: number, 
   age: number, 
-  gender: 'male' | 'female', 
-  activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active',
+  gender: Gender, 
+  activityLevel: ActivityLevel,
   goal: 'lean' | 'bulk' | 'maintain'
 ): number => {
-  // Mifflin-St Jeor Equation
-  let bmr: number;
-  if (gender === 'male') {
-    bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-  } else {
-    bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-  }
-
-  // Activity multipliers
-  const activityMultipliers = {
-    sedentary: 1.2,
-    light: 1.375,
-    moderate: 1.55,
-    active: 1.725,
-    very_active: 1.9
-  };
-
-  const tdee = bmr * activityMultipliers[activityLevel];
+  const tdee = calculateBMR(weight, height, age, gender) * ACTIVITY_MULTIPLIERS[activityLevel];
 
   // Goal adjustments
   switch (goal) {
@@ -48,6 +48,53 @@ export const calculateDailyCalories = (
   }
 };
 
+// Protein in g per kg of body weight for each goal
+const PROTEIN_PER_KG: { [goal in UserProfile['fitnessGoal']]: number } = {
+  lean: 2.0, // high protein keeps muscle in a deficit
+  bulk: 1.8,
+  maintain: 1.6,
+};
+
+const FAT_CALORIE_SHARE = 0.25;
+
+// Activity level from how often the user trains, for profiles without one
+export const activityLevelFromWorkouts = (workoutDaysPerWeek: number): ActivityLevel => {
+  if (workoutDaysPerWeek <= 0) return 'sedentary';
+  if (workoutDaysPerWeek <= 2) return 'light';
+  if (workoutDaysPerWeek <= 4) return 'moderate';
+  if (workoutDaysPerWeek <= 6) return 'active';
+  return 'very_active';
+};
+
+/**
+ * BMR, TDEE, calories for the goal and macros: protein by body weight, a
+ * quarter of calories from fat and the rest from carbs. Without a gender the
+ * male and female equations are averaged.
+ */
+export const calculateNutritionTargets = (profile: UserProfile, workoutDaysPerWeek: number): NutritionTargets => {
+  const { weight, height, age, fitnessGoal } = profile;
+  const activityLevel = profile.activityLevel || activityLevelFromWorkouts(workoutDaysPerWeek);
+  const genders: Gender[] = profile.gender ? [profile.gender] : ['male', 'female'];
+  const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+  const bmr = average(genders.map(gender => calculateBMR(weight, height, age, gender)));
+  const targetCalories = Math.round(average(genders.map(gender =>
+    calculateDailyCalories(weight, height, age, gender, activityLevel, fitnessGoal)
+  )));
+
+  const protein = Math.round(weight * PROTEIN_PER_KG[fitnessGoal]);
+  const fats = Math.round((targetCalories * FAT_CALORIE_SHARE) / 9);
+  const carbs = Math.max(0, Math.round((targetCalories - protein * 4 - fats * 9) / 4));
+
+  return {
+    bmr: Math.round(bmr),
+    tdee: Math.round(bmr * ACTIVITY_MULTIPLIERS[activityLevel]),
+    targetCalories,
+    macroTargets: { protein, carbs, fats },
+    calculatedAt: new Date(),
+  };
+};
+
 // Validation schemas
 export const userProfileSchema = Joi.object<UserProfile>({
   name: Joi.string().min(1).max(100).required(),
@@ -58,6 +105,15 @@ export const userProfileSchema = Joi.object<UserProfile>({
   fitnessGoal: Joi.string().valid('lean', 'bulk', 'maintain').required(),
   trainingPhilosophy: Joi.string().valid('mentzer', 'arnold', 'custom').required(),
   experienceLevel: Joi.string().valid('beginner', 'intermediate', 'advanced').required(),
+  gender: Joi.string().valid('male', 'female').optional(),
+  activityLevel: Joi.string().valid(...Object.keys(ACTIVITY_MULTIPLIERS)).optional(),
+  limitations: Joi.array().items(
+    Joi.object({
+      area: Joi.string().valid(...LIMITATION_AREAS).required(),
+      notes: Joi.string().max(200).optional(),
+      since: Joi.date().optional(),
+    })
+  ).max(LIMITATION_AREAS.length).optional(),
 });
 
 export const userScheduleSchema = Joi.object<UserSchedule>({
@@ -78,6 +134,25 @@ export const userPreferencesSchema = Joi.object<UserPreferences>({
   conversationStyle: Joi.string().valid('casual', 'professional', 'motivational').required(),
 });
 
+export const setLogSchema = Joi.object<SetLog>({
+  reps: Joi.number().integer().min(0).max(1000).required(),
+  weight: Joi.number().min(0).max(1000).optional(),
+  rpe: Joi.number().min(1).max(10).optional(),
+  restTime: Joi.number().integer().min(0).max(3600).optional(),
+  toFailure: Joi.boolean().optional(),
+  dropSet: Joi.boolean().optional(),
+});
+
+export const cardioLogSchema = Joi.object<CardioLogInput>({
+  activity: Joi.string().valid(...CARDIO_ACTIVITIES).required(),
+  durationMinutes: Joi.number().min(1).max(1440).required(),
+  distanceKm: Joi.number().min(0).max(1000).optional(),
+  averageHeartRate: Joi.number().integer().min(30).max(250).optional(),
+  caloriesBurned: Joi.number().min(0).max(10000).optional(),
+  performedAt: Joi.date().optional(),
+  notes: Joi.string().max(500).optional(),
+});
+
 export const gymLocationSchema = Joi.object({
   address: Joi.string().min(1).required(),
   coordinates: Joi.array().items(Joi.number()).length(2).required(),
@@ -111,6 +186,22 @@ export const validateUserPreferences = (preferences: UserPreferences): { error?:
   return { value };
 };
 
+export const validateSetLog = (set: SetLog): { error?: string; value?: SetLog } => {
+  const { error, value } = setLogSchema.validate(set);
+  if (error) {
+    return { error: error.details[0].message };
+  }
+  return { value };
+};
+
+export const validateCardioLog = (cardio: CardioLogInput): { error?: string; value?: CardioLogInput } => {
+  const { error, value } = cardioLogSchema.validate(cardio);
+  if (error) {
+    return { error: error.details[0].message };
+  }
+  return { value };
+};
+
 // Nigerian-specific validation helpers
 export const validateNigerianPhoneNumber = (phone: string): boolean => {
   // Nigerian phone number patterns
@@ -136,6 +227,11 @@ export const sanitizeString = (str: string): string => {
   return str.trim().replace(/[<>]/g, '');
 };
 
+// Text matched literally inside a RegExp or $regex
+export const escapeRegex = (text: string): string => {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
 export const sanitizeNumber = (num: any): number | null => {
   const parsed = parseFloat(num);
   return isNaN(parsed) ? null : parsed;